@@ -1,12 +1,19 @@
 import { useState, useEffect, useRef } from "react";
 import "./App.css";
-import socket from "./socket";
+import socket, { TOKEN_KEY } from "./socket";
 import Lobby from "./components/Lobby";
+import type { BotLevel } from "./components/Lobby";
 import GameRoom from "./components/GameRoom";
 import Header from "./components/Header";
+import ReplayViewer from "./components/ReplayViewer";
+import type { ClockSnapshot } from "./components/GameRoom";
 import Toasts from "./components/Toast";
 import type { ToastItem } from "./components/Toast";
 import type { AuthUser } from "./components/GoogleLogin";
+import type { RuleSet } from "./rules";
+import type { Challenge } from "./friends";
+import type { SpectatorDelay } from "./spectators";
+import ChallengePrompt from "./components/ChallengePrompt";
 
 interface GameState {
   roomId: string;
@@ -30,15 +37,28 @@ function App() {
   const [user, setUser] = useState<AuthUser | null>(() => {
     try {
       const raw = localStorage.getItem("zcaro_user");
-      return raw ? (JSON.parse(raw) as AuthUser) : null;
+      // a stored profile without a session token cannot authenticate the socket
+      if (!raw || !localStorage.getItem(TOKEN_KEY)) return null;
+      return JSON.parse(raw) as AuthUser;
     } catch {
       return null;
     }
   });
   const [gameState, setGameState] = useState<GameState | null>(null);
+  const [clock, setClock] = useState<ClockSnapshot | null>(null);
+  // Finished game opened via a shareable ?replay=<gameId> link
+  const [replayId, setReplayId] = useState<string | null>(() => {
+    try {
+      return new URL(window.location.href).searchParams.get("replay");
+    } catch {
+      return null;
+    }
+  });
   const [isWaiting, setIsWaiting] = useState(false);
   const [mySocketId, setMySocketId] = useState<string>("");
   const [toasts, setToasts] = useState<ToastItem[]>([]);
+  // challenges from friends waiting for our answer, oldest first
+  const [challenges, setChallenges] = useState<Challenge[]>([]);
   const stickyToastRef = useRef<string | null>(null);
 
   const addToast = (message: string, type: ToastItem["type"] = "info") => {
@@ -81,6 +101,13 @@ function App() {
     }
   };
 
+  // Store the server clock snapshot (if the event carried one) with the local
+  // receive time so GameRoom can count down from it
+  const applyClock = (snapshot?: Omit<ClockSnapshot, "receivedAt"> | null) => {
+    if (snapshot === undefined) return;
+    setClock(snapshot ? { ...snapshot, receivedAt: Date.now() } : null);
+  };
+
   const removeToast = (id: string) => {
     setToasts((s) => s.filter((t) => t.id !== id));
   };
@@ -91,14 +118,23 @@ function App() {
       if (socket.id) {
         setMySocketId(socket.id);
         console.log("Connected:", socket.id);
-        // If we have a logged-in user, identify the socket with server
-        if (user?._id) {
-          socket.emit("identify", { userId: user._id });
-        }
         // If there's a room in the URL query (deep link) prefer that, else fallback to localStorage
         try {
           const url = new URL(window.location.href);
           const roomFromUrl = url.searchParams.get("room");
+          // An invite link (see invites.ts) joins the room; the token is
+          // dropped from the address bar once used
+          const invite = url.searchParams.get("invite");
+          if (roomFromUrl && invite) {
+            socket.emit("join-room", {
+              roomId: roomFromUrl,
+              playerName: user?.name || "",
+              invite,
+            });
+            url.searchParams.delete("invite");
+            window.history.replaceState({}, "", url.toString());
+            return;
+          }
           const last = roomFromUrl || localStorage.getItem("zcaro_last_room");
           if (last) {
             socket.emit("request-room-state", { roomId: last });
@@ -119,11 +155,14 @@ function App() {
       "room-created",
       ({
         gameState: newGameState,
+        clock: snapshot,
       }: {
         roomId: string;
         gameState: GameState;
+        clock?: ClockSnapshot | null;
       }) => {
         setPersistedGameState(newGameState);
+        applyClock(snapshot);
         setIsWaiting(true);
         addToast(`Tạo phòng thành công: ${newGameState.roomId}`, "success");
       }
@@ -141,8 +180,15 @@ function App() {
     // Handle game started
     socket.on(
       "game-started",
-      ({ gameState: newGameState }: { gameState: GameState }) => {
+      ({
+        gameState: newGameState,
+        clock: snapshot,
+      }: {
+        gameState: GameState;
+        clock?: ClockSnapshot | null;
+      }) => {
         setPersistedGameState(newGameState);
+        applyClock(snapshot);
         setIsWaiting(false);
         console.debug(
           "socket event game-started",
@@ -179,8 +225,15 @@ function App() {
     // Handle move made
     socket.on(
       "move-made",
-      ({ gameState: newGameState }: { gameState: GameState }) => {
+      ({
+        gameState: newGameState,
+        clock: snapshot,
+      }: {
+        gameState: GameState;
+        clock?: ClockSnapshot | null;
+      }) => {
         setPersistedGameState(newGameState);
+        applyClock(snapshot);
         console.debug(
           "socket event move-made",
           (newGameState as unknown as Record<string, unknown>)["winningCells"]
@@ -194,6 +247,31 @@ function App() {
       addToast(error, "error");
     });
 
+    // Payload rejected by the server's validation / rate limit
+    socket.on(
+      "request-error",
+      ({ code, message }: { event: string; code: string; message: string }) => {
+        console.warn("Request error:", code, message);
+        addToast(
+          code === "rate-limited"
+            ? "Thao tác quá nhanh, vui lòng thử lại sau"
+            : code === "server-draining"
+            ? "Máy chủ đang khởi động lại, vui lòng thử lại sau giây lát"
+            : message || "Yêu cầu không hợp lệ",
+          "error"
+        );
+      }
+    );
+
+    // The server is restarting; rooms are saved and resumed after the
+    // automatic reconnect (see the "connect" handler above)
+    socket.on("server-restarting", () => {
+      addToast(
+        "Máy chủ đang khởi động lại, ván đấu sẽ được tiếp tục sau khi kết nối lại",
+        "info"
+      );
+    });
+
     // Handle opponent left
     socket.on("opponent-left", () => {
       addToast("Đối thủ đã rời phòng!", "info");
@@ -219,9 +297,16 @@ function App() {
     // Handle game ended (server-side forfeit / timeout or normal end)
     socket.on(
       "game-ended",
-      ({ gameState: newGameState }: { gameState: GameState }) => {
+      ({
+        gameState: newGameState,
+        clock: snapshot,
+      }: {
+        gameState: GameState;
+        clock?: ClockSnapshot | null;
+      }) => {
         console.debug("socket event game-ended received", newGameState);
         setPersistedGameState(newGameState);
+        applyClock(snapshot);
         // remove any persistent "game started" toast
         if (stickyToastRef.current) {
           removeToast(stickyToastRef.current);
@@ -245,6 +330,17 @@ function App() {
       );
     });
 
+    // The handshake token was rejected (expired or revoked): drop the stale
+    // session and reconnect as a guest
+    socket.on("connect_error", (err: Error) => {
+      if (err.message !== "unauthorized") return;
+      localStorage.removeItem("zcaro_user");
+      localStorage.removeItem(TOKEN_KEY);
+      setUser(null);
+      addToast("Phiên đăng nhập đã hết hạn, vui lòng đăng nhập lại", "error");
+      socket.connect();
+    });
+
     // Identification results
     socket.on("identified", () => {
       addToast("Đăng nhập thành công", "success");
@@ -261,12 +357,53 @@ function App() {
     // Response to a requested room state (used after page refresh)
     socket.on(
       "room-state",
-      ({ gameState: newGameState }: { gameState: GameState }) => {
+      ({
+        gameState: newGameState,
+        clock: snapshot,
+      }: {
+        gameState: GameState;
+        clock?: ClockSnapshot | null;
+      }) => {
         if (newGameState) setPersistedGameState(newGameState);
+        applyClock(snapshot);
       }
     );
 
+    // Friends and challenges (see components/Friends.tsx). Components listen
+    // to some of these events too, so only our own handlers are removed.
+    const onFriendRequest = ({ from }: { from: { name: string } }) => {
+      addToast(`${from.name} muốn kết bạn với bạn`, "info");
+    };
+    const onChallengeReceived = ({ challenge }: { challenge: Challenge }) => {
+      setChallenges((list) => [
+        ...list.filter((c) => c.id !== challenge.id),
+        challenge,
+      ]);
+    };
+    const dropChallenge = ({ challengeId }: { challengeId: string }) => {
+      setChallenges((list) => list.filter((c) => c.id !== challengeId));
+    };
+    const onChallengeExpired = (payload: { challengeId: string }) => {
+      dropChallenge(payload);
+      addToast("Lời thách đấu đã hết hạn", "info");
+    };
+    const onChallengeDeclined = ({ by }: { by: { name: string } }) => {
+      addToast(`${by.name} đã từ chối lời thách đấu`, "info");
+    };
+    socket.on("friend-request-received", onFriendRequest);
+    socket.on("challenge-received", onChallengeReceived);
+    socket.on("challenge-closed", dropChallenge);
+    socket.on("challenge-cancelled", dropChallenge);
+    socket.on("challenge-expired", onChallengeExpired);
+    socket.on("challenge-declined", onChallengeDeclined);
+
     return () => {
+      socket.off("friend-request-received", onFriendRequest);
+      socket.off("challenge-received", onChallengeReceived);
+      socket.off("challenge-closed", dropChallenge);
+      socket.off("challenge-cancelled", dropChallenge);
+      socket.off("challenge-expired", onChallengeExpired);
+      socket.off("challenge-declined", onChallengeDeclined);
       socket.off("connect");
       socket.off("room-created");
       socket.off("room-joined");
@@ -278,12 +415,15 @@ function App() {
       socket.off("matchmaking-cancelled");
       socket.off("move-made");
       socket.off("move-error");
+      socket.off("request-error");
+      socket.off("server-restarting");
       socket.off("opponent-left");
       socket.off("room-full");
       socket.off("room-not-found");
       socket.off("room-exists");
       socket.off("identified");
       socket.off("identify-failed");
+      socket.off("connect_error");
       socket.off("room-state");
     };
   }, [user]);
@@ -295,7 +435,10 @@ function App() {
 
   const handleSignOut = () => {
     localStorage.removeItem("zcaro_user");
+    localStorage.removeItem(TOKEN_KEY);
     setUser(null);
+    // reconnect so the server forgets the signed-in identity of this socket
+    socket.disconnect().connect();
   };
 
   const handleFindMatch = (playerName: string) => {
@@ -311,14 +454,39 @@ function App() {
     socket.emit("find-match", { playerName });
   };
 
-  const handleCreateRoom = (playerName: string, roomId: string) => {
+  const handlePlayBot = (playerName: string, level: BotLevel) => {
+    const name = user?.name || playerName;
+    socket.emit("play-bot", { playerName: name, level });
+  };
+
+  const handleCreateRoom = (
+    playerName: string,
+    roomId: string,
+    rules: RuleSet,
+    boardSize: number,
+    allowSpectators: boolean,
+    spectatorDelay: SpectatorDelay | null,
+    bestOf: number | null
+  ) => {
     const name = user?.name || playerName;
-    socket.emit("create-room", { playerName: name, roomId });
+    socket.emit("create-room", {
+      playerName: name,
+      roomId,
+      rules,
+      boardSize,
+      allowSpectators,
+      spectatorDelay,
+      bestOf,
+    });
   };
 
-  const handleJoinRoom = (roomId: string, playerName: string) => {
+  const handleJoinRoom = (
+    roomId: string,
+    playerName: string,
+    invite?: string
+  ) => {
     const name = user?.name || playerName;
-    socket.emit("join-room", { roomId, playerName: name });
+    socket.emit("join-room", { roomId, playerName: name, invite });
   };
 
   const handleSpectateRoom = (roomId: string, playerName: string) => {
@@ -331,6 +499,11 @@ function App() {
     setIsWaiting(false);
   };
 
+  const handleRespondChallenge = (challengeId: string, accept: boolean) => {
+    socket.emit("challenge-respond", { challengeId, accept });
+    setChallenges((list) => list.filter((c) => c.id !== challengeId));
+  };
+
   const handleMakeMove = (roomId: string, row: number, col: number) => {
     socket.emit("make-move", { roomId, row, col });
   };
@@ -357,10 +530,22 @@ function App() {
     }
   };
 
+  const handleCloseReplay = () => {
+    setReplayId(null);
+    try {
+      const url = new URL(window.location.href);
+      url.searchParams.delete("replay");
+      window.history.replaceState({}, "", url.toString());
+    } catch {
+      /* ignore */
+    }
+  };
+
   const handleGoHome = () => {
     // Clear any current room and remove room param from URL
     setPersistedGameState(null);
     setIsWaiting(false);
+    handleCloseReplay();
     try {
       const url = new URL(window.location.href);
       url.searchParams.delete("room");
@@ -380,9 +565,12 @@ function App() {
         onLeaveRoom={handleHeaderLeave}
       />
 
-      {gameState ? (
+      {replayId ? (
+        <ReplayViewer gameId={replayId} onClose={handleCloseReplay} />
+      ) : gameState ? (
         <GameRoom
           gameState={gameState}
+          clock={clock}
           mySocketId={mySocketId}
           onMakeMove={handleMakeMove}
           onLeaveRoom={handleLeaveRoom}
@@ -390,6 +578,7 @@ function App() {
       ) : (
         <Lobby
           onFindMatch={handleFindMatch}
+          onPlayBot={handlePlayBot}
           onCreateRoom={handleCreateRoom}
           onJoinRoom={handleJoinRoom}
           onSpectateRoom={handleSpectateRoom}
@@ -400,6 +589,15 @@ function App() {
         />
       )}
 
+      {challenges.length > 0 && (
+        <ChallengePrompt
+          challenge={challenges[0]}
+          onRespond={(accept) =>
+            handleRespondChallenge(challenges[0].id, accept)
+          }
+        />
+      )}
+
       {/* Toasts - always mounted so in-game notifications appear */}
       <Toasts toasts={toasts} onRemove={removeToast} />
     </>
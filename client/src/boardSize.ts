@@ -0,0 +1,7 @@
+// Board sizes a room can use (mirrors server/src/gameLogic.js).
+
+export const DEFAULT_BOARD_SIZE = 17;
+
+// The largest size is meant to feel unbounded; GameBoard's pan/zoom lets
+// players move around it.
+export const BOARD_SIZES = [15, 17, 19, 31];
@@ -0,0 +1,194 @@
+import { useEffect, useState } from "react";
+import socket from "../socket";
+import {
+  formatTimeLeft,
+  type ArenaLeaderboard,
+  type TournamentSummary,
+} from "../tournaments";
+import type { AuthUser } from "./GoogleLogin";
+
+interface Props {
+  tournament: TournamentSummary;
+  user?: AuthUser | null;
+  language: string;
+}
+
+const translations: Record<string, Record<string, string>> = {
+  vi: {
+    leaderboard: "Bảng xếp hạng trực tiếp",
+    timeLeft: "Còn {time}",
+    ended: "Arena đã kết thúc",
+    notStarted: "Arena bắt đầu khi người tạo bấm bắt đầu",
+    games: "{n} ván đã xong",
+    player: "Người chơi",
+    scores: "Các ván",
+    points: "Điểm",
+    onStreak: "Đang thắng liên tiếp: điểm nhân đôi",
+    waiting: "Đang tìm đối thủ cho ván tiếp theo...",
+    paused: "Bạn đang tạm nghỉ",
+    pause: "⏸ Tạm nghỉ",
+    resume: "▶ Chơi tiếp",
+    empty: "Chưa có ván nào kết thúc",
+  },
+  en: {
+    leaderboard: "Live leaderboard",
+    timeLeft: "{time} left",
+    ended: "The arena is over",
+    notStarted: "The arena begins when its creator starts it",
+    games: "{n} games played",
+    player: "Player",
+    scores: "Games",
+    points: "Pts",
+    onStreak: "On a winning streak: points are doubled",
+    waiting: "Looking for your next opponent...",
+    paused: "You are paused",
+    pause: "⏸ Pause",
+    resume: "▶ Resume",
+    empty: "No game has finished yet",
+  },
+};
+
+// Colour of the points of one game: 4 is a doubled win and 0 a loss
+const scoreColor = (points: number) =>
+  points >= 4
+    ? "text-orange-600 font-bold"
+    : points >= 2
+    ? "text-green-700"
+    : points > 0
+    ? "text-gray-600"
+    : "text-gray-400";
+
+// Leaderboard of an arena, pushed by the server on the tournament's
+// "arena-watch" channel after every game, with a countdown to its end and
+// the pause switch of its players
+export default function ArenaStandings({ tournament, user, language }: Props) {
+  const t = translations[language] || translations.vi;
+  const [board, setBoard] = useState<ArenaLeaderboard | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  // our own state in the arena: queued for a game, or paused
+  const [queue, setQueue] = useState<"waiting" | "paused" | null>(null);
+  const tournamentId = tournament.id;
+  const userId = user?._id;
+
+  useEffect(() => {
+    const onBoard = (payload: ArenaLeaderboard) => {
+      if (payload.tournamentId === tournamentId) setBoard(payload);
+    };
+    const onWaiting = (payload: { tournamentId: string }) => {
+      if (payload.tournamentId === tournamentId) setQueue("waiting");
+    };
+    const onPaused = (payload: { tournamentId: string }) => {
+      if (payload.tournamentId === tournamentId) setQueue("paused");
+    };
+    socket.on("arena-leaderboard", onBoard);
+    socket.on("arena-waiting", onWaiting);
+    socket.on("arena-paused", onPaused);
+    socket.emit("arena-watch", { tournamentId });
+    return () => {
+      socket.emit("arena-unwatch", { tournamentId });
+      socket.off("arena-leaderboard", onBoard);
+      socket.off("arena-waiting", onWaiting);
+      socket.off("arena-paused", onPaused);
+    };
+  }, [tournamentId]);
+
+  const status = board?.status ?? tournament.status;
+  const endsAt = board?.endsAt ?? tournament.endsAt;
+
+  useEffect(() => {
+    if (status !== "running") return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [status]);
+
+  const joined = !!userId && tournament.playerIds.includes(userId);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3 text-sm">
+        <div className="text-gray-600">
+          {status === "running" && endsAt
+            ? t.timeLeft.replace(
+                "{time}",
+                formatTimeLeft(new Date(endsAt).getTime() - now)
+              )
+            : status === "finished"
+            ? t.ended
+            : t.notStarted}
+          {board && (
+            <span className="ml-2 text-xs text-gray-400">
+              {t.games.replace("{n}", String(board.gamesPlayed))}
+            </span>
+          )}
+        </div>
+        {joined && status === "running" && (
+          <div className="flex items-center gap-2">
+            {queue && (
+              <span className="text-xs text-gray-500">{t[queue]}</span>
+            )}
+            <button
+              type="button"
+              onClick={() =>
+                socket.emit(
+                  queue === "paused" ? "arena-resume" : "arena-pause",
+                  { tournamentId }
+                )
+              }
+              className="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm"
+            >
+              {queue === "paused" ? t.resume : t.pause}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="mb-2 text-lg text-gray-600">{t.leaderboard}</div>
+      {board && board.gamesPlayed === 0 && (
+        <p className="text-gray-500 text-sm">{t.empty}</p>
+      )}
+      <table className="w-full text-sm bg-white rounded shadow-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500">
+            <th className="px-3 py-2">#</th>
+            <th className="px-3 py-2">{t.player}</th>
+            <th className="px-3 py-2">{t.scores}</th>
+            <th className="px-3 py-2 text-right">{t.points}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {board?.standings.map((s) => (
+            <tr
+              key={s.userId}
+              className={`border-t ${s.userId === userId ? "bg-blue-50" : ""}`}
+            >
+              <td className="px-3 py-2 text-gray-600">{s.rank}</td>
+              <td className="px-3 py-2 font-semibold text-gray-800">
+                {s.name}
+                {s.onStreak && (
+                  <span className="ml-1" title={t.onStreak}>
+                    🔥
+                  </span>
+                )}
+                {s.rating !== null && (
+                  <span className="ml-1 text-xs font-normal text-gray-400">
+                    {s.rating}
+                  </span>
+                )}
+              </td>
+              <td className="px-3 py-2 font-mono text-xs tracking-wider">
+                {s.scores.map((points, i) => (
+                  <span key={i} className={scoreColor(points)}>
+                    {points}
+                  </span>
+                ))}
+              </td>
+              <td className="px-3 py-2 text-right font-semibold">
+                {s.points}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
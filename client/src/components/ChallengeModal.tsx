@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { DEFAULT_RULES, RULE_PRESETS, type RulePreset } from "../rules";
+import { BOARD_SIZES, DEFAULT_BOARD_SIZE } from "../boardSize";
+import {
+  DEFAULT_TIME_CONTROL,
+  TIME_CONTROLS,
+  formatTimeControl,
+  type TimeControlPreset,
+} from "../timeControls";
+import type { ChallengeSettings, Friend } from "../friends";
+
+interface Props {
+  friend: Friend;
+  language: string;
+  onSend: (settings: ChallengeSettings) => void;
+  onClose: () => void;
+}
+
+const translations: Record<string, Record<string, string>> = {
+  vi: {
+    title: "Thách đấu {name}",
+    rated: "Tính điểm",
+    rulesLabel: "Luật",
+    boardSizeLabel: "Kích thước bàn",
+    timeControlLabel: "Thời gian",
+    send: "Gửi lời thách đấu",
+    cancel: "Hủy",
+    rule_standard: "Tiêu chuẩn",
+    "rule_free-style": "Tự do",
+    "rule_exact-five": "Đúng 5",
+    "rule_blocked-ends": "Chặn hai đầu",
+    "rule_renju-like": "Kiểu Renju",
+  },
+  en: {
+    title: "Challenge {name}",
+    rated: "Rated",
+    rulesLabel: "Rules",
+    boardSizeLabel: "Board size",
+    timeControlLabel: "Time control",
+    send: "Send challenge",
+    cancel: "Cancel",
+    rule_standard: "Standard",
+    "rule_free-style": "Free-style",
+    "rule_exact-five": "Exact five",
+    "rule_blocked-ends": "Blocked ends",
+    "rule_renju-like": "Renju-like",
+  },
+};
+
+// Room settings for a challenge; the room is created with them once the
+// friend accepts
+export default function ChallengeModal({
+  friend,
+  language,
+  onSend,
+  onClose,
+}: Props) {
+  const t = translations[language] || translations.vi;
+  const [rated, setRated] = useState(false);
+  const [preset, setPreset] = useState<RulePreset>(DEFAULT_RULES.preset);
+  const [boardSize, setBoardSize] = useState(DEFAULT_BOARD_SIZE);
+  const [timeControl, setTimeControl] =
+    useState<TimeControlPreset>(DEFAULT_TIME_CONTROL);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl p-6 max-w-md w-full mx-4 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-2xl font-bold text-gray-800 mb-4">
+          {t.title.replace("{name}", friend.name)}
+        </h3>
+        <div className="space-y-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={rated}
+              onChange={(e) => setRated(e.target.checked)}
+            />
+            {t.rated}
+          </label>
+          <div>
+            <label className="block text-gray-700 text-sm font-medium mb-2">
+              {t.timeControlLabel}
+            </label>
+            <div className="flex gap-2">
+              {(Object.keys(TIME_CONTROLS) as TimeControlPreset[]).map((p) => (
+                <button
+                  key={p}
+                  type="button"
+                  onClick={() => setTimeControl(p)}
+                  className={`flex-1 py-2 rounded-lg text-sm font-semibold transition-colors ${
+                    timeControl === p
+                      ? "bg-gray-800 text-white"
+                      : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  }`}
+                >
+                  {formatTimeControl(TIME_CONTROLS[p])}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-gray-700 text-sm font-medium mb-2">
+              {t.boardSizeLabel}
+            </label>
+            <div className="flex gap-2">
+              {BOARD_SIZES.map((size) => (
+                <button
+                  key={size}
+                  type="button"
+                  onClick={() => setBoardSize(size)}
+                  className={`flex-1 py-2 rounded-lg text-sm font-semibold transition-colors ${
+                    boardSize === size
+                      ? "bg-gray-800 text-white"
+                      : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  }`}
+                >
+                  {size}x{size}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-gray-700 text-sm font-medium mb-2">
+              {t.rulesLabel}
+            </label>
+            <select
+              value={preset}
+              onChange={(e) => setPreset(e.target.value as RulePreset)}
+              className="w-full px-4 py-2 rounded-lg border border-gray-300 text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(RULE_PRESETS) as RulePreset[]).map((p) => (
+                <option key={p} value={p}>
+                  {t[`rule_${p}`]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() =>
+                onSend({
+                  rated,
+                  rules: RULE_PRESETS[preset],
+                  timeControl: TIME_CONTROLS[timeControl],
+                  boardSize,
+                })
+              }
+              className="flex-1 bg-red-600 hover:bg-red-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+            >
+              {t.send}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-300 hover:bg-gray-400 text-gray-800 font-semibold py-3 px-6 rounded-lg transition-colors"
+            >
+              {t.cancel}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
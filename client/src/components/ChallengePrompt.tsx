@@ -0,0 +1,78 @@
+import type { Challenge } from "../friends";
+import { formatTimeControl } from "../timeControls";
+
+interface Props {
+  challenge: Challenge;
+  onRespond: (accept: boolean) => void;
+}
+
+const translations: Record<string, Record<string, string>> = {
+  vi: {
+    title: "{name} thách đấu bạn!",
+    rated: "Tính điểm",
+    casual: "Giao hữu",
+    accept: "Chấp nhận",
+    decline: "Từ chối",
+  },
+  en: {
+    title: "{name} challenges you!",
+    rated: "Rated",
+    casual: "Casual",
+    accept: "Accept",
+    decline: "Decline",
+  },
+};
+
+// Shown over any screen when a friend challenges this user
+export default function ChallengePrompt({ challenge, onRespond }: Props) {
+  const language = localStorage.getItem("zcaro-lang") === "en" ? "en" : "vi";
+  const t = translations[language];
+  const { from, settings } = challenge;
+  const details = [
+    settings.rated ? t.rated : t.casual,
+    settings.timeControl && formatTimeControl(settings.timeControl),
+    settings.boardSize && `${settings.boardSize}x${settings.boardSize}`,
+  ].filter(Boolean);
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-full max-w-sm px-4">
+      <div className="bg-white rounded-xl shadow-2xl p-4 ring-1 ring-gray-200">
+        <div className="flex items-center gap-3">
+          {from.avatar ? (
+            <img
+              src={from.avatar}
+              alt={from.name}
+              className="w-10 h-10 rounded-full object-cover"
+            />
+          ) : (
+            <div className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center text-sm text-gray-700 font-semibold">
+              {from.name ? from.name.charAt(0).toUpperCase() : "?"}
+            </div>
+          )}
+          <div>
+            <div className="text-sm font-bold text-gray-800">
+              {t.title.replace("{name}", from.name)}
+            </div>
+            <div className="text-xs text-gray-500">{details.join(" · ")}</div>
+          </div>
+        </div>
+        <div className="flex gap-2 mt-3">
+          <button
+            type="button"
+            onClick={() => onRespond(true)}
+            className="flex-1 bg-green-600 hover:bg-green-700 text-white text-sm font-semibold py-2 rounded-lg"
+          >
+            {t.accept}
+          </button>
+          <button
+            type="button"
+            onClick={() => onRespond(false)}
+            className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm font-semibold py-2 rounded-lg"
+          >
+            {t.decline}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
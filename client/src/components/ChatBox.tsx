@@ -1,6 +1,7 @@
 import { useEffect, useRef, useState } from "react";
 import type { CSSProperties } from "react";
 import socket from "../socket";
+import { SPECTATOR_CHANNEL } from "../spectators";
 
 interface ChatMessage {
   sender: string;
@@ -8,6 +9,8 @@ interface ChatMessage {
   timestamp: number;
   socketId?: string;
   avatar?: string | null;
+  // set for messages of the spectator chat (see ../spectators.ts)
+  channel?: string;
 }
 
 interface ChatBoxProps {
@@ -176,6 +179,7 @@ export default function ChatBox({
               timestamp: payload.timestamp,
               socketId: payload.socketId,
               avatar: payload.avatar ?? null,
+              channel: payload.channel,
             },
           ]);
         }
@@ -225,6 +229,7 @@ export default function ChatBox({
             : Date.now(),
           socketId: (m.socketId as string) || undefined,
           avatar: (m.avatar as string) || null,
+          channel: (m.channel as string) || undefined,
         }));
         setMessages(mapped as ChatMessage[]);
       } catch {
@@ -350,7 +355,10 @@ export default function ChatBox({
                     ))}
 
                   <div className="flex-1">
-                    <div className="text-xs text-gray-500">{m.sender}</div>
+                    <div className="text-xs text-gray-500">
+                      {m.channel === SPECTATOR_CHANNEL && "👁︎ "}
+                      {m.sender}
+                    </div>
                     <div className="text-sm text-gray-800 break-words">
                       {m.message}
                     </div>
@@ -421,6 +429,7 @@ export default function ChatBox({
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={onKeyDown}
             placeholder={t.placeholder as string}
+            maxLength={500}
             className="flex-1 px-3 py-2 rounded-lg border border-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-300"
           />
           <button
@@ -0,0 +1,304 @@
+import { useEffect, useState, type ReactNode } from "react";
+import socket from "../socket";
+import { formatRating } from "../rating";
+import type {
+  Challenge,
+  ChallengeSettings,
+  Friend,
+  FriendStatus,
+} from "../friends";
+import type { AuthUser } from "./GoogleLogin";
+import ChallengeModal from "./ChallengeModal";
+
+interface FriendLists {
+  friends: Friend[];
+  incoming: Friend[];
+  outgoing: Friend[];
+}
+
+interface Props {
+  user?: AuthUser | null;
+  language: string;
+  onSpectateRoom?: (roomId: string) => void;
+}
+
+// Presence changes with every game started or finished anywhere, which the
+// server does not push; the list is refreshed this often while shown
+const REFRESH_MS = 15 * 1000;
+
+const STATUS_DOTS: Record<FriendStatus, string> = {
+  online: "bg-green-500",
+  "in-game": "bg-orange-500",
+  offline: "bg-gray-300",
+};
+
+const translations: Record<string, Record<string, string>> = {
+  vi: {
+    signIn: "Đăng nhập để kết bạn và thách đấu",
+    friends: "Bạn bè",
+    incoming: "Lời mời kết bạn",
+    outgoing: "Đã gửi lời mời",
+    empty: "Chưa có bạn bè. Kết bạn từ tab Online.",
+    online: "Trực tuyến",
+    "in-game": "Đang chơi",
+    offline: "Ngoại tuyến",
+    accept: "Đồng ý",
+    decline: "Từ chối",
+    withdraw: "Thu hồi",
+    remove: "Xóa bạn",
+    confirmRemove: "Xóa {name} khỏi danh sách bạn bè?",
+    challenge: "⚔️ Thách đấu",
+    watch: "👁︎ Xem",
+    waiting: "Đang chờ {name} trả lời...",
+    cancelChallenge: "Hủy",
+  },
+  en: {
+    signIn: "Sign in to add friends and challenge them",
+    friends: "Friends",
+    incoming: "Friend requests",
+    outgoing: "Sent requests",
+    empty: "No friends yet. Add some from the Onlines tab.",
+    online: "Online",
+    "in-game": "Playing",
+    offline: "Offline",
+    accept: "Accept",
+    decline: "Decline",
+    withdraw: "Withdraw",
+    remove: "Remove",
+    confirmRemove: "Remove {name} from your friends?",
+    challenge: "⚔️ Challenge",
+    watch: "👁︎ Watch",
+    waiting: "Waiting for {name} to answer...",
+    cancelChallenge: "Cancel",
+  },
+};
+
+function Avatar({ friend }: { friend: Friend }) {
+  return friend.avatar ? (
+    <img
+      src={friend.avatar}
+      alt={friend.name}
+      className="w-10 h-10 rounded-full object-cover"
+    />
+  ) : (
+    <div className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center text-sm text-gray-700 font-semibold">
+      {friend.name ? friend.name.charAt(0).toUpperCase() : "?"}
+    </div>
+  );
+}
+
+export default function Friends({ user, language, onSpectateRoom }: Props) {
+  const t = translations[language] || translations.vi;
+  const [lists, setLists] = useState<FriendLists | null>(null);
+  const [challengeTarget, setChallengeTarget] = useState<Friend | null>(null);
+  // our challenge waiting for an answer
+  const [sent, setSent] = useState<Challenge | null>(null);
+  const userId = user?._id;
+
+  useEffect(() => {
+    if (!userId) return;
+    const refresh = () => socket.emit("request-friends");
+    const onFriends = (payload: FriendLists) => setLists(payload);
+    const onSent = ({ challenge }: { challenge: Challenge }) =>
+      setSent(challenge);
+    const onClosed = ({ challengeId }: { challengeId: string }) =>
+      setSent((c) => (c?.id === challengeId ? null : c));
+
+    socket.on("friends", onFriends);
+    socket.on("friends-updated", refresh);
+    socket.on("online-users", refresh);
+    socket.on("challenge-sent", onSent);
+    socket.on("challenge-accepted", onClosed);
+    socket.on("challenge-declined", onClosed);
+    socket.on("challenge-expired", onClosed);
+    socket.on("challenge-cancelled", onClosed);
+    refresh();
+    const timer = setInterval(refresh, REFRESH_MS);
+    return () => {
+      clearInterval(timer);
+      socket.off("friends", onFriends);
+      socket.off("friends-updated", refresh);
+      socket.off("online-users", refresh);
+      socket.off("challenge-sent", onSent);
+      socket.off("challenge-accepted", onClosed);
+      socket.off("challenge-declined", onClosed);
+      socket.off("challenge-expired", onClosed);
+      socket.off("challenge-cancelled", onClosed);
+    };
+  }, [userId]);
+
+  if (!userId) {
+    return <p className="text-gray-500 text-sm">{t.signIn}</p>;
+  }
+
+  function sendChallenge(friend: Friend, settings: ChallengeSettings) {
+    socket.emit("challenge-friend", { userId: friend.userId, ...settings });
+    setChallengeTarget(null);
+  }
+
+  function removeFriend(friend: Friend) {
+    if (!window.confirm(t.confirmRemove.replace("{name}", friend.name))) {
+      return;
+    }
+    socket.emit("friend-remove", { userId: friend.userId });
+  }
+
+  const requestRow = (friend: Friend, actions: ReactNode) => (
+    <div
+      key={friend.userId}
+      className="flex items-center gap-3 p-3 bg-white rounded shadow-sm"
+    >
+      <Avatar friend={friend} />
+      <div className="flex-1 text-sm font-semibold text-gray-800">
+        {friend.name}
+      </div>
+      {actions}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {sent && (
+        <div className="flex items-center justify-between p-3 rounded bg-blue-50 text-sm text-blue-800">
+          <span>{t.waiting.replace("{name}", sent.to.name || "")}</span>
+          <button
+            type="button"
+            onClick={() =>
+              socket.emit("challenge-cancel", { challengeId: sent.id })
+            }
+            className="px-3 py-1 rounded bg-white text-blue-700 hover:bg-blue-100"
+          >
+            {t.cancelChallenge}
+          </button>
+        </div>
+      )}
+
+      {lists && lists.incoming.length > 0 && (
+        <div>
+          <div className="mb-2 text-lg text-gray-600">{t.incoming}</div>
+          <div className="space-y-2">
+            {lists.incoming.map((f) =>
+              requestRow(
+                f,
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      socket.emit("friend-accept", { userId: f.userId })
+                    }
+                    className="px-3 py-1 rounded bg-green-600 hover:bg-green-700 text-white text-sm"
+                  >
+                    {t.accept}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      socket.emit("friend-remove", { userId: f.userId })
+                    }
+                    className="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm"
+                  >
+                    {t.decline}
+                  </button>
+                </div>
+              )
+            )}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <div className="mb-2 text-lg text-gray-600">
+          {t.friends}: {lists?.friends.length ?? 0}
+        </div>
+        {lists && lists.friends.length === 0 && (
+          <p className="text-gray-500 text-sm">{t.empty}</p>
+        )}
+        <div className="space-y-2">
+          {lists?.friends.map((f) => {
+            const status = f.status || "offline";
+            return (
+              <div
+                key={f.userId}
+                className="flex items-center gap-3 p-3 bg-white rounded shadow-sm"
+              >
+                <div className="relative">
+                  <Avatar friend={f} />
+                  <span
+                    className={`absolute bottom-0 right-0 w-3 h-3 rounded-full ring-2 ring-white ${STATUS_DOTS[status]}`}
+                  />
+                </div>
+                <div className="flex-1">
+                  <div className="text-sm font-semibold text-gray-800">
+                    {f.name}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {t[status]} · {formatRating(f.elo, f.provisional) ?? "—"}
+                  </div>
+                </div>
+                {status === "online" && (
+                  <button
+                    type="button"
+                    disabled={!!sent}
+                    onClick={() => setChallengeTarget(f)}
+                    className="px-3 py-1 rounded bg-red-600 hover:bg-red-700 disabled:bg-gray-300 text-white text-sm"
+                  >
+                    {t.challenge}
+                  </button>
+                )}
+                {status === "in-game" && f.roomId && onSpectateRoom && (
+                  <button
+                    type="button"
+                    onClick={() => onSpectateRoom(f.roomId as string)}
+                    className="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm"
+                  >
+                    {t.watch}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => removeFriend(f)}
+                  title={t.remove}
+                  aria-label={t.remove}
+                  className="px-2 py-1 rounded text-gray-400 hover:text-red-600 text-sm"
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {lists && lists.outgoing.length > 0 && (
+        <div>
+          <div className="mb-2 text-lg text-gray-600">{t.outgoing}</div>
+          <div className="space-y-2">
+            {lists.outgoing.map((f) =>
+              requestRow(
+                f,
+                <button
+                  type="button"
+                  onClick={() =>
+                    socket.emit("friend-remove", { userId: f.userId })
+                  }
+                  className="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm"
+                >
+                  {t.withdraw}
+                </button>
+              )
+            )}
+          </div>
+        </div>
+      )}
+
+      {challengeTarget && (
+        <ChallengeModal
+          friend={challengeTarget}
+          language={language}
+          onSend={(settings) => sendChallenge(challengeTarget, settings)}
+          onClose={() => setChallengeTarget(null)}
+        />
+      )}
+    </div>
+  );
+}
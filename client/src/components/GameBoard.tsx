@@ -1,7 +1,10 @@
 import { useState, useEffect, useRef } from "react";
+import { DEFAULT_BOARD_SIZE } from "../boardSize";
 
 interface GameBoardProps {
   board: (string | null)[][];
+  // Room board size (gameState.boardSize); defaults to the board's own size
+  boardSize?: number;
   onCellClick: (row: number, col: number) => void;
   mySymbol: string;
   isMyTurn: boolean;
@@ -13,12 +16,16 @@ interface GameBoardProps {
   winningCells?: [number, number][];
   // Changing this key tells the board to clear optimistic placements
   optimisticInvalidateKey?: number;
+  // Display-only mode (replays): no first-move hints or interaction
+  readOnly?: boolean;
+  // When provided, highlight this cell as the last move instead of tracking
+  // newly placed pieces (replays step backwards as well as forwards)
+  highlightedMove?: [number, number] | null;
 }
 
-const BOARD_SIZE = 17; // enforce a 17x17 board as requested
-
 export default function GameBoard({
   board,
+  boardSize,
   onCellClick,
   mySymbol,
   isMyTurn,
@@ -28,7 +35,12 @@ export default function GameBoard({
   validFirstMoveCells = [],
   winningCells = [],
   optimisticInvalidateKey,
+  readOnly = false,
+  highlightedMove,
 }: GameBoardProps) {
+  const size = boardSize || board?.length || DEFAULT_BOARD_SIZE;
+  // Boards larger than the default may be zoomed out to see all of them
+  const minScale = Math.min(1, DEFAULT_BOARD_SIZE / size);
   const [hoveredCell, setHoveredCell] = useState<[number, number] | null>(null);
   const [selectedCell, setSelectedCell] = useState<[number, number] | null>(
     null
@@ -53,8 +65,6 @@ export default function GameBoard({
   const lastPointRef = useRef<{ x: number; y: number } | null>(null);
   const pinchStartRef = useRef<number | null>(null);
 
-  const clamp = (v: number, a = 1, b = 3) => Math.max(a, Math.min(b, v));
-
   // listen for zoom preference changes (storage + custom event)
   useEffect(() => {
     const onStorage = (e: StorageEvent) => {
@@ -95,6 +105,9 @@ export default function GameBoard({
     const el = gridRef.current;
     if (!el) return;
 
+    const clamp = (v: number, a = minScale, b = 3) =>
+      Math.max(a, Math.min(b, v));
+
     const onWheel = (e: WheelEvent) => {
       if (!zoomEnabled) return;
       // require ctrl/meta key to avoid interfering with page scroll
@@ -181,7 +194,7 @@ export default function GameBoard({
       el.removeEventListener("touchmove", onTouchMove as EventListener);
       el.removeEventListener("touchend", onTouchEnd as EventListener);
     };
-  }, [zoomEnabled]);
+  }, [zoomEnabled, minScale]);
   const [containerRect, setContainerRect] = useState<DOMRect | null>(null);
 
   // compute container rect for drawing overlay
@@ -256,8 +269,8 @@ export default function GameBoard({
       }
 
       // Find newly placed cells (prev was null, now not null)
-      for (let r = 0; r < BOARD_SIZE; r++) {
-        for (let c = 0; c < BOARD_SIZE; c++) {
+      for (let r = 0; r < size; r++) {
+        for (let c = 0; c < size; c++) {
           try {
             const was = prev?.[r]?.[c] ?? null;
             const now = renderedBoard?.[r]?.[c] ?? null;
@@ -298,13 +311,13 @@ export default function GameBoard({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [board]);
 
-  // Normalize incoming board to a fixed BOARD_SIZE x BOARD_SIZE so rendering
-  // is safe even if server sends different dimensions. Missing cells are
-  // treated as null (empty).
+  // Normalize incoming board to the room's size x size so rendering is safe
+  // even if a stale or partial board arrives. Missing cells are treated as
+  // null (empty).
   const renderedBoard: (string | null)[][] = Array.from(
-    { length: BOARD_SIZE },
+    { length: size },
     (_, r) =>
-      Array.from({ length: BOARD_SIZE }, (_, c) => {
+      Array.from({ length: size }, (_, c) => {
         try {
           return board?.[r]?.[c] ?? null;
         } catch {
@@ -543,12 +556,22 @@ export default function GameBoard({
 
   // no preview opacity function needed — placed pieces are always fully visible
 
+  // Explicit highlight (replays) wins over the tracked last move
+  const shownLastMove =
+    highlightedMove !== undefined
+      ? highlightedMove && {
+          r: highlightedMove[0],
+          c: highlightedMove[1],
+          symbol: renderedBoard[highlightedMove[0]]?.[highlightedMove[1]] ?? "",
+        }
+      : lastMove;
+
   const isLocked = (row: number, col: number) => {
     return lockedCells.some(([lr, lc]) => lr === row && lc === col);
   };
 
   const getCellNumber = (row: number, col: number) => {
-    return row * BOARD_SIZE + col + 1;
+    return row * size + col + 1;
   };
 
   return (
@@ -571,11 +594,11 @@ export default function GameBoard({
 
         <div
           className={`game-board-grid grid gap-0 p-2`}
-          style={{ gridTemplateColumns: `repeat(${BOARD_SIZE}, 1fr)` }}
+          style={{ gridTemplateColumns: `repeat(${size}, 1fr)` }}
         >
-          {Array.from({ length: BOARD_SIZE * BOARD_SIZE }).map((_, index) => {
-            const row = Math.floor(index / BOARD_SIZE);
-            const col = index % BOARD_SIZE;
+          {Array.from({ length: size * size }).map((_, index) => {
+            const row = Math.floor(index / size);
+            const col = index % size;
             const isWinning = winningSet.has(`${row}-${col}`);
             const cellValue = getCellContent(row, col);
             const isHovered =
@@ -588,7 +611,9 @@ export default function GameBoard({
             // to `validFirstMoveCells` for the player who starts the round. The
             // starter is represented by `currentTurn` at moveCount===0, so we apply
             // the restriction whenever moveCount === 0 (not hard-coded to 'X').
-            const isFirstMoveRestriction = moveCount === 0;
+            // Rooms whose rules place no locked cells have no ring to enforce.
+            const isFirstMoveRestriction =
+              moveCount === 0 && !readOnly && validFirstMoveCells.length > 0;
             const isValidFirstCell = validFirstMoveCells.some(
               ([vr, vc]) => vr === row && vc === col
             );
@@ -622,8 +647,8 @@ export default function GameBoard({
                 style={
                   window.innerWidth < 640
                     ? {
-                        width: `calc(90vw / ${BOARD_SIZE})`,
-                        height: `calc(90vw / ${BOARD_SIZE})`,
+                        width: `calc(90vw / ${size})`,
+                        height: `calc(90vw / ${size})`,
                         maxWidth: "44px",
                         maxHeight: "44px",
                       }
@@ -631,6 +656,7 @@ export default function GameBoard({
                 }
                 onClick={() => {
                   if (
+                    readOnly ||
                     !isMyTurn ||
                     isOccupied ||
                     cellLocked ||
@@ -679,6 +705,7 @@ export default function GameBoard({
                 }}
                 onMouseLeave={() => setHoveredCell(null)}
                 disabled={
+                  readOnly ||
                   !isMyTurn ||
                   isOccupied ||
                   cellLocked ||
@@ -730,15 +757,15 @@ export default function GameBoard({
                 )}
 
                 {/* Last move highlight: slightly darker tint for both X and O (clears after 2s) */}
-                {lastMove &&
-                  lastMove.r === row &&
-                  lastMove.c === col &&
+                {shownLastMove &&
+                  shownLastMove.r === row &&
+                  shownLastMove.c === col &&
                   !cellLocked && (
                     <div
                       className="absolute inset-0 pointer-events-none"
                       style={{
                         backgroundColor:
-                          lastMove.symbol === "X"
+                          shownLastMove.symbol === "X"
                             ? "rgba(170, 21, 21, 0.18)"
                             : "rgba(70, 205, 76, 0.601)",
                         borderRadius: 6,
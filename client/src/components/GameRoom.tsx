@@ -2,8 +2,16 @@ import { useEffect, useState, useRef } from "react";
 import socket from "../socket";
 import GameBoard from "./GameBoard";
 import ChatBox from "./ChatBox";
+import InviteLink from "./InviteLink";
 import Toasts from "./Toast";
 import type { ToastItem } from "./Toast";
+import type { RuleSet } from "../rules";
+import { formatRating } from "../rating";
+import { formatSpectatorDelay, type SpectatorDelay } from "../spectators";
+import { currentRound, type MatchScore, type MatchWinner } from "../matches";
+
+// Colours of the two symbols, as drawn on the board
+const SYMBOL_COLORS: Record<string, string> = { X: "#DC2626", O: "#16A34A" };
 
 interface Player {
   id: string;
@@ -12,11 +20,14 @@ interface Player {
   name?: string;
   avatar?: string | null;
   elo?: number;
+  // the rating is still settling (shown with a "?")
+  provisional?: boolean;
 }
 
 interface GameState {
   roomId: string;
   board: (string | null)[][];
+  boardSize?: number;
   players: {
     player1: Player;
     player2: Player | null;
@@ -28,19 +39,53 @@ interface GameState {
   moveCount?: number;
   validFirstMoveCells?: [number, number][];
   winningCells?: [number, number][];
+  rules?: RuleSet;
+  // created with a room code; the free seat needs an invite link
+  private?: boolean;
+  // spectators see the game this far behind (see ../spectators.ts)
+  spectatorDelay?: SpectatorDelay | null;
+  moves?: { row: number; col: number; symbol: string }[];
+  // takebacks each player may use per game, and how many they used
+  takebacks?: number;
+  takebacksUsed?: Record<string, number>;
+  // rounds won per seat against the current opponent, and a pending
+  // rematch request from one of the seats
+  score?: MatchScore;
+  rematchRequest?: { seat: Seat } | null;
+  // rounds of a best-of-N match (null for single games) and its result
+  bestOf?: number | null;
+  matchWinner?: MatchWinner | null;
+  // game `board` of a tournament round, or a game of an arena (whose
+  // players are paired again as soon as it ends); it is never replayed
+  tournament?:
+    | { id: string; round: number; board: number }
+    | { id: string; arena: true }
+    | null;
 }
 
-type TimerKey = "p1" | "p2";
+type Seat = "player1" | "player2";
+
+// Server clock snapshot (see server/src/clock.js). `receivedAt` is stamped
+// by the client when the snapshot arrives so it can count down locally.
+export interface ClockSnapshot {
+  timeControl: { baseMs: number; incrementMs: number; delayMs: number };
+  remainingMs: Record<string, number>;
+  active: string | null;
+  delayLeftMs: number;
+  serverTime: number;
+  receivedAt: number;
+}
 
 interface GameRoomProps {
   gameState: GameState;
+  clock?: ClockSnapshot | null;
   mySocketId: string;
   onMakeMove: (roomId: string, row: number, col: number) => void;
   onLeaveRoom: (roomId: string) => void;
 }
 
 export default function GameRoom(props: Readonly<GameRoomProps>) {
-  const { gameState, mySocketId, onMakeMove, onLeaveRoom } = props;
+  const { gameState, clock, mySocketId, onMakeMove, onLeaveRoom } = props;
   const [language, setLanguage] = useState<"vi" | "en">(() => {
     try {
       const v = localStorage.getItem("zcaro-lang");
@@ -97,7 +142,19 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
       copyTitle: "Sao chép mã phòng",
       copyButton: "📋 Sao chép",
       copied: "Đã sao chép",
-      startNew: "▶ Bắt đầu",
+      rematch: "🔁 Đấu lại",
+      rematchSent: "Đã mời đấu lại, đang chờ đối thủ...",
+      rematchOffered: "{name} muốn đấu lại",
+      rematchAccept: "Đồng ý",
+      rematchDecline: "Từ chối",
+      arenaNext: "Đang ghép ván arena tiếp theo...",
+      matchScoreTitle: "Tỉ số trận đấu",
+      scoreDraws: "{n} hòa",
+      matchRound: "BO{n} · Ván {round}",
+      nextRound: "▶ Ván tiếp theo",
+      newMatch: "🔁 Trận mới",
+      matchWon: "🏆 {name} thắng trận {score}",
+      matchDrawn: "Trận đấu hòa {score}",
       leaveRoom: "Rời phòng",
       cannotStart: "Không thể bắt đầu: chưa có đối thủ",
       startGame: "▶ Bắt đầu",
@@ -114,6 +171,11 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
       opponentLabel: "Đối thủ",
       waitingShort: "Đang chờ...",
       startButtonTitle: "Bắt đầu trò chơi",
+      spectatorDelayNote: "Bạn đang xem trễ {delay} so với người chơi.",
+      delayMoves: "{n} nước",
+      delaySeconds: "{n} giây",
+      spectatorChatNote:
+        "Người chơi chỉ thấy tin nhắn của người xem sau khi ván đấu kết thúc.",
     },
     en: {
       waitingOpponent: "Waiting for opponent...",
@@ -130,7 +192,19 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
       copyTitle: "Copy room code",
       copyButton: "📋 Copy",
       copied: "Copied",
-      startNew: "▶ Start new round",
+      rematch: "🔁 Rematch",
+      rematchSent: "Rematch offered, waiting for your opponent...",
+      rematchOffered: "{name} wants a rematch",
+      rematchAccept: "Accept",
+      rematchDecline: "Decline",
+      arenaNext: "Pairing your next arena game...",
+      matchScoreTitle: "Match score",
+      scoreDraws: "{n} drawn",
+      matchRound: "Best of {n} · Round {round}",
+      nextRound: "▶ Next round",
+      newMatch: "🔁 New match",
+      matchWon: "🏆 {name} wins the match {score}",
+      matchDrawn: "The match is drawn {score}",
       leaveRoom: "Leave room",
       cannotStart: "Can't start: no opponent",
       startGame: "▶ Start game",
@@ -147,6 +221,11 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
       opponentLabel: "Opponent",
       waitingShort: "Waiting...",
       startButtonTitle: "Start game",
+      spectatorDelayNote: "You are watching {delay} behind the players.",
+      delayMoves: "{n} moves",
+      delaySeconds: "{n} seconds",
+      spectatorChatNote:
+        "Players only see spectators' messages once the game is over.",
     },
   };
 
@@ -173,6 +252,16 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
     fromName?: string | null;
   } | null>(null);
 
+  // takeback request state (same flow as draw offers)
+  const [takebackSent, setTakebackSent] = useState(false);
+  const [incomingTakeback, setIncomingTakeback] = useState<{
+    fromName?: string | null;
+  } | null>(null);
+
+  // id of the stored record of the last finished round (for replay links)
+  const [recordedGameId, setRecordedGameId] = useState<string | null>(null);
+  const [replayLinkCopied, setReplayLinkCopied] = useState(false);
+
   // leave room confirmation modal
   const [showLeaveConfirm, setShowLeaveConfirm] = useState(false);
 
@@ -251,6 +340,63 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
     socket.on("draw-declined", onDrawDeclined);
     socket.on("game-ended", onGameEnded);
 
+    // Takebacks: the board itself is updated through room-state
+    const onTakebackRequested = (data: {
+      roomId?: string;
+      fromName?: string | null;
+    }) => {
+      if (data?.roomId !== localGameState.roomId) return;
+      setIncomingTakeback({ fromName: data.fromName });
+    };
+    const onTakebackRequestSent = () => setTakebackSent(true);
+    const onTakebackDeclined = (data: { roomId?: string }) => {
+      if (data?.roomId !== localGameState.roomId) return;
+      setTakebackSent(false);
+      addToast(
+        language === "vi" ? "Đối thủ không cho đi lại" : "Takeback declined",
+        "error"
+      );
+    };
+    const onTakebackAccepted = (data: { roomId?: string }) => {
+      if (data?.roomId !== localGameState.roomId) return;
+      setTakebackSent(false);
+      setIncomingTakeback(null);
+      setOptimisticInvalidateKey((k) => k + 1);
+      addToast(
+        language === "vi" ? "Đã đi lại nước cờ" : "Move taken back",
+        "info"
+      );
+    };
+    // a move made meanwhile voids the request
+    const onMoveMade = () => {
+      setTakebackSent(false);
+      setIncomingTakeback(null);
+    };
+    socket.on("takeback-requested", onTakebackRequested);
+    socket.on("takeback-request-sent", onTakebackRequestSent);
+    socket.on("takeback-declined", onTakebackDeclined);
+    socket.on("takeback-accepted", onTakebackAccepted);
+    socket.on("move-made", onMoveMade);
+
+    // Rematches: the next round arrives as game-started once both agree
+    const onRematchOffered = (data: { roomId?: string; seat?: Seat }) => {
+      if (data?.roomId !== localGameState.roomId || !data.seat) return;
+      const seat = data.seat;
+      setLocalGameState((s) => ({ ...s, rematchRequest: { seat } }));
+    };
+    const onRematchDeclined = (data: { roomId?: string }) => {
+      if (data?.roomId !== localGameState.roomId) return;
+      setLocalGameState((s) => ({ ...s, rematchRequest: null }));
+      addToast(
+        language === "vi"
+          ? "Lời mời đấu lại đã bị từ chối"
+          : "The rematch was declined",
+        "info"
+      );
+    };
+    socket.on("rematch-offered", onRematchOffered);
+    socket.on("rematch-declined", onRematchDeclined);
+
     const onRoomRemoved = (data: { roomId: string; reason?: string }) => {
       if (data?.roomId !== localGameState.roomId) return;
       addToast(
@@ -268,6 +414,15 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
 
     socket.on("room-removed", onRoomRemoved);
 
+    const onGameRecorded = (data: { roomId?: string; gameId?: string }) => {
+      if (data?.roomId !== localGameState.roomId || !data.gameId) return;
+      setRecordedGameId(data.gameId);
+    };
+    socket.on("game-recorded", onGameRecorded);
+    // a new round invalidates the previous replay link
+    const onGameStarted = () => setRecordedGameId(null);
+    socket.on("game-started", onGameStarted);
+
     // Listen for server-side move validation errors (e.g., Open-4 rule).
     const onMoveError = (payload: { error?: string }) => {
       try {
@@ -288,14 +443,33 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
       }
     };
     socket.on("move-error", onMoveError);
+    // A move dropped by the server's payload guard never reaches the game, so
+    // clear the optimistic piece as well (App shows the toast)
+    const onRequestError = (payload: { event?: string }) => {
+      if (payload?.event === "make-move") {
+        setOptimisticInvalidateKey((k) => k + 1);
+      }
+      if (payload?.event === "request-takeback") setTakebackSent(false);
+    };
+    socket.on("request-error", onRequestError);
 
     return () => {
       socket.off("draw-offered", onDrawOffered);
       socket.off("draw-offer-sent", onDrawOfferSent);
       socket.off("draw-declined", onDrawDeclined);
       socket.off("game-ended", onGameEnded);
+      socket.off("takeback-requested", onTakebackRequested);
+      socket.off("takeback-request-sent", onTakebackRequestSent);
+      socket.off("takeback-declined", onTakebackDeclined);
+      socket.off("takeback-accepted", onTakebackAccepted);
+      socket.off("move-made", onMoveMade);
+      socket.off("rematch-offered", onRematchOffered);
+      socket.off("rematch-declined", onRematchDeclined);
       socket.off("room-removed", onRoomRemoved);
+      socket.off("game-recorded", onGameRecorded);
+      socket.off("game-started", onGameStarted);
       socket.off("move-error", onMoveError);
+      socket.off("request-error", onRequestError);
     };
   }, [localGameState.roomId, language, onLeaveRoom]);
 
@@ -323,6 +497,19 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
   }
 
   const mySymbol = myPlayer?.symbol || "";
+  const mySeat: Seat | null = !myPlayer
+    ? null
+    : myPlayer === localGameState.players.player1
+    ? "player1"
+    : "player2";
+  const rematchRequest = localGameState.rematchRequest;
+  const rematchSent = !!mySeat && rematchRequest?.seat === mySeat;
+  const rematchFromOpponent =
+    !!mySeat && !!rematchRequest && rematchRequest.seat !== mySeat;
+  // takebacks this player has left in the current game
+  const takebacksLeft =
+    (localGameState.takebacks ?? 0) -
+    (localGameState.takebacksUsed?.[mySymbol] ?? 0);
   const isMyTurn =
     localGameState.currentTurn === mySymbol &&
     localGameState.status === "playing";
@@ -338,15 +525,47 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
     rightPlayer &&
     localGameState.currentTurn === rightPlayer.symbol &&
     localGameState.status === "playing";
+  // players swap colours on every rematch
+  const leftSymbol = leftPlayer?.symbol || "X";
+  const rightSymbol = rightPlayer?.symbol || (leftSymbol === "X" ? "O" : "X");
+  // rounds won by each seat against this opponent, once one has been played
+  // (from the start in a best-of-N match)
+  const score = localGameState.score;
+  const bestOf = localGameState.bestOf;
+  const drawsLabel = score?.draws
+    ? ` (${(t.scoreDraws as string).replace("{n}", String(score.draws))})`
+    : "";
+  const matchScore =
+    score && (bestOf || score.player1 + score.player2 + score.draws > 0)
+      ? `${score.player1} – ${score.player2}${drawsLabel}`
+      : null;
+  const matchRound =
+    bestOf && score
+      ? (t.matchRound as string)
+          .replace("{n}", String(bestOf))
+          .replace(
+            "{round}",
+            String(currentRound(score, localGameState.status === "finished"))
+          )
+      : null;
+  const matchWinner = localGameState.matchWinner;
+  const matchOver = !bestOf || !!matchWinner;
+  const matchResultLabel = !matchWinner
+    ? null
+    : matchWinner === "draw"
+    ? (t.matchDrawn as string).replace("{score}", matchScore || "")
+    : (t.matchWon as string)
+        .replace(
+          "{name}",
+          localGameState.players[matchWinner]?.socketId === mySocketId
+            ? (t.you as string)
+            : localGameState.players[matchWinner]?.name || ""
+        )
+        .replace("{score}", matchScore || "");
 
-  // Timers per player (seconds remaining)
-  // Per-turn time limit (seconds). Changed from 60s to 45s as requested.
-  const TURN_SECONDS = 45;
-
-  const [timers, setTimers] = useState<Record<TimerKey, number>>(() => ({
-    p1: TURN_SECONDS,
-    p2: TURN_SECONDS,
-  }));
+  // Clock display is driven entirely by the server snapshot; we only count
+  // down locally between snapshots and never decide a timeout ourselves.
+  const [now, setNow] = useState(() => Date.now());
 
   const timerRef = useRef<number | null>(null);
   const audioCtxRef = useRef<AudioContext | null>(null);
@@ -389,94 +608,81 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
     }
   };
 
-  // Determine active player key based on current turn symbol
-  const getActiveKey = (gs: GameState): TimerKey | null => {
-    if (!gs?.players) return null;
-    return gs.currentTurn === gs.players.player1.symbol ? "p1" : "p2";
+  // Milliseconds left on a player's clock as of `at`, extrapolated from the
+  // last server snapshot (delay is consumed before the bank).
+  const msLeftAt = (symbol: string | undefined, at: number): number | null => {
+    if (!clock || !symbol) return null;
+    const bank = clock.remainingMs[symbol] ?? 0;
+    if (clock.active !== symbol) return bank;
+    const elapsed = Math.max(0, at - clock.receivedAt);
+    const delayLeft = Math.max(0, clock.delayLeftMs - elapsed);
+    const bankUsed = Math.max(0, elapsed - clock.delayLeftMs);
+    return Math.max(0, delayLeft + bank - bankUsed);
   };
 
-  // Manage ticking timer when it's someone's turn
-  useEffect(() => {
-    // clear previous timer
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
-
-    if (localGameState.status !== "playing") return;
-
-    const activeKey = getActiveKey(localGameState);
-    if (!activeKey) return;
+  const secondsLeft = (symbol: string | undefined) => {
+    const ms = msLeftAt(symbol, now);
+    return ms === null ? null : Math.ceil(ms / 1000);
+  };
 
-    // reset the active player's timer to full when a new turn starts
-    setTimers((t) => ({ ...t, [activeKey]: TURN_SECONDS }));
+  // Ring progress relative to a full turn (delay + starting bank)
+  const clockProgress = (symbol: string | undefined) => {
+    const ms = msLeftAt(symbol, now);
+    if (ms === null || !clock) return 1;
+    const total =
+      clock.timeControl.delayMs +
+      Math.max(clock.timeControl.baseMs, clock.remainingMs[symbol ?? ""] ?? 0);
+    return total > 0 ? Math.max(0, Math.min(1, ms / total)) : 0;
+  };
 
-    // initialize optional warning audio (try default public path or user-set URL)
+  // initialize optional warning audio (try default public path or user-set URL)
+  useEffect(() => {
     try {
       const url =
         (typeof window !== "undefined" &&
           (localStorage.getItem("zcaro-warning-url") || "/warning.mp3")) ||
         null;
       if (url) {
-        try {
-          const a = new Audio(url);
-          a.preload = "auto";
-          audioWarningRef.current = a;
-        } catch {
-          /* ignore */
-        }
+        const a = new Audio(url);
+        a.preload = "auto";
+        audioWarningRef.current = a;
       }
     } catch {
       /* ignore */
     }
+  }, []);
+
+  // Tick once per second while someone's clock is running
+  useEffect(() => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    setNow(Date.now());
+    if (localGameState.status !== "playing" || !clock?.active) return;
 
     timerRef.current = globalThis.setInterval(() => {
-      setTimers((t) => {
-        const current = t[activeKey];
-        if (current > 0) {
-          // If remaining time is in the last 10s, try to play user warning sound once per second.
-          if (current <= 10) {
-            const a = audioWarningRef.current;
-            if (a) {
-              try {
-                a.currentTime = 0;
-                // play() may reject if not interacted, fallback to synth tick
-                a.play().catch(() => playTick());
-              } catch {
-                playTick();
-              }
-            } else {
-              playTick();
-            }
-          } else {
+      const at = Date.now();
+      setNow(at);
+      const ms = msLeftAt(clock.active ?? undefined, at);
+      if (ms === null || ms <= 0) return;
+      // In the last 10s, try to play the user warning sound once per second.
+      if (ms <= 10000) {
+        const a = audioWarningRef.current;
+        if (a) {
+          try {
+            a.currentTime = 0;
+            // play() may reject if not interacted, fallback to synth tick
+            a.play().catch(() => playTick());
+          } catch {
             playTick();
           }
-          const updated = { ...t, [activeKey]: current - 1 };
-          if (current - 1 <= 0) {
-            // emit timeout event (the server will handle awarding win)
-            socket.emit("time-expired", { roomId: localGameState.roomId });
-            // Optimistically update local UI immediately so player sees result
-            setLocalGameState((gs) => {
-              if (!gs) return gs;
-              const p1 = gs.players.player1;
-              const p2 = gs.players.player2;
-              if (!p1 || !p2) {
-                return { ...gs, status: "finished", winner: null };
-              }
-              const loserIsP1 = p1.socketId === socket.id;
-              const winnerSymbol = loserIsP1 ? p2.symbol : p1.symbol;
-              return { ...gs, status: "finished", winner: winnerSymbol };
-            });
-            // stop interval
-            if (timerRef.current) {
-              clearInterval(timerRef.current);
-              timerRef.current = null;
-            }
-          }
-          return updated;
+        } else {
+          playTick();
         }
-        return t;
-      });
+      } else {
+        playTick();
+      }
     }, 1000);
 
     return () => {
@@ -485,7 +691,8 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
         timerRef.current = null;
       }
     };
-  }, [localGameState]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [clock, localGameState.status]);
 
   const handleCellClick = (row: number, col: number) => {
     if (isMyTurn && localGameState.status === "playing") {
@@ -515,6 +722,18 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
     }
   };
 
+  const replayUrl = (() => {
+    if (!recordedGameId) return null;
+    try {
+      const url = new URL(window.location.href);
+      url.search = "";
+      url.searchParams.set("replay", recordedGameId);
+      return url.toString();
+    } catch {
+      return null;
+    }
+  })();
+
   const getStatusMessage = () => {
     if (localGameState.status === "waiting") {
       return t.waitingOpponent as string;
@@ -647,23 +866,14 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
               {leftIsActive && (
                 <div className="absolute inset-0 z-50 pointer-events-none flex items-center justify-center">
                   <div className=" text-white text-3xl sm:text-4xl md:text-4xl font-bold px-2 py-0.5 rounded">
-                    {(() => {
-                      const key: TimerKey = "p1";
-                      return timers[key] ?? TURN_SECONDS;
-                    })()}
+                    {secondsLeft(leftPlayer?.symbol) ?? ""}
                   </div>
                 </div>
               )}
               {/* small timer ring - only when active */}
               {leftIsActive &&
                 (() => {
-                  const key: TimerKey = "p1";
-                  const secondsLeft = timers[key] ?? TURN_SECONDS;
-                  const total = TURN_SECONDS;
-                  const progress = Math.max(
-                    0,
-                    Math.min(1, secondsLeft / total)
-                  );
+                  const progress = clockProgress(leftPlayer?.symbol);
                   const r = 28;
                   const c = 2 * Math.PI * r;
                   const offset = c * (1 - progress);
@@ -707,7 +917,9 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
             <div className="text-center">
               {/* ELO display */}
               <div className="text-lg font-bold text-gray-800">
-                {leftPlayer?.elo ? `${leftPlayer.elo}` : ""}
+                {leftPlayer?.elo
+                  ? formatRating(leftPlayer.elo, leftPlayer.provisional)
+                  : ""}
               </div>
             </div>
           </div>
@@ -717,10 +929,10 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
             <div className="flex items-center gap-3 sm:gap-4 h-16">
               <div
                 className="text-4xl sm:text-5xl font-bold leading-none"
-                style={{ color: "#DC2626" }}
+                style={{ color: SYMBOL_COLORS[leftSymbol] }}
                 aria-hidden
               >
-                X
+                {leftSymbol}
               </div>
               {/* <img
                 src="/vs.png"
@@ -730,12 +942,23 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
               —
               <div
                 className="text-4xl sm:text-5xl font-bold leading-none"
-                style={{ color: "#16A34A" }}
+                style={{ color: SYMBOL_COLORS[rightSymbol] }}
                 aria-hidden
               >
-                O
+                {rightSymbol}
               </div>
             </div>
+            {matchScore && (
+              <div
+                className="text-sm font-semibold text-gray-700"
+                title={t.matchScoreTitle as string}
+              >
+                {matchScore}
+              </div>
+            )}
+            {matchRound && (
+              <div className="text-xs text-gray-500">{matchRound}</div>
+            )}
           </div>
 
           {/* Right player (player2 slot) */}
@@ -761,22 +984,13 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
               {rightIsActive && (
                 <div className="absolute inset-0 z-40 pointer-events-none flex items-center justify-center">
                   <div className="text-white text-3xl sm:text-4xl md:text-4xl font-bold px-2 py-0.5 rounded">
-                    {(() => {
-                      const key: TimerKey = "p2";
-                      return timers[key] ?? TURN_SECONDS;
-                    })()}
+                    {secondsLeft(rightPlayer?.symbol) ?? ""}
                   </div>
                 </div>
               )}
               {rightIsActive &&
                 (() => {
-                  const key: TimerKey = "p2";
-                  const secondsLeft = timers[key] ?? TURN_SECONDS;
-                  const total = TURN_SECONDS;
-                  const progress = Math.max(
-                    0,
-                    Math.min(1, secondsLeft / total)
-                  );
+                  const progress = clockProgress(rightPlayer?.symbol);
                   const r = 28;
                   const c = 2 * Math.PI * r;
                   const offset = c * (1 - progress);
@@ -821,7 +1035,7 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
               <div className="text-lg font-bold text-gray-800">
                 {rightPlayer
                   ? rightPlayer.elo
-                    ? `${rightPlayer.elo}`
+                    ? formatRating(rightPlayer.elo, rightPlayer.provisional)
                     : ""
                   : language === "vi"
                   ? "Đang chờ..."
@@ -833,12 +1047,42 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
 
         {/* Room code removed: not displayed per user request */}
 
+        {/* Rule set summary */}
+        {localGameState.rules && (
+          <div className="text-center text-xs text-gray-600 mb-2">
+            {[
+              localGameState.rules.overline
+                ? null
+                : language === "vi"
+                ? "Đúng 5 quân"
+                : "Exactly five",
+              localGameState.rules.blockedEnds
+                ? language === "vi"
+                  ? "Chặn hai đầu"
+                  : "Blocked ends"
+                : null,
+              localGameState.rules.openRule
+                ? `Open-${localGameState.rules.openDistance}`
+                : null,
+              localGameState.boardSize
+                ? `${localGameState.boardSize}x${localGameState.boardSize}`
+                : null,
+              `${localGameState.rules.lockedCells} ${
+                language === "vi" ? "ô cấm" : "locked cells"
+              }`,
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </div>
+        )}
+
         {/* Game Board + Chat (Chat moved below the board) */}
         <div className="bg-white/80 backdrop-blur-lg rounded-xl flex flex-col justify-center overflow-x-auto">
           <div ref={boardRef} className="w-full flex justify-center">
             <div className="relative w-full flex justify-center">
               <GameBoard
                 board={localGameState.board}
+                boardSize={localGameState.boardSize}
                 onCellClick={handleCellClick}
                 mySymbol={mySymbol}
                 isMyTurn={isMyTurn}
@@ -892,23 +1136,67 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
                 <p className="text-blue-700 text-sm font-bold mb-4">
                   {getStatusMessage()}
                 </p>
+                {matchResultLabel && (
+                  <p className="text-amber-700 text-base font-bold mb-4">
+                    {matchResultLabel}
+                  </p>
+                )}
+                {rematchFromOpponent && (
+                  <p className="text-sm text-gray-700 mb-2">
+                    {(t.rematchOffered as string).replace(
+                      "{name}",
+                      opponent?.name || (t.opponentLabel as string)
+                    )}
+                  </p>
+                )}
+                {mySeat &&
+                  localGameState.tournament &&
+                  "arena" in localGameState.tournament && (
+                    <p className="text-sm text-gray-600 mb-2">
+                      {t.arenaNext as string}
+                    </p>
+                  )}
+                {rematchSent && (
+                  <p className="text-sm text-gray-600 mb-2">
+                    {t.rematchSent as string}
+                  </p>
+                )}
                 <div className="flex items-center justify-center text-sm gap-4">
-                  {myPlayer &&
-                    localGameState.players.player1.socketId ===
-                      myPlayer.socketId && (
+                  {mySeat &&
+                    opponent &&
+                    !rematchSent &&
+                    !localGameState.tournament && (
                       <button
                         onClick={() => {
-                          // owner can restart the game
-                          socket.emit("start-game", {
+                          // both players have to agree; colours swap
+                          socket.emit("offer-rematch", {
                             roomId: localGameState.roomId,
                           });
                         }}
                         className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-5 rounded-lg transition-all"
-                        title={t.startNew as string}
                       >
-                        {t.startNew as string}
+                        {rematchFromOpponent
+                          ? (t.rematchAccept as string)
+                          : !matchOver
+                          ? (t.nextRound as string)
+                          : bestOf
+                          ? (t.newMatch as string)
+                          : (t.rematch as string)}
                       </button>
                     )}
+                  {rematchFromOpponent && (
+                    <button
+                      onClick={() => {
+                        socket.emit("respond-rematch", {
+                          roomId: localGameState.roomId,
+                          accept: false,
+                        });
+                      }}
+                      className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-5 rounded-lg transition-all"
+                    >
+                      {t.rematchDecline as string}
+                    </button>
+                  )}
 
                   <button
                     onClick={() => setShowLeaveConfirm(true)}
@@ -917,6 +1205,36 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
                     {t.leaveRoom as string}
                   </button>
                 </div>
+                {replayUrl && (
+                  <div className="mt-3 flex items-center justify-center gap-3 text-sm">
+                    <a
+                      href={replayUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:underline"
+                    >
+                      {language === "vi" ? "🎬 Xem lại ván" : "🎬 Watch replay"}
+                    </a>
+                    <button
+                      onClick={async () => {
+                        try {
+                          await navigator.clipboard.writeText(replayUrl);
+                          setReplayLinkCopied(true);
+                          setTimeout(() => setReplayLinkCopied(false), 2000);
+                        } catch {
+                          /* ignore */
+                        }
+                      }}
+                      className="text-gray-600 hover:underline"
+                    >
+                      {replayLinkCopied
+                        ? (t.copied as string)
+                        : language === "vi"
+                        ? "📋 Sao chép liên kết"
+                        : "📋 Copy link"}
+                    </button>
+                  </div>
+                )}
               </div>
             )}
             {localGameState.status === "waiting" && (
@@ -979,6 +1297,16 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
                     </div>
                   </div>
                 )}
+                {localGameState.private &&
+                  !localGameState.players.player2 &&
+                  myPlayer &&
+                  localGameState.players.player1.socketId ===
+                    myPlayer.socketId && (
+                    <InviteLink
+                      roomId={localGameState.roomId}
+                      language={language}
+                    />
+                  )}
               </div>
             )}
           </div>
@@ -1009,6 +1337,31 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
                     : "Draw offer sent, waiting..."}
                 </div>
               )}
+              {(localGameState.takebacks ?? 0) > 0 && (
+                <button
+                  onClick={() =>
+                    socket.emit("request-takeback", {
+                      roomId: localGameState.roomId,
+                    })
+                  }
+                  disabled={
+                    takebackSent ||
+                    takebacksLeft <= 0 ||
+                    !localGameState.moves?.some((m) => m.symbol === mySymbol)
+                  }
+                  className="bg-sky-500 hover:bg-sky-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg"
+                >
+                  {language === "vi" ? "↶ Xin đi lại" : "↶ Take back"}
+                  {` (${takebacksLeft})`}
+                </button>
+              )}
+              {takebackSent && (
+                <div className="text-sm text-gray-500 flex items-center">
+                  {language === "vi"
+                    ? "Đã xin đi lại, chờ phản hồi..."
+                    : "Takeback requested, waiting..."}
+                </div>
+              )}
               <button
                 onClick={() => setShowLeaveConfirm(true)}
                 className="bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-4 rounded-lg"
@@ -1092,6 +1445,50 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
             </div>
           )}
 
+          {/* Incoming takeback request prompt */}
+          {incomingTakeback && (
+            <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+              <div className="bg-white rounded-lg p-4 max-w-sm w-full shadow-xl border border-blue-100">
+                <div className="text-lg font-semibold text-gray-800">
+                  {incomingTakeback.fromName ||
+                    (language === "vi" ? "Đối thủ" : "Opponent")}
+                </div>
+                <div className="text-lg text-gray-500">
+                  {language === "vi"
+                    ? "xin đi lại nước vừa rồi"
+                    : "asks to take back their last move"}
+                </div>
+                <div className="mt-4 flex gap-3 justify-center">
+                  {[false, true].map((accept) => (
+                    <button
+                      key={String(accept)}
+                      onClick={() => {
+                        socket.emit("respond-takeback", {
+                          roomId: localGameState.roomId,
+                          accept,
+                        });
+                        setIncomingTakeback(null);
+                      }}
+                      className={
+                        accept
+                          ? "bg-emerald-500 hover:bg-emerald-600 text-white font-semibold py-2 px-4 rounded"
+                          : "bg-white border border-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-4 rounded"
+                      }
+                    >
+                      {accept
+                        ? language === "vi"
+                          ? "Đồng ý"
+                          : "Accept"
+                        : language === "vi"
+                        ? "Từ chối"
+                        : "Decline"}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Leave room confirmation modal */}
           {showLeaveConfirm && (
             <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
@@ -1123,6 +1520,22 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
               </div>
             </div>
           )}
+          {!myPlayer && localGameState.status === "playing" && (
+            <div className="mb-2 text-xs text-gray-500 text-center space-y-1">
+              {localGameState.spectatorDelay && (
+                <p>
+                  {(t.spectatorDelayNote as string).replace(
+                    "{delay}",
+                    formatSpectatorDelay(localGameState.spectatorDelay, {
+                      moves: t.delayMoves as string,
+                      seconds: t.delaySeconds as string,
+                    })
+                  )}
+                </p>
+              )}
+              <p>{t.spectatorChatNote as string}</p>
+            </div>
+          )}
           <div className="w-full">
             {/* Use a smaller chat height while a game is playing so the board stays prominent */}
             <ChatBox
@@ -1210,7 +1623,11 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
                     {selectedSpectator.name || (t.guest as string)}
                   </div>
                   <div className="text-sm text-gray-600">
-                    ELO: {selectedSpectator.elo ?? "—"}
+                    ELO:{" "}
+                    {formatRating(
+                      selectedSpectator.elo,
+                      selectedSpectator.provisional
+                    ) ?? "—"}
                   </div>
                   <div className="mt-2">
                     <button
@@ -1255,7 +1672,9 @@ export default function GameRoom(props: Readonly<GameRoomProps>) {
                       >
                         <td className="px-3 py-2">{p.name || p.socketId}</td>
                         <td className="px-3 py-2">{p.symbol ?? "—"}</td>
-                        <td className="px-3 py-2">{p.elo ?? "—"}</td>
+                        <td className="px-3 py-2">
+                          {formatRating(p.elo, p.provisional) ?? "—"}
+                        </td>
                       </tr>
                     ))
                   )}
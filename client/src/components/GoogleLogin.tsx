@@ -1,5 +1,5 @@
 import { useEffect, useRef } from "react";
-import socket from "../socket";
+import socket, { TOKEN_KEY } from "../socket";
 
 export interface AuthUser {
   _id?: string;
@@ -91,10 +91,13 @@ export default function GoogleLogin({ onSignIn }: GoogleLoginProps) {
           }
         );
         const data = await res.json();
-        if (res.ok && data.user) {
+        if (res.ok && data.user && data.token) {
           const user = data.user as AuthUser;
           localStorage.setItem("zcaro_user", JSON.stringify(user));
-          socket.emit("identify", { userId: user._id });
+          localStorage.setItem(TOKEN_KEY, data.token);
+          // sign in the already-connected socket; later reconnects send the
+          // token in the handshake
+          socket.emit("identify", { token: data.token });
           onSignIn(user);
         } else {
           console.error("Google sign-in failed", data);
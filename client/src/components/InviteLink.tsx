@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import socket from "../socket";
+import { inviteUrl, type RoomInvite } from "../invites";
+
+interface Props {
+  roomId: string;
+  language: string;
+}
+
+const translations: Record<string, Record<string, string>> = {
+  vi: {
+    title: "Liên kết mời",
+    hint: "Chỉ người có liên kết mới vào được phòng riêng này",
+    expires: "Hết hạn lúc {time}",
+    revoked: "Liên kết đã bị thu hồi",
+    copy: "📋 Sao chép",
+    copied: "Đã sao chép",
+    renew: "Tạo liên kết mới",
+    revoke: "Thu hồi",
+  },
+  en: {
+    title: "Invite link",
+    hint: "Only people with the link can join this private room",
+    expires: "Expires at {time}",
+    revoked: "The link was revoked",
+    copy: "📋 Copy",
+    copied: "Copied",
+    renew: "New link",
+    revoke: "Revoke",
+  },
+};
+
+// Invite link of a private room, shown to its owner while the seat is free
+export default function InviteLink({ roomId, language }: Props) {
+  const t = translations[language] || translations.vi;
+  const [invite, setInvite] = useState<RoomInvite | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const onInvite = (payload: RoomInvite) => {
+      if (payload.roomId === roomId) setInvite(payload);
+    };
+    socket.on("room-invite", onInvite);
+    socket.emit("request-invite", { roomId });
+    return () => {
+      socket.off("room-invite", onInvite);
+    };
+  }, [roomId]);
+
+  // ask for a fresh link once this one expires
+  useEffect(() => {
+    if (!invite?.expiresAt) return;
+    const timer = setTimeout(
+      () => socket.emit("request-invite", { roomId }),
+      Math.max(0, invite.expiresAt - Date.now())
+    );
+    return () => clearTimeout(timer);
+  }, [invite, roomId]);
+
+  const url = invite?.token ? inviteUrl(roomId, invite.token) : null;
+
+  const copy = async () => {
+    if (!url) return;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      /* ignore */
+    }
+  };
+
+  return (
+    <div className="mt-3 text-sm">
+      <div className="font-semibold text-gray-700">{t.title}</div>
+      <p className="text-xs text-gray-500 mb-2">{t.hint}</p>
+      {url ? (
+        <div className="flex gap-2">
+          <input
+            readOnly
+            value={url}
+            onFocus={(e) => e.target.select()}
+            className="flex-1 min-w-0 px-2 py-1 rounded border border-gray-300 text-xs text-gray-700"
+          />
+          <button
+            type="button"
+            onClick={copy}
+            className="px-3 py-1 rounded bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            {copied ? t.copied : t.copy}
+          </button>
+        </div>
+      ) : (
+        invite && <p className="text-xs text-gray-500">{t.revoked}</p>
+      )}
+      <div className="flex items-center gap-3 mt-2 text-xs">
+        {invite?.expiresAt && (
+          <span className="text-gray-500 flex-1">
+            {t.expires.replace(
+              "{time}",
+              new Date(invite.expiresAt).toLocaleTimeString(language)
+            )}
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={() => socket.emit("request-invite", { roomId, renew: true })}
+          className="text-blue-600 hover:underline"
+        >
+          {t.renew}
+        </button>
+        {url && (
+          <button
+            type="button"
+            onClick={() => socket.emit("revoke-invite", { roomId })}
+            className="text-red-600 hover:underline"
+          >
+            {t.revoke}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
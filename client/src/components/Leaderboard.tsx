@@ -0,0 +1,335 @@
+import { useEffect, useRef, useState } from "react";
+import type { AuthUser } from "./GoogleLogin";
+import { formatRating } from "../rating";
+import { BADGE_ICONS, type Badge, type Season } from "../seasons";
+
+type Period = "all" | "month" | "week";
+
+interface Entry {
+  rank: number;
+  userId: string;
+  name: string;
+  avatar: string | null;
+  elo: number | null;
+  provisional?: boolean;
+  games: number;
+  // rating points gained in the period (month/week only)
+  gain?: number;
+  // final standings of a past season
+  badge?: Badge;
+}
+
+interface LeaderboardPage {
+  page: number;
+  pages: number;
+  total: number;
+  // not sent for past seasons
+  minGames?: number;
+  players: Entry[];
+  me: (Entry & { page: number }) | null;
+}
+
+interface Props {
+  user?: AuthUser | null;
+  language: string;
+}
+
+const PAGE_SIZE = 20;
+const PERIODS: Period[] = ["all", "month", "week"];
+
+const translations: Record<string, Record<string, string>> = {
+  vi: {
+    all: "Mọi thời điểm",
+    month: "Tháng này",
+    week: "Tuần này",
+    myPosition: "Vị trí của tôi",
+    notRanked: "Bạn cần ít nhất {n} ván tính điểm để có hạng",
+    empty: "Chưa có người chơi nào đủ điều kiện",
+    games: "ván",
+    previous: "Trước",
+    next: "Sau",
+    page: "Trang {page}/{pages}",
+    loading: "Đang tải...",
+    failed: "Không tải được bảng xếp hạng",
+    currentSeason: "Mùa {name}, kết thúc ngày {date}",
+    pastSeasons: "Mùa trước",
+  },
+  en: {
+    all: "All time",
+    month: "This month",
+    week: "This week",
+    myPosition: "My position",
+    notRanked: "Play at least {n} rated games to get a rank",
+    empty: "No eligible players yet",
+    games: "games",
+    previous: "Previous",
+    next: "Next",
+    page: "Page {page}/{pages}",
+    loading: "Loading...",
+    failed: "Could not load the leaderboard",
+    currentSeason: "Season {name}, ends {date}",
+    pastSeasons: "Past seasons",
+  },
+};
+
+export default function Leaderboard({ user, language }: Props) {
+  const t = translations[language] || translations.vi;
+  const [period, setPeriod] = useState<Period>("all");
+  // id of the past season shown instead of a period, if any
+  const [season, setSeason] = useState<string | null>(null);
+  const [seasons, setSeasons] = useState<{
+    current: Season | null;
+    archived: Season[];
+  }>({ current: null, archived: [] });
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<LeaderboardPage | null>(null);
+  const [error, setError] = useState(false);
+  // set by "My position": scroll to the user's row once their page is shown
+  const [scrollToMe, setScrollToMe] = useState(false);
+  const myRowRef = useRef<HTMLDivElement | null>(null);
+  const userId = user?._id;
+
+  useEffect(() => {
+    let mounted = true;
+    async function fetchSeasons() {
+      try {
+        const base = import.meta.env.VITE_API_BASE || "";
+        const res = await fetch(`${base}/api/seasons`);
+        if (!res.ok) return;
+        const body = await res.json();
+        if (!mounted) return;
+        setSeasons({
+          current: body?.current ?? null,
+          archived: Array.isArray(body?.archived) ? body.archived : [],
+        });
+      } catch (e) {
+        console.error("Failed to fetch seasons", e);
+      }
+    }
+
+    fetchSeasons();
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+    async function fetchPage() {
+      try {
+        const base = import.meta.env.VITE_API_BASE || "";
+        const params = new URLSearchParams({
+          page: String(page),
+          pageSize: String(PAGE_SIZE),
+        });
+        if (userId) params.set("userId", userId);
+        if (!season) params.set("period", period);
+        const url = season
+          ? `${base}/api/seasons/${encodeURIComponent(season)}/standings`
+          : `${base}/api/leaderboard`;
+        const res = await fetch(`${url}?${params}`);
+        if (!mounted) return;
+        if (!res.ok) {
+          setError(true);
+          return;
+        }
+        const body = (await res.json()) as LeaderboardPage;
+        if (!mounted) return;
+        setData(body);
+        setError(false);
+      } catch (e) {
+        console.error("Failed to fetch leaderboard", e);
+        if (mounted) setError(true);
+      }
+    }
+
+    fetchPage();
+    return () => {
+      mounted = false;
+    };
+  }, [period, season, page, userId]);
+
+  useEffect(() => {
+    if (!scrollToMe || data?.page !== data?.me?.page) return;
+    myRowRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+    setScrollToMe(false);
+  }, [scrollToMe, data]);
+
+  function choosePeriod(p: Period) {
+    setPeriod(p);
+    setSeason(null);
+    setPage(1);
+    setData(null);
+  }
+
+  function chooseSeason(id: string) {
+    if (!id) {
+      choosePeriod(period);
+      return;
+    }
+    setSeason(id);
+    setPage(1);
+    setData(null);
+  }
+
+  function goToMe() {
+    if (!data?.me) return;
+    setPage(data.me.page);
+    setScrollToMe(true);
+  }
+
+  const me = data?.me ?? null;
+  const current = seasons.current;
+
+  return (
+    <div>
+      {current && (
+        <p className="text-xs text-gray-500 mb-2">
+          {t.currentSeason
+            .replace("{name}", current.name)
+            .replace(
+              "{date}",
+              new Date(current.endsAt).toLocaleDateString(language)
+            )}
+        </p>
+      )}
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="flex gap-2">
+          {PERIODS.map((p) => (
+            <button
+              key={p}
+              type="button"
+              onClick={() => choosePeriod(p)}
+              className={`px-3 py-1 rounded-full text-sm ${
+                period === p && !season
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+              }`}
+            >
+              {t[p]}
+            </button>
+          ))}
+          {seasons.archived.length > 0 && (
+            <select
+              value={season ?? ""}
+              onChange={(e) => chooseSeason(e.target.value)}
+              aria-label={t.pastSeasons}
+              className={`px-2 py-1 rounded-full text-sm ${
+                season ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-600"
+              }`}
+            >
+              <option value="">{t.pastSeasons}</option>
+              {seasons.archived.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        {me && (
+          <button
+            type="button"
+            onClick={goToMe}
+            className="text-sm text-blue-600 hover:underline"
+          >
+            {t.myPosition} #{me.rank}
+          </button>
+        )}
+      </div>
+
+      {userId && data?.minGames !== undefined && !me && (
+        <p className="text-gray-500 text-xs mb-2">
+          {t.notRanked.replace("{n}", String(data.minGames))}
+        </p>
+      )}
+
+      {error && <p className="text-red-500 text-sm">{t.failed}</p>}
+      {!error && !data && <p className="text-gray-500 text-sm">{t.loading}</p>}
+      {data && data.players.length === 0 && (
+        <p className="text-gray-500 text-sm">{t.empty}</p>
+      )}
+
+      {data && data.players.length > 0 && (
+        <div className="space-y-2">
+          {data.players.map((p) => {
+            const isMe = p.userId === userId;
+            return (
+              <div
+                key={p.userId}
+                ref={isMe ? myRowRef : undefined}
+                className={`flex items-center gap-3 p-3 rounded shadow-sm ${
+                  isMe ? "bg-blue-50 ring-1 ring-blue-300" : "bg-white"
+                }`}
+              >
+                <div className="w-10 text-sm font-semibold text-gray-600">
+                  #{p.rank}
+                </div>
+                {p.avatar ? (
+                  <img
+                    src={p.avatar}
+                    alt={p.name}
+                    className="w-10 h-10 rounded-full object-cover"
+                  />
+                ) : (
+                  <div className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center text-sm text-gray-700 font-semibold">
+                    {p.name ? p.name.charAt(0).toUpperCase() : "?"}
+                  </div>
+                )}
+                <div className="flex-1">
+                  <div className="text-sm font-bold text-gray-800">
+                    {p.badge ? `${BADGE_ICONS[p.badge] ?? ""} ` : ""}
+                    {p.name}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {p.games} {t.games}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div className="text-sm font-semibold text-gray-800">
+                    {formatRating(p.elo, p.provisional) ?? "—"}
+                  </div>
+                  {p.gain !== undefined && (
+                    <div
+                      className={`text-xs ${
+                        p.gain >= 0 ? "text-green-600" : "text-red-500"
+                      }`}
+                    >
+                      {p.gain >= 0 ? `+${p.gain}` : p.gain}
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {data && data.pages > 1 && (
+        <div className="flex items-center justify-center gap-4 mt-4 text-sm">
+          <button
+            type="button"
+            disabled={page <= 1}
+            onClick={() => setPage((n) => Math.max(1, n - 1))}
+            className="px-3 py-1 rounded bg-gray-100 disabled:opacity-40"
+          >
+            {t.previous}
+          </button>
+          <span className="text-gray-600">
+            {t.page
+              .replace("{page}", String(data.page))
+              .replace("{pages}", String(data.pages))}
+          </span>
+          <button
+            type="button"
+            disabled={page >= data.pages}
+            onClick={() => setPage((n) => n + 1)}
+            className="px-3 py-1 rounded bg-gray-100 disabled:opacity-40"
+          >
+            {t.next}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,32 +1,70 @@
 import { useEffect, useState } from "react";
 import type { AuthUser } from "./GoogleLogin";
-// ChatBox removed: Top 20 list replaces chat tab
+// ChatBox removed: the leaderboard tab replaces chat
 import socket from "../socket";
+import {
+  DEFAULT_RULES,
+  MAX_LOCKED_CELLS,
+  OPEN_DISTANCE_RANGE,
+  RULE_PRESETS,
+  type RulePreset,
+  type RuleSet,
+} from "../rules";
+import { BOARD_SIZES, DEFAULT_BOARD_SIZE } from "../boardSize";
+import { formatRating } from "../rating";
+import Leaderboard from "./Leaderboard";
+import Friends from "./Friends";
+import Tournaments from "./Tournaments";
+import { parseInvite } from "../invites";
+import {
+  SPECTATOR_DELAYS,
+  formatSpectatorDelay,
+  type SpectatorDelay,
+  type SpectatorDelayPreset,
+} from "../spectators";
+import { BEST_OF } from "../matches";
 
 type RoomInfo = {
   roomId: string;
   status: string;
   createdAt: number | null;
   isPrivate?: boolean;
+  // false: watching this private room needs its invite link
+  allowSpectators?: boolean;
   player1: {
     name?: string | null;
     socketId?: string | null;
     avatar?: string | null;
     elo?: number | null;
+    provisional?: boolean;
   } | null;
   player2: {
     name?: string | null;
     socketId?: string | null;
     avatar?: string | null;
     elo?: number | null;
+    provisional?: boolean;
   } | null;
   spectators: number;
 };
 
+export type BotLevel = "easy" | "medium" | "hard";
+
+const BOT_LEVELS: BotLevel[] = ["easy", "medium", "hard"];
+
 interface LobbyProps {
   onFindMatch: (playerName: string) => void;
-  onCreateRoom: (playerName: string, roomId: string) => void;
-  onJoinRoom: (roomId: string, playerName: string) => void;
+  onPlayBot: (playerName: string, level: BotLevel) => void;
+  onCreateRoom: (
+    playerName: string,
+    roomId: string,
+    rules: RuleSet,
+    boardSize: number,
+    allowSpectators: boolean,
+    spectatorDelay: SpectatorDelay | null,
+    bestOf: number | null
+  ) => void;
+  onJoinRoom: (roomId: string, playerName: string, invite?: string) => void;
   onSpectateRoom?: (roomId: string, playerName: string) => void;
   isWaiting: boolean;
   onCancelMatchmaking: () => void;
@@ -38,6 +76,7 @@ interface LobbyProps {
 export default function Lobby({
   onCreateRoom,
   onFindMatch,
+  onPlayBot,
   onJoinRoom,
   onSpectateRoom,
   isWaiting,
@@ -114,7 +153,11 @@ export default function Lobby({
       roomsTab: "Phòng",
       onlinesTab: "Online",
       chatTab: "Chat",
-      top20Tab: "Top ELO",
+      leaderboardTab: "Bảng xếp hạng",
+      friendsTab: "Bạn bè",
+      tournamentsTab: "Giải đấu",
+      addFriend: "+ Kết bạn",
+      friendRequestSent: "Đã gửi",
       notFound: "Không tìm thấy",
       roomCodeLabel: "Mã phòng",
       roomCodeTitle: "Mã phòng :",
@@ -130,10 +173,39 @@ export default function Lobby({
       createNewRoom: "✚ Tạo phòng mới",
       roomCodeRequired: "Mã phòng (bắt buộc)",
       enterRoomPlaceholder: "Nhập mã phòng...",
+      joinRoomPlaceholder: "Nhập mã phòng hoặc dán liên kết mời...",
+      inviteOnly: "Chỉ xem được bằng liên kết mời",
+      allowSpectators: "Cho phép người xem (không cần liên kết mời)",
+      spectatorDelayLabel: "Người xem xem trễ",
+      matchLabel: "Thể thức",
+      singleGames: "Từng ván",
+      bestOf: "BO{n}",
+      delay_off: "Không",
+      delayMoves: "{n} nước",
+      delaySeconds: "{n} giây",
       cancel: "Hủy",
       joinRoomTitle: "Vào phòng",
       searchingOpponent: "Đang tìm đối thủ...",
       cancelShort: "Hủy",
+      playBot: "🤖 Chơi với máy",
+      playBotTitle: "Chơi với máy",
+      playBotHint: "Ván luyện tập, không tính ELO",
+      botLevel_easy: "Dễ",
+      botLevel_medium: "Trung bình",
+      botLevel_hard: "Khó",
+      start: "Bắt đầu",
+      rulesLabel: "Luật chơi",
+      boardSizeLabel: "Kích thước bàn cờ",
+      rule_standard: "Tiêu chuẩn",
+      "rule_free-style": "Tự do",
+      "rule_exact-five": "Đúng 5",
+      "rule_blocked-ends": "Chặn hai đầu",
+      "rule_renju-like": "Kiểu Renju",
+      ruleOverline: "Tính thắng khi có 6 quân trở lên",
+      ruleBlockedEnds: "Chặn hai đầu không tính thắng",
+      ruleOpen: "Luật Open (nước 2 cách nước đầu)",
+      ruleOpenDistance: "Khoảng cách",
+      ruleLockedCells: "Số ô cấm",
     },
     en: {
       mustSignInMatch: "Please sign in with Google to find a match",
@@ -145,7 +217,11 @@ export default function Lobby({
       roomsTab: "Rooms",
       onlinesTab: "Onlines",
       chatTab: "Chat",
-      top20Tab: "Top ELO",
+      leaderboardTab: "Leaderboard",
+      friendsTab: "Friends",
+      tournamentsTab: "Tournaments",
+      addFriend: "+ Add friend",
+      friendRequestSent: "Sent",
       notFound: "Not found",
       roomCodeLabel: "Room code",
       roomCodeTitle: "Room code :",
@@ -161,35 +237,72 @@ export default function Lobby({
       createNewRoom: "✚ Create new room",
       roomCodeRequired: "Room code (required)",
       enterRoomPlaceholder: "Enter room code...",
+      joinRoomPlaceholder: "Enter a room code or paste an invite link...",
+      inviteOnly: "Invite link needed to watch",
+      allowSpectators: "Allow spectators without the invite link",
+      spectatorDelayLabel: "Spectator delay",
+      matchLabel: "Format",
+      singleGames: "Single games",
+      bestOf: "Best of {n}",
+      delay_off: "Off",
+      delayMoves: "{n} moves",
+      delaySeconds: "{n}s",
       cancel: "Cancel",
       joinRoomTitle: "Join room",
       searchingOpponent: "Searching for opponent...",
       cancelShort: "Cancel",
+      playBot: "🤖 Play vs computer",
+      playBotTitle: "Play vs computer",
+      playBotHint: "Practice game, ELO is not affected",
+      botLevel_easy: "Easy",
+      botLevel_medium: "Medium",
+      botLevel_hard: "Hard",
+      start: "Start",
+      rulesLabel: "Rules",
+      boardSizeLabel: "Board size",
+      rule_standard: "Standard",
+      "rule_free-style": "Free-style",
+      "rule_exact-five": "Exact five",
+      "rule_blocked-ends": "Blocked ends",
+      "rule_renju-like": "Renju-like",
+      ruleOverline: "Six or more in a row wins",
+      ruleBlockedEnds: "Five blocked at both ends does not win",
+      ruleOpen: "Open rule (2nd move away from the 1st)",
+      ruleOpenDistance: "Distance",
+      ruleLockedCells: "Locked cells",
     },
   };
   const t = translations[language] || translations.vi;
-  const [activeTab, setActiveTab] = useState<"rooms" | "onlines" | "top20">(
-    "rooms"
+  const [activeTab, setActiveTab] = useState<
+    "rooms" | "onlines" | "friends" | "tournaments" | "leaderboard"
+  >("rooms");
+  // users sent a friend request from the Onlines tab
+  const [requestedFriends, setRequestedFriends] = useState<Set<string>>(
+    () => new Set()
   );
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showJoinModal, setShowJoinModal] = useState(false);
+  const [showBotModal, setShowBotModal] = useState(false);
+  const [botLevel, setBotLevel] = useState<BotLevel>("medium");
   const [playerName, setPlayerName] = useState("");
   const [roomId, setRoomId] = useState("");
   const [createRoomCode, setCreateRoomCode] = useState("");
+  const [createRules, setCreateRules] = useState<RuleSet>(DEFAULT_RULES);
+  const [createBoardSize, setCreateBoardSize] =
+    useState<number>(DEFAULT_BOARD_SIZE);
+  const [createAllowSpectators, setCreateAllowSpectators] = useState(true);
+  const [createSpectatorDelay, setCreateSpectatorDelay] =
+    useState<SpectatorDelayPreset>("off");
+  // rounds of a best-of-N match, or null for single games
+  const [createBestOf, setCreateBestOf] = useState<number | null>(null);
   const [onlineUsers, setOnlineUsers] = useState<
     {
       socketId: string;
+      userId?: string;
       name?: string;
       avatar?: string | null;
       elo?: number | null;
-    }[]
-  >([]);
-  const [topPlayers, setTopPlayers] = useState<
-    {
-      socketId: string;
-      name?: string;
-      avatar?: string | null;
-      elo?: number | null;
+      provisional?: boolean;
     }[]
   >([]);
   const [roomsList, setRoomsList] = useState<RoomInfo[]>([]);
@@ -197,38 +310,27 @@ export default function Lobby({
   useEffect(() => {
     type RawUser = {
       socketId: string;
+      _id?: string;
       name?: string;
       avatar?: string | null;
       elo?: number | null;
+      provisional?: boolean;
     };
     const handler = ({ users }: { users: RawUser[] }) => {
       if (!Array.isArray(users)) return;
       setOnlineUsers(
         users.map((u) => ({
           socketId: u.socketId,
+          userId: u._id,
           name: u.name,
           avatar: u.avatar,
           elo: u.elo ?? null,
+          provisional: u.provisional === true,
         }))
       );
     };
 
     socket.on("online-users", handler);
-    const topHandler = ({ players }: { players?: RawUser[] }) => {
-      try {
-        if (!Array.isArray(players)) return;
-        const list = players.map((u) => ({
-          socketId: u.socketId,
-          name: u.name,
-          avatar: u.avatar ?? null,
-          elo: typeof u.elo === "number" ? u.elo : null,
-        }));
-        setTopPlayers(list.slice(0, 20));
-      } catch {
-        /* ignore */
-      }
-    };
-    socket.on("top-players", topHandler);
     const roomsHandler = (payload: { rooms?: unknown }) => {
       try {
         const { rooms } = payload as { rooms?: unknown };
@@ -250,7 +352,6 @@ export default function Lobby({
     return () => {
       socket.off("online-users", handler);
       socket.off("rooms-list", roomsHandler);
-      socket.off("top-players", topHandler);
     };
   }, []);
 
@@ -266,21 +367,7 @@ export default function Lobby({
         /* ignore */
       }
     }
-    if (activeTab === "top20") {
-      try {
-        // Ask server for top players; server may respond on 'top-players'
-        socket.emit("request-top-players");
-      } catch {
-        /* ignore */
-      }
-      // Fallback: compute from known online users immediately
-      setTopPlayers(
-        [...onlineUsers]
-          .sort((a, b) => (b.elo ?? -Infinity) - (a.elo ?? -Infinity))
-          .slice(0, 20)
-      );
-    }
-  }, [activeTab, onlineUsers]);
+  }, [activeTab]);
 
   // Track elapsed waiting time (seconds) while matchmaking
   useEffect(() => {
@@ -349,6 +436,15 @@ export default function Lobby({
           >
             {t.createRoom}
           </button>
+
+          {/* Practice against the server-side bot (guests allowed, unrated) */}
+          <button
+            onClick={() => setShowBotModal(true)}
+            disabled={isWaiting}
+            className="py-3 px-6 rounded-lg text-sm font-semibold transition-colors bg-gray-700 hover:bg-gray-800 text-white"
+          >
+            {t.playBot}
+          </button>
         </div>
       </div>
 
@@ -357,7 +453,7 @@ export default function Lobby({
         <div className="flex w-full justify-between gap-4 mt-6 mb-6">
           <button
             onClick={() => setActiveTab("rooms")}
-            className={`px-8 w-1/3 py-3 text-sm font-medium transition-colors ${
+            className={`px-8 w-1/5 py-3 text-sm font-medium transition-colors ${
               activeTab === "rooms"
                 ? "text-gray-900 border-b-2 border-blue-600"
                 : "text-gray-500 hover:text-gray-700"
@@ -367,7 +463,7 @@ export default function Lobby({
           </button>
           <button
             onClick={() => setActiveTab("onlines")}
-            className={`px-6 w-1/3 py-3 text-sm font-medium transition-colors ${
+            className={`px-6 w-1/5 py-3 text-sm font-medium transition-colors ${
               activeTab === "onlines"
                 ? "text-gray-900 border-b-2 border-blue-600"
                 : "text-gray-500 hover:text-gray-700"
@@ -376,14 +472,34 @@ export default function Lobby({
             {t.onlinesTab}
           </button>
           <button
-            onClick={() => setActiveTab("top20")}
-            className={`px-6 w-1/3 py-3 text-sm font-medium transition-colors ${
-              activeTab === "top20"
+            onClick={() => setActiveTab("friends")}
+            className={`px-6 w-1/5 py-3 text-sm font-medium transition-colors ${
+              activeTab === "friends"
                 ? "text-gray-900 border-b-2 border-blue-600"
                 : "text-gray-500 hover:text-gray-700"
             }`}
           >
-            {t.top20Tab}
+            {t.friendsTab}
+          </button>
+          <button
+            onClick={() => setActiveTab("tournaments")}
+            className={`px-6 w-1/5 py-3 text-sm font-medium transition-colors ${
+              activeTab === "tournaments"
+                ? "text-gray-900 border-b-2 border-blue-600"
+                : "text-gray-500 hover:text-gray-700"
+            }`}
+          >
+            {t.tournamentsTab}
+          </button>
+          <button
+            onClick={() => setActiveTab("leaderboard")}
+            className={`px-6 w-1/5 py-3 text-sm font-medium transition-colors ${
+              activeTab === "leaderboard"
+                ? "text-gray-900 border-b-2 border-blue-600"
+                : "text-gray-500 hover:text-gray-700"
+            }`}
+          >
+            {t.leaderboardTab}
           </button>
         </div>
       </div>
@@ -418,21 +534,26 @@ export default function Lobby({
                             <img
                               src={r.player1.avatar}
                               alt={
-                                r.player1?.elo != null
-                                  ? String(r.player1.elo)
-                                  : t.host
+                                formatRating(
+                                  r.player1?.elo,
+                                  r.player1?.provisional
+                                ) ?? t.host
                               }
                               className="w-10 h-10 rounded-full object-cover"
                             />
                           ) : (
                             <div className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center text-sm text-gray-700 font-semibold">
-                              {r.player1?.elo != null
-                                ? String(r.player1.elo)
-                                : "C"}
+                              {formatRating(
+                                r.player1?.elo,
+                                r.player1?.provisional
+                              ) ?? "C"}
                             </div>
                           )}
                           <div className="text-sm text-gray-500 font-medium">
-                            {r.player1?.elo != null ? r.player1.elo : t.host}
+                            {formatRating(
+                              r.player1?.elo,
+                              r.player1?.provisional
+                            ) ?? t.host}
                           </div>
                         </div>
 
@@ -443,21 +564,26 @@ export default function Lobby({
                             <img
                               src={r.player2.avatar}
                               alt={
-                                r.player2?.elo != null
-                                  ? String(r.player2.elo)
-                                  : "–"
+                                formatRating(
+                                  r.player2?.elo,
+                                  r.player2?.provisional
+                                ) ?? "–"
                               }
                               className="w-10 h-10 rounded-full object-cover"
                             />
                           ) : (
                             <div className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center text-sm text-gray-700 font-semibold">
-                              {r.player2?.elo != null
-                                ? String(r.player2.elo)
-                                : "–"}
+                              {formatRating(
+                                r.player2?.elo,
+                                r.player2?.provisional
+                              ) ?? "–"}
                             </div>
                           )}
                           <div className="text-sm text-gray-500 font-medium">
-                            {r.player2?.elo != null ? r.player2.elo : "–"}
+                            {formatRating(
+                              r.player2?.elo,
+                              r.player2?.provisional
+                            ) ?? "–"}
                           </div>
                         </div>
                       </div>
@@ -488,7 +614,13 @@ export default function Lobby({
                             setShowJoinModal(true);
                           }
                         }}
-                        className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg w-full sm:w-auto"
+                        disabled={r.isPrivate && r.allowSpectators === false}
+                        title={
+                          r.isPrivate && r.allowSpectators === false
+                            ? t.inviteOnly
+                            : ""
+                        }
+                        className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg w-full sm:w-auto"
                       >
                         {r.isPrivate ? t.viewBtn : t.enterBtn}
                       </button>
@@ -643,8 +775,24 @@ export default function Lobby({
                         {u.name || t.guest}
                       </div>
                       <div className="text-sm text-gray-500">
-                        {u.elo ? `${u.elo}` : "—"}
+                        {formatRating(u.elo, u.provisional) ?? "—"}
                       </div>
+                      {user?._id && u.userId && u.userId !== user._id && (
+                        <button
+                          type="button"
+                          disabled={requestedFriends.has(u.userId)}
+                          onClick={() => {
+                            const id = u.userId as string;
+                            socket.emit("friend-request", { userId: id });
+                            setRequestedFriends((s) => new Set(s).add(id));
+                          }}
+                          className="mt-1 text-xs text-blue-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+                        >
+                          {requestedFriends.has(u.userId)
+                            ? t.friendRequestSent
+                            : t.addFriend}
+                        </button>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -653,41 +801,24 @@ export default function Lobby({
           </div>
         )}
 
-        {activeTab === "top20" && (
-          <div>
-            {topPlayers.length === 0 ? (
-              <p className="text-gray-500 text-sm">{t.notFound}</p>
-            ) : (
-              <div className="space-y-2">
-                {topPlayers.map((u, idx) => (
-                  <div
-                    key={u.socketId}
-                    className="flex items-center gap-3 p-3 bg-white rounded shadow-sm"
-                  >
-                    <div className="w-8 text-sm font-semibold text-gray-600">
-                      #{idx + 1}
-                    </div>
-                    {u.avatar ? (
-                      <img
-                        src={u.avatar}
-                        alt={u.name}
-                        className="w-10 h-10 rounded-full object-cover"
-                      />
-                    ) : (
-                      <div className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center text-sm text-gray-700 font-semibold">
-                        {u.name ? u.name.charAt(0).toUpperCase() : "?"}
-                      </div>
-                    )}
-                    <div className="flex-1">
-                      <div className="text-sm font-bold text-gray-800">
-                        {u.name || t.guest} - {u.elo ?? "—"}
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            )}
-          </div>
+        {activeTab === "friends" && (
+          <Friends
+            user={user}
+            language={language}
+            onSpectateRoom={(id) => onSpectateRoom?.(id, user?.name || "")}
+          />
+        )}
+
+        {activeTab === "tournaments" && (
+          <Tournaments
+            user={user}
+            language={language}
+            onSpectateRoom={(id) => onSpectateRoom?.(id, user?.name || "")}
+          />
+        )}
+
+        {activeTab === "leaderboard" && (
+          <Leaderboard user={user} language={language} />
         )}
       </div>
 
@@ -722,7 +853,12 @@ export default function Lobby({
                       onCreateRoom(
                         playerName ||
                           `Player ${Math.random().toString(36).slice(2, 6)}`,
-                        createRoomCode.trim()
+                        createRoomCode.trim(),
+                        createRules,
+                        createBoardSize,
+                        createAllowSpectators,
+                        SPECTATOR_DELAYS[createSpectatorDelay],
+                        createBestOf
                       );
                       setShowCreateModal(false);
                       setPlayerName("");
@@ -731,6 +867,179 @@ export default function Lobby({
                   }}
                 />
               </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={createAllowSpectators}
+                  onChange={(e) => setCreateAllowSpectators(e.target.checked)}
+                />
+                {t.allowSpectators}
+              </label>
+              <div>
+                <label className="block text-gray-700 text-sm font-medium mb-2">
+                  {t.spectatorDelayLabel}
+                </label>
+                <div className="flex gap-2">
+                  {(
+                    Object.keys(SPECTATOR_DELAYS) as SpectatorDelayPreset[]
+                  ).map((p) => {
+                    const delay = SPECTATOR_DELAYS[p];
+                    return (
+                      <button
+                        key={p}
+                        type="button"
+                        onClick={() => setCreateSpectatorDelay(p)}
+                        className={`flex-1 py-2 rounded-lg text-sm font-semibold transition-colors ${
+                          createSpectatorDelay === p
+                            ? "bg-gray-800 text-white"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        }`}
+                      >
+                        {delay
+                          ? formatSpectatorDelay(delay, {
+                              moves: t.delayMoves,
+                              seconds: t.delaySeconds,
+                            })
+                          : t.delay_off}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+              <div>
+                <label className="block text-gray-700 text-sm font-medium mb-2">
+                  {t.matchLabel}
+                </label>
+                <div className="flex gap-2">
+                  {[null, ...BEST_OF].map((n) => (
+                    <button
+                      key={n ?? "single"}
+                      type="button"
+                      onClick={() => setCreateBestOf(n)}
+                      className={`flex-1 py-2 rounded-lg text-sm font-semibold transition-colors ${
+                        createBestOf === n
+                          ? "bg-gray-800 text-white"
+                          : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                      }`}
+                    >
+                      {n ? t.bestOf.replace("{n}", String(n)) : t.singleGames}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="block text-gray-700 text-sm font-medium mb-2">
+                  {t.boardSizeLabel}
+                </label>
+                <div className="flex gap-2">
+                  {BOARD_SIZES.map((size) => (
+                    <button
+                      key={size}
+                      onClick={() => setCreateBoardSize(size)}
+                      className={`flex-1 py-2 rounded-lg text-sm font-semibold transition-colors ${
+                        createBoardSize === size
+                          ? "bg-gray-800 text-white"
+                          : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                      }`}
+                    >
+                      {size}x{size}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="block text-gray-700 text-sm font-medium mb-2">
+                  {t.rulesLabel}
+                </label>
+                <select
+                  value={createRules.preset}
+                  onChange={(e) =>
+                    setCreateRules(RULE_PRESETS[e.target.value as RulePreset])
+                  }
+                  className="w-full px-4 py-2 rounded-lg border border-gray-300 text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {(Object.keys(RULE_PRESETS) as RulePreset[]).map((preset) => (
+                    <option key={preset} value={preset}>
+                      {t[`rule_${preset}`]}
+                    </option>
+                  ))}
+                </select>
+                <div className="mt-3 space-y-2 text-sm text-gray-700">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={createRules.overline}
+                      onChange={(e) =>
+                        setCreateRules((r) => ({
+                          ...r,
+                          overline: e.target.checked,
+                        }))
+                      }
+                    />
+                    {t.ruleOverline}
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={createRules.blockedEnds}
+                      onChange={(e) =>
+                        setCreateRules((r) => ({
+                          ...r,
+                          blockedEnds: e.target.checked,
+                        }))
+                      }
+                    />
+                    {t.ruleBlockedEnds}
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <label className="flex items-center gap-2 flex-1">
+                      <input
+                        type="checkbox"
+                        checked={createRules.openRule}
+                        onChange={(e) =>
+                          setCreateRules((r) => ({
+                            ...r,
+                            openRule: e.target.checked,
+                          }))
+                        }
+                      />
+                      {t.ruleOpen}
+                    </label>
+                    <input
+                      type="number"
+                      aria-label={t.ruleOpenDistance}
+                      title={t.ruleOpenDistance}
+                      min={OPEN_DISTANCE_RANGE.min}
+                      max={OPEN_DISTANCE_RANGE.max}
+                      value={createRules.openDistance}
+                      disabled={!createRules.openRule}
+                      onChange={(e) =>
+                        setCreateRules((r) => ({
+                          ...r,
+                          openDistance: Number(e.target.value),
+                        }))
+                      }
+                      className="w-16 px-2 py-1 rounded border border-gray-300 disabled:bg-gray-100"
+                    />
+                  </div>
+                  <label className="flex items-center gap-2">
+                    <span className="flex-1">{t.ruleLockedCells}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={MAX_LOCKED_CELLS}
+                      value={createRules.lockedCells}
+                      onChange={(e) =>
+                        setCreateRules((r) => ({
+                          ...r,
+                          lockedCells: Number(e.target.value),
+                        }))
+                      }
+                      className="w-16 px-2 py-1 rounded border border-gray-300"
+                    />
+                  </label>
+                </div>
+              </div>
               <div className="flex gap-3">
                 <button
                   onClick={() => {
@@ -738,7 +1047,12 @@ export default function Lobby({
                     onCreateRoom(
                       playerName ||
                         `Player ${Math.random().toString(36).slice(2, 6)}`,
-                      createRoomCode.trim()
+                      createRoomCode.trim(),
+                      createRules,
+                      createBoardSize,
+                      createAllowSpectators,
+                      SPECTATOR_DELAYS[createSpectatorDelay],
+                      createBestOf
                     );
                     setShowCreateModal(false);
                     setPlayerName("");
@@ -764,6 +1078,60 @@ export default function Lobby({
         </div>
       )}
 
+      {/* Play vs computer Modal */}
+      {showBotModal && (
+        <div
+          className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+          onClick={() => setShowBotModal(false)}
+        >
+          <div
+            className="bg-white rounded-xl p-6 max-w-md w-full mx-4 shadow-2xl"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h3 className="text-2xl font-bold text-gray-800 mb-2">
+              {t.playBotTitle}
+            </h3>
+            <p className="text-sm text-gray-500 mb-4">{t.playBotHint}</p>
+            <div className="flex gap-2 mb-6">
+              {BOT_LEVELS.map((level) => (
+                <button
+                  key={level}
+                  onClick={() => setBotLevel(level)}
+                  className={`flex-1 py-2 rounded-lg text-sm font-semibold transition-colors ${
+                    botLevel === level
+                      ? "bg-gray-800 text-white"
+                      : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  }`}
+                >
+                  {t[`botLevel_${level}`]}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={() => {
+                  onPlayBot(
+                    user?.name ||
+                      `Player ${Math.random().toString(36).slice(2, 6)}`,
+                    botLevel
+                  );
+                  setShowBotModal(false);
+                }}
+                className="flex-1 bg-gray-800 hover:bg-gray-900 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+              >
+                {t.start}
+              </button>
+              <button
+                onClick={() => setShowBotModal(false)}
+                className="flex-1 bg-gray-300 hover:bg-gray-400 text-gray-800 font-semibold py-3 px-6 rounded-lg transition-colors"
+              >
+                {t.cancel}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Join Room Modal */}
       {showJoinModal && (
         <div
@@ -786,15 +1154,17 @@ export default function Lobby({
                   type="text"
                   value={roomId}
                   onChange={(e) => setRoomId(e.target.value)}
-                  placeholder={t.enterRoomPlaceholder}
+                  placeholder={t.joinRoomPlaceholder}
                   className="w-full px-4 py-3 rounded-lg border border-gray-300 text-gray-800 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   autoFocus
                   onKeyDown={(e) => {
                     if (e.key === "Enter" && roomId.trim()) {
+                      const target = parseInvite(roomId);
                       onJoinRoom(
-                        roomId.trim(),
+                        target.roomId,
                         playerName ||
-                          `Player ${Math.random().toString(36).substr(2, 6)}`
+                          `Player ${Math.random().toString(36).substr(2, 6)}`,
+                        target.invite
                       );
                       setShowJoinModal(false);
                       setRoomId("");
@@ -807,10 +1177,12 @@ export default function Lobby({
                 <button
                   onClick={() => {
                     if (roomId.trim()) {
+                      const target = parseInvite(roomId);
                       onJoinRoom(
-                        roomId.trim(),
+                        target.roomId,
                         playerName ||
-                          `Player ${Math.random().toString(36).substr(2, 6)}`
+                          `Player ${Math.random().toString(36).substr(2, 6)}`,
+                        target.invite
                       );
                       setShowJoinModal(false);
                       setRoomId("");
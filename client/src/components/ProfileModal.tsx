@@ -1,5 +1,8 @@
 import { useState, useEffect } from "react";
 import type { AuthUser } from "./GoogleLogin";
+import { formatRating } from "../rating";
+import RatingStats from "./RatingStats";
+import { BADGE_ICONS, type SeasonBadge } from "../seasons";
 
 interface Props {
   user?: AuthUser | null;
@@ -111,6 +114,7 @@ export default function ProfileModal(props: Props) {
       language: "Language",
       logout: "Logout",
       close: "Close profile",
+      seasons: "Seasons",
     },
     vi: {
       profile: "HỒ SƠ",
@@ -121,6 +125,7 @@ export default function ProfileModal(props: Props) {
       language: "Ngôn ngữ",
       logout: "Đăng xuất",
       close: "Đóng",
+      seasons: "Mùa giải",
     },
   };
 
@@ -159,6 +164,8 @@ export default function ProfileModal(props: Props) {
 
   if (!user) return null;
   const displayUser = profile ?? user;
+  const badges =
+    (displayUser as AuthUser & { badges?: SeasonBadge[] }).badges ?? [];
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center">
       <button
@@ -168,7 +175,7 @@ export default function ProfileModal(props: Props) {
         className="absolute inset-0 bg-black/40 focus:outline-none"
       />
 
-      <div className="relative bg-white w-[520px] max-w-[95%] rounded-lg shadow-lg overflow-hidden">
+      <div className="relative bg-white w-[520px] max-w-[95%] max-h-[90vh] rounded-lg shadow-lg overflow-y-auto">
         <div className="flex items-center justify-between px-6 py-3 border-b">
           <div className="text-center w-full font-semibold">{t.profile}</div>
           <button
@@ -278,6 +285,7 @@ export default function ProfileModal(props: Props) {
                       const anyUser = displayUser as AuthUser & {
                         elo?: number;
                         rating?: number;
+                        provisional?: boolean;
                       };
                       let eloVal: number | null = null;
                       if (typeof anyUser.elo === "number") eloVal = anyUser.elo;
@@ -285,13 +293,33 @@ export default function ProfileModal(props: Props) {
                         eloVal = anyUser.rating;
                       if (eloVal !== null)
                         return (
-                          <span className="text-gray-500 ml-2">{eloVal}</span>
+                          <span className="text-gray-500 ml-2">
+                            {formatRating(eloVal, anyUser.provisional)}
+                          </span>
                         );
                       return <span className="text-gray-500 ml-2">—</span>;
                     })()}
                   </span>
                 </div>
 
+                {badges.length > 0 && (
+                  <div className="mb-2">
+                    {t.seasons}:
+                    <div className="mt-1 flex flex-wrap gap-2">
+                      {badges.map((b) => (
+                        <span
+                          key={b.season}
+                          title={b.badge}
+                          className="px-2 py-0.5 rounded-full bg-amber-50 border border-amber-200 text-xs text-gray-700"
+                        >
+                          {BADGE_ICONS[b.badge] ?? ""} {b.seasonName} · #
+                          {b.rank}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <div className="mb-2">
                   {t.language}:
                   <span className="ml-2 inline-block">
@@ -330,6 +358,12 @@ export default function ProfileModal(props: Props) {
                   </span>
                 </div>
               </div>
+
+              {displayUser?._id && (
+                <div className="border-t mt-2">
+                  <RatingStats userId={displayUser._id} language={language} />
+                </div>
+              )}
             </div>
 
             <div className="w-full border-t mt-6 pt-4">
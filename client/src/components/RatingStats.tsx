@@ -0,0 +1,235 @@
+import { useEffect, useState } from "react";
+
+interface RatingPoint {
+  at: string;
+  rating: number;
+  change: number;
+  rd: number | null;
+  result: "win" | "loss" | "draw";
+  opponentId: string;
+}
+
+interface OpponentRecord {
+  userId: string;
+  name: string | null;
+  avatar: string | null;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+interface Stats {
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  currentStreak: { result: "win" | "loss"; length: number } | null;
+  longestWinStreak: number;
+  longestLossStreak: number;
+  bestRating: { rating: number; at: string } | null;
+  opponents: OpponentRecord[];
+}
+
+interface Props {
+  userId: string;
+  language: string;
+}
+
+const CHART_WIDTH = 440;
+const CHART_HEIGHT = 140;
+const CHART_PADDING = 8;
+
+const translations: Record<string, Record<string, string>> = {
+  en: {
+    ratingHistory: "Rating history",
+    noGames: "No rated games yet",
+    games: "Games",
+    record: "W / L / D",
+    winRate: "Win rate",
+    bestRating: "Best rating",
+    currentStreak: "Current streak",
+    longestWinStreak: "Longest win streak",
+    wins: "wins",
+    losses: "losses",
+    opponents: "Most played opponents",
+    unknownPlayer: "Unknown player",
+    loading: "Loading...",
+  },
+  vi: {
+    ratingHistory: "Lịch sử điểm",
+    noGames: "Chưa có ván tính điểm",
+    games: "Số ván",
+    record: "Thắng / Thua / Hòa",
+    winRate: "Tỉ lệ thắng",
+    bestRating: "Điểm cao nhất",
+    currentStreak: "Chuỗi hiện tại",
+    longestWinStreak: "Chuỗi thắng dài nhất",
+    wins: "thắng",
+    losses: "thua",
+    opponents: "Đối thủ gặp nhiều nhất",
+    unknownPlayer: "Người chơi ẩn danh",
+    loading: "Đang tải...",
+  },
+};
+
+// Polyline through the ratings, scaled to the chart box
+function chartPath(ratings: number[]) {
+  const min = Math.min(...ratings);
+  const max = Math.max(...ratings);
+  const span = max - min || 1;
+  const stepX =
+    ratings.length > 1
+      ? (CHART_WIDTH - CHART_PADDING * 2) / (ratings.length - 1)
+      : 0;
+  return ratings
+    .map((r, i) => {
+      const x = CHART_PADDING + i * stepX;
+      const y =
+        CHART_HEIGHT -
+        CHART_PADDING -
+        ((r - min) / span) * (CHART_HEIGHT - CHART_PADDING * 2);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+}
+
+export default function RatingStats({ userId, language }: Props) {
+  const [points, setPoints] = useState<RatingPoint[] | null>(null);
+  const [start, setStart] = useState<number | null>(null);
+  const [stats, setStats] = useState<Stats | null>(null);
+  const t = translations[language] || translations.en;
+
+  useEffect(() => {
+    let mounted = true;
+    async function fetchStats() {
+      try {
+        const base = import.meta.env.VITE_API_BASE || "";
+        const [historyRes, statsRes] = await Promise.all([
+          fetch(`${base}/api/user/${userId}/rating-history`),
+          fetch(`${base}/api/user/${userId}/stats`),
+        ]);
+        if (!mounted) return;
+        if (historyRes.ok) {
+          const data = await historyRes.json();
+          if (!mounted) return;
+          setPoints(Array.isArray(data?.points) ? data.points : []);
+          setStart(typeof data?.start === "number" ? data.start : null);
+        } else {
+          setPoints([]);
+        }
+        if (statsRes.ok) {
+          const data = await statsRes.json();
+          if (mounted && data?.stats) setStats(data.stats as Stats);
+        }
+      } catch (e) {
+        console.error("Failed to fetch rating stats", e);
+        if (mounted) setPoints([]);
+      }
+    }
+
+    fetchStats();
+    return () => {
+      mounted = false;
+    };
+  }, [userId]);
+
+  if (points === null) {
+    return <div className="text-sm text-gray-500 py-3">{t.loading}</div>;
+  }
+  if (points.length === 0) {
+    return <div className="text-sm text-gray-500 py-3">{t.noGames}</div>;
+  }
+
+  const ratings = [
+    ...(start !== null ? [start] : []),
+    ...points.map((p) => p.rating),
+  ];
+  const min = Math.min(...ratings);
+  const max = Math.max(...ratings);
+  const winRate =
+    stats && stats.games > 0 ? Math.round((stats.wins / stats.games) * 100) : 0;
+  const streak = stats?.currentStreak;
+
+  const cards: { label: string; value: string }[] = stats
+    ? [
+        { label: t.games, value: String(stats.games) },
+        {
+          label: t.record,
+          value: `${stats.wins} / ${stats.losses} / ${stats.draws}`,
+        },
+        { label: t.winRate, value: `${winRate}%` },
+        {
+          label: t.bestRating,
+          value: stats.bestRating ? String(stats.bestRating.rating) : "—",
+        },
+        {
+          label: t.currentStreak,
+          value: streak
+            ? `${streak.length} ${streak.result === "win" ? t.wins : t.losses}`
+            : "—",
+        },
+        { label: t.longestWinStreak, value: String(stats.longestWinStreak) },
+      ]
+    : [];
+
+  return (
+    <div className="py-3">
+      <div className="text-gray-800 font-medium mb-2">{t.ratingHistory}</div>
+      <div className="flex gap-2">
+        <div className="flex flex-col justify-between text-xs text-gray-400 py-1">
+          <span>{max}</span>
+          <span>{min}</span>
+        </div>
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          className="flex-1 h-36 bg-gray-50 rounded"
+          role="img"
+          aria-label={t.ratingHistory}
+        >
+          <polyline
+            points={chartPath(ratings)}
+            fill="none"
+            stroke="#14b8a6"
+            strokeWidth="2"
+            strokeLinejoin="round"
+          />
+        </svg>
+      </div>
+
+      {cards.length > 0 && (
+        <div className="grid grid-cols-3 gap-2 mt-4">
+          {cards.map((c) => (
+            <div key={c.label} className="bg-gray-50 rounded p-2 text-center">
+              <div className="text-xs text-gray-500">{c.label}</div>
+              <div className="text-lg font-semibold text-gray-800">
+                {c.value}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {stats && stats.opponents.length > 0 && (
+        <div className="mt-4">
+          <div className="text-gray-800 font-medium mb-2">{t.opponents}</div>
+          <div className="space-y-1">
+            {stats.opponents.map((o) => (
+              <div
+                key={o.userId}
+                className="flex items-center justify-between text-sm"
+              >
+                <span className="text-gray-700">
+                  {o.name || t.unknownPlayer}
+                </span>
+                <span className="text-gray-500">
+                  {o.wins} / {o.losses} / {o.draws}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
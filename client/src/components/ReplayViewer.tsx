@@ -0,0 +1,362 @@
+import { useEffect, useState } from "react";
+import GameBoard from "./GameBoard";
+import { DEFAULT_BOARD_SIZE } from "../boardSize";
+import { SPECTATOR_CHANNEL } from "../spectators";
+
+interface ReplayPlayer {
+  userId?: string;
+  name?: string;
+  avatar?: string | null;
+  symbol: string;
+}
+
+interface ReplayMove {
+  row: number;
+  col: number;
+  symbol: string;
+  at: string;
+}
+
+// Players' and spectators' messages written during the game
+interface ReplayChatMessage {
+  sender?: string;
+  message: string;
+  channel?: string;
+  at: string;
+}
+
+interface ReplayGame {
+  _id: string;
+  players: ReplayPlayer[];
+  moves: ReplayMove[];
+  lockedCells: [number, number][];
+  winningCells: [number, number][];
+  boardSize?: number;
+  rated?: boolean;
+  result: string | null;
+  reason: string;
+  chat?: ReplayChatMessage[];
+  endedAt?: string;
+}
+
+interface ReplayViewerProps {
+  gameId: string;
+  onClose: () => void;
+}
+
+// Delay between moves while autoplaying (ms)
+const AUTOPLAY_MS = 800;
+
+export default function ReplayViewer({
+  gameId,
+  onClose,
+}: Readonly<ReplayViewerProps>) {
+  const [language] = useState<"vi" | "en">(() => {
+    try {
+      return localStorage.getItem("zcaro-lang") === "en" ? "en" : "vi";
+    } catch {
+      return "vi";
+    }
+  });
+  const [game, setGame] = useState<ReplayGame | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // number of moves currently shown on the board (0 = empty board)
+  const [step, setStep] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const t =
+    language === "vi"
+      ? {
+          title: "Xem lại ván đấu",
+          loading: "Đang tải ván đấu...",
+          notFound: "Không tìm thấy ván đấu",
+          move: "Nước",
+          first: "⏮",
+          prev: "◀",
+          next: "▶",
+          last: "⏭",
+          play: "▶ Tự chạy",
+          pause: "⏸ Dừng",
+          copyLink: "📋 Sao chép liên kết",
+          copied: "Đã sao chép",
+          back: "Về sảnh",
+          draw: "Hòa",
+          winner: "Người thắng",
+          chat: "Trò chuyện trong ván",
+          spectator: "người xem",
+          reasons: {
+            finished: "5 quân liên tiếp",
+            timeout: "Hết giờ",
+            forfeit: "Bỏ cuộc",
+            "draw-offer-accepted": "Đồng ý hòa",
+          } as Record<string, string>,
+        }
+      : {
+          title: "Game replay",
+          loading: "Loading game...",
+          notFound: "Game not found",
+          move: "Move",
+          first: "⏮",
+          prev: "◀",
+          next: "▶",
+          last: "⏭",
+          play: "▶ Autoplay",
+          pause: "⏸ Pause",
+          copyLink: "📋 Copy link",
+          copied: "Copied",
+          back: "Back to lobby",
+          draw: "Draw",
+          winner: "Winner",
+          chat: "Chat during the game",
+          spectator: "spectator",
+          reasons: {
+            finished: "Five in a row",
+            timeout: "Timeout",
+            forfeit: "Forfeit",
+            "draw-offer-accepted": "Draw agreed",
+          } as Record<string, string>,
+        };
+
+  // Load the stored game
+  useEffect(() => {
+    let mounted = true;
+    async function fetchGame() {
+      try {
+        const base = import.meta.env.VITE_API_BASE || "";
+        const res = await fetch(`${base}/api/game/${gameId}`);
+        if (!mounted) return;
+        if (!res.ok) {
+          setError(t.notFound);
+          return;
+        }
+        const data = await res.json();
+        if (data?.game) {
+          setGame(data.game as ReplayGame);
+          // open on the final position so the result is visible immediately
+          setStep((data.game as ReplayGame).moves?.length ?? 0);
+        }
+      } catch (e) {
+        console.error("Failed to fetch game for replay", e);
+        if (mounted) setError(t.notFound);
+      }
+    }
+    fetchGame();
+    return () => {
+      mounted = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gameId]);
+
+  const totalMoves = game?.moves.length ?? 0;
+
+  // Autoplay: advance one move at a time, stop at the end
+  useEffect(() => {
+    if (!playing) return;
+    if (step >= totalMoves) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep((s) => s + 1), AUTOPLAY_MS);
+    return () => clearTimeout(timer);
+  }, [playing, step, totalMoves]);
+
+  if (error) {
+    return (
+      <div className="w-full max-w-[737.59px] mx-auto px-4 py-6 text-center">
+        <p className="text-gray-600 mb-4">{error}</p>
+        <button
+          onClick={onClose}
+          className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-5 rounded-lg"
+        >
+          {t.back}
+        </button>
+      </div>
+    );
+  }
+
+  if (!game) {
+    return (
+      <div className="w-full max-w-[737.59px] mx-auto px-4 py-6 text-center text-gray-500">
+        {t.loading}
+      </div>
+    );
+  }
+
+  const size = game.boardSize || DEFAULT_BOARD_SIZE;
+  const board: (string | null)[][] = Array.from({ length: size }, () =>
+    Array(size).fill(null)
+  );
+  for (const m of game.moves.slice(0, step)) {
+    if (board[m.row]) board[m.row][m.col] = m.symbol;
+  }
+  const current = step > 0 ? game.moves[step - 1] : null;
+  const atEnd = step === totalMoves;
+
+  const px = game.players.find((p) => p.symbol === "X");
+  const po = game.players.find((p) => p.symbol === "O");
+  const winnerPlayer = game.players.find((p) => p.symbol === game.result);
+  const resultText =
+    game.result === "draw"
+      ? t.draw
+      : winnerPlayer
+      ? `${t.winner}: ${winnerPlayer.name || winnerPlayer.symbol}`
+      : "—";
+
+  const copyLink = async () => {
+    try {
+      const url = new URL(window.location.href);
+      url.search = "";
+      url.searchParams.set("replay", game._id);
+      await navigator.clipboard.writeText(url.toString());
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      /* ignore */
+    }
+  };
+
+  const stepTo = (n: number) => {
+    setPlaying(false);
+    setStep(Math.max(0, Math.min(totalMoves, n)));
+  };
+
+  return (
+    <div className="min-h-screen pt-4">
+      <div className="w-full max-w-[737.59px] mx-auto px-4">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-bold text-gray-800">{t.title}</h2>
+          <button
+            onClick={onClose}
+            className="text-sm text-blue-600 hover:underline"
+          >
+            {t.back}
+          </button>
+        </div>
+
+        <div className="flex items-center justify-center gap-4 mb-3 text-sm">
+          <span className="font-semibold" style={{ color: "#DC2626" }}>
+            X {px?.name || ""}
+          </span>
+          <span className="text-gray-400">—</span>
+          <span className="font-semibold" style={{ color: "#16A34A" }}>
+            O {po?.name || ""}
+          </span>
+        </div>
+        <div className="text-center text-sm text-gray-600 mb-3">
+          {resultText}
+          {game.reason ? ` • ${t.reasons[game.reason] ?? game.reason}` : ""}
+        </div>
+
+        <div className="bg-white/80 backdrop-blur-lg rounded-xl flex justify-center overflow-x-auto">
+          <GameBoard
+            board={board}
+            boardSize={size}
+            onCellClick={() => {}}
+            mySymbol=""
+            isMyTurn={false}
+            gameStatus="finished"
+            lockedCells={game.lockedCells || []}
+            moveCount={step}
+            winningCells={atEnd ? game.winningCells || [] : []}
+            readOnly
+            highlightedMove={current ? [current.row, current.col] : null}
+          />
+        </div>
+
+        <div className="mt-4 flex flex-col items-center gap-3">
+          <div className="text-sm text-gray-600">
+            {t.move} {step}/{totalMoves}
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={totalMoves}
+            value={step}
+            onChange={(e) => stepTo(Number(e.target.value))}
+            className="w-full max-w-md"
+            aria-label={t.move}
+          />
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => stepTo(0)}
+              disabled={step === 0}
+              className="px-3 py-2 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-50"
+            >
+              {t.first}
+            </button>
+            <button
+              onClick={() => stepTo(step - 1)}
+              disabled={step === 0}
+              className="px-3 py-2 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-50"
+            >
+              {t.prev}
+            </button>
+            <button
+              onClick={() => {
+                if (playing) {
+                  setPlaying(false);
+                  return;
+                }
+                // restart from the beginning when already at the end
+                if (atEnd) setStep(0);
+                setPlaying(true);
+              }}
+              className="px-4 py-2 rounded bg-blue-500 hover:bg-blue-600 text-white font-semibold"
+            >
+              {playing ? t.pause : t.play}
+            </button>
+            <button
+              onClick={() => stepTo(step + 1)}
+              disabled={atEnd}
+              className="px-3 py-2 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-50"
+            >
+              {t.next}
+            </button>
+            <button
+              onClick={() => stepTo(totalMoves)}
+              disabled={atEnd}
+              className="px-3 py-2 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-50"
+            >
+              {t.last}
+            </button>
+          </div>
+          <button
+            onClick={copyLink}
+            className="text-sm text-blue-600 hover:underline"
+          >
+            {copied ? t.copied : t.copyLink}
+          </button>
+        </div>
+
+        {game.chat && game.chat.length > 0 && (
+          <div className="mt-6 bg-white rounded-lg border border-gray-200 p-3">
+            <div className="text-sm font-semibold text-gray-700 mb-2">
+              {t.chat}
+            </div>
+            <div className="space-y-1 max-h-64 overflow-y-auto text-sm">
+              {game.chat.map((m, idx) => (
+                <div key={`${m.at}-${idx}`} className="flex gap-2">
+                  <span className="text-xs text-gray-400 shrink-0">
+                    {new Date(m.at).toLocaleTimeString()}
+                  </span>
+                  <span className="font-semibold text-gray-700 shrink-0">
+                    {m.sender}
+                    {m.channel === SPECTATOR_CHANNEL && (
+                      <span className="font-normal text-gray-400">
+                        {" "}
+                        (👁︎ {t.spectator})
+                      </span>
+                    )}
+                    :
+                  </span>
+                  <span className="text-gray-800 break-words">{m.message}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { DEFAULT_RULES, RULE_PRESETS, type RulePreset } from "../rules";
+import { BOARD_SIZES, DEFAULT_BOARD_SIZE } from "../boardSize";
+import {
+  DEFAULT_TIME_CONTROL,
+  TIME_CONTROLS,
+  formatTimeControl,
+  type TimeControlPreset,
+} from "../timeControls";
+import {
+  ARENA_DURATIONS,
+  DEFAULT_ARENA_DURATION,
+  DEFAULT_SWISS_ROUNDS,
+  SWISS_ROUNDS,
+  TOURNAMENT_FORMATS,
+  type TournamentFormat,
+  type TournamentSettings,
+} from "../tournaments";
+
+interface Props {
+  language: string;
+  onCreate: (settings: TournamentSettings) => void;
+  onClose: () => void;
+}
+
+const translations: Record<string, Record<string, string>> = {
+  vi: {
+    title: "Tạo giải đấu",
+    nameLabel: "Tên giải",
+    namePlaceholder: "Giải cờ caro cuối tuần",
+    formatLabel: "Thể thức",
+    swiss: "Hệ Thụy Sĩ",
+    knockout: "Loại trực tiếp",
+    arena: "Arena",
+    roundsLabel: "Số vòng",
+    knockoutHint: "Số vòng tùy theo số người tham gia; hòa thì O đi tiếp.",
+    durationLabel: "Thời lượng",
+    minutes: "{n} phút",
+    arenaHint:
+      "Xong ván là được ghép ván mới ngay. Thắng 2 điểm, hòa 1; thắng liền 2 ván thì điểm nhân đôi.",
+    rated: "Tính điểm",
+    rulesLabel: "Luật",
+    boardSizeLabel: "Kích thước bàn",
+    timeControlLabel: "Thời gian",
+    create: "Tạo giải",
+    cancel: "Hủy",
+    rule_standard: "Tiêu chuẩn",
+    "rule_free-style": "Tự do",
+    "rule_exact-five": "Đúng 5",
+    "rule_blocked-ends": "Chặn hai đầu",
+    "rule_renju-like": "Kiểu Renju",
+  },
+  en: {
+    title: "New tournament",
+    nameLabel: "Name",
+    namePlaceholder: "Weekend caro cup",
+    formatLabel: "Format",
+    swiss: "Swiss",
+    knockout: "Knockout",
+    arena: "Arena",
+    roundsLabel: "Rounds",
+    knockoutHint:
+      "Rounds depend on the number of players; O goes through on a draw.",
+    durationLabel: "Duration",
+    minutes: "{n} min",
+    arenaHint:
+      "A new game is paired as soon as yours ends. A win is 2 points, a draw 1; after two wins in a row points are doubled.",
+    rated: "Rated",
+    rulesLabel: "Rules",
+    boardSizeLabel: "Board size",
+    timeControlLabel: "Time control",
+    create: "Create",
+    cancel: "Cancel",
+    rule_standard: "Standard",
+    "rule_free-style": "Free-style",
+    "rule_exact-five": "Exact five",
+    "rule_blocked-ends": "Blocked ends",
+    "rule_renju-like": "Renju-like",
+  },
+};
+
+const choiceClass = (selected: boolean) =>
+  `flex-1 py-2 rounded-lg text-sm font-semibold transition-colors ${
+    selected
+      ? "bg-gray-800 text-white"
+      : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+  }`;
+
+// Settings of a new tournament; every game of it is played with them
+export default function TournamentModal({
+  language,
+  onCreate,
+  onClose,
+}: Props) {
+  const t = translations[language] || translations.vi;
+  const [name, setName] = useState("");
+  const [format, setFormat] = useState<TournamentFormat>("swiss");
+  const [rounds, setRounds] = useState(DEFAULT_SWISS_ROUNDS);
+  const [duration, setDuration] = useState(DEFAULT_ARENA_DURATION);
+  const [rated, setRated] = useState(false);
+  const [preset, setPreset] = useState<RulePreset>(DEFAULT_RULES.preset);
+  const [boardSize, setBoardSize] = useState(DEFAULT_BOARD_SIZE);
+  const [timeControl, setTimeControl] =
+    useState<TimeControlPreset>(DEFAULT_TIME_CONTROL);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl p-6 max-w-md w-full mx-4 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-2xl font-bold text-gray-800 mb-4">{t.title}</h3>
+        <div className="space-y-4">
+          <div>
+            <label className="block text-gray-700 text-sm font-medium mb-2">
+              {t.nameLabel}
+            </label>
+            <input
+              type="text"
+              value={name}
+              maxLength={60}
+              placeholder={t.namePlaceholder}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-4 py-2 rounded-lg border border-gray-300 text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 text-sm font-medium mb-2">
+              {t.formatLabel}
+            </label>
+            <div className="flex gap-2">
+              {TOURNAMENT_FORMATS.map((f) => (
+                <button
+                  key={f}
+                  type="button"
+                  onClick={() => setFormat(f)}
+                  className={choiceClass(format === f)}
+                >
+                  {t[f]}
+                </button>
+              ))}
+            </div>
+          </div>
+          {format === "swiss" && (
+            <div>
+              <label className="block text-gray-700 text-sm font-medium mb-2">
+                {t.roundsLabel}
+              </label>
+              <div className="flex gap-2">
+                {SWISS_ROUNDS.map((n) => (
+                  <button
+                    key={n}
+                    type="button"
+                    onClick={() => setRounds(n)}
+                    className={choiceClass(rounds === n)}
+                  >
+                    {n}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          {format === "knockout" && (
+            <p className="text-xs text-gray-500">{t.knockoutHint}</p>
+          )}
+          {format === "arena" && (
+            <div>
+              <label className="block text-gray-700 text-sm font-medium mb-2">
+                {t.durationLabel}
+              </label>
+              <div className="flex gap-2">
+                {ARENA_DURATIONS.map((n) => (
+                  <button
+                    key={n}
+                    type="button"
+                    onClick={() => setDuration(n)}
+                    className={choiceClass(duration === n)}
+                  >
+                    {t.minutes.replace("{n}", String(n))}
+                  </button>
+                ))}
+              </div>
+              <p className="mt-2 text-xs text-gray-500">{t.arenaHint}</p>
+            </div>
+          )}
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={rated}
+              onChange={(e) => setRated(e.target.checked)}
+            />
+            {t.rated}
+          </label>
+          <div>
+            <label className="block text-gray-700 text-sm font-medium mb-2">
+              {t.timeControlLabel}
+            </label>
+            <div className="flex gap-2">
+              {(Object.keys(TIME_CONTROLS) as TimeControlPreset[]).map((p) => (
+                <button
+                  key={p}
+                  type="button"
+                  onClick={() => setTimeControl(p)}
+                  className={choiceClass(timeControl === p)}
+                >
+                  {formatTimeControl(TIME_CONTROLS[p])}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-gray-700 text-sm font-medium mb-2">
+              {t.boardSizeLabel}
+            </label>
+            <div className="flex gap-2">
+              {BOARD_SIZES.map((size) => (
+                <button
+                  key={size}
+                  type="button"
+                  onClick={() => setBoardSize(size)}
+                  className={choiceClass(boardSize === size)}
+                >
+                  {size}x{size}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-gray-700 text-sm font-medium mb-2">
+              {t.rulesLabel}
+            </label>
+            <select
+              value={preset}
+              onChange={(e) => setPreset(e.target.value as RulePreset)}
+              className="w-full px-4 py-2 rounded-lg border border-gray-300 text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(RULE_PRESETS) as RulePreset[]).map((p) => (
+                <option key={p} value={p}>
+                  {t[`rule_${p}`]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              disabled={!name.trim()}
+              onClick={() =>
+                onCreate({
+                  name: name.trim(),
+                  format,
+                  ...(format === "swiss" ? { rounds } : {}),
+                  ...(format === "arena" ? { duration } : {}),
+                  rated,
+                  rules: RULE_PRESETS[preset],
+                  timeControl: TIME_CONTROLS[timeControl],
+                  boardSize,
+                })
+              }
+              className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+            >
+              {t.create}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-300 hover:bg-gray-400 text-gray-800 font-semibold py-3 px-6 rounded-lg transition-colors"
+            >
+              {t.cancel}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
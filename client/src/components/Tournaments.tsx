@@ -0,0 +1,405 @@
+import { useEffect, useState } from "react";
+import socket from "../socket";
+import { formatTimeControl } from "../timeControls";
+import {
+  formatResult,
+  type Pairing,
+  type Standing,
+  type TournamentDetails,
+  type TournamentSettings,
+  type TournamentSummary,
+} from "../tournaments";
+import type { AuthUser } from "./GoogleLogin";
+import TournamentModal from "./TournamentModal";
+import ArenaStandings from "./ArenaStandings";
+
+interface Props {
+  user?: AuthUser | null;
+  language: string;
+  onSpectateRoom?: (roomId: string) => void;
+}
+
+const translations: Record<string, Record<string, string>> = {
+  vi: {
+    create: "✚ Tạo giải đấu",
+    signIn: "Đăng nhập để tạo hoặc tham gia giải đấu",
+    empty: "Chưa có giải đấu nào",
+    swiss: "Hệ Thụy Sĩ",
+    knockout: "Loại trực tiếp",
+    arena: "Arena",
+    minutes: "{n} phút",
+    rounds: "{n} vòng",
+    round: "Vòng {n}",
+    roundOf: "Vòng {n}/{total}",
+    players: "{n} người chơi",
+    rated: "Tính điểm",
+    registering: "Đang đăng ký",
+    running: "Đang diễn ra",
+    finished: "Đã kết thúc",
+    join: "Tham gia",
+    leave: "Rút lui",
+    start: "▶ Bắt đầu",
+    view: "Xem",
+    back: "← Danh sách giải",
+    standings: "Bảng xếp hạng",
+    player: "Người chơi",
+    points: "Điểm",
+    record: "T-H-B",
+    buchholz: "Buchholz",
+    sonnebornBerger: "SB",
+    bye: "Miễn đấu",
+    forfeit: "xử thua",
+    watch: "👁︎ Xem",
+    startHint: "Các ván của mỗi vòng bắt đầu ngay, hãy ở lại trang này.",
+  },
+  en: {
+    create: "✚ New tournament",
+    signIn: "Sign in to create or join tournaments",
+    empty: "No tournaments yet",
+    swiss: "Swiss",
+    knockout: "Knockout",
+    arena: "Arena",
+    minutes: "{n} min",
+    rounds: "{n} rounds",
+    round: "Round {n}",
+    roundOf: "Round {n}/{total}",
+    players: "{n} players",
+    rated: "Rated",
+    registering: "Registering",
+    running: "In progress",
+    finished: "Finished",
+    join: "Join",
+    leave: "Withdraw",
+    start: "▶ Start",
+    view: "View",
+    back: "← All tournaments",
+    standings: "Standings",
+    player: "Player",
+    points: "Pts",
+    record: "W-D-L",
+    buchholz: "Buchholz",
+    sonnebornBerger: "SB",
+    bye: "Bye",
+    forfeit: "forfeit",
+    watch: "👁︎ Watch",
+    startHint: "Games start as soon as a round is paired; stay on this page.",
+  },
+};
+
+const STATUS_COLORS: Record<TournamentSummary["status"], string> = {
+  registering: "bg-green-100 text-green-800",
+  running: "bg-orange-100 text-orange-800",
+  finished: "bg-gray-100 text-gray-600",
+};
+
+// Lobby tab listing the tournaments, with the standings and pairings of the
+// one opened. The server announces every change with "tournament-updated".
+export default function Tournaments({
+  user,
+  language,
+  onSpectateRoom,
+}: Props) {
+  const t = translations[language] || translations.vi;
+  const [list, setList] = useState<TournamentSummary[]>([]);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [details, setDetails] = useState<TournamentDetails | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const userId = user?._id;
+
+  useEffect(() => {
+    const refresh = () => socket.emit("request-tournaments");
+    const onList = ({ tournaments }: { tournaments: TournamentSummary[] }) =>
+      setList(tournaments);
+    const onCreated = ({ tournament }: { tournament: TournamentSummary }) =>
+      setOpenId(tournament.id);
+    socket.on("tournaments", onList);
+    socket.on("tournament-updated", refresh);
+    socket.on("tournament-created", onCreated);
+    refresh();
+    return () => {
+      socket.off("tournaments", onList);
+      socket.off("tournament-updated", refresh);
+      socket.off("tournament-created", onCreated);
+    };
+  }, []);
+
+  useEffect(() => {
+    setDetails(null);
+    if (!openId) return;
+    const refresh = () =>
+      socket.emit("request-tournament", { tournamentId: openId });
+    const onDetails = ({ tournament }: { tournament: TournamentDetails }) => {
+      if (tournament.id === openId) setDetails(tournament);
+    };
+    const onUpdated = ({ tournamentId }: { tournamentId: string }) => {
+      if (tournamentId === openId) refresh();
+    };
+    socket.on("tournament", onDetails);
+    socket.on("tournament-updated", onUpdated);
+    refresh();
+    return () => {
+      socket.off("tournament", onDetails);
+      socket.off("tournament-updated", onUpdated);
+    };
+  }, [openId]);
+
+  function createTournament(settings: TournamentSettings) {
+    socket.emit("tournament-create", settings);
+    setShowCreate(false);
+  }
+
+  const describe = (tm: TournamentSummary) =>
+    [
+      t[tm.format],
+      tm.roundCount ? t.rounds.replace("{n}", String(tm.roundCount)) : null,
+      tm.duration ? t.minutes.replace("{n}", String(tm.duration)) : null,
+      formatTimeControl(tm.timeControl),
+      `${tm.boardSize}x${tm.boardSize}`,
+      tm.rated ? t.rated : null,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+
+  // Join, withdraw and start, as far as the signed-in user may
+  const actions = (tm: TournamentSummary) => {
+    if (!userId) return null;
+    const joined = tm.playerIds.includes(userId);
+    // arenas take new players until they end
+    const lateEntry =
+      tm.format === "arena" && tm.status === "running" && !joined;
+    if (tm.status !== "registering" && !lateEntry) return null;
+    const emit = (event: string) => socket.emit(event, { tournamentId: tm.id });
+    return (
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => emit(joined ? "tournament-leave" : "tournament-join")}
+          className={`px-3 py-1 rounded text-sm ${
+            joined
+              ? "bg-gray-100 hover:bg-gray-200 text-gray-700"
+              : "bg-green-600 hover:bg-green-700 text-white"
+          }`}
+        >
+          {joined ? t.leave : t.join}
+        </button>
+        {tm.createdBy === userId && tm.status === "registering" && (
+          <button
+            type="button"
+            disabled={tm.playerCount < 2}
+            onClick={() => emit("tournament-start")}
+            className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white text-sm"
+          >
+            {t.start}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const statusBadge = (tm: TournamentSummary) => (
+    <span
+      className={`px-2 py-0.5 rounded-full text-xs ${STATUS_COLORS[tm.status]}`}
+    >
+      {tm.status === "running" && tm.roundCount
+        ? t.roundOf
+            .replace("{n}", String(tm.currentRound))
+            .replace("{total}", String(tm.roundCount))
+        : t[tm.status]}
+    </span>
+  );
+
+  if (openId) {
+    const names = new Map(
+      (details?.standings || []).map((s) => [s.userId, s.name || "?"])
+    );
+    const pairingRow = (p: Pairing) => (
+      <div
+        key={p.board}
+        className="flex items-center gap-3 px-3 py-2 text-sm border-t first:border-t-0"
+      >
+        <span className="flex-1 text-right font-medium text-gray-800">
+          ✕ {names.get(p.X)}
+        </span>
+        <span className="w-14 text-center font-semibold text-gray-600">
+          {p.O ? formatResult(p.result) : ""}
+        </span>
+        <span className="flex-1 font-medium text-gray-800">
+          {p.O ? `◯ ${names.get(p.O)}` : t.bye}
+          {p.forfeit && (
+            <span className="ml-1 text-xs text-gray-400">({t.forfeit})</span>
+          )}
+        </span>
+        {p.O && !p.result && p.roomId && onSpectateRoom && (
+          <button
+            type="button"
+            onClick={() => onSpectateRoom(p.roomId as string)}
+            className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs"
+          >
+            {t.watch}
+          </button>
+        )}
+      </div>
+    );
+
+    return (
+      <div className="space-y-6">
+        <button
+          type="button"
+          onClick={() => setOpenId(null)}
+          className="text-sm text-blue-600 hover:underline"
+        >
+          {t.back}
+        </button>
+        {details && (
+          <>
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <div className="flex items-center gap-2">
+                  <h3 className="text-xl font-bold text-gray-800">
+                    {details.name}
+                  </h3>
+                  {statusBadge(details)}
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {describe(details)} ·{" "}
+                  {t.players.replace("{n}", String(details.playerCount))}
+                </div>
+              </div>
+              {actions(details)}
+            </div>
+            {details.status === "registering" &&
+              userId &&
+              details.playerIds.includes(userId) && (
+                <p className="text-xs text-gray-500">{t.startHint}</p>
+              )}
+
+            {details.format === "arena" && (
+              <ArenaStandings
+                tournament={details}
+                user={user}
+                language={language}
+              />
+            )}
+
+            {details.format !== "arena" && (
+              <div>
+                <div className="mb-2 text-lg text-gray-600">{t.standings}</div>
+                <table className="w-full text-sm bg-white rounded shadow-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                      <th className="px-3 py-2">#</th>
+                      <th className="px-3 py-2">{t.player}</th>
+                      <th className="px-3 py-2 text-right">{t.points}</th>
+                      <th className="px-3 py-2 text-right">{t.record}</th>
+                      <th className="px-3 py-2 text-right">{t.buchholz}</th>
+                      <th className="px-3 py-2 text-right">
+                        {t.sonnebornBerger}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(details.standings as Standing[]).map((s) => (
+                      <tr
+                        key={s.userId}
+                        className={`border-t ${
+                          s.userId === userId ? "bg-blue-50" : ""
+                        }`}
+                      >
+                        <td className="px-3 py-2 text-gray-600">{s.rank}</td>
+                        <td className="px-3 py-2 font-semibold text-gray-800">
+                          {s.name}
+                          {s.rating !== null && (
+                            <span className="ml-1 text-xs font-normal text-gray-400">
+                              {s.rating}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-right font-semibold">
+                          {s.points}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-600">
+                          {s.wins}-{s.draws}-{s.losses}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-600">
+                          {s.buchholz}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-600">
+                          {s.sonnebornBerger}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {[...details.rounds].reverse().map((r) => (
+              <div key={r.number}>
+                <div className="mb-2 text-lg text-gray-600">
+                  {t.round.replace("{n}", String(r.number))}
+                </div>
+                <div className="bg-white rounded shadow-sm">
+                  {r.pairings.map(pairingRow)}
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {userId ? (
+        <button
+          type="button"
+          onClick={() => setShowCreate(true)}
+          className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold"
+        >
+          {t.create}
+        </button>
+      ) : (
+        <p className="text-gray-500 text-sm">{t.signIn}</p>
+      )}
+      {list.length === 0 && <p className="text-gray-500 text-sm">{t.empty}</p>}
+      <div className="space-y-2">
+        {list.map((tm) => (
+          <div
+            key={tm.id}
+            className="flex items-center gap-3 p-3 bg-white rounded shadow-sm"
+          >
+            <div className="flex-1">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-semibold text-gray-800">
+                  {tm.name}
+                </span>
+                {statusBadge(tm)}
+              </div>
+              <div className="text-xs text-gray-500">
+                {describe(tm)} ·{" "}
+                {t.players.replace("{n}", String(tm.playerCount))}
+              </div>
+            </div>
+            {actions(tm)}
+            <button
+              type="button"
+              onClick={() => setOpenId(tm.id)}
+              className="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm"
+            >
+              {t.view}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {showCreate && (
+        <TournamentModal
+          language={language}
+          onCreate={createTournament}
+          onClose={() => setShowCreate(false)}
+        />
+      )}
+    </div>
+  );
+}
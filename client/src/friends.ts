@@ -0,0 +1,35 @@
+// Friends and direct challenges (see server/src/friends.js and the
+// "challenge-friend" socket events).
+import type { RuleSet } from "./rules";
+import type { TimeControl } from "./timeControls";
+
+// "in-game" while seated in a room being played
+export type FriendStatus = "online" | "in-game" | "offline";
+
+export interface Friend {
+  userId: string;
+  name: string;
+  avatar: string | null;
+  elo: number | null;
+  provisional?: boolean;
+  // accepted, or sent for pending requests
+  since: string;
+  // only for accepted friends
+  status?: FriendStatus;
+  roomId?: string;
+}
+
+export interface ChallengeSettings {
+  rated: boolean;
+  rules?: RuleSet;
+  timeControl?: TimeControl;
+  boardSize?: number;
+}
+
+export interface Challenge {
+  id: string;
+  from: { userId: string; name: string; avatar: string | null };
+  to: { userId: string; name: string | null; avatar: string | null };
+  settings: ChallengeSettings;
+  expiresAt: number;
+}
@@ -0,0 +1,34 @@
+// Invite links of private rooms (see server/src/invites.js): the app URL with
+// ?room=<roomId>&invite=<token>. Opening one joins the room.
+
+export interface RoomInvite {
+  roomId: string;
+  // null once revoked
+  token: string | null;
+  expiresAt: number | null;
+}
+
+export function inviteUrl(roomId: string, token: string): string {
+  const url = new URL(window.location.origin + window.location.pathname);
+  url.searchParams.set("room", roomId);
+  url.searchParams.set("invite", token);
+  return url.toString();
+}
+
+// Read a pasted invite link; anything else is taken as a plain room code
+export function parseInvite(text: string): {
+  roomId: string;
+  invite?: string;
+} {
+  const value = text.trim();
+  try {
+    const url = new URL(value);
+    const roomId = url.searchParams.get("room");
+    if (roomId) {
+      return { roomId, invite: url.searchParams.get("invite") || undefined };
+    }
+  } catch {
+    // not a URL
+  }
+  return { roomId: value };
+}
@@ -0,0 +1,12 @@
+// Best-of-N matches (mirrors server/src/matches.js): the first seat to win
+// more than half of the rounds wins the match.
+
+export const BEST_OF = [3, 5, 7];
+
+export type MatchScore = { player1: number; player2: number; draws: number };
+
+export type MatchWinner = "player1" | "player2" | "draw";
+
+// Round of the match now being played (or just finished), from 1
+export const currentRound = (score: MatchScore, finished: boolean) =>
+  score.player1 + score.player2 + score.draws + (finished ? 0 : 1);
@@ -0,0 +1,10 @@
+// Ratings as shown to players (the server picks the engine, see
+// server/src/ratings). A provisional rating is still settling and gets a
+// trailing "?".
+export function formatRating(
+  rating: number | null | undefined,
+  provisional?: boolean
+): string | null {
+  if (rating == null) return null;
+  return provisional ? `${rating}?` : String(rating);
+}
@@ -0,0 +1,70 @@
+// Per-room rule sets (mirrors server/src/rules.js).
+
+export interface RuleSet {
+  preset: RulePreset;
+  // a run of six or more counts as a win
+  overline: boolean;
+  // "chặn hai đầu": a five blocked at both ends by the opponent does not win
+  blockedEnds: boolean;
+  // the starter's second move must keep `openDistance` from their first
+  openRule: boolean;
+  openDistance: number;
+  // locked cells per round (0 also removes the first-move ring)
+  lockedCells: number;
+}
+
+export type RulePreset =
+  | "standard"
+  | "free-style"
+  | "exact-five"
+  | "blocked-ends"
+  | "renju-like";
+
+export const RULE_PRESETS: Record<RulePreset, RuleSet> = {
+  standard: {
+    preset: "standard",
+    overline: true,
+    blockedEnds: false,
+    openRule: true,
+    openDistance: 4,
+    lockedCells: 3,
+  },
+  "free-style": {
+    preset: "free-style",
+    overline: true,
+    blockedEnds: false,
+    openRule: false,
+    openDistance: 4,
+    lockedCells: 3,
+  },
+  "exact-five": {
+    preset: "exact-five",
+    overline: false,
+    blockedEnds: false,
+    openRule: true,
+    openDistance: 4,
+    lockedCells: 3,
+  },
+  "blocked-ends": {
+    preset: "blocked-ends",
+    overline: true,
+    blockedEnds: true,
+    openRule: true,
+    openDistance: 4,
+    lockedCells: 3,
+  },
+  "renju-like": {
+    preset: "renju-like",
+    overline: false,
+    blockedEnds: true,
+    openRule: true,
+    openDistance: 5,
+    lockedCells: 3,
+  },
+};
+
+export const DEFAULT_RULES = RULE_PRESETS.standard;
+
+// Limits enforced by the server
+export const OPEN_DISTANCE_RANGE = { min: 2, max: 8 };
+export const MAX_LOCKED_CELLS = 5;
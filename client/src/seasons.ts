@@ -0,0 +1,25 @@
+// Ranked seasons (mirrors server/src/ratings/seasons.js). Final standings of
+// past seasons give each ranked player a badge.
+
+export type Badge = "champion" | "podium" | "top10" | "ranked";
+
+export interface SeasonBadge {
+  season: string;
+  seasonName: string;
+  rank: number;
+  badge: Badge;
+}
+
+export interface Season {
+  id: string;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+}
+
+export const BADGE_ICONS: Record<Badge, string> = {
+  champion: "🏆",
+  podium: "🥈",
+  top10: "⭐",
+  ranked: "🎖️",
+};
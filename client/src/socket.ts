@@ -1,5 +1,7 @@
 import { io, Socket } from "socket.io-client";
 
+export const TOKEN_KEY = "zcaro_token";
+
 const isLocal = window.location.hostname === "localhost";
 const BASE_URL = isLocal
   ? "http://localhost:4000"
@@ -8,6 +10,17 @@ const BASE_URL = isLocal
 export const socket: Socket = io(BASE_URL, {
   transports: ["websocket"],
   withCredentials: true,
+  // Session token issued by /auth/google; read on every (re)connect so the
+  // handshake always carries the current sign-in state.
+  auth: (cb) => {
+    let token: string | null = null;
+    try {
+      token = localStorage.getItem(TOKEN_KEY);
+    } catch {
+      // ignore
+    }
+    cb(token ? { token } : {});
+  },
 });
 
 export default socket;
@@ -0,0 +1,35 @@
+// Spectator delay of a room (see server/src/spectators.js): spectators see
+// the game a number of moves or seconds behind the players.
+
+export type SpectatorDelay = { moves: number } | { seconds: number };
+
+export type SpectatorDelayPreset =
+  | "off"
+  | "moves2"
+  | "moves5"
+  | "seconds30"
+  | "seconds120";
+
+export const SPECTATOR_DELAYS: Record<
+  SpectatorDelayPreset,
+  SpectatorDelay | null
+> = {
+  off: null,
+  moves2: { moves: 2 },
+  moves5: { moves: 5 },
+  seconds30: { seconds: 30 },
+  seconds120: { seconds: 120 },
+};
+
+// Chat channel of spectators' messages; players only see it after the game
+export const SPECTATOR_CHANNEL = "spectators";
+
+// Short label such as "2 moves" or "30s", with the words of `labels`
+export function formatSpectatorDelay(
+  delay: SpectatorDelay,
+  labels: { moves: string; seconds: string }
+): string {
+  return "moves" in delay
+    ? labels.moves.replace("{n}", String(delay.moves))
+    : labels.seconds.replace("{n}", String(delay.seconds));
+}
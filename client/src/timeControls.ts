@@ -0,0 +1,26 @@
+// Time controls a player can pick for a room (see server/src/clock.js). All
+// values are in milliseconds.
+
+export interface TimeControl {
+  baseMs: number;
+  incrementMs: number;
+  delayMs: number;
+}
+
+export type TimeControlPreset = "turn45" | "blitz" | "rapid" | "classical";
+
+export const TIME_CONTROLS: Record<TimeControlPreset, TimeControl> = {
+  // the server default: a fresh 45 seconds for every move
+  turn45: { baseMs: 0, incrementMs: 0, delayMs: 45 * 1000 },
+  blitz: { baseMs: 3 * 60 * 1000, incrementMs: 2 * 1000, delayMs: 0 },
+  rapid: { baseMs: 10 * 60 * 1000, incrementMs: 5 * 1000, delayMs: 0 },
+  classical: { baseMs: 30 * 60 * 1000, incrementMs: 20 * 1000, delayMs: 0 },
+};
+
+export const DEFAULT_TIME_CONTROL: TimeControlPreset = "turn45";
+
+// Short label such as "3+2" (minutes + increment seconds) or "45s/move"
+export function formatTimeControl(tc: TimeControl): string {
+  if (!tc.baseMs) return `${tc.delayMs / 1000}s/move`;
+  return `${tc.baseMs / 60000}+${tc.incrementMs / 1000}`;
+}
@@ -0,0 +1,150 @@
+// Swiss, knockout and arena tournaments (see server/src/tournaments and the
+// "tournament-*" and "arena-*" socket events).
+import type { RuleSet } from "./rules";
+import type { TimeControl } from "./timeControls";
+
+export type TournamentFormat = "swiss" | "knockout" | "arena";
+
+export const TOURNAMENT_FORMATS: TournamentFormat[] = [
+  "swiss",
+  "knockout",
+  "arena",
+];
+
+// Round counts offered for a Swiss tournament (the server allows up to 11)
+export const SWISS_ROUNDS = [3, 5, 7, 9];
+
+export const DEFAULT_SWISS_ROUNDS = 5;
+
+// Minutes an arena can last
+export const ARENA_DURATIONS = [15, 30, 45, 60];
+
+export const DEFAULT_ARENA_DURATION = 30;
+
+export type TournamentStatus = "registering" | "running" | "finished";
+
+// "bye" when O is null
+export type PairingResult = "X" | "O" | "draw" | "bye";
+
+export interface TournamentSummary {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  // null for a knockout that has not started
+  roundCount: number | null;
+  currentRound: number;
+  // arenas only: minutes, and the end time once started
+  duration: number | null;
+  endsAt: string | null;
+  timeControl: TimeControl;
+  rules: RuleSet;
+  boardSize: number;
+  rated: boolean;
+  createdBy: string;
+  status: TournamentStatus;
+  createdAt: string;
+  startedAt: string | null;
+  endedAt: string | null;
+  playerCount: number;
+  playerIds: string[];
+}
+
+export interface Standing {
+  rank: number;
+  userId: string;
+  name: string | null;
+  avatar: string | null;
+  rating: number | null;
+  points: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  byes: number;
+  buchholz: number;
+  sonnebornBerger: number;
+}
+
+// A row of an arena leaderboard. scores lists the points of every game, in
+// the order they finished; wins count double while onStreak.
+export interface ArenaStanding {
+  rank: number;
+  userId: string;
+  name: string | null;
+  avatar: string | null;
+  rating: number | null;
+  points: number;
+  games: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  streak: number;
+  onStreak: boolean;
+  scores: number[];
+}
+
+// "arena-leaderboard" payload, pushed to the sockets following an arena
+export interface ArenaLeaderboard {
+  tournamentId: string;
+  status: TournamentStatus;
+  endsAt: string | null;
+  gamesPlayed: number;
+  standings: ArenaStanding[];
+}
+
+export interface Pairing {
+  board: number;
+  X: string;
+  O: string | null;
+  roomId: string | null;
+  // null while the game is played
+  result: PairingResult | null;
+  // won because the opponent did not show up
+  forfeit: boolean;
+}
+
+export interface TournamentRound {
+  number: number;
+  startedAt: string;
+  pairings: Pairing[];
+}
+
+export interface TournamentDetails extends TournamentSummary {
+  // ArenaStanding rows for an arena, which has no rounds
+  standings: Standing[] | ArenaStanding[];
+  rounds: TournamentRound[];
+}
+
+export interface TournamentSettings {
+  name: string;
+  format: TournamentFormat;
+  // Swiss only
+  rounds?: number;
+  // arena only, in minutes
+  duration?: number;
+  rated: boolean;
+  rules?: RuleSet;
+  timeControl?: TimeControl;
+  boardSize?: number;
+}
+
+// Time left as "m:ss"
+export function formatTimeLeft(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  const rest = String(seconds % 60).padStart(2, "0");
+  return `${Math.floor(seconds / 60)}:${rest}`;
+}
+
+// Score of a finished pairing as "1–0", "½–½" and so on
+export function formatResult(result: PairingResult | null): string {
+  switch (result) {
+    case "X":
+    case "bye":
+      return "1–0";
+    case "O":
+      return "0–1";
+    case "draw":
+      return "½–½";
+    default:
+      return "…";
+  }
+}
@@ -1,19 +1,76 @@
+// Load .env before the other modules read their configuration
+import "dotenv/config";
 import express from "express";
 import http from "http";
 import cors from "cors";
 import mongoose from "mongoose";
 import { Server } from "socket.io";
-import dotenv from "dotenv";
 import gameManager from "./src/gameManager.js";
-import ChatMessage from "./src/models/ChatMessage.js";
-import User from "./src/models/User.js";
-import { updateEloForMatch } from "./src/elo.js";
-import GlickoPkg from "glicko2";
+import * as storage from "./src/storage/index.js";
+import * as shared from "./src/shared/index.js";
+import { SharedMap } from "./src/shared/sharedMap.js";
+import {
+  updateRatingsForMatch,
+  ratingFields,
+  ratingEngine,
+} from "./src/ratings/index.js";
+import { ratingStats } from "./src/ratings/stats.js";
+import {
+  leaderboardPage,
+  PERIODS,
+  MAX_PAGE_SIZE,
+} from "./src/ratings/leaderboard.js";
+import { seasonAt } from "./src/ratings/seasons.js";
+import { rollOverSeasons } from "./src/ratings/rollover.js";
+import { recordFinishedGame } from "./src/gameRecords.js";
+import {
+  requestFriend,
+  acceptFriend,
+  removeFriend,
+  areFriends,
+  listFriends,
+} from "./src/friends.js";
+import {
+  roomInvite,
+  revokeInvites,
+  checkInvite,
+  seatNeedsInvite,
+  watchNeedsInvite,
+} from "./src/invites.js";
+import {
+  SPECTATOR_CHANNEL,
+  spectatorRoom,
+  spectatorView,
+  revealDelayMs,
+  viewFor,
+  hidesSpectatorChat,
+} from "./src/spectators.js";
+import { chooseBotMove, BOT_LEVELS } from "./src/bot.js";
 import { OAuth2Client } from "google-auth-library";
-// glicko2 package may export a default or named Glicko2 class depending on bundler
-const Glicko2 = GlickoPkg?.Glicko2 || GlickoPkg?.default || GlickoPkg;
+import { issueSessionToken, verifySessionToken } from "./src/auth.js";
+import { guardSocket } from "./src/validation.js";
+import {
+  saveRoom,
+  forgetRoom,
+  restoreRooms,
+  flushRooms,
+} from "./src/roomSnapshots.js";
+import {
+  createTournament,
+  joinTournament,
+  leaveTournament,
+  startTournament,
+  recordResult,
+  publicTournament,
+  listTournaments,
+  getTournament,
+  arenaOpen,
+  addArenaGame,
+  recordArenaResult,
+  finishArena,
+  runningArenas,
+} from "./src/tournaments/index.js";
 
-dotenv.config();
 const app = express();
 app.use(cors());
 app.use(express.json());
@@ -23,12 +80,45 @@ const io = new Server(server, {
     origin: process.env.CLIENT_URL || "http://localhost:5173",
     methods: ["GET", "POST"],
   },
+  // routes broadcasts to the sockets of every node (null: single node)
+  adapter: shared.adapter || undefined,
 });
 
-// In-memory map of online users keyed by socketId
-const onlineUsers = new Map();
+// Online users of every node, keyed by socketId (see src/shared)
+const onlineUsers = await new SharedMap(shared, "online-users").attach({
+  dropStale: true,
+});
+// Open challenges between friends, keyed by challenge id (see
+// "challenge-friend"); they are dropped with the node that created them
+const challenges = await new SharedMap(shared, "challenges").attach({
+  dropStale: true,
+});
+// Arena players who asked not to be paired again, keyed by
+// `${tournamentId}:${userId}` (see "arena-pause")
+const arenaPauses = await new SharedMap(shared, "arena-pauses").attach({
+  dropStale: true,
+});
+// How long a challenge waits for an answer
+const CHALLENGE_TTL_MS = 60 * 1000;
 // Pending room removal timers: roomId -> Timeout
 const pendingRoomTimeouts = new Map();
+// Set once a shutdown has started (see shutdown below)
+let draining = false;
+// Events refused while draining: anything that would start a new game
+const DRAIN_BLOCKED_EVENTS = new Set([
+  "create-room",
+  "play-bot",
+  "find-match",
+  "start-game",
+  "offer-rematch",
+  "respond-rematch",
+  "challenge-friend",
+  "challenge-respond",
+  "tournament-start",
+  "arena-resume",
+]);
+// Number of chat messages sent when a socket joins a room
+const CHAT_HISTORY_LIMIT = 200;
 // How long to keep a room when a player disconnects (ms)
 const RECONNECT_GRACE_MS = 120 * 1000;
 // For ranked matches, when a player disconnects we wait a shorter period
@@ -39,24 +129,40 @@ const RANKED_PENDING_REMOVE_MS = Number.parseInt(
   10
 );
 
-// Helper: enrich chat messages with avatar (from onlineUsers map or DB)
+// Helper: enrich chat messages with avatar (from onlineUsers map or DB).
+// Messages store the sender's user id; older messages only have a socket id.
 async function enrichMessagesWithAvatars(messages) {
   if (!Array.isArray(messages) || messages.length === 0) return [];
+  const userIds = Array.from(
+    new Set(
+      messages.map((m) => (m.userId ? String(m.userId) : null)).filter(Boolean)
+    )
+  );
   const socketIds = Array.from(
     new Set(
-      messages.map((m) => (m.socketId ? m.socketId : null)).filter(Boolean)
+      messages
+        .filter((m) => !m.userId)
+        .map((m) => (m.socketId ? m.socketId : null))
+        .filter(Boolean)
     )
   );
-  const users = socketIds.length
-    ? await User.find({ socketId: { $in: socketIds } }).lean()
-    : [];
+  const [byId, bySocket] = await Promise.all([
+    storage.users.findByIds(userIds),
+    storage.users.findBySocketIds(socketIds),
+  ]);
   const userMap = new Map();
-  for (const u of users) userMap.set(u.socketId, u);
+  for (const u of byId) userMap.set(String(u._id), u);
+  const socketMap = new Map();
+  for (const u of bySocket) socketMap.set(u.socketId, u);
 
   return messages.map((m) => {
     const sid = m.socketId;
     const online = sid ? onlineUsers.get(sid) : null;
-    const fromDb = sid ? userMap.get(sid) : null;
+    const fromDb = m.userId
+      ? userMap.get(String(m.userId))
+      : sid
+      ? socketMap.get(sid)
+      : null;
     return {
       ...m,
       avatar: online?.avatar ?? (fromDb && fromDb.avatar) ?? null,
@@ -85,11 +191,17 @@ function getRoomsSnapshot() {
         // expose whether this room was explicitly created (private/code) so clients
         // can decide whether to allow immediate join or only spectate by default
         isPrivate: gs.private === true,
+        allowSpectators: gs.allowSpectators !== false,
+        spectatorDelay: gs.spectatorDelay || null,
+        bestOf: gs.bestOf || null,
+        rules: gs.rules || null,
+        boardSize: gs.boardSize || gs.board?.length || null,
         player1: {
           name: gs.players?.player1?.name || null,
           socketId: gs.players?.player1?.socketId || null,
           avatar: gs.players?.player1?.avatar || null,
           elo: gs.players?.player1?.elo ?? null,
+          provisional: gs.players?.player1?.provisional === true,
         },
         player2: gs.players?.player2
           ? {
@@ -97,6 +209,7 @@ function getRoomsSnapshot() {
               socketId: gs.players.player2.socketId || null,
               avatar: gs.players.player2.avatar || null,
               elo: gs.players.player2.elo ?? null,
+              provisional: gs.players.player2.provisional === true,
             }
           : null,
         spectators: Array.isArray(gs.spectators) ? gs.spectators.length : 0,
@@ -118,6 +231,49 @@ function emitRoomsList() {
   }
 }
 
+// Send a room its game state (join, start, reconnect). Spectators of a room
+// with a spectator delay get the state they may see instead.
+function emitGameState(roomId, event, payload) {
+  if (!payload.gameState?.spectatorDelay) {
+    io.to(roomId).emit(event, payload);
+    return;
+  }
+  io.to(roomId).except(spectatorRoom(roomId)).emit(event, payload);
+  io.to(spectatorRoom(roomId)).emit(event, {
+    ...payload,
+    gameState: spectatorView(payload.gameState),
+  });
+}
+
+// Send a room a move or the end of its game. With a spectator delay only the
+// players get it now: spectators get the room state they may see once the
+// delay in seconds has passed (at once for a delay in moves), and the end of
+// the game with it.
+function emitGameProgress(roomId, event, payload) {
+  const { gameState } = payload;
+  if (!gameState.spectatorDelay) {
+    io.to(roomId).emit(event, payload);
+    return;
+  }
+  io.to(roomId).except(spectatorRoom(roomId)).emit(event, payload);
+  const snapshot = structuredClone(gameState);
+  const reveal = () => {
+    const view = spectatorView(snapshot);
+    const to = io.to(spectatorRoom(roomId));
+    if (event === "game-ended" && view === snapshot) {
+      to.emit(event, { ...payload, gameState: view });
+    } else {
+      to.emit("room-state", {
+        gameState: view,
+        clock: gameManager.getClockSnapshot(roomId),
+      });
+    }
+  };
+  const ms = revealDelayMs(snapshot);
+  if (ms > 0) setTimeout(reveal, ms).unref();
+  else reveal();
+}
+
 function clearPendingRoomTimer(roomId) {
   try {
     const t = pendingRoomTimeouts.get(roomId);
@@ -130,35 +286,299 @@ function clearPendingRoomTimer(roomId) {
   }
 }
 
+// Remove a room and its stored snapshot
+function removeRoom(roomId) {
+  gameManager.removeRoom(roomId);
+  forgetRoom(roomId);
+  revokeInvites(roomId).catch((e) =>
+    console.error("Failed to revoke invites of removed room", roomId, e)
+  );
+}
+
+// Remove the room after `graceMs` unless both players are connected again by
+// then. Does nothing when a removal is already pending for the room.
+function schedulePendingRoomRemoval(roomId, graceMs) {
+  if (pendingRoomTimeouts.has(roomId)) return;
+  const t = setTimeout(() => {
+    try {
+      const current = gameManager.getRoom(roomId);
+      if (!current) {
+        pendingRoomTimeouts.delete(roomId);
+        return;
+      }
+
+      const p1Gone =
+        !current.players.player1 || !current.players.player1.socketId;
+      const p2Gone =
+        !current.players.player2 || !current.players.player2.socketId;
+
+      // A tournament game is decided instead: the absent player loses it.
+      // The finished room goes the usual way once the grace time is over
+      // again, unless the next round closes it first.
+      const playing = current.status === "playing";
+      if ((p1Gone || p2Gone) && current.tournament && playing) {
+        forfeitAbandonedGame(roomId).then(() =>
+          schedulePendingRoomRemoval(roomId, graceMs)
+        );
+        return;
+      }
+
+      // If either player slot is still empty after grace period, remove the room
+      if (p1Gone || p2Gone) {
+        removeRoom(roomId);
+        try {
+          io.to(roomId).emit("room-removed", { roomId });
+        } catch (e) {
+          /* ignore */
+        }
+        try {
+          emitRoomsList();
+        } catch (e) {
+          /* ignore */
+        }
+      }
+    } catch (e) {
+      console.error("Error during pending room removal", e);
+    } finally {
+      pendingRoomTimeouts.delete(roomId);
+    }
+  }, graceMs);
+  // the grace period alone should not keep the process alive
+  t.unref?.();
+  pendingRoomTimeouts.set(roomId, t);
+}
+
+// Verify a session token and attach the user as the authenticated identity of
+// the socket (socket.data.user). Returns the identity or null when the token is
+// invalid/expired or the user no longer exists.
+async function authenticateSocket(socket, token) {
+  const payload = verifySessionToken(token);
+  if (!payload) return null;
+  const u = await storage.users.setSocketId(payload.sub, socket.id);
+  if (!u) return null;
+  socket.data.user = {
+    id: String(u._id),
+    name: u.name,
+    avatar: u.avatar || null,
+    googleId: u.googleId || null,
+  };
+  onlineUsers.set(socket.id, {
+    socketId: socket.id,
+    name: u.name || `Player ${socket.id.slice(0, 6)}`,
+    avatar: u.avatar || null,
+    ...ratingFields(u),
+    _id: u._id,
+  });
+  emitOnlineUsers();
+  return socket.data.user;
+}
+
+// Every socket of a signed-in user is in this room, so friend notifications
+// and challenges reach all of the user's tabs on any node
+const userRoom = (userId) => `user:${userId}`;
+
+// Presence of users for their friends, by user id: { status: "in-game",
+// roomId } while seated in a room being played, { status: "online" } with a
+// connected socket. Users missing from the map are offline.
+function getPresence() {
+  const presence = new Map();
+  for (const u of onlineUsers.values()) {
+    if (u._id) presence.set(String(u._id), { status: "online" });
+  }
+  for (const [roomId, gs] of gameManager.rooms.entries()) {
+    if (gs.status !== "playing") continue;
+    for (const seat of [gs.players.player1, gs.players.player2]) {
+      if (seat?.userId) {
+        presence.set(String(seat.userId), { status: "in-game", roomId });
+      }
+    }
+  }
+  return presence;
+}
+
+// request-error messages for the error codes of src/friends.js
+const FRIEND_ERRORS = {
+  self: "You cannot add yourself",
+  "not-found": "User not found",
+  "already-friends": "You are already friends",
+  "already-requested": "Friend request already sent",
+  "no-request": "No pending friend request from this user",
+};
+
+// request-error messages for the codes of checkInvite (src/invites.js)
+const INVITE_ERRORS = {
+  "invite-required": "This private room needs an invite link",
+  "invite-invalid": "This invite link is not valid anymore",
+  "invite-expired": "This invite link has expired",
+};
+
+const TAKEBACK_ERRORS = {
+  "not-playing": "There is no game in progress",
+  "not-player": "Only the players can ask for a takeback",
+  disabled: "Takebacks are off in this room",
+  "limit-reached": "You have used all your takebacks for this game",
+  "no-move": "You have no move to take back",
+  "already-requested": "A takeback is already waiting for an answer",
+  "no-request": "There is no takeback to answer",
+};
+
+// Apply an answer to the pending takeback of a room and tell the players.
+// Returns an error code of TAKEBACK_ERRORS, or null.
+async function settleTakeback(roomId, socketId, accept) {
+  const result = gameManager.answerTakeback(roomId, socketId, accept);
+  if (result.error) return result.error;
+  saveRoom(roomId);
+  const { gameState, requester, undone } = result;
+  if (!undone) {
+    if (requester.socketId) {
+      io.to(requester.socketId).emit("takeback-declined", { roomId });
+    }
+    return null;
+  }
+  const enriched = await attachEloToGameState(gameState);
+  // the undone moves are news to spectators of a delayed room: they only
+  // get the board once their delay has passed
+  emitGameProgress(roomId, "room-state", {
+    gameState: enriched,
+    clock: gameManager.getClockSnapshot(roomId),
+  });
+  io.to(roomId).except(spectatorRoom(roomId)).emit("takeback-accepted", {
+    roomId,
+    symbol: requester.symbol,
+    undone,
+  });
+  return null;
+}
+
+const REMATCH_ERRORS = {
+  "not-finished": "The game is not over yet",
+  "not-player": "Only the players can ask for a rematch",
+  "no-opponent": "There is no opponent to play again",
+  "already-requested": "You already asked for a rematch",
+  "no-request": "There is no rematch to answer",
+  tournament: "Tournament games are not replayed",
+};
+
+// Send the fresh board of a new round to the room
+async function announceRound(roomId, gameState) {
+  saveRoom(roomId);
+  const enrichedStart = await attachEloToGameState(gameState);
+  emitGameState(roomId, "game-started", {
+    gameState: enrichedStart,
+    clock: gameManager.getClockSnapshot(roomId),
+  });
+  scheduleBotMove(roomId);
+}
+
+// A player asks for a rematch, or agrees to the opponent's request, which
+// starts the next round. Returns an error code of REMATCH_ERRORS, or null.
+async function offerRematch(roomId, socketId) {
+  const result = gameManager.offerRematch(roomId, socketId);
+  if (result.error) return result.error;
+  if (result.started) {
+    await announceRound(roomId, result.gameState);
+    return null;
+  }
+  saveRoom(roomId);
+  const from = result.gameState.players[result.seat];
+  io.to(roomId).emit("rematch-offered", {
+    roomId,
+    seat: result.seat,
+    fromName: from.name || null,
+  });
+  return null;
+}
+
+const TOURNAMENT_ERRORS = {
+  "invalid-name": "The tournament needs a name",
+  "invalid-format": "Unknown tournament format",
+  "not-found": "Tournament not found",
+  closed: "Registration for this tournament is closed",
+  "already-joined": "You are already registered",
+  full: "This tournament is full",
+  "not-joined": "You are not registered",
+  "not-owner": "Only the organizer can start the tournament",
+  "too-few-players": "At least two players are needed",
+  "not-running": "This arena is not running",
+};
+
+// Tell both users to reload their friends list
+function emitFriendsUpdated(...userIds) {
+  io.to(userIds.map(userRoom)).emit("friends-updated");
+}
+
+// Close a challenge nobody answered in time
+function expireChallenge(challengeId) {
+  const challenge = challenges.get(challengeId);
+  if (!challenge || challenge.expiresAt > Date.now()) return;
+  challenges.delete(challengeId);
+  const both = [challenge.from.userId, challenge.to.userId].map(userRoom);
+  io.to(both).emit("challenge-expired", { challengeId });
+}
+
+// Load the current User document for an authenticated socket (null for guests)
+async function loadSocketUser(socket) {
+  const id = socket.data?.user?.id;
+  if (!id) return null;
+  try {
+    return await storage.users.findById(id);
+  } catch (e) {
+    console.error("Failed to load authenticated user", e);
+    return null;
+  }
+}
+
+// If the socket's user holds a seat in the room, move the seat to this socket
+// (page refresh or reconnect) and let everyone in the room know. Returns the
+// reclaimed seat or null.
+function reclaimSeat(socket, roomId) {
+  const userId = socket.data?.user?.id;
+  if (!userId) return null;
+  const seat = gameManager.reclaimSeat(roomId, userId, socket.id);
+  if (!seat) return null;
+  socket.join(roomId);
+  const gs = gameManager.getRoom(roomId);
+  const stillAway = [gs.players.player1, gs.players.player2].some(
+    (p) => p && !p.socketId
+  );
+  if (!stillAway) clearPendingRoomTimer(roomId);
+  saveRoom(roomId);
+  socket.to(roomId).emit("player-reconnected", {
+    socketId: socket.id,
+    symbol: seat.symbol,
+  });
+  console.log(
+    `[RECONNECT] user=${userId} reclaimed seat ${seat.symbol} in room=${roomId} socket=${socket.id}`
+  );
+  return seat;
+}
+
 // Helper: attach ELO (or rating) from User documents into a gameState object
 async function attachEloToGameState(gameState) {
   if (!gameState) return gameState;
   try {
     const p1 = gameState.players?.player1;
     const p2 = gameState.players?.player2;
-    if (p1) {
-      const u1 = await User.findOne({ socketId: p1.socketId }).lean();
-      if (u1) p1.elo = u1.elo ?? u1.rating ?? u1.rating;
+    for (const seat of [p1, p2]) {
+      if (!seat) continue;
+      const u = seat.userId ? await storage.users.findById(seat.userId) : null;
+      if (u) Object.assign(seat, ratingFields(u));
       else {
         // fallback to in-memory onlineUsers map so short-lived sockets still show a rating
-        const online = onlineUsers.get(p1.socketId);
-        if (online && typeof online.elo === "number") p1.elo = online.elo;
-      }
-    }
-    if (p2) {
-      const u2 = await User.findOne({ socketId: p2.socketId }).lean();
-      if (u2) p2.elo = u2.elo ?? u2.rating ?? u2.rating;
-      else {
-        const online = onlineUsers.get(p2.socketId);
-        if (online && typeof online.elo === "number") p2.elo = online.elo;
+        const online = onlineUsers.get(seat.socketId);
+        if (online && typeof online.elo === "number") {
+          seat.elo = online.elo;
+          seat.provisional = online.provisional === true;
+        }
       }
     }
     // spectators
     if (Array.isArray(gameState.spectators)) {
       for (const s of gameState.spectators) {
+        if (!s.userId) continue;
         try {
-          const us = await User.findOne({ socketId: s.socketId }).lean();
-          if (us) s.elo = us.elo ?? us.rating ?? us.rating;
+          const us = await storage.users.findById(s.userId);
+          if (us) Object.assign(s, ratingFields(us));
         } catch (e) {
           // ignore per-spectator failures
         }
@@ -183,14 +603,508 @@ async function attachEloToGameState(gameState) {
   return gameState;
 }
 
-// MongoDB connection (optional - can work without it)
-if (process.env.MONGO_URI) {
+// MongoDB connection (optional - see src/storage for the other backends)
+if (storage.kind === "mongo") {
   mongoose
     .connect(process.env.MONGO_URI)
     .then(() => console.log("✅ MongoDB connected"))
     .catch((err) => console.error("❌ MongoDB error", err));
 }
 
+// A player ran out of time on the server clock: announce the result and
+// update ratings for rated rooms.
+gameManager.setFlagListener(async (roomId, updated) => {
+  saveRoom(roomId);
+  try {
+    const enrichedEnd = await attachEloToGameState(updated);
+    await announceGameEnd(roomId, {
+      gameState: enrichedEnd,
+      reason: "timeout",
+      clock: gameManager.getClockSnapshot(roomId),
+    });
+    await recordFinishedGame(io, updated, "timeout");
+
+    // If both players exist, update ELOs
+    const p1 = updated.players.player1;
+    const p2 = updated.players.player2;
+    if (p1 && p2) {
+      const winnerUser = updated.winner === p1.symbol ? p1.userId : p2.userId;
+      if (updated.rated === false) {
+        console.log(
+          `Skipping ELO update for unrated room ${updated.roomId} (timeout)`
+        );
+      } else {
+        await rateRound(updated, p1.userId, p2.userId, winnerUser, false);
+      }
+    }
+  } catch (e) {
+    console.error("Failed to handle flag for room", roomId, e);
+  }
+});
+
+// Nobody came back to a seat of a tournament game in time: the absent
+// player loses (both absent: a draw) so that the tournament goes on
+async function forfeitAbandonedGame(roomId) {
+  const updated = gameManager.abandon(roomId);
+  if (!updated) return;
+  saveRoom(roomId);
+  try {
+    const enrichedEnd = await attachEloToGameState(updated);
+    await announceGameEnd(roomId, {
+      gameState: enrichedEnd,
+      reason: "forfeit",
+      clock: gameManager.getClockSnapshot(roomId),
+    });
+    await recordFinishedGame(io, updated, "forfeit");
+
+    const { player1: p1, player2: p2 } = updated.players;
+    if (p1 && p2 && updated.rated !== false) {
+      const isDraw = updated.winner === "draw";
+      const winnerUser = updated.winner === p1.symbol ? p1.userId : p2.userId;
+      await rateRound(
+        updated,
+        p1.userId,
+        p2.userId,
+        isDraw ? null : winnerUser,
+        isDraw
+      );
+    }
+  } catch (e) {
+    console.error("Failed to forfeit abandoned game", roomId, e);
+  }
+}
+
+// Announce a successful move to the room and, when it ended the game, record
+// the game and update ratings. Shared by player moves and bot moves.
+async function broadcastMove(roomId, row, col, result) {
+  saveRoom(roomId);
+  const enrichedMove = await attachEloToGameState(result.gameState);
+  emitGameProgress(roomId, "move-made", {
+    gameState: enrichedMove,
+    row,
+    col,
+    isWinner: result.isWinner,
+    isDraw: result.isDraw,
+    clock: gameManager.getClockSnapshot(roomId),
+  });
+
+  // If the move finished the game, also emit a 'game-ended' event so clients
+  // that only listen for game-ended (to show toasts/notifications) will be notified.
+  if (result.isWinner || result.isDraw) {
+    await announceGameEnd(roomId, {
+      gameState: enrichedMove,
+      reason: "finished",
+      clock: gameManager.getClockSnapshot(roomId),
+    });
+    await recordFinishedGame(io, result.gameState, "finished");
+  }
+
+  // If game finished, update ELOs (only for rated games)
+  try {
+    if (result.isWinner || result.isDraw) {
+      const gs = result.gameState;
+      // Default is rated=true; skip updates only if gs.rated === false
+      if (gs.rated === false) {
+        // Unrated room - do not modify ratings
+        console.log(`Skipping ELO update for unrated room ${gs.roomId}`);
+      } else {
+        const p1 = gs.players.player1;
+        const p2 = gs.players.player2;
+        if (p1 && p2) {
+          const p1id = p1.userId;
+          const p2id = p2.userId;
+          if (result.isDraw) {
+            await rateRound(gs, p1id, p2id, null, true);
+          } else if (result.isWinner) {
+            // winner is stored in gameState.winner as symbol ('X' or 'O')
+            const winnerSymbol = gs.winner;
+            const winnerUser = winnerSymbol === p1.symbol ? p1id : p2id;
+            await rateRound(gs, p1id, p2id, winnerUser, false);
+          }
+        }
+      }
+    }
+  } catch (e) {
+    console.error("Failed to update ELO after game end", e);
+  }
+}
+
+// Rate a finished round between the seat owners p1id and p2id. The rounds of
+// a best-of-N match count once: the players are rated on the match result
+// when the round that decides it ends.
+async function rateRound(gs, p1id, p2id, winnerUser, isDraw) {
+  if (!gs.bestOf) {
+    return updateRatingsForMatch(io, gs.roomId, p1id, p2id, winnerUser, isDraw);
+  }
+  const result = gs.matchWinner;
+  // the match goes on; it is rated when it ends
+  if (!result) return null;
+  const matchWinner = result === "draw" ? null : gs.players[result]?.userId;
+  return updateRatingsForMatch(
+    io,
+    gs.roomId,
+    p1id,
+    p2id,
+    matchWinner || null,
+    result === "draw"
+  );
+}
+
+// A player who leaves between the rounds of a best-of-N match loses it
+async function concedeMatch(roomId, socketId) {
+  const gs = gameManager.concedeMatch(roomId, socketId);
+  if (!gs) return;
+  saveRoom(roomId);
+  if (gs.rated === false) return;
+  try {
+    const { player1: p1, player2: p2 } = gs.players;
+    await rateRound(gs, p1.userId, p2.userId, null, false);
+  } catch (e) {
+    console.error("Failed to rate a conceded match", e);
+  }
+}
+
+// Send the end of a game to its room; a tournament game also settles its
+// pairing (see src/tournaments)
+async function announceGameEnd(roomId, payload) {
+  emitGameProgress(roomId, "game-ended", payload);
+  const gs = gameManager.getRoom(roomId);
+  if (!gs?.tournament) return;
+  const result = gs.winner === "X" || gs.winner === "O" ? gs.winner : "draw";
+  const { id, round, board, arena } = gs.tournament;
+  if (arena) await settleArenaGame(id, roomId, result);
+  else await settleTournamentGame(id, round, board, result);
+}
+
+// Tell lobbies a tournament changed (registrations, rounds, results)
+function emitTournamentUpdated(tournamentId) {
+  io.emit("tournament-updated", { tournamentId: String(tournamentId) });
+}
+
+// Store a tournament result and play the next round when this was the last
+// game of its round
+async function settleTournamentGame(id, number, board, result, forfeit) {
+  try {
+    const settled = await recordResult(id, number, board, result, {
+      forfeit: forfeit === true,
+    });
+    if (settled.error) return;
+    emitTournamentUpdated(id);
+    if (settled.round) {
+      await playTournamentRound(settled.tournament, settled.round);
+    }
+  } catch (e) {
+    console.error("Failed to record tournament game", id, e);
+  }
+}
+
+// Seat the tabs of two tournament players ({ tab, userId }, x moves first)
+// in a new room with the tournament's settings and start the game. `ref`
+// tells announceGameEnd where the result goes.
+async function openTournamentRoom(roomId, tournament, x, o, ref) {
+  const seat = ({ tab, userId }) => {
+    const entry = tournament.players.find(
+      (p) => String(p.userId) === String(userId)
+    );
+    return {
+      id: tab.id,
+      socketId: tab.id,
+      userId: String(userId),
+      name: entry?.name || tab.data?.user?.name || null,
+      avatar: entry?.avatar || null,
+    };
+  };
+  gameManager.createRoom(roomId, {
+    ...seat(x),
+    rated: tournament.rated,
+    private: true,
+    timeControl: tournament.timeControl,
+    rules: tournament.rules,
+    boardSize: tournament.boardSize,
+    takebacks: 0,
+    tournament: ref,
+  });
+  gameManager.joinRoom(roomId, seat(o));
+  const started = gameManager.resetRoom(roomId);
+  io.in([x.tab.id, o.tab.id]).socketsJoin(roomId);
+  saveRoom(roomId);
+  const enriched = await attachEloToGameState(started);
+  // a player on another node may not have joined the room yet
+  io.to([roomId, x.tab.id, o.tab.id]).emit("room-joined", {
+    gameState: enriched,
+  });
+  emitGameState(roomId, "game-started", {
+    gameState: enriched,
+    clock: gameManager.getClockSnapshot(roomId),
+  });
+}
+
+// Open the rooms of a tournament round and seat both players, who are taken
+// there from wherever they are. A player with no connected tab loses the
+// game (both: a draw).
+async function playTournamentRound(tournament, round) {
+  // the rooms of the previous round are closed first
+  const previous = tournament.rounds.find((r) => r.number === round.number - 1);
+  for (const { roomId } of previous?.pairings || []) {
+    if (!roomId || gameManager.getRoom(roomId)?.status !== "finished") continue;
+    io.in(roomId).socketsLeave([roomId, spectatorRoom(roomId)]);
+    clearPendingRoomTimer(roomId);
+    removeRoom(roomId);
+  }
+  for (const pairing of round.pairings) {
+    if (pairing.result) continue;
+    const [x, o] = await Promise.all(
+      [pairing.X, pairing.O].map(async (userId) => {
+        const [tab] = await io.in(userRoom(String(userId))).fetchSockets();
+        return tab || null;
+      })
+    );
+    if (!x || !o) {
+      const result = x ? "X" : o ? "O" : "draw";
+      await settleTournamentGame(
+        tournament._id,
+        round.number,
+        pairing.board,
+        result,
+        true
+      );
+      continue;
+    }
+    const roomId = [
+      "tournament",
+      tournament._id,
+      round.number,
+      pairing.board,
+    ].join("-");
+    await openTournamentRoom(
+      roomId,
+      tournament,
+      { tab: x, userId: pairing.X },
+      { tab: o, userId: pairing.O },
+      { id: String(tournament._id), round: round.number, board: pairing.board }
+    );
+    await storage.tournaments.setRoom(
+      tournament._id,
+      round.number,
+      pairing.board,
+      roomId
+    );
+  }
+  emitRoomsList();
+}
+
+// Sockets following the live leaderboard of an arena (see "arena-watch")
+const arenaChannel = (tournamentId) => `arena:${tournamentId}`;
+
+// "arena-leaderboard" payload
+function arenaLeaderboard(tournament) {
+  const view = publicTournament(tournament, { details: true });
+  return {
+    tournamentId: view.id,
+    status: view.status,
+    endsAt: view.endsAt,
+    gamesPlayed: view.gamesPlayed,
+    standings: view.standings,
+  };
+}
+
+function emitArenaLeaderboard(tournament) {
+  io.to(arenaChannel(tournament._id)).emit(
+    "arena-leaderboard",
+    arenaLeaderboard(tournament)
+  );
+}
+
+const arenaPauseKey = (tournamentId, userId) => `${tournamentId}:${userId}`;
+
+// Queue a player of a running arena for their next game, from one of their
+// tabs. Skipped while they have paused, are playing elsewhere or have no
+// tab open. `lastRoomId` is the arena room they come from, closed once they
+// are paired again.
+async function queueArenaPlayer(tournament, userId, lastRoomId = null) {
+  const tournamentId = String(tournament._id);
+  const id = String(userId);
+  if (!arenaOpen(tournament)) return;
+  if (arenaPauses.has(arenaPauseKey(tournamentId, id))) return;
+  if (getPresence().get(id)?.status === "in-game") return;
+  const [tab] = await io.in(userRoom(id)).fetchSockets();
+  if (!tab) return;
+  const user = await storage.users.findById(id);
+  gameManager.addWaitingPlayer(
+    tab.id,
+    {
+      id: tab.id,
+      socketId: tab.id,
+      userId: id,
+      name: user?.name || null,
+      elo: ratingFields(user).elo,
+      arenaId: tournamentId,
+      lastRoomId,
+    },
+    gameManager.arenaPlayers
+  );
+  io.to(tab.id).emit("arena-waiting", { tournamentId });
+}
+
+// Drop the queue entries of an arena, or only those of one of its players
+function unqueueArena(tournamentId, userId = null) {
+  for (const [socketId, entry] of gameManager.arenaPlayers.entries()) {
+    if (entry.arenaId !== tournamentId) continue;
+    if (userId && entry.userId !== userId) continue;
+    gameManager.removeWaitingPlayer(socketId, gameManager.arenaPlayers);
+  }
+}
+
+// Start the game of two arena players paired by the matcher. The finished
+// rooms they come from are closed; a player who left meanwhile sends the
+// other one back to the queue.
+async function playArenaGame({ requester, opponent }) {
+  const { tournament } = await getTournament(requester.arenaId);
+  if (!tournament) return;
+  if (!arenaOpen(tournament)) {
+    await endArena(requester.arenaId);
+    return;
+  }
+  const [a, b] = await Promise.all(
+    [requester, opponent].map(async (entry) => {
+      const [tab] = await io.in(entry.socketId).fetchSockets();
+      return tab ? { tab, userId: entry.userId, entry } : null;
+    })
+  );
+  if (!a || !b) {
+    for (const p of [a, b]) {
+      if (p) await queueArenaPlayer(tournament, p.userId, p.entry.lastRoomId);
+    }
+    return;
+  }
+  for (const { tab, entry } of [a, b]) {
+    if (!entry.lastRoomId) continue;
+    tab.leave(entry.lastRoomId);
+    if (gameManager.getRoom(entry.lastRoomId)?.status === "finished") {
+      clearPendingRoomTimer(entry.lastRoomId);
+      removeRoom(entry.lastRoomId);
+    }
+  }
+  // X to whoever has moved first less often in this arena
+  const games = tournament.games || [];
+  const count = (test) => games.filter(test).length;
+  const balance = (id) =>
+    count((g) => String(g.X) === id) - count((g) => String(g.O) === id);
+  const [x, o] = balance(a.userId) <= balance(b.userId) ? [a, b] : [b, a];
+  const roomId = [
+    "arena",
+    tournament._id,
+    Date.now(),
+    Math.random().toString(36).slice(2, 7),
+  ].join("-");
+  const added = await addArenaGame(tournament._id, {
+    X: x.userId,
+    O: o.userId,
+    roomId,
+  });
+  if (added.error) return;
+  await openTournamentRoom(roomId, tournament, x, o, {
+    id: String(tournament._id),
+    arena: true,
+  });
+  emitRoomsList();
+}
+
+// Store the result of an arena game, update the leaderboard and queue both
+// players again
+async function settleArenaGame(id, roomId, result) {
+  try {
+    const settled = await recordArenaResult(id, roomId, result);
+    if (settled.error) return;
+    emitArenaLeaderboard(settled.tournament);
+    emitTournamentUpdated(id);
+    const { player1, player2 } = gameManager.getRoom(roomId)?.players || {};
+    for (const seat of [player1, player2]) {
+      if (seat?.userId) {
+        await queueArenaPlayer(settled.tournament, seat.userId, roomId);
+      }
+    }
+  } catch (e) {
+    console.error("Failed to record arena game", id, e);
+  }
+}
+
+// End timers of the arenas this node started or resumed after a restart;
+// every node runs one and the first to fire ends the arena
+const arenaTimers = new Map();
+
+function scheduleArenaEnd(tournament) {
+  const id = String(tournament._id);
+  clearTimeout(arenaTimers.get(id));
+  const ms = Math.max(0, new Date(tournament.endsAt).getTime() - Date.now());
+  const timer = setTimeout(() => {
+    arenaTimers.delete(id);
+    endArena(id);
+  }, ms);
+  timer.unref();
+  arenaTimers.set(id, timer);
+}
+
+// The arena's time is up: nobody is paired any more and games still being
+// played do not count
+async function endArena(id) {
+  try {
+    unqueueArena(id);
+    const ended = await finishArena(id);
+    if (ended.error) return;
+    emitArenaLeaderboard(ended.tournament);
+    emitTournamentUpdated(id);
+  } catch (e) {
+    console.error("Failed to end arena", id, e);
+  }
+}
+
+// Open an arena: its players with a tab open are queued at once
+async function startArena(tournament) {
+  scheduleArenaEnd(tournament);
+  emitArenaLeaderboard(tournament);
+  for (const p of tournament.players) {
+    await queueArenaPlayer(tournament, p.userId);
+  }
+}
+
+// Delay before the bot answers so its moves are visible as separate turns
+const BOT_MOVE_DELAY_MS = Number.parseInt(
+  process.env.BOT_MOVE_DELAY_MS || "500",
+  10
+);
+
+// If the bot seat of a practice room is on move, play its move shortly
+function scheduleBotMove(roomId) {
+  const gs = gameManager.getRoom(roomId);
+  const bot = gs?.players?.player2;
+  if (!gs || gs.status !== "playing" || !bot?.isBot) return;
+  if (gs.currentTurn !== bot.symbol) return;
+  setTimeout(async () => {
+    try {
+      const current = gameManager.getRoom(roomId);
+      if (
+        !current ||
+        current.status !== "playing" ||
+        current.currentTurn !== bot.symbol
+      ) {
+        return;
+      }
+      const move = chooseBotMove(current, bot.symbol, bot.botLevel);
+      if (!move) return;
+      const [row, col] = move;
+      const result = gameManager.makeMove(roomId, bot.socketId, row, col);
+      if (result.error) {
+        console.error(`[BOT] illegal move in room=${roomId}:`, result.error);
+        return;
+      }
+      if (result.success) await broadcastMove(roomId, row, col, result);
+    } catch (e) {
+      console.error("Bot move failed for room", roomId, e);
+    }
+  }, BOT_MOVE_DELAY_MS);
+}
+
 app.get("/", (req, res) => res.send("ZCaro backend running..."));
 
 // Return user profile by id (used by client to refresh profile when opening modal)
@@ -198,7 +1112,7 @@ app.get("/api/user/:id", async (req, res) => {
   try {
     const { id } = req.params;
     if (!id) return res.status(400).json({ error: "Missing id" });
-    const u = await User.findById(id).lean();
+    const u = await storage.users.findById(id);
     if (!u) return res.status(404).json({ error: "User not found" });
     // normalize fields the client expects
     const out = {
@@ -206,9 +1120,23 @@ app.get("/api/user/:id", async (req, res) => {
       name: u.name,
       email: u.email,
       avatar: u.avatar || null,
-      elo: u.elo ?? u.rating ?? null,
-      rating: u.rating ?? u.elo ?? null,
+      ...ratingFields(u),
+      ratingEngine: ratingEngine.name,
+      gamesPlayed: u.gamesPlayed || 0,
     };
+    out.rating = out.elo;
+    // badges from the final standings of past seasons, newest first
+    const [standings, seasons] = await Promise.all([
+      storage.seasonStandings.findByUser(u._id),
+      storage.seasons.archived(),
+    ]);
+    const seasonNames = new Map(seasons.map((s) => [s._id, s.name]));
+    out.badges = standings.map((s) => ({
+      season: s.season,
+      seasonName: seasonNames.get(s.season) || s.season,
+      rank: s.rank,
+      badge: s.badge,
+    }));
     return res.json({ user: out });
   } catch (e) {
     console.error("/api/user/:id error", e);
@@ -216,6 +1144,202 @@ app.get("/api/user/:id", async (req, res) => {
   }
 });
 
+// List finished games of a user (newest first). Supports ?limit= (max 50) and
+// ?before=<ISO date> for paging. Move lists are omitted; fetch a single game for those.
+app.get("/api/user/:id/games", async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ error: "Invalid id" });
+    }
+    const limit = Math.min(
+      Math.max(Number.parseInt(req.query.limit, 10) || 20, 1),
+      50
+    );
+    let before = null;
+    if (req.query.before) {
+      const d = new Date(req.query.before);
+      if (!Number.isNaN(d.getTime())) before = d;
+    }
+    const games = await storage.games.findByPlayer(id, { limit, before });
+    return res.json({ games });
+  } catch (e) {
+    console.error("/api/user/:id/games error", e);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Ranked players, one page at a time (see src/ratings/leaderboard.js).
+// Query: ?period=all|month|week, ?page= (from 1), ?pageSize= (default 50, max
+// 100) and ?userId= to also get that user's own entry as `me`.
+app.get("/api/leaderboard", async (req, res) => {
+  try {
+    const period = req.query.period || "all";
+    if (!PERIODS.includes(period)) {
+      return res.status(400).json({ error: "Invalid period" });
+    }
+    const userId = req.query.userId || null;
+    if (userId && !mongoose.isValidObjectId(userId)) {
+      return res.status(400).json({ error: "Invalid userId" });
+    }
+    const page = Math.max(Number.parseInt(req.query.page, 10) || 1, 1);
+    const pageSize = Math.min(
+      Math.max(Number.parseInt(req.query.pageSize, 10) || 50, 1),
+      MAX_PAGE_SIZE
+    );
+    return res.json(await leaderboardPage({ period, page, pageSize, userId }));
+  } catch (e) {
+    console.error("/api/leaderboard error", e);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// The season running now and the archived ones (newest first)
+app.get("/api/seasons", async (req, res) => {
+  try {
+    const archived = await storage.seasons.archived();
+    return res.json({
+      current: seasonAt(),
+      archived: archived.map(({ _id, ...s }) => ({ id: _id, ...s })),
+    });
+  } catch (e) {
+    console.error("/api/seasons error", e);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Final standings of an archived season, paged like /api/leaderboard
+// (?page=, ?pageSize=, ?userId= for `me`)
+app.get("/api/seasons/:id/standings", async (req, res) => {
+  try {
+    const season = await storage.seasons.findById(req.params.id);
+    if (!season?.archivedAt) {
+      return res.status(404).json({ error: "Season not found" });
+    }
+    const userId = req.query.userId || null;
+    if (userId && !mongoose.isValidObjectId(userId)) {
+      return res.status(400).json({ error: "Invalid userId" });
+    }
+    const page = Math.max(Number.parseInt(req.query.page, 10) || 1, 1);
+    const pageSize = Math.min(
+      Math.max(Number.parseInt(req.query.pageSize, 10) || 50, 1),
+      MAX_PAGE_SIZE
+    );
+    const [{ total, standings }, mine] = await Promise.all([
+      storage.seasonStandings.page(season._id, {
+        offset: (page - 1) * pageSize,
+        limit: pageSize,
+      }),
+      userId ? storage.seasonStandings.find(season._id, userId) : null,
+    ]);
+    const entry = (s) => ({
+      rank: s.rank,
+      userId: String(s.userId),
+      name: s.name || `Player ${String(s.userId).slice(0, 6)}`,
+      avatar: s.avatar || null,
+      elo: s.rating,
+      games: s.games,
+      wins: s.wins,
+      losses: s.losses,
+      draws: s.draws,
+      badge: s.badge,
+    });
+    return res.json({
+      season: { id: season._id, name: season.name },
+      page,
+      pageSize,
+      pages: Math.max(1, Math.ceil(total / pageSize)),
+      total,
+      players: standings.map(entry),
+      me: mine
+        ? { ...entry(mine), page: Math.ceil(mine.rank / pageSize) }
+        : null,
+    });
+  } catch (e) {
+    console.error("/api/seasons/:id/standings error", e);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Rating of a user after each rated game (oldest first) under the current
+// rating engine. Supports ?limit= (default 100, max 500): the latest games.
+app.get("/api/user/:id/rating-history", async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ error: "Invalid id" });
+    }
+    const limit = Math.min(
+      Math.max(Number.parseInt(req.query.limit, 10) || 100, 1),
+      500
+    );
+    const rows = await storage.eloHistory.findByUser(id, {
+      engine: ratingEngine.name,
+      limit,
+    });
+    return res.json({
+      engine: ratingEngine.name,
+      // rating before the first returned game, so a chart has a start point
+      start: rows.length ? rows[0].before : null,
+      points: rows.map((r) => ({
+        at: r.timestamp,
+        rating: r.after,
+        change: r.change,
+        rd: r.rdAfter ?? null,
+        result: r.result,
+        opponentId: String(r.opponentId),
+      })),
+    });
+  } catch (e) {
+    console.error("/api/user/:id/rating-history error", e);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Results, streaks, best rating and most-played opponents over all rated games
+// of a user under the current rating engine
+app.get("/api/user/:id/stats", async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ error: "Invalid id" });
+    }
+    const rows = await storage.eloHistory.findByUser(id, {
+      engine: ratingEngine.name,
+    });
+    const stats = ratingStats(rows);
+    const opponents = await storage.users.findByIds(
+      stats.opponents.map((o) => o.userId)
+    );
+    const byId = new Map(opponents.map((u) => [String(u._id), u]));
+    stats.opponents = stats.opponents.map((o) => ({
+      ...o,
+      name: byId.get(o.userId)?.name || null,
+      avatar: byId.get(o.userId)?.avatar || null,
+    }));
+    return res.json({ engine: ratingEngine.name, stats });
+  } catch (e) {
+    console.error("/api/user/:id/stats error", e);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Fetch one finished game including its full move list
+app.get("/api/game/:id", async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ error: "Invalid id" });
+    }
+    const game = await storage.games.findById(id);
+    if (!game) return res.status(404).json({ error: "Game not found" });
+    return res.json({ game });
+  } catch (e) {
+    console.error("/api/game/:id error", e);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
 // Google ID token verification endpoint
 const googleClient = new OAuth2Client(process.env.GOOGLE_CLIENT_ID);
 
@@ -235,25 +1359,70 @@ app.post("/auth/google", async (req, res) => {
     const email = payload.email;
     const avatar = payload.picture;
 
-    const user = await User.findOneAndUpdate(
-      { googleId },
-      {
-        $set: { name, email, avatar },
-        $setOnInsert: { elo: 1200, rating: 1500, rd: 350, volatility: 0.06 },
-      },
-      { upsert: true, new: true }
-    );
+    const user = await storage.users.upsertGoogleUser({
+      googleId,
+      name,
+      email,
+      avatar,
+    });
 
-    return res.json({ user });
+    // Signed session token the client presents in the socket handshake
+    const { token, expiresAt } = issueSessionToken(user._id);
+    return res.json({
+      user: { ...user, ...ratingFields(user) },
+      token,
+      expiresAt,
+    });
   } catch (err) {
     console.error("Google token verify failed", err);
     return res.status(401).json({ error: "Invalid idToken" });
   }
 });
 
+// Socket handshake: clients may present a session token (auth: { token }).
+// Sockets without a token connect as guests; an invalid or expired token is
+// rejected so the client can drop its stale session.
+io.use(async (socket, next) => {
+  socket.data.user = null;
+  const token = socket.handshake.auth?.token;
+  if (!token) return next();
+  try {
+    const identity = await authenticateSocket(socket, token);
+    if (!identity) return next(new Error("unauthorized"));
+    return next();
+  } catch (e) {
+    console.error("Socket authentication failed", e);
+    return next(new Error("unauthorized"));
+  }
+});
+
 io.on("connection", (socket) => {
   console.log("🔌 New connection:", socket.id);
 
+  // Validate and rate-limit every incoming event (see src/validation.js)
+  guardSocket(socket);
+
+  if (socket.data.user) socket.join(userRoom(socket.data.user.id));
+
+  const ownsPrivateRoom = (gs) =>
+    gs?.private === true &&
+    !!socket.data.user &&
+    gs.players.player1?.userId === socket.data.user.id;
+
+  // Refuse a request: the client shows `message`
+  const refuse = (event, code, message) =>
+    socket.emit("request-error", { event, code, message });
+
+  // While the server drains for a shutdown no new game may start
+  socket.use(([event], next) => {
+    if (!draining || !DRAIN_BLOCKED_EVENTS.has(event)) return next();
+    socket.emit("request-error", {
+      event,
+      code: "server-draining",
+      message: "Server is restarting",
+    });
+  });
+
   // Send current rooms snapshot to the newly connected socket so lobby shows up-to-date rooms
   try {
     const snapshot = getRoomsSnapshot();
@@ -272,38 +1441,12 @@ io.on("connection", (socket) => {
     }
   });
 
-  // Allow clients to request the global Top-20 players (server-authoritative)
+  // Top 20 of the all-time leaderboard. The lobby pages through
+  // /api/leaderboard instead; this stays for clients that still ask here.
   socket.on("request-top-players", async () => {
     try {
-      // If Mongo is configured, use the persistent User collection to determine
-      // the global top players. Otherwise fall back to the in-memory onlineUsers map.
-      if (process.env.MONGO_URI) {
-        const users = await User.find({})
-          .sort({ elo: -1, rating: -1 })
-          .limit(20)
-          .lean();
-
-        const players = users.map((u) => ({
-          socketId: u.socketId || null,
-          name: u.name || `Player ${String(u._id).slice(0, 6)}`,
-          avatar: u.avatar || null,
-          elo: u.elo ?? u.rating ?? 0,
-        }));
-
-        socket.emit("top-players", { players });
-      } else {
-        // No DB available — return top from the currently online users as best-effort
-        const arr = Array.from(onlineUsers.values())
-          .sort((a, b) => (b.elo || 0) - (a.elo || 0))
-          .slice(0, 20)
-          .map((u) => ({
-            socketId: u.socketId,
-            name: u.name,
-            avatar: u.avatar || null,
-            elo: u.elo ?? 0,
-          }));
-        socket.emit("top-players", { players: arr });
-      }
+      const { players } = await leaderboardPage({ pageSize: 20 });
+      socket.emit("top-players", { players });
     } catch (e) {
       console.error("Failed to handle request-top-players", e);
       socket.emit("top-players", { players: [] });
@@ -311,42 +1454,35 @@ io.on("connection", (socket) => {
   });
 
   // Allow clients to request spectating a room (join as spectator only)
-  socket.on("spectate-room", async ({ roomId, playerName }) => {
+  socket.on("spectate-room", async ({ roomId, playerName, invite }) => {
     try {
       if (!roomId) return socket.emit("room-not-found", { roomId });
       const gs = gameManager.getRoom(roomId);
       if (!gs) return socket.emit("room-not-found", { roomId });
-
-      // Persist or update user record for this socket (spectator)
-      const nameFinal = playerName || `Guest ${socket.id.slice(0, 6)}`;
-      try {
-        await User.findOneAndUpdate(
-          { socketId: socket.id },
-          { $set: { name: nameFinal }, $setOnInsert: { elo: 1200 } },
-          { upsert: true, new: true }
-        );
-      } catch (e) {
-        console.error("Failed to upsert user on spectate-room", e);
+      if (watchNeedsInvite(gs)) {
+        const denied = await checkInvite(gs, invite);
+        if (denied) {
+          refuse("spectate-room", denied, INVITE_ERRORS[denied]);
+          return;
+        }
       }
 
-      let userDoc = null;
-      try {
-        userDoc = await User.findOne({ socketId: socket.id }).lean();
-      } catch (e) {
-        /* ignore */
-      }
+      // Signed-in spectators use their account; guests use the supplied name
+      const nameFinal = playerName || `Guest ${socket.id.slice(0, 6)}`;
+      const userDoc = await loadSocketUser(socket);
 
       const updated = gameManager.addSpectator(roomId, {
         id: socket.id,
         socketId: socket.id,
+        userId: socket.data.user?.id || null,
         name: userDoc?.name || nameFinal,
         avatar: userDoc?.avatar || null,
       });
 
-      socket.join(roomId);
+      socket.join([roomId, spectatorRoom(roomId)]);
       const enriched = await attachEloToGameState(updated);
       // send the room state to the spectator (and notify room that spectator joined)
-      io.to(roomId).emit("room-joined", { gameState: enriched });
+      emitGameState(roomId, "room-joined", { gameState: enriched });
 
       // broadcast updated lobby snapshot
       try {
@@ -360,30 +1496,19 @@ io.on("connection", (socket) => {
     }
   });
 
-  // Associate a connected socket with a persisted user (after Google login)
-  socket.on("identify", async ({ userId }) => {
+  // Sign in an already-connected socket (after Google login) by presenting the
+  // session token issued by /auth/google. Bare user ids are not accepted.
+  socket.on("identify", async ({ token } = {}) => {
     try {
-      if (!userId)
-        return socket.emit("identify-failed", { error: "Missing userId" });
-      await User.findByIdAndUpdate(userId, { socketId: socket.id });
-      // load user and add to online map
-      try {
-        const u = await User.findById(userId).lean();
-        if (u) {
-          onlineUsers.set(socket.id, {
-            socketId: socket.id,
-            name: u.name || `Player ${socket.id.slice(0, 6)}`,
-            avatar: u.avatar || null,
-            elo: u.elo ?? u.rating ?? null,
-            _id: u._id,
-          });
-          emitOnlineUsers();
-        }
-      } catch (e) {
-        console.error("Failed to load user after identify", e);
-      }
-
-      socket.emit("identified", { success: true, userId });
+      if (!token)
+        return socket.emit("identify-failed", { error: "Missing token" });
+      const identity = await authenticateSocket(socket, token);
+      if (!identity)
+        return socket.emit("identify-failed", {
+          error: "Invalid or expired session",
+        });
+      socket.join(userRoom(identity.id));
+      socket.emit("identified", { success: true, userId: identity.id });
     } catch (e) {
       console.error("Failed to identify socket to user", e);
       socket.emit("identify-failed", { error: "Server error" });
@@ -393,20 +1518,22 @@ io.on("connection", (socket) => {
   // Create a new room (persist a user record for this socket)
   socket.on(
     "create-room",
-    async ({ playerName, roomId: requestedRoomId, rated }) => {
-      // require authenticated user (must have been identified via /auth/google and 'identify' socket event)
-      try {
-        const authUser = await User.findOne({ socketId: socket.id }).lean();
-        if (!authUser || !authUser.googleId) {
-          socket.emit("auth-required", {
-            message: "You must sign in with Google to create a room.",
-          });
-          return;
-        }
-      } catch (e) {
-        console.error("Auth check failed", e);
+    async ({
+      playerName,
+      roomId: requestedRoomId,
+      rated,
+      timeControl,
+      rules,
+      boardSize,
+      allowSpectators,
+      spectatorDelay,
+      takebacks,
+      bestOf,
+    }) => {
+      // require an authenticated socket (session token from /auth/google)
+      if (!socket.data.user) {
         socket.emit("auth-required", {
-          message: "Authentication check failed",
+          message: "You must sign in with Google to create a room.",
         });
         return;
       }
@@ -433,23 +1560,8 @@ io.on("connection", (socket) => {
         return;
       }
 
-      // Persist or update user record for this socket connection
-      try {
-        await User.findOneAndUpdate(
-          { socketId: socket.id },
-          { $set: { name: playerNameFinal }, $setOnInsert: { elo: 1200 } },
-          { upsert: true, new: true }
-        );
-      } catch (e) {
-        console.error("Failed to upsert user on create-room", e);
-      }
-      // Read persisted user (to get avatar if present)
-      let userDoc = null;
-      try {
-        userDoc = await User.findOne({ socketId: socket.id }).lean();
-      } catch (e) {
-        console.error("Failed to load user after upsert", e);
-      }
+      // Read the authenticated user (name/avatar/elo)
+      const userDoc = await loadSocketUser(socket);
 
       // Add to online users map and broadcast
       try {
@@ -458,7 +1570,7 @@ io.on("connection", (socket) => {
             socketId: socket.id,
             name: userDoc.name || `Player ${socket.id.slice(0, 6)}`,
             avatar: userDoc.avatar || null,
-            elo: userDoc.elo ?? userDoc.rating ?? null,
+            ...ratingFields(userDoc),
             _id: userDoc._id,
           });
           emitOnlineUsers();
@@ -471,6 +1583,7 @@ io.on("connection", (socket) => {
       const newGameState = gameManager.createRoom(roomId, {
         id: socket.id,
         socketId: socket.id,
+        userId: socket.data.user.id,
         name: userDoc?.name || playerNameFinal,
         avatar: userDoc?.avatar || null,
         // Allow client to request a rated room explicitly. By default (no
@@ -480,10 +1593,29 @@ io.on("connection", (socket) => {
         // mark this room as private/explicitly created - clients should treat it as
         // requiring a code to take a player slot; others should only spectate by default
         private: true,
+        // optional { baseMs, incrementMs, delayMs }; normalized by the game manager
+        timeControl,
+        // optional rule set ({ preset, ...overrides }); see src/rules.js
+        rules,
+        // optional board size (one of BOARD_SIZES in src/gameLogic.js)
+        boardSize,
+        // false: watching also needs the invite link
+        allowSpectators,
+        // optional { moves } or { seconds }; see src/spectators.js
+        spectatorDelay,
+        // takebacks per player and game (none in rated rooms by default)
+        takebacks,
+        // optional 3, 5 or 7 for a best-of-N match; see src/matches.js
+        bestOf,
       });
+      saveRoom(roomId);
       socket.join(roomId);
       const enriched = await attachEloToGameState(newGameState);
-      socket.emit("room-created", { roomId, gameState: enriched });
+      socket.emit("room-created", {
+        roomId,
+        gameState: enriched,
+        clock: gameManager.getClockSnapshot(roomId),
+      });
       // Notify all clients that rooms changed
       try {
         emitRoomsList();
@@ -494,9 +1626,16 @@ io.on("connection", (socket) => {
   );
 
   // Join a room (send chat history if available)
-  socket.on("join-room", async ({ roomId, playerName }) => {
+  // Private rooms need the invite token (`invite`) for the free seat, and to
+  // watch when the owner turned spectators off (see src/invites.js).
+  socket.on("join-room", async ({ roomId, playerName, invite }) => {
     try {
       const gameState = gameManager.getRoom(roomId);
+      const inviteDenied = async (needed) => {
+        const denied = needed ? await checkInvite(gameState, invite) : null;
+        if (denied) refuse("join-room", denied, INVITE_ERRORS[denied]);
+        return denied;
+      };
 
       if (!gameState) {
         // Room does not exist — inform the requester instead of implicitly creating one
@@ -505,35 +1644,30 @@ io.on("connection", (socket) => {
           roomId,
         });
         return;
+      } else if (reclaimSeat(socket, roomId)) {
+        // The user already has a seat here (e.g. opened the room link again)
+        const enriched = await attachEloToGameState(gameState);
+        emitGameState(roomId, "room-state", {
+          gameState: enriched,
+          clock: gameManager.getClockSnapshot(roomId),
+        });
+        return;
       } else if (!gameState.players.player2) {
+        if (await inviteDenied(seatNeedsInvite(gameState))) return;
         // Join existing room as player 2
         const nameFinal = playerName || `Player ${socket.id.slice(0, 6)}`;
 
-        // Persist or update user record for this socket (player2)
-        try {
-          await User.findOneAndUpdate(
-            { socketId: socket.id },
-            { $set: { name: nameFinal }, $setOnInsert: { elo: 1200 } },
-            { upsert: true, new: true }
-          );
-        } catch (e) {
-          console.error("Failed to upsert user on join-room (join)", e);
-        }
-
-        // load user doc to include avatar
-        let userDoc2 = null;
-        try {
-          userDoc2 = await User.findOne({ socketId: socket.id }).lean();
-        } catch (e) {
-          console.error("Failed to load user on join", e);
-        }
+        // load the authenticated user (if any) to include avatar
+        const userDoc2 = await loadSocketUser(socket);
 
         const updatedGameState = gameManager.joinRoom(roomId, {
           id: socket.id,
           socketId: socket.id,
+          userId: socket.data.user?.id || null,
           name: userDoc2?.name || nameFinal,
           avatar: userDoc2?.avatar || null,
         });
+        saveRoom(roomId);
         // If there was a pending removal timer for this room (someone previously disconnected), cancel it
         try {
           clearPendingRoomTimer(roomId);
@@ -541,9 +1675,10 @@ io.on("connection", (socket) => {
           /* ignore */
         }
         socket.join(roomId);
+        socket.leave(spectatorRoom(roomId));
         // Do not auto-start; notify room that player joined and leave game in 'waiting' state
         const enriched = await attachEloToGameState(updatedGameState);
-        io.to(roomId).emit("room-joined", { gameState: enriched });
+        emitGameState(roomId, "room-joined", { gameState: enriched });
 
         // notify lobby clients that rooms updated
         try {
@@ -559,7 +1694,7 @@ io.on("connection", (socket) => {
               socketId: socket.id,
               name: userDoc2.name || `Player ${socket.id.slice(0, 6)}`,
               avatar: userDoc2.avatar || null,
-              elo: userDoc2.elo ?? userDoc2.rating ?? null,
+              ...ratingFields(userDoc2),
               _id: userDoc2._id,
             });
             emitOnlineUsers();
@@ -569,49 +1704,31 @@ io.on("connection", (socket) => {
         }
 
         // Load recent chat history (last 200 messages)
-        if (process.env.MONGO_URI) {
+        try {
+          const recent = await storage.chatMessages.recent(
+            roomId,
+            CHAT_HISTORY_LIMIT
+          );
           try {
-            const recent = await ChatMessage.find({ roomId })
-              .sort({ timestamp: 1 })
-              .limit(200)
-              .lean();
-            try {
-              const enriched = await enrichMessagesWithAvatars(recent);
-              io.to(roomId).emit("chat-history", { messages: enriched });
-            } catch (e) {
-              io.to(roomId).emit("chat-history", { messages: recent });
-            }
+            const enriched = await enrichMessagesWithAvatars(recent);
+            io.to(roomId).emit("chat-history", { messages: enriched });
           } catch (e) {
-            console.error("Failed to load chat history", e);
+            io.to(roomId).emit("chat-history", { messages: recent });
           }
-        } else {
-          io.to(roomId).emit("chat-history", { messages: [] });
+        } catch (e) {
+          console.error("Failed to load chat history", e);
         }
       } else {
         // Room already has two players — allow joining as a spectator
+        if (await inviteDenied(watchNeedsInvite(gameState))) return;
         try {
-          // Persist or update user record for this socket (spectator)
           const nameFinal = playerName || `Guest ${socket.id.slice(0, 6)}`;
-          try {
-            await User.findOneAndUpdate(
-              { socketId: socket.id },
-              { $set: { name: nameFinal }, $setOnInsert: { elo: 1200 } },
-              { upsert: true, new: true }
-            );
-          } catch (e) {
-            console.error("Failed to upsert user on join-room (spectator)", e);
-          }
-
-          let userDoc3 = null;
-          try {
-            userDoc3 = await User.findOne({ socketId: socket.id }).lean();
-          } catch (e) {
-            console.error("Failed to load spectator user", e);
-          }
+          const userDoc3 = await loadSocketUser(socket);
 
           const updated = gameManager.addSpectator(roomId, {
             id: socket.id,
             socketId: socket.id,
+            userId: socket.data.user?.id || null,
             name: userDoc3?.name || nameFinal,
             avatar: userDoc3?.avatar || null,
           });
@@ -621,9 +1738,9 @@ io.on("connection", (socket) => {
           } catch (e) {
             /* ignore */
           }
-          socket.join(roomId);
+          socket.join([roomId, spectatorRoom(roomId)]);
           const enrichedSpec = await attachEloToGameState(updated);
-          io.to(roomId).emit("room-joined", { gameState: enrichedSpec });
+          emitGameState(roomId, "room-joined", { gameState: enrichedSpec });
 
           // notify lobby clients that rooms updated (spectator added)
           try {
@@ -639,7 +1756,7 @@ io.on("connection", (socket) => {
                 socketId: socket.id,
                 name: userDoc3.name || `Guest ${socket.id.slice(0, 6)}`,
                 avatar: userDoc3.avatar || null,
-                elo: userDoc3.elo ?? userDoc3.rating ?? null,
+                ...ratingFields(userDoc3),
                 _id: userDoc3._id,
               });
               emitOnlineUsers();
@@ -649,23 +1766,19 @@ io.on("connection", (socket) => {
           }
 
           // send chat history as usual
-          if (process.env.MONGO_URI) {
+          try {
+            const recent = await storage.chatMessages.recent(
+              roomId,
+              CHAT_HISTORY_LIMIT
+            );
             try {
-              const recent = await ChatMessage.find({ roomId })
-                .sort({ timestamp: 1 })
-                .limit(200)
-                .lean();
-              try {
-                const enriched = await enrichMessagesWithAvatars(recent);
-                socket.emit("chat-history", { messages: enriched });
-              } catch (e) {
-                socket.emit("chat-history", { messages: recent });
-              }
+              const enriched = await enrichMessagesWithAvatars(recent);
+              socket.emit("chat-history", { messages: enriched });
             } catch (e) {
-              console.error("Failed to load chat history for spectator", e);
+              socket.emit("chat-history", { messages: recent });
             }
-          } else {
-            socket.emit("chat-history", { messages: [] });
+          } catch (e) {
+            console.error("Failed to load chat history for spectator", e);
           }
         } catch (e) {
           console.error("Error adding spectator", e);
@@ -677,20 +1790,65 @@ io.on("connection", (socket) => {
     }
   });
 
-  // Find match (auto-matchmaking)
-  socket.on("find-match", async ({ playerName }) => {
-    // require authenticated user
+  // Start a practice game against the built-in bot. Open to guests; bot
+  // games are always unrated.
+  socket.on("play-bot", async ({ playerName, level, timeControl } = {}) => {
     try {
-      const authUser = await User.findOne({ socketId: socket.id }).lean();
-      if (!authUser || !authUser.googleId) {
-        socket.emit("auth-required", {
-          message: "You must sign in with Google to find a match.",
-        });
-        return;
+      const botLevel = BOT_LEVELS.includes(level) ? level : "medium";
+      const userDoc = await loadSocketUser(socket);
+      const roomId = `bot-${Date.now()}-${Math.random()
+        .toString(36)
+        .slice(2, 9)}`;
+
+      gameManager.createRoom(roomId, {
+        id: socket.id,
+        socketId: socket.id,
+        userId: socket.data.user?.id || null,
+        name: userDoc?.name || playerName || `Player ${socket.id.slice(0, 6)}`,
+        avatar: userDoc?.avatar || null,
+        rated: false,
+        // nobody else can take the bot's seat; others may only spectate
+        private: true,
+        timeControl,
+      });
+      gameManager.addBot(roomId, botLevel);
+      socket.join(roomId);
+
+      const created = await attachEloToGameState(gameManager.getRoom(roomId));
+      socket.emit("room-created", {
+        roomId,
+        gameState: created,
+        clock: gameManager.getClockSnapshot(roomId),
+      });
+
+      // Start right away; the human plays X in the first round
+      gameManager.resetRoom(roomId);
+      saveRoom(roomId);
+      const started = await attachEloToGameState(gameManager.getRoom(roomId));
+      emitGameState(roomId, "game-started", {
+        gameState: started,
+        clock: gameManager.getClockSnapshot(roomId),
+      });
+      scheduleBotMove(roomId);
+
+      try {
+        emitRoomsList();
+      } catch (e) {
+        /* ignore */
       }
     } catch (e) {
-      console.error("Auth check failed", e);
-      socket.emit("auth-required", { message: "Authentication check failed" });
+      console.error("Error handling play-bot", e);
+      socket.emit("start-error", { message: "Không thể tạo ván với máy" });
+    }
+  });
+
+  // Find match (auto-matchmaking)
+  socket.on("find-match", async ({ playerName }) => {
+    // require an authenticated socket
+    if (!socket.data.user) {
+      socket.emit("auth-required", {
+        message: "You must sign in with Google to find a match.",
+      });
       return;
     }
 
@@ -713,22 +1871,18 @@ io.on("connection", (socket) => {
     // Ensure requester is added to the waiting queue BEFORE attempting to match.
     // This avoids a race where two clients call find-match nearly simultaneously
     // and neither is present when the other's findMatch runs.
-    let userDocForQueue = null;
-    try {
-      userDocForQueue = await User.findOne({ socketId: socket.id }).lean();
-    } catch (e) {
-      console.error("Failed to load user for matchmaking queue", e);
-    }
+    const userDocForQueue = await loadSocketUser(socket);
 
     gameManager.addWaitingPlayer(socket.id, {
       id: socket.id,
       socketId: socket.id,
+      userId: socket.data.user.id,
       name:
         playerName ||
         (userDocForQueue && userDocForQueue.name) ||
         `Player ${socket.id.slice(0, 6)}`,
       avatar: userDocForQueue?.avatar || null,
-      elo: userDocForQueue?.elo ?? userDocForQueue?.rating ?? null,
+      elo: ratingFields(userDocForQueue).elo,
     });
 
     try {
@@ -741,22 +1895,22 @@ io.on("connection", (socket) => {
       /* ignore */
     }
 
-    // Now attempt to find a match (requester is guaranteed to be in waitingPlayers)
-    const match = gameManager.findMatch(socket.id);
+    // Now attempt to find a match (requester is guaranteed to be in waitingPlayers).
+    // Only the node holding the matcher lock pairs players; on the other nodes
+    // the periodic pass of that node picks the requester up.
+    const match = (await holdsMatcherLock())
+      ? gameManager.findMatch(socket.id)
+      : null;
 
     if (match) {
       // Found a match, create room and join both
       // load current user to include avatar
-      let curUser = null;
-      try {
-        curUser = await User.findOne({ socketId: socket.id }).lean();
-      } catch (e) {
-        console.error("Failed to load current user for matchmaking", e);
-      }
+      const curUser = await loadSocketUser(socket);
 
       gameManager.createRoom(match.roomId, {
         id: socket.id,
         socketId: socket.id,
+        userId: socket.data.user.id,
         name: curUser?.name || playerName || `Player ${socket.id.slice(0, 6)}`,
         avatar: curUser?.avatar || null,
         // auto-match rooms are ranked by default
@@ -764,15 +1918,17 @@ io.on("connection", (socket) => {
       });
       socket.join(match.roomId);
 
-      const opponentSocket = io.sockets.sockets.get(match.opponent.socketId);
-      if (opponentSocket) {
-        opponentSocket.join(match.opponent.roomId || match.roomId);
+      // the opponent may be connected to another node
+      const opponentOnline =
+        (await io.in(match.opponent.socketId).fetchSockets()).length > 0;
+      if (opponentOnline) {
+        io.in(match.opponent.socketId).socketsJoin(match.roomId);
         // load opponent user to include avatar
         let oppUser = null;
         try {
-          oppUser = await User.findOne({
-            socketId: match.opponent.socketId,
-          }).lean();
+          if (match.opponent.userId) {
+            oppUser = await storage.users.findById(match.opponent.userId);
+          }
         } catch (e) {
           console.error("Failed to load opponent user for matchmaking", e);
         }
@@ -780,12 +1936,16 @@ io.on("connection", (socket) => {
         const updatedGameState = gameManager.joinRoom(match.roomId, {
           id: match.opponent.id,
           socketId: match.opponent.socketId,
+          userId: match.opponent.userId || null,
           name: oppUser?.name || match.opponent.name,
           avatar: oppUser?.avatar || null,
         });
+        saveRoom(match.roomId);
         // notify both players that the opponent joined; game remains 'waiting' until started by owner
         const enrichedMatch = await attachEloToGameState(updatedGameState);
-        io.to(match.roomId).emit("room-joined", {
+        // also address the opponent directly: a join made on another node
+        // may not have arrived yet
+        io.to([match.roomId, match.opponent.socketId]).emit("room-joined", {
           gameState: enrichedMatch,
         });
         // Notify lobby clients that rooms updated
@@ -819,8 +1979,17 @@ io.on("connection", (socket) => {
         });
         return;
       }
+      // A returning player gets their seat back on this socket; the whole
+      // room receives the new state so seat socket ids stay current.
+      const reclaimed = reclaimSeat(socket, roomId);
       const enriched = await attachEloToGameState(gs);
-      socket.emit("room-state", { gameState: enriched });
+      const clock = gameManager.getClockSnapshot(roomId);
+      if (reclaimed) {
+        emitGameState(roomId, "room-state", { gameState: enriched, clock });
+      } else {
+        const gameState = viewFor(enriched, socket.id);
+        socket.emit("room-state", { gameState, clock });
+      }
     } catch (e) {
       console.error("Failed to handle request-room-state", e);
     }
@@ -836,59 +2005,8 @@ io.on("connection", (socket) => {
     }
 
     if (result.success) {
-      const enrichedMove = await attachEloToGameState(result.gameState);
-      io.to(roomId).emit("move-made", {
-        gameState: enrichedMove,
-        row,
-        col,
-        isWinner: result.isWinner,
-        isDraw: result.isDraw,
-      });
-
-      // If the move finished the game, also emit a 'game-ended' event so clients
-      // that only listen for game-ended (to show toasts/notifications) will be notified.
-      if (result.isWinner || result.isDraw) {
-        io.to(roomId).emit("game-ended", {
-          gameState: enrichedMove,
-          reason: "finished",
-        });
-      }
-
-      // If game finished, update ELOs (only for rated games)
-      try {
-        if (result.isWinner || result.isDraw) {
-          const gs = result.gameState;
-          // Default is rated=true; skip updates only if gs.rated === false
-          if (gs.rated === false) {
-            // Unrated room - do not modify ratings
-            console.log(`Skipping ELO update for unrated room ${gs.roomId}`);
-          } else {
-            const p1 = gs.players.player1;
-            const p2 = gs.players.player2;
-            if (p1 && p2) {
-              const p1id = p1.socketId;
-              const p2id = p2.socketId;
-              if (result.isDraw) {
-                await updateEloForMatch(io, gs.roomId, p1id, p2id, null, true);
-              } else if (result.isWinner) {
-                // winner is stored in gameState.winner as symbol ('X' or 'O')
-                const winnerSymbol = gs.winner;
-                const winnerSocket = winnerSymbol === "X" ? p1id : p2id;
-                await updateEloForMatch(
-                  io,
-                  gs.roomId,
-                  p1id,
-                  p2id,
-                  winnerSocket,
-                  false
-                );
-              }
-            }
-          }
-        }
-      } catch (e) {
-        console.error("Failed to update ELO after game end", e);
-      }
+      await broadcastMove(roomId, row, col, result);
+      scheduleBotMove(roomId);
     }
   });
 
@@ -899,6 +2017,10 @@ io.on("connection", (socket) => {
       const gs = gameManager.getRoom(roomId);
       if (!gs)
         return socket.emit("draw-offer-failed", { message: "Room not found" });
+      if (gs.status !== "playing")
+        return socket.emit("draw-offer-failed", {
+          message: "There is no game in progress",
+        });
 
       // determine opponent socket id
       const p1 = gs.players.player1;
@@ -921,11 +2043,24 @@ io.on("connection", (socket) => {
           message: "Opponent not connected",
         });
 
+      // The bot never accepts draws
+      if (p1.isBot || p2.isBot) {
+        socket.emit("draw-offer-sent", { roomId });
+        return socket.emit("draw-declined", {
+          fromSocket: opponentSocketId,
+          roomId,
+        });
+      }
+
+      // Remember the offer: only the opponent can accept it, until a move
+      const offerer = p1.socketId === socket.id ? p1 : p2;
+      gs.drawOffer = { symbol: offerer.symbol };
+      saveRoom(roomId);
+
       // Notify opponent of draw offer
       io.to(opponentSocketId).emit("draw-offered", {
         fromSocket: socket.id,
-        fromName:
-          (await User.findOne({ socketId: socket.id }).lean())?.name || null,
+        fromName: socket.data.user?.name || null,
         roomId,
       });
 
@@ -942,19 +2077,25 @@ io.on("connection", (socket) => {
     try {
       if (!roomId || typeof accept !== "boolean" || !fromSocket) return;
       const gs = gameManager.getRoom(roomId);
-      if (!gs) return;
+      if (!gs || gs.status !== "playing") return;
 
       // ensure both players present
       const p1 = gs.players.player1;
       const p2 = gs.players.player2;
       if (!p1 || !p2) return;
 
-      // Only allow a player in the room to respond
-      if (p1.socketId !== socket.id && p2.socketId !== socket.id) return;
+      // Only the opponent of the player who offered the draw may answer
+      const seat =
+        p1.socketId === socket.id ? p1 : p2.socketId === socket.id ? p2 : null;
+      const offer = gs.drawOffer;
+      if (!seat || !offer || offer.symbol === seat.symbol) return;
+      gs.drawOffer = null;
+      const offerer = seat === p1 ? p2 : p1;
 
       if (!accept) {
+        saveRoom(roomId);
         // notify original offerer that the draw was declined
-        io.to(fromSocket).emit("draw-declined", {
+        io.to(offerer.socketId).emit("draw-declined", {
           fromSocket: socket.id,
           roomId,
         });
@@ -962,29 +2103,30 @@ io.on("connection", (socket) => {
       }
 
       // Accept: finalize the game as draw
-      gs.status = "finished";
-      gs.winner = "draw";
-      gs.winningCells = [];
+      gameManager.stopClock(roomId);
+      gameManager.endRound(gs, "draw");
+      saveRoom(roomId);
 
       const enriched = await attachEloToGameState(gs);
 
       // notify room that game ended by draw
-      io.to(roomId).emit("game-ended", {
+      await announceGameEnd(roomId, {
         gameState: enriched,
         reason: "draw-offer-accepted",
       });
+      await recordFinishedGame(io, gs, "draw-offer-accepted");
 
       // Update ELOs for draw
       try {
-        const p1id = p1.socketId;
-        const p2id = p2.socketId;
+        const p1id = p1.userId;
+        const p2id = p2.userId;
         if (p1id && p2id) {
           if (gs.rated === false) {
             console.log(
               `Skipping ELO update for unrated room ${gs.roomId} (draw accepted)`
             );
           } else {
-            await updateEloForMatch(io, gs.roomId, p1id, p2id, null, true);
+            await rateRound(gs, p1id, p2id, null, true);
           }
         }
       } catch (e) {
@@ -995,52 +2137,81 @@ io.on("connection", (socket) => {
     }
   });
 
-  // Handle timeouts: when a client reports their clock expired
-  socket.on("time-expired", async ({ roomId }) => {
+  // Ask the opponent to take back our last move; the bot always agrees
+  socket.on("request-takeback", async ({ roomId }) => {
     try {
-      const gs = gameManager.getRoom(roomId);
-      if (!gs) return;
-
-      // Mark forfeit and emit updated game state
-      const updated = gameManager.forfeit(roomId, socket.id);
-      if (updated) {
-        const enrichedEnd = await attachEloToGameState(updated);
-        io.to(roomId).emit("game-ended", {
-          gameState: enrichedEnd,
-          reason: "timeout",
+      const result = gameManager.requestTakeback(roomId, socket.id);
+      if (result.error) {
+        refuse("request-takeback", result.error, TAKEBACK_ERRORS[result.error]);
+        return;
+      }
+      saveRoom(roomId);
+      const { player1, player2 } = result.gameState.players;
+      const mine = player1.socketId === socket.id;
+      const [me, opponent] = mine ? [player1, player2] : [player2, player1];
+      socket.emit("takeback-request-sent", { roomId });
+      if (opponent.isBot) {
+        await settleTakeback(roomId, opponent.socketId, true);
+      } else if (opponent.socketId) {
+        io.to(opponent.socketId).emit("takeback-requested", {
+          roomId,
+          fromName: me.name || null,
         });
-
-        // If both players exist, update ELOs
-        const p1 = updated.players.player1;
-        const p2 = updated.players.player2;
-        if (p1 && p2) {
-          const winnerSocket =
-            updated.winner === p1.symbol ? p1.socketId : p2.socketId;
-          try {
-            if (updated.rated === false) {
-              console.log(
-                `Skipping ELO update for unrated room ${updated.roomId} (timeout)`
-              );
-            } else {
-              await updateEloForMatch(
-                io,
-                updated.roomId,
-                p1.socketId,
-                p2.socketId,
-                winnerSocket,
-                false
-              );
-            }
-          } catch (e) {
-            console.error("Failed to update ELO after timeout", e);
-          }
-        }
       }
+    } catch (e) {
+      console.error("Error handling request-takeback", e);
+    }
+  });
+
+  socket.on("respond-takeback", async ({ roomId, accept }) => {
+    try {
+      const error = await settleTakeback(roomId, socket.id, accept);
+      if (error) refuse("respond-takeback", error, TAKEBACK_ERRORS[error]);
+    } catch (e) {
+      console.error("Error handling respond-takeback", e);
+    }
+  });
+
+  // Clocks are server-authoritative: a client reporting that a clock expired
+  // only triggers a re-check, the game ends only if the server clock agrees.
+  socket.on("time-expired", ({ roomId }) => {
+    try {
+      if (!roomId) return;
+      gameManager.checkFlag(roomId);
     } catch (e) {
       console.error("Error handling time-expired", e);
     }
   });
 
+  // Ask for a rematch once a game is over; the round starts when both agree
+  socket.on("offer-rematch", async ({ roomId }) => {
+    try {
+      const error = await offerRematch(roomId, socket.id);
+      if (error) refuse("offer-rematch", error, REMATCH_ERRORS[error]);
+    } catch (e) {
+      console.error("Error handling offer-rematch", e);
+    }
+  });
+
+  socket.on("respond-rematch", async ({ roomId, accept }) => {
+    try {
+      if (accept) {
+        const error = await offerRematch(roomId, socket.id);
+        if (error) refuse("respond-rematch", error, REMATCH_ERRORS[error]);
+        return;
+      }
+      const result = gameManager.declineRematch(roomId, socket.id);
+      if (result.error) {
+        refuse("respond-rematch", result.error, REMATCH_ERRORS[result.error]);
+        return;
+      }
+      saveRoom(roomId);
+      io.to(roomId).emit("rematch-declined", { roomId });
+    } catch (e) {
+      console.error("Error handling respond-rematch", e);
+    }
+  });
+
   // Allow room owner to force-start a game when both players are present
   socket.on("start-game", async ({ roomId }) => {
     try {
@@ -1068,11 +2239,18 @@ io.on("connection", (socket) => {
         return;
       }
 
+      // After a game the opponent has to agree: starting again is a rematch
+      // request (see offer-rematch)
+      if (gs.status === "finished") {
+        const error = await offerRematch(roomId, socket.id);
+        if (error) refuse("start-game", error, REMATCH_ERRORS[error]);
+        return;
+      }
+
       // Reset the room to a fresh board and start playing
       const restarted = gameManager.resetRoom(roomId);
       if (restarted) {
-        const enrichedStart = await attachEloToGameState(restarted);
-        io.to(roomId).emit("game-started", { gameState: enrichedStart });
+        await announceRound(roomId, restarted);
       } else {
         socket.emit("start-error", { message: "Không thể bắt đầu ván mới" });
       }
@@ -1082,58 +2260,71 @@ io.on("connection", (socket) => {
     }
   });
 
-  // Chat message (persist if Mongo configured)
-  socket.on("chat-message", async ({ roomId, message, sender }) => {
+  // Chat message (persisted through src/storage)
+  socket.on("chat-message", async ({ roomId, message }) => {
     try {
       if (!roomId || typeof message !== "string") return;
       const timestamp = Date.now();
+      // The sender name comes from the server, never from the payload: the
+      // player's seat, then their spectator entry, then their account.
+      const gs = gameManager.getRoom(roomId);
+      const seat = [gs?.players?.player1, gs?.players?.player2].find(
+        (p) => p && p.socketId === socket.id
+      );
+      const spectator = gs?.spectators?.find((s) => s.socketId === socket.id);
+      const sender =
+        seat?.name ||
+        spectator?.name ||
+        socket.data.user?.name ||
+        onlineUsers.get(socket.id)?.name ||
+        `Player ${socket.id.slice(0, 6)}`;
+      // Spectators write in their own channel, which only reaches the other
+      // spectators while the game is being played (see src/spectators.js)
+      const channel = spectator && !seat ? SPECTATOR_CHANNEL : undefined;
+      const to =
+        channel && gs.status === "playing"
+          ? io.to(spectatorRoom(roomId))
+          : io.to(roomId);
 
       // Broadcast to room, include avatar if available
       try {
         const online = onlineUsers.get(socket.id);
-        let avatar = online?.avatar ?? null;
-        if (!avatar) {
-          // fallback to DB lookup
-          try {
-            const u = await User.findOne({ socketId: socket.id }).lean();
-            if (u) avatar = u.avatar || null;
-          } catch (e) {
-            // ignore DB failures
-          }
-        }
+        const avatar = online?.avatar ?? socket.data.user?.avatar ?? null;
 
-        io.to(roomId).emit("chat-message", {
+        to.emit("chat-message", {
           roomId,
           message,
           sender,
           timestamp,
           socketId: socket.id,
           avatar,
+          channel,
         });
       } catch (e) {
         // If enrichment fails, still emit basic message
-        io.to(roomId).emit("chat-message", {
+        to.emit("chat-message", {
           roomId,
           message,
           sender,
           timestamp,
           socketId: socket.id,
+          channel,
         });
       }
 
       // Persist
-      if (process.env.MONGO_URI) {
-        try {
-          await ChatMessage.create({
-            roomId,
-            message,
-            sender,
-            socketId: socket.id,
-            timestamp: new Date(timestamp),
-          });
-        } catch (e) {
-          console.error("Failed to save chat message", e);
-        }
+      try {
+        await storage.chatMessages.create({
+          roomId,
+          message,
+          sender,
+          socketId: socket.id,
+          userId: socket.data.user?.id || undefined,
+          channel,
+          timestamp: new Date(timestamp),
+        });
+      } catch (e) {
+        console.error("Failed to save chat message", e);
       }
     } catch (err) {
       console.error("Error handling chat-message", err);
@@ -1147,13 +2338,11 @@ io.on("connection", (socket) => {
       // Ensure the requesting socket is actually in the room
       if (!socket.rooms || !socket.rooms.has(roomId)) return;
 
-      // If Mongo is configured, delete persisted chat messages
-      if (process.env.MONGO_URI) {
-        try {
-          await ChatMessage.deleteMany({ roomId });
-        } catch (e) {
-          console.error("Failed to delete chat history", e);
-        }
+      // Delete persisted chat messages
+      try {
+        await storage.chatMessages.deleteByRoom(roomId);
+      } catch (e) {
+        console.error("Failed to delete chat history", e);
       }
 
       // Notify room that history is now empty
@@ -1170,23 +2359,22 @@ io.on("connection", (socket) => {
       // Only service the request for sockets that are in the room
       if (!socket.rooms || !socket.rooms.has(roomId)) return;
 
-      if (process.env.MONGO_URI) {
+      try {
+        // players do not get the spectator chat while they play
+        const gs = gameManager.getRoom(roomId);
+        const recent = await storage.chatMessages.recent(
+          roomId,
+          CHAT_HISTORY_LIMIT,
+          { spectators: !hidesSpectatorChat(gs, socket.id) }
+        );
         try {
-          const recent = await ChatMessage.find({ roomId })
-            .sort({ timestamp: 1 })
-            .limit(200)
-            .lean();
-          try {
-            const enriched = await enrichMessagesWithAvatars(recent);
-            socket.emit("chat-history", { messages: enriched });
-          } catch (e) {
-            socket.emit("chat-history", { messages: recent });
-          }
+          const enriched = await enrichMessagesWithAvatars(recent);
+          socket.emit("chat-history", { messages: enriched });
         } catch (e) {
-          console.error("Failed to load chat history for requester", e);
-          socket.emit("chat-history", { messages: [] });
+          socket.emit("chat-history", { messages: recent });
         }
-      } else {
+      } catch (e) {
+        console.error("Failed to load chat history for requester", e);
         socket.emit("chat-history", { messages: [] });
       }
     } catch (e) {
@@ -1201,24 +2389,23 @@ io.on("connection", (socket) => {
       // Let the socket join the room so broadcast messages reach it
       socket.join(roomId);
 
-      // Return recent chat history to the joining socket (if Mongo configured)
-      if (process.env.MONGO_URI) {
+      // Return recent chat history to the joining socket
+      try {
+        // players do not get the spectator chat while they play
+        const gs = gameManager.getRoom(roomId);
+        const recent = await storage.chatMessages.recent(
+          roomId,
+          CHAT_HISTORY_LIMIT,
+          { spectators: !hidesSpectatorChat(gs, socket.id) }
+        );
         try {
-          const recent = await ChatMessage.find({ roomId })
-            .sort({ timestamp: 1 })
-            .limit(200)
-            .lean();
-          try {
-            const enriched = await enrichMessagesWithAvatars(recent);
-            socket.emit("chat-history", { messages: enriched });
-          } catch (e) {
-            socket.emit("chat-history", { messages: recent });
-          }
+          const enriched = await enrichMessagesWithAvatars(recent);
+          socket.emit("chat-history", { messages: enriched });
         } catch (e) {
-          console.error("Failed to load chat history for join-chat-room", e);
-          socket.emit("chat-history", { messages: [] });
+          socket.emit("chat-history", { messages: recent });
         }
-      } else {
+      } catch (e) {
+        console.error("Failed to load chat history for join-chat-room", e);
         socket.emit("chat-history", { messages: [] });
       }
     } catch (e) {
@@ -1240,6 +2427,7 @@ io.on("connection", (socket) => {
   socket.on("leave-room", async ({ roomId }) => {
     try {
       socket.leave(roomId);
+      socket.leave(spectatorRoom(roomId));
       const gs = gameManager.getRoom(roomId);
       if (!gs) return;
 
@@ -1273,19 +2461,20 @@ io.on("connection", (socket) => {
                     : null,
                 });
                 const enrichedEnd = await attachEloToGameState(updated);
-                io.to(roomId).emit("game-ended", {
+                await announceGameEnd(roomId, {
                   gameState: enrichedEnd,
                   reason: "forfeit",
                 });
+                await recordFinishedGame(io, updated, "forfeit");
 
                 // If both players existed, update ELOs (only for rated games)
                 const p1 = updated.players.player1;
                 const p2 = updated.players.player2;
                 if (p1 && p2) {
-                  const winnerSocket =
-                    updated.winner === p1.symbol ? p1.socketId : p2.socketId;
+                  const winnerUser =
+                    updated.winner === p1.symbol ? p1.userId : p2.userId;
                   console.debug(
-                    `[ELO] about to call updateEloForMatch room=${updated.roomId} p1=${p1.socketId} p2=${p2.socketId} winnerSocket=${winnerSocket} rated=${updated.rated}`
+                    `[RATING] about to call updateRatingsForMatch room=${updated.roomId} p1=${p1.userId} p2=${p2.userId} winnerUser=${winnerUser} rated=${updated.rated}`
                   );
                   try {
                     if (updated.rated === false) {
@@ -1293,16 +2482,15 @@ io.on("connection", (socket) => {
                         `Skipping ELO update for unrated room ${updated.roomId} (forfeit owner-left)`
                       );
                     } else {
-                      const res = await updateEloForMatch(
-                        io,
-                        updated.roomId,
-                        p1.socketId,
-                        p2.socketId,
-                        winnerSocket,
+                      const res = await rateRound(
+                        updated,
+                        p1.userId,
+                        p2.userId,
+                        winnerUser,
                         false
                       );
                       console.debug(
-                        `[ELO] updateEloForMatch result for room=${
+                        `[RATING] updateRatingsForMatch result for room=${
                           updated.roomId
                         }: ${JSON.stringify(res)}`
                       );
@@ -1318,6 +2506,8 @@ io.on("connection", (socket) => {
             } catch (e) {
               console.error("Error applying forfeit for owner leave", e);
             }
+          } else {
+            await concedeMatch(roomId, socket.id);
           }
 
           // Owner left — remove the room (preserve existing behavior)
@@ -1337,7 +2527,7 @@ io.on("connection", (socket) => {
           }
 
           try {
-            gameManager.removeRoom(roomId);
+            removeRoom(roomId);
           } catch (e) {
             console.error("Failed to remove room on owner leave", e);
           }
@@ -1384,19 +2574,20 @@ io.on("connection", (socket) => {
                     : null,
                 });
                 const enrichedEnd = await attachEloToGameState(updated);
-                io.to(roomId).emit("game-ended", {
+                await announceGameEnd(roomId, {
                   gameState: enrichedEnd,
                   reason: "forfeit",
                 });
+                await recordFinishedGame(io, updated, "forfeit");
 
                 // If both players existed, update ELOs (only for rated games)
                 const p1 = updated.players.player1;
                 const p2 = updated.players.player2;
                 if (p1 && p2) {
-                  const winnerSocket =
-                    updated.winner === p1.symbol ? p1.socketId : p2.socketId;
+                  const winnerUser =
+                    updated.winner === p1.symbol ? p1.userId : p2.userId;
                   console.debug(
-                    `[ELO] about to call updateEloForMatch room=${updated.roomId} p1=${p1.socketId} p2=${p2.socketId} winnerSocket=${winnerSocket} rated=${updated.rated}`
+                    `[RATING] about to call updateRatingsForMatch room=${updated.roomId} p1=${p1.userId} p2=${p2.userId} winnerUser=${winnerUser} rated=${updated.rated}`
                   );
                   try {
                     if (updated.rated === false) {
@@ -1404,16 +2595,15 @@ io.on("connection", (socket) => {
                         `Skipping ELO update for unrated room ${updated.roomId} (forfeit player-left)`
                       );
                     } else {
-                      const res = await updateEloForMatch(
-                        io,
-                        updated.roomId,
-                        p1.socketId,
-                        p2.socketId,
-                        winnerSocket,
+                      const res = await rateRound(
+                        updated,
+                        p1.userId,
+                        p2.userId,
+                        winnerUser,
                         false
                       );
                       console.debug(
-                        `[ELO] updateEloForMatch result for room=${
+                        `[RATING] updateRatingsForMatch result for room=${
                           updated.roomId
                         }: ${JSON.stringify(res)}`
                       );
@@ -1429,6 +2619,8 @@ io.on("connection", (socket) => {
             } catch (e) {
               console.error("Error applying forfeit for player2 leave", e);
             }
+          } else {
+            await concedeMatch(roomId, socket.id);
           }
 
           // After a non-owner explicit leave: for rated rooms we remove the room
@@ -1452,7 +2644,7 @@ io.on("connection", (socket) => {
             }
 
             try {
-              gameManager.removeRoom(roomId);
+              removeRoom(roomId);
             } catch (e) {
               console.error(
                 "Failed to remove room on player2 leave (rated)",
@@ -1471,9 +2663,10 @@ io.on("connection", (socket) => {
             current.status = "waiting";
             current.winner = null;
             current.winningCells = [];
+            saveRoom(roomId);
 
             const enriched = await attachEloToGameState(current);
-            io.to(roomId).emit("room-joined", { gameState: enriched });
+            emitGameState(roomId, "room-joined", { gameState: enriched });
           }
         } catch (e) {
           console.error("Error handling player2 leave", e);
@@ -1506,9 +2699,490 @@ io.on("connection", (socket) => {
     }
   });
 
+  // The invite link of a private room, for its owner: "room-invite"
+  // { roomId, token, expiresAt }. `renew` replaces the current token.
+  socket.on("request-invite", async ({ roomId, renew }) => {
+    const gs = gameManager.getRoom(roomId);
+    if (!ownsPrivateRoom(gs)) {
+      refuse("request-invite", "not-owner", "Only the room owner can invite");
+      return;
+    }
+    try {
+      const invite = await roomInvite(gs, socket.data.user.id, {
+        renew: renew === true,
+      });
+      socket.emit("room-invite", invite);
+    } catch (e) {
+      console.error("Failed to handle request-invite", e);
+      refuse("request-invite", "server-error", "Server error");
+    }
+  });
+
+  // Revoke the invite link; the owner can request a new one later
+  socket.on("revoke-invite", async ({ roomId }) => {
+    const gs = gameManager.getRoom(roomId);
+    if (!ownsPrivateRoom(gs)) {
+      refuse("revoke-invite", "not-owner", "Only the room owner can invite");
+      return;
+    }
+    try {
+      await revokeInvites(roomId);
+      socket.emit("room-invite", { roomId, token: null, expiresAt: null });
+    } catch (e) {
+      console.error("Failed to handle revoke-invite", e);
+      refuse("revoke-invite", "server-error", "Server error");
+    }
+  });
+
+  // Friends (src/friends.js) and direct challenges between friends. All of
+  // them need a signed-in socket; failures are sent as "request-error".
+  const signedIn = () => {
+    if (socket.data.user) return true;
+    socket.emit("auth-required", {
+      message: "You must sign in with Google to use friends.",
+    });
+    return false;
+  };
+  const validUser = (event, userId) => {
+    if (mongoose.isValidObjectId(userId)) return true;
+    refuse(event, "invalid-user", "Invalid user id");
+    return false;
+  };
+
+  // The friends list with presence: { friends, incoming, outgoing }
+  socket.on("request-friends", async () => {
+    if (!signedIn()) return;
+    try {
+      const lists = await listFriends(socket.data.user.id);
+      const presence = getPresence();
+      const friends = lists.friends.map((f) => ({
+        ...f,
+        ...(presence.get(f.userId) || { status: "offline" }),
+      }));
+      socket.emit("friends", { ...lists, friends });
+    } catch (e) {
+      console.error("Failed to handle request-friends", e);
+      refuse("request-friends", "server-error", "Server error");
+    }
+  });
+
+  // Send a friend request (or accept theirs when they already asked)
+  socket.on("friend-request", async ({ userId }) => {
+    if (!signedIn() || !validUser("friend-request", userId)) return;
+    try {
+      const me = socket.data.user;
+      const { friendship, error } = await requestFriend(me.id, userId);
+      if (error) {
+        refuse("friend-request", error, FRIEND_ERRORS[error]);
+        return;
+      }
+      if (friendship.status === "pending") {
+        io.to(userRoom(userId)).emit("friend-request-received", {
+          from: { userId: me.id, name: me.name, avatar: me.avatar },
+        });
+      }
+      emitFriendsUpdated(me.id, userId);
+    } catch (e) {
+      console.error("Failed to handle friend-request", e);
+      refuse("friend-request", "server-error", "Server error");
+    }
+  });
+
+  socket.on("friend-accept", async ({ userId }) => {
+    if (!signedIn() || !validUser("friend-accept", userId)) return;
+    try {
+      const { error } = await acceptFriend(socket.data.user.id, userId);
+      if (error) {
+        refuse("friend-accept", error, FRIEND_ERRORS[error]);
+        return;
+      }
+      emitFriendsUpdated(socket.data.user.id, userId);
+    } catch (e) {
+      console.error("Failed to handle friend-accept", e);
+      refuse("friend-accept", "server-error", "Server error");
+    }
+  });
+
+  // Remove a friend, decline their request or withdraw ours
+  socket.on("friend-remove", async ({ userId }) => {
+    if (!signedIn() || !validUser("friend-remove", userId)) return;
+    try {
+      const { error } = await removeFriend(socket.data.user.id, userId);
+      if (error) {
+        refuse("friend-remove", error, FRIEND_ERRORS[error]);
+        return;
+      }
+      emitFriendsUpdated(socket.data.user.id, userId);
+    } catch (e) {
+      console.error("Failed to handle friend-remove", e);
+      refuse("friend-remove", "server-error", "Server error");
+    }
+  });
+
+  // Challenge a friend to a game with the given room settings. The friend
+  // gets "challenge-received" on every tab and answers with
+  // challenge-respond before CHALLENGE_TTL_MS.
+  socket.on(
+    "challenge-friend",
+    async ({ userId, rated, rules, timeControl, boardSize }) => {
+      const event = "challenge-friend";
+      if (!signedIn() || !validUser(event, userId)) return;
+      try {
+        const me = socket.data.user;
+        if (!(await areFriends(me.id, userId))) {
+          refuse(event, "not-friends", "You can only challenge friends");
+          return;
+        }
+        const presence = getPresence();
+        if (!presence.has(userId)) {
+          refuse(event, "friend-offline", "Your friend is offline");
+          return;
+        }
+        if (
+          presence.get(userId).status === "in-game" ||
+          presence.get(me.id)?.status === "in-game"
+        ) {
+          refuse(event, "busy", "One of you is already playing");
+          return;
+        }
+        for (const c of challenges.values()) {
+          if (c.from.userId === me.id && c.to.userId === userId) {
+            refuse(event, "already-challenged", "Challenge already sent");
+            return;
+          }
+        }
+        const friend = await storage.users.findById(userId);
+        const challenge = {
+          id: `ch-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+          from: {
+            userId: me.id,
+            socketId: socket.id,
+            name: me.name,
+            avatar: me.avatar,
+          },
+          to: {
+            userId,
+            name: friend?.name || null,
+            avatar: friend?.avatar || null,
+          },
+          // passed to gameManager.createRoom, which normalizes them
+          settings: { rated: rated === true, rules, timeControl, boardSize },
+          expiresAt: Date.now() + CHALLENGE_TTL_MS,
+        };
+        challenges.set(challenge.id, challenge);
+        setTimeout(
+          () => expireChallenge(challenge.id),
+          CHALLENGE_TTL_MS
+        ).unref();
+        io.to(userRoom(userId)).emit("challenge-received", { challenge });
+        socket.emit("challenge-sent", { challenge });
+      } catch (e) {
+        console.error("Failed to handle challenge-friend", e);
+        refuse(event, "server-error", "Server error");
+      }
+    }
+  );
+
+  // Accept or decline a challenge. Accepting seats the challenger as the
+  // room owner (player1) and this socket as player2; the challenger then
+  // starts the game as in any room.
+  socket.on("challenge-respond", async ({ challengeId, accept }) => {
+    const event = "challenge-respond";
+    if (!signedIn()) return;
+    try {
+      const me = socket.data.user;
+      const challenge = challenges.get(challengeId);
+      if (!challenge || challenge.to.userId !== me.id) {
+        refuse(event, "challenge-not-found", "The challenge is no longer open");
+        return;
+      }
+      challenges.delete(challengeId);
+      const { from, settings } = challenge;
+      // the other tabs of this user can drop the prompt
+      io.to(userRoom(me.id)).emit("challenge-closed", { challengeId });
+      if (challenge.expiresAt <= Date.now()) {
+        refuse(event, "challenge-not-found", "The challenge is no longer open");
+        return;
+      }
+      if (!accept) {
+        io.to(userRoom(from.userId)).emit("challenge-declined", {
+          challengeId,
+          by: { userId: me.id, name: me.name },
+        });
+        return;
+      }
+
+      // the tab that sent the challenge, or another tab of the challenger
+      let [challenger] = await io.in(from.socketId).fetchSockets();
+      if (!challenger) {
+        [challenger] = await io.in(userRoom(from.userId)).fetchSockets();
+      }
+      if (!challenger) {
+        refuse(event, "friend-offline", "Your friend is offline");
+        return;
+      }
+      const presence = getPresence();
+      if (
+        presence.get(from.userId)?.status === "in-game" ||
+        presence.get(me.id)?.status === "in-game"
+      ) {
+        refuse(event, "busy", "One of you is already playing");
+        io.to(userRoom(from.userId)).emit("challenge-declined", {
+          challengeId,
+          by: { userId: me.id, name: me.name },
+        });
+        return;
+      }
+
+      const [fromUser, meUser] = await Promise.all([
+        storage.users.findById(from.userId),
+        loadSocketUser(socket),
+      ]);
+      const roomId = `room-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+      gameManager.createRoom(roomId, {
+        id: challenger.id,
+        socketId: challenger.id,
+        userId: from.userId,
+        name: fromUser?.name || from.name,
+        avatar: fromUser?.avatar || null,
+        rated: settings.rated,
+        // only the two friends play; others may spectate
+        private: true,
+        timeControl: settings.timeControl,
+        rules: settings.rules,
+        boardSize: settings.boardSize,
+      });
+      io.in(challenger.id).socketsJoin(roomId);
+      socket.join(roomId);
+      const gameState = gameManager.joinRoom(roomId, {
+        id: socket.id,
+        socketId: socket.id,
+        userId: me.id,
+        name: meUser?.name || me.name,
+        avatar: meUser?.avatar || null,
+      });
+      saveRoom(roomId);
+      const enriched = await attachEloToGameState(gameState);
+      io.to(userRoom(from.userId)).emit("challenge-accepted", {
+        challengeId,
+        roomId,
+      });
+      // the challenger may be connected to another node, whose join has not
+      // arrived yet
+      io.to([roomId, challenger.id]).emit("room-joined", {
+        gameState: enriched,
+      });
+      emitRoomsList();
+    } catch (e) {
+      console.error("Failed to handle challenge-respond", e);
+      refuse(event, "server-error", "Server error");
+    }
+  });
+
+  // Withdraw a challenge before it is answered
+  socket.on("challenge-cancel", ({ challengeId }) => {
+    const challenge = challenges.get(challengeId);
+    if (!challenge || challenge.from.userId !== socket.data.user?.id) return;
+    challenges.delete(challengeId);
+    const both = [challenge.from.userId, challenge.to.userId].map(userRoom);
+    io.to(both).emit("challenge-cancelled", { challengeId });
+  });
+
+  // Tournaments (src/tournaments). Anyone may follow them; creating one,
+  // registering and starting need a signed-in socket.
+  const organizer = () => {
+    if (socket.data.user) return socket.data.user;
+    socket.emit("auth-required", {
+      message: "You must sign in with Google to play in tournaments.",
+    });
+    return null;
+  };
+  const validTournament = (event, tournamentId) => {
+    if (mongoose.isValidObjectId(tournamentId)) return true;
+    refuse(event, "invalid-tournament", "Invalid tournament id");
+    return false;
+  };
+
+  socket.on("request-tournaments", async () => {
+    try {
+      socket.emit("tournaments", { tournaments: await listTournaments() });
+    } catch (e) {
+      console.error("Failed to handle request-tournaments", e);
+      refuse("request-tournaments", "server-error", "Server error");
+    }
+  });
+
+  // One tournament with its rounds and standings
+  socket.on("request-tournament", async ({ tournamentId }) => {
+    if (!validTournament("request-tournament", tournamentId)) return;
+    try {
+      const { tournament, error } = await getTournament(tournamentId);
+      if (error) {
+        refuse("request-tournament", error, TOURNAMENT_ERRORS[error]);
+        return;
+      }
+      socket.emit("tournament", {
+        tournament: publicTournament(tournament, { details: true }),
+      });
+    } catch (e) {
+      console.error("Failed to handle request-tournament", e);
+      refuse("request-tournament", "server-error", "Server error");
+    }
+  });
+
+  socket.on("tournament-create", async (settings) => {
+    const me = organizer();
+    if (!me) return;
+    try {
+      const { tournament, error } = await createTournament(me, settings);
+      if (error) {
+        refuse("tournament-create", error, TOURNAMENT_ERRORS[error]);
+        return;
+      }
+      socket.emit("tournament-created", {
+        tournament: publicTournament(tournament),
+      });
+      emitTournamentUpdated(tournament._id);
+    } catch (e) {
+      console.error("Failed to handle tournament-create", e);
+      refuse("tournament-create", "server-error", "Server error");
+    }
+  });
+
+  socket.on("tournament-join", async ({ tournamentId }) => {
+    const me = organizer();
+    if (!me || !validTournament("tournament-join", tournamentId)) return;
+    try {
+      const user = await loadSocketUser(socket);
+      const { tournament, error } = await joinTournament(tournamentId, {
+        userId: me.id,
+        name: user?.name || me.name,
+        avatar: user?.avatar || null,
+        rating: ratingFields(user).elo,
+      });
+      if (error) {
+        refuse("tournament-join", error, TOURNAMENT_ERRORS[error]);
+        return;
+      }
+      emitTournamentUpdated(tournamentId);
+      // a running arena pairs latecomers at once
+      if (arenaOpen(tournament)) {
+        emitArenaLeaderboard(tournament);
+        await queueArenaPlayer(tournament, me.id);
+      }
+    } catch (e) {
+      console.error("Failed to handle tournament-join", e);
+      refuse("tournament-join", "server-error", "Server error");
+    }
+  });
+
+  socket.on("tournament-leave", async ({ tournamentId }) => {
+    const me = organizer();
+    if (!me || !validTournament("tournament-leave", tournamentId)) return;
+    try {
+      const { error } = await leaveTournament(tournamentId, me.id);
+      if (error) {
+        refuse("tournament-leave", error, TOURNAMENT_ERRORS[error]);
+        return;
+      }
+      emitTournamentUpdated(tournamentId);
+    } catch (e) {
+      console.error("Failed to handle tournament-leave", e);
+      refuse("tournament-leave", "server-error", "Server error");
+    }
+  });
+
+  // The organizer closes registration; the first round is played at once
+  socket.on("tournament-start", async ({ tournamentId }) => {
+    const me = organizer();
+    if (!me || !validTournament("tournament-start", tournamentId)) return;
+    try {
+      const started = await startTournament(tournamentId, me.id);
+      if (started.error) {
+        const { error } = started;
+        refuse("tournament-start", error, TOURNAMENT_ERRORS[error]);
+        return;
+      }
+      emitTournamentUpdated(tournamentId);
+      if (started.round) {
+        await playTournamentRound(started.tournament, started.round);
+      } else {
+        await startArena(started.tournament);
+      }
+    } catch (e) {
+      console.error("Failed to handle tournament-start", e);
+      refuse("tournament-start", "server-error", "Server error");
+    }
+  });
+
+  // Arenas: the live leaderboard is sent to the sockets following it, and a
+  // player may pause to stop being paired until they resume
+  socket.on("arena-watch", async ({ tournamentId }) => {
+    if (!validTournament("arena-watch", tournamentId)) return;
+    try {
+      const { tournament, error } = await getTournament(tournamentId);
+      if (error || tournament.format !== "arena") {
+        refuse("arena-watch", "not-found", TOURNAMENT_ERRORS["not-found"]);
+        return;
+      }
+      socket.join(arenaChannel(tournamentId));
+      socket.emit("arena-leaderboard", arenaLeaderboard(tournament));
+    } catch (e) {
+      console.error("Failed to handle arena-watch", e);
+      refuse("arena-watch", "server-error", "Server error");
+    }
+  });
+
+  socket.on("arena-unwatch", ({ tournamentId }) => {
+    socket.leave(arenaChannel(tournamentId));
+  });
+
+  socket.on("arena-pause", ({ tournamentId }) => {
+    const me = organizer();
+    if (!me || !validTournament("arena-pause", tournamentId)) return;
+    arenaPauses.set(arenaPauseKey(tournamentId, me.id), true);
+    unqueueArena(tournamentId, me.id);
+    io.to(userRoom(me.id)).emit("arena-paused", { tournamentId });
+  });
+
+  socket.on("arena-resume", async ({ tournamentId }) => {
+    const me = organizer();
+    if (!me || !validTournament("arena-resume", tournamentId)) return;
+    try {
+      const { tournament, error } = await getTournament(tournamentId);
+      if (error) {
+        refuse("arena-resume", error, TOURNAMENT_ERRORS[error]);
+        return;
+      }
+      if (!arenaOpen(tournament)) {
+        refuse("arena-resume", "not-running", TOURNAMENT_ERRORS["not-running"]);
+        return;
+      }
+      if (!tournament.players.some((p) => String(p.userId) === me.id)) {
+        refuse("arena-resume", "not-joined", TOURNAMENT_ERRORS["not-joined"]);
+        return;
+      }
+      arenaPauses.delete(arenaPauseKey(tournamentId, me.id));
+      await queueArenaPlayer(tournament, me.id);
+    } catch (e) {
+      console.error("Failed to handle arena-resume", e);
+      refuse("arena-resume", "server-error", "Server error");
+    }
+  });
+
   socket.on("disconnect", () => {
     console.log("❌ Disconnected:", socket.id);
     gameManager.removeWaitingPlayer(socket.id);
+    gameManager.removeWaitingPlayer(socket.id, gameManager.arenaPlayers);
+
+    // challenges sent from this tab can no longer be played
+    for (const challenge of challenges.values()) {
+      if (challenge.from.socketId !== socket.id) continue;
+      challenges.delete(challenge.id);
+      io.to(userRoom(challenge.to.userId)).emit("challenge-cancelled", {
+        challengeId: challenge.id,
+      });
+    }
 
     // remove from online map and broadcast
     try {
@@ -1539,7 +3213,9 @@ io.on("connection", (socket) => {
             graceMs,
           });
 
-          // Mutate the stored game state to mark the player slot as empty (preserve other state)
+          // Mark the seat as disconnected; it still belongs to its user
+          // (seat.userId), who reclaims it from a new socket via
+          // request-room-state or join-room (see reclaimSeat).
           if (gameState.players.player1?.socketId === socket.id) {
             gameState.players.player1.prevSocketId =
               gameState.players.player1.socketId;
@@ -1553,43 +3229,8 @@ io.on("connection", (socket) => {
             gameState.players.player2.disconnectedAt = Date.now();
           }
 
-          // If there's not already a pending removal timer for this room, set one
-          if (!pendingRoomTimeouts.has(roomId)) {
-            const t = setTimeout(() => {
-              try {
-                const current = gameManager.getRoom(roomId);
-                if (!current) {
-                  pendingRoomTimeouts.delete(roomId);
-                  return;
-                }
-
-                const p1Gone =
-                  !current.players.player1 || !current.players.player1.socketId;
-                const p2Gone =
-                  !current.players.player2 || !current.players.player2.socketId;
-
-                // If either player slot is still empty after grace period, remove the room
-                if (p1Gone || p2Gone) {
-                  gameManager.removeRoom(roomId);
-                  try {
-                    io.to(roomId).emit("room-removed", { roomId });
-                  } catch (e) {
-                    /* ignore */
-                  }
-                  try {
-                    emitRoomsList();
-                  } catch (e) {
-                    /* ignore */
-                  }
-                }
-              } catch (e) {
-                console.error("Error during pending room removal", e);
-              } finally {
-                pendingRoomTimeouts.delete(roomId);
-              }
-            }, graceMs);
-            pendingRoomTimeouts.set(roomId, t);
-          }
+          saveRoom(roomId);
+          schedulePendingRoomRemoval(roomId, graceMs);
         } else {
           // If leaving socket was not a player, treat as spectator leaving as before
           gameManager.removeSpectator(roomId, socket.id);
@@ -1611,10 +3252,28 @@ io.on("connection", (socket) => {
   });
 });
 
+// Resume the rooms that were open when the previous process stopped. Their
+// players reconnect through request-room-state (or join-room) and get their
+// seats back; rooms nobody returns to are removed after the usual grace time.
+const restoredRooms = await restoreRooms();
+for (const gs of restoredRooms) {
+  schedulePendingRoomRemoval(
+    gs.roomId,
+    gs.rated ? RANKED_PENDING_REMOVE_MS : RECONNECT_GRACE_MS
+  );
+  scheduleBotMove(gs.roomId);
+}
+if (restoredRooms.length > 0) {
+  console.log(`♻️ Restored ${restoredRooms.length} room(s) from snapshots`);
+}
+
 server.listen(process.env.PORT || 4000, () =>
-  console.log("🚀 Server running on port", process.env.PORT || 4000)
+  console.log("🚀 Server running on port", server.address().port)
 );
 
+// Exposed for the integration tests (test/), which start the server on PORT=0
+export { app, server, io };
+
 // Periodic matchmaking pass: re-evaluate waiting queue so that when allowed
 // windows expand (as players wait), matches are created automatically even
 // if clients don't re-emit `find-match`.
@@ -1622,8 +3281,21 @@ const MATCHER_INTERVAL_MS = parseInt(
   process.env.MATCHER_INTERVAL_MS || "1000",
   10
 );
-setInterval(async () => {
+
+// One node at a time pairs players from the shared queue. The lock expires
+// when its node stops renewing it, and another node takes over.
+function holdsMatcherLock() {
+  return shared
+    .acquireLock("matcher", MATCHER_INTERVAL_MS * 3)
+    .catch((e) => {
+      console.error("Failed to take the matcher lock", e);
+      return false;
+    });
+}
+
+const matcherTimer = setInterval(async () => {
   try {
+    if (!(await holdsMatcherLock())) return;
     const waiting = Array.from(gameManager.waitingPlayers.keys());
     for (const sid of waiting) {
       try {
@@ -1634,7 +3306,9 @@ setInterval(async () => {
         // create room & join sockets (same flow as in the on('find-match') handler)
         let curUser = null;
         try {
-          curUser = await User.findOne({ socketId: sid }).lean();
+          if (match.requester?.userId) {
+            curUser = await storage.users.findById(match.requester.userId);
+          }
         } catch (e) {
           /* ignore */
         }
@@ -1642,24 +3316,22 @@ setInterval(async () => {
         gameManager.createRoom(match.roomId, {
           id: sid,
           socketId: sid,
+          userId: match.requester?.userId || null,
           name: curUser?.name || `Player ${sid.slice(0, 6)}`,
           avatar: curUser?.avatar || null,
           // auto-match rooms are ranked by default
           rated: true,
         });
 
-        const requesterSocket = io.sockets.sockets.get(sid);
-        if (requesterSocket) requesterSocket.join(match.roomId);
-
-        const opponentSocket = io.sockets.sockets.get(match.opponent.socketId);
-        if (opponentSocket) opponentSocket.join(match.roomId);
+        // both players may be connected to other nodes
+        io.in([sid, match.opponent.socketId]).socketsJoin(match.roomId);
 
         // load opponent user to include avatar
         let oppUser = null;
         try {
-          oppUser = await User.findOne({
-            socketId: match.opponent.socketId,
-          }).lean();
+          if (match.opponent.userId) {
+            oppUser = await storage.users.findById(match.opponent.userId);
+          }
         } catch (e) {
           /* ignore */
         }
@@ -1667,12 +3339,17 @@ setInterval(async () => {
         const updatedGameState = gameManager.joinRoom(match.roomId, {
           id: match.opponent.id,
           socketId: match.opponent.socketId,
+          userId: match.opponent.userId || null,
           name: oppUser?.name || match.opponent.name,
           avatar: oppUser?.avatar || null,
         });
+        saveRoom(match.roomId);
 
         const enrichedMatch = await attachEloToGameState(updatedGameState);
-        io.to(match.roomId).emit("room-joined", { gameState: enrichedMatch });
+        io.to([match.roomId, sid, match.opponent.socketId]).emit(
+          "room-joined",
+          { gameState: enrichedMatch }
+        );
         try {
           emitRoomsList();
         } catch (e) {
@@ -1682,132 +3359,107 @@ setInterval(async () => {
         console.error("Periodic matcher error for", sid, e);
       }
     }
+    // arena players wait in their own queue, with the same widening window
+    for (const sid of Array.from(gameManager.arenaPlayers.keys())) {
+      try {
+        const match = gameManager.findMatch(sid, gameManager.arenaPlayers);
+        if (match) await playArenaGame(match);
+      } catch (e) {
+        console.error("Arena matcher error for", sid, e);
+      }
+    }
   } catch (e) {
     console.error("Periodic matcher failed", e);
   }
 }, MATCHER_INTERVAL_MS);
+// the HTTP server keeps the process alive; this timer alone should not
+matcherTimer.unref();
 
-// Glicko2 settings
-const settings = {
-  tau: 0.5, // system constant (0.3-1.2 recommended)
-  rating: 1500, // initial rating
-  rd: 350, // initial RD
-  vol: 0.06, // initial volatility
-};
-
-const glicko = new Glicko2(settings);
-
-export async function updateGlickoForMatch(
-  io,
-  roomId,
-  socketA,
-  socketB,
-  winnerSocket = null,
-  isDraw = false
-) {
-  // load or create users
-  const [uA, uB] = await Promise.all([
-    User.findOneAndUpdate(
-      { socketId: socketA },
-      { $setOnInsert: { name: `Player ${socketA.slice(0, 6)}` } },
-      { upsert: true, new: true }
-    ),
-    User.findOneAndUpdate(
-      { socketId: socketB },
-      { $setOnInsert: { name: `Player ${socketB.slice(0, 6)}` } },
-      { upsert: true, new: true }
-    ),
-  ]);
+// Season rollover (src/ratings/rollover.js), checked on boot and then every
+// minute by one node at a time
+const SEASON_CHECK_MS = 60 * 1000;
+let seasonCheck = null;
 
-  // Create Glicko Players
-  const playerA = glicko.makePlayer(
-    uA.rating ?? settings.rating,
-    uA.rd ?? settings.rd,
-    uA.volatility ?? settings.vol
-  );
-  const playerB = glicko.makePlayer(
-    uB.rating ?? settings.rating,
-    uB.rd ?? settings.rd,
-    uB.volatility ?? settings.vol
-  );
+function checkSeasons() {
+  // a slow rollover is not started a second time
+  seasonCheck ??= (async () => {
+    try {
+      const holder = await shared.acquireLock(
+        "season-rollover",
+        SEASON_CHECK_MS * 3
+      );
+      if (holder) await rollOverSeasons();
+    } catch (e) {
+      console.error("Season rollover failed", e);
+    } finally {
+      seasonCheck = null;
+    }
+  })();
+  return seasonCheck;
+}
 
-  // Create a match list for the rating period (we update immediately for single match)
-  const matches = [];
-  if (isDraw) {
-    matches.push([playerA, playerB, 0.5]);
-    matches.push([playerB, playerA, 0.5]);
-  } else if (winnerSocket === socketA) {
-    matches.push([playerA, playerB, 1]);
-    matches.push([playerB, playerA, 0]);
-  } else if (winnerSocket === socketB) {
-    matches.push([playerA, playerB, 0]);
-    matches.push([playerB, playerA, 1]);
-  } else {
-    return null;
-  }
+checkSeasons();
+const seasonTimer = setInterval(checkSeasons, SEASON_CHECK_MS);
 
-  // Create a Glicko rating group and update
-  const ratingGroup = glicko.makeRatingGroup();
-  ratingGroup.addRating(playerA);
-  ratingGroup.addRating(playerB);
+// Arenas outlive a restart: take up the end timers of those still running
+runningArenas()
+  .then((arenas) => arenas.forEach(scheduleArenaEnd))
+  .catch((e) => console.error("Failed to resume arena timers", e));
+seasonTimer.unref();
 
-  // feed matches for update
-  // note: some libs accept (player, opponent, score)
-  matches.forEach(
-    ([p, o, s]) => ratingGroup.addRating(p) && ratingGroup.addOpponent(o, s)
-  );
+// Upper bound for a graceful shutdown before the process exits anyway
+const SHUTDOWN_TIMEOUT_MS = Number.parseInt(
+  process.env.SHUTDOWN_TIMEOUT_MS || "10000",
+  10
+);
 
-  // compute new ratings
-  ratingGroup.updateRatings();
-
-  // After update, fetch new values:
-  const newA = playerA.getRating();
-  const newRdA = playerA.getRd();
-  const newVolA = playerA.getVol();
-
-  const newB = playerB.getRating();
-  const newRdB = playerB.getRd();
-  const newVolB = playerB.getVol();
-
-  // persist to DB
-  await Promise.all([
-    User.findByIdAndUpdate(uA._id, {
-      rating: newA,
-      rd: newRdA,
-      volatility: newVolA,
-      $inc: { gamesPlayed: 1 },
-    }),
-    User.findByIdAndUpdate(uB._id, {
-      rating: newB,
-      rd: newRdB,
-      volatility: newVolB,
-      $inc: { gamesPlayed: 1 },
-    }),
-  ]);
+// Graceful shutdown (deploys send SIGTERM): stop starting new games, tell
+// every client, write a final snapshot of every room and exit. The clients
+// reconnect to the next process, which restores the rooms on boot.
+async function shutdown(signal) {
+  if (draining) return;
+  draining = true;
+  console.log(`🛑 ${signal} received, draining before shutdown`);
+  setTimeout(() => {
+    console.error("Shutdown timed out, exiting");
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT_MS).unref();
+
+  clearInterval(matcherTimer);
+  clearInterval(seasonTimer);
+  // queue entries, online users and challenges of this node's sockets; the
+  // other nodes keep theirs
+  for (const socketId of gameManager.waitingPlayers.ownKeys()) {
+    io.to(socketId).emit("matchmaking-cancelled");
+    gameManager.waitingPlayers.delete(socketId);
+  }
+  for (const socketId of gameManager.arenaPlayers.ownKeys()) {
+    gameManager.arenaPlayers.delete(socketId);
+  }
+  for (const timer of arenaTimers.values()) clearTimeout(timer);
+  for (const socketId of onlineUsers.ownKeys()) onlineUsers.delete(socketId);
+  for (const id of challenges.ownKeys()) challenges.delete(id);
+  // the rooms are kept: their players resume them after reconnecting
+  for (const roomId of gameManager.rooms.keys()) {
+    io.to(roomId).emit("server-restarting", { roomId });
+  }
 
-  // Optional: save history (EloHistory model can be reused with fields 'before'/'after')
-  // Emit to room
-  io.to(roomId).emit("rating-updated", {
-    players: [
-      {
-        socketId: socketA,
-        before: uA.rating,
-        after: newA,
-        rdBefore: uA.rd,
-        rdAfter: newRdA,
-      },
-      {
-        socketId: socketB,
-        before: uB.rating,
-        after: newB,
-        rdBefore: uB.rd,
-        rdAfter: newRdB,
-      },
-    ],
-  });
+  try {
+    await flushRooms();
+  } catch (e) {
+    console.error("Failed to flush room snapshots", e);
+  }
 
-  return {
-    socketA: { before: uA.rating, after: newA },
-    socketB: { before: uB.rating, after: newB },
-  };
+  // Close the connections without a socket.io disconnect packet, so clients
+  // treat it as a dropped connection and reconnect on their own
+  io.engine.close();
+  server.close();
+  if (storage.kind === "mongo") {
+    await mongoose.disconnect().catch(() => {});
+  }
+  await shared.close().catch(() => {});
+  process.exit(0);
 }
+
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+process.on("SIGINT", () => shutdown("SIGINT"));
@@ -0,0 +1,54 @@
+import crypto from "crypto";
+
+// Signed, expiring session tokens issued by /auth/google and presented by
+// clients in the socket handshake (`auth: { token }`).
+//
+// Format: base64url(JSON payload) + "." + base64url(HMAC-SHA256(payload)).
+// The payload carries the user id (`sub`) and expiry (`exp`, ms since epoch).
+
+const SESSION_TTL_MS = Number.parseInt(
+  process.env.SESSION_TTL_MS || String(7 * 24 * 60 * 60 * 1000),
+  10
+);
+
+let secret = process.env.SESSION_SECRET;
+if (!secret) {
+  // Without a configured secret tokens only survive until the next restart
+  secret = crypto.randomBytes(32).toString("hex");
+  console.warn(
+    "⚠️ SESSION_SECRET is not set; using a random secret (sessions reset on restart)"
+  );
+}
+
+const sign = (data) =>
+  crypto.createHmac("sha256", secret).update(data).digest("base64url");
+
+export function issueSessionToken(userId, now = Date.now()) {
+  const payload = { sub: String(userId), iat: now, exp: now + SESSION_TTL_MS };
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return { token: `${body}.${sign(body)}`, expiresAt: payload.exp };
+}
+
+// Returns the token payload ({ sub, iat, exp }) or null if the token is
+// malformed, forged or expired.
+export function verifySessionToken(token, now = Date.now()) {
+  if (typeof token !== "string") return null;
+  const [body, sig] = token.split(".");
+  if (!body || !sig) return null;
+  const expected = Buffer.from(sign(body));
+  const given = Buffer.from(sig);
+  if (
+    expected.length !== given.length ||
+    !crypto.timingSafeEqual(expected, given)
+  ) {
+    return null;
+  }
+  try {
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString());
+    if (!payload?.sub || typeof payload.exp !== "number") return null;
+    if (payload.exp <= now) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
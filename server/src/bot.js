@@ -0,0 +1,284 @@
+import { checkWinner, getMoveError } from "./gameLogic.js";
+
+// Built-in practice opponent.
+//
+// Moves are scored over every 5-cell window through a cell: a window that
+// contains no opponent stone, locked cell or board edge can still become five
+// in a row, and the more own stones it already holds the more it is worth.
+// Every move the bot returns passes getMoveError, so it obeys the same rules
+// as a human player (locked cells, first-move ring, Open-4 distance), and wins
+// are checked with the room's rule set.
+//
+// Levels:
+// - easy:   threat scoring, weak defence, picks randomly among the best few
+// - medium: threat scoring with full defence, always the best move
+// - hard:   depth-limited alpha-beta search over the best-scored candidates
+
+export const BOT_LEVELS = ["easy", "medium", "hard"];
+
+// Value of an open window by the number of own stones it holds
+const WINDOW_SCORE = [0, 1, 12, 150, 2500, 100000];
+const WIN_SCORE = 10_000_000;
+
+const DIRECTIONS = [
+  [0, 1],
+  [1, 0],
+  [1, 1],
+  [1, -1],
+];
+
+const SETTINGS = {
+  easy: { defence: 0.6, pickFrom: 4, depth: 0, width: 0 },
+  medium: { defence: 1.1, pickFrom: 1, depth: 0, width: 0 },
+  hard: { defence: 1.1, pickFrom: 1, depth: 4, width: 8 },
+};
+
+const other = (symbol) => (symbol === "X" ? "O" : "X");
+
+// Copy of the parts of a room's game state the rules and search need. The
+// search mutates it with play/undo instead of cloning at every node.
+function makeSearchState(gameState) {
+  const size = gameState.board.length;
+  const blocked = Array.from({ length: size }, () => Array(size).fill(false));
+  for (const [r, c] of gameState.lockedCells || []) {
+    if (blocked[r]) blocked[r][c] = true;
+  }
+  return {
+    board: gameState.board.map((row) => row.slice()),
+    blocked,
+    lockedCells: gameState.lockedCells || [],
+    validFirstMoveCells: gameState.validFirstMoveCells || [],
+    moveCount: gameState.moveCount || 0,
+    firstStarterSymbol: gameState.firstStarterSymbol || null,
+    firstStarterPos: gameState.firstStarterPos || null,
+    rules: gameState.rules,
+    history: [],
+  };
+}
+
+function play(state, row, col, symbol) {
+  state.history.push([state.firstStarterSymbol, state.firstStarterPos]);
+  if (state.moveCount === 0) {
+    state.firstStarterSymbol = symbol;
+    state.firstStarterPos = [row, col];
+  }
+  state.board[row][col] = symbol;
+  state.moveCount++;
+}
+
+function undo(state, row, col) {
+  const [symbol, pos] = state.history.pop();
+  state.firstStarterSymbol = symbol;
+  state.firstStarterPos = pos;
+  state.board[row][col] = null;
+  state.moveCount--;
+}
+
+// Sum of window values through (row, col) for `symbol` if it played there
+function cellScore(state, row, col, symbol) {
+  const { board, blocked } = state;
+  const size = board.length;
+  let total = 0;
+  for (const [dr, dc] of DIRECTIONS) {
+    for (let start = -4; start <= 0; start++) {
+      let own = 0;
+      let open = true;
+      for (let i = start; i < start + 5; i++) {
+        const r = row + dr * i;
+        const c = col + dc * i;
+        if (r < 0 || r >= size || c < 0 || c >= size || blocked[r][c]) {
+          open = false;
+          break;
+        }
+        if (i === 0) continue;
+        const cell = board[r][c];
+        if (cell === symbol) own++;
+        else if (cell !== null) {
+          open = false;
+          break;
+        }
+      }
+      if (open) total += WINDOW_SCORE[own + 1];
+    }
+  }
+  return total;
+}
+
+// Static evaluation from the point of view of `symbol`
+function evaluate(state, symbol) {
+  const { board, blocked } = state;
+  const size = board.length;
+  let mine = 0;
+  let theirs = 0;
+  for (const [dr, dc] of DIRECTIONS) {
+    for (let r = 0; r < size; r++) {
+      for (let c = 0; c < size; c++) {
+        const endR = r + dr * 4;
+        const endC = c + dc * 4;
+        if (endR < 0 || endR >= size || endC < 0 || endC >= size) continue;
+        let own = 0;
+        let opp = 0;
+        let open = true;
+        for (let i = 0; i < 5; i++) {
+          const rr = r + dr * i;
+          const cc = c + dc * i;
+          if (blocked[rr][cc]) {
+            open = false;
+            break;
+          }
+          const cell = board[rr][cc];
+          if (cell === symbol) own++;
+          else if (cell !== null) opp++;
+        }
+        if (!open || (own > 0 && opp > 0)) continue;
+        mine += WINDOW_SCORE[own];
+        theirs += WINDOW_SCORE[opp];
+      }
+    }
+  }
+  return mine - theirs;
+}
+
+// Legal moves for `symbol`, best first by threat score
+function candidateMoves(state, symbol, defence) {
+  const { board, blocked } = state;
+  const size = board.length;
+  const near = [];
+  let hasStones = false;
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      if (board[r][c] === null) continue;
+      hasStones = true;
+      for (let dr = -2; dr <= 2; dr++) {
+        for (let dc = -2; dc <= 2; dc++) {
+          const rr = r + dr;
+          const cc = c + dc;
+          if (rr < 0 || rr >= size || cc < 0 || cc >= size) continue;
+          if (board[rr][cc] !== null || blocked[rr][cc]) continue;
+          near.push([rr, cc]);
+        }
+      }
+    }
+  }
+
+  let cells;
+  if (!hasStones) {
+    // Opening move: the ring around the locked cells for X, otherwise the
+    // middle of the board
+    const center = Math.floor(size / 2);
+    cells =
+      symbol === "X" && state.validFirstMoveCells.length
+        ? state.validFirstMoveCells.slice()
+        : [[center, center]];
+  } else {
+    const seen = new Set();
+    cells = near.filter(([r, c]) => {
+      const key = r * size + c;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  // The opening rules only constrain the first few moves of a round
+  if (state.moveCount <= 2) {
+    cells = cells.filter(([r, c]) => !getMoveError(state, symbol, r, c));
+  }
+
+  const opponent = other(symbol);
+  return cells
+    .map(([r, c]) => ({
+      row: r,
+      col: c,
+      score:
+        cellScore(state, r, c, symbol) +
+        cellScore(state, r, c, opponent) * defence,
+    }))
+    .sort((a, b) => b.score - a.score);
+}
+
+// Any legal empty cell; used when no candidate near the stones is legal
+function firstLegalMove(state, symbol) {
+  const size = state.board.length;
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      if (!getMoveError(state, symbol, r, c)) return { row: r, col: c };
+    }
+  }
+  return null;
+}
+
+function negamax(state, symbol, depth, alpha, beta, width, defence) {
+  if (depth === 0) return evaluate(state, symbol);
+  const moves = candidateMoves(state, symbol, defence).slice(0, width);
+  if (moves.length === 0) return 0;
+  let best = -Infinity;
+  for (const { row, col } of moves) {
+    play(state, row, col, symbol);
+    const score = checkWinner(state.board, row, col, symbol, state.rules)
+      ? WIN_SCORE + depth // prefer the quickest win
+      : -negamax(
+          state,
+          other(symbol),
+          depth - 1,
+          -beta,
+          -alpha,
+          width,
+          defence
+        );
+    undo(state, row, col);
+    if (score > best) best = score;
+    if (best > alpha) alpha = best;
+    if (alpha >= beta) break;
+  }
+  return best;
+}
+
+/**
+ * Pick the bot's next move in a room.
+ * Returns [row, col] or null when there is no legal move.
+ */
+export function chooseBotMove(gameState, symbol, level = "medium") {
+  const settings = SETTINGS[level] || SETTINGS.medium;
+  const state = makeSearchState(gameState);
+  const moves = candidateMoves(state, symbol, settings.defence);
+  if (moves.length === 0) {
+    const fallback = firstLegalMove(state, symbol);
+    return fallback ? [fallback.row, fallback.col] : null;
+  }
+
+  // Always finish the game when possible
+  for (const { row, col } of moves) {
+    play(state, row, col, symbol);
+    const wins = checkWinner(state.board, row, col, symbol, state.rules);
+    undo(state, row, col);
+    if (wins) return [row, col];
+  }
+
+  if (settings.depth > 0) {
+    let best = moves[0];
+    let bestScore = -Infinity;
+    for (const move of moves.slice(0, settings.width)) {
+      play(state, move.row, move.col, symbol);
+      const score = -negamax(
+        state,
+        other(symbol),
+        settings.depth - 1,
+        -Infinity,
+        -bestScore,
+        settings.width,
+        settings.defence
+      );
+      undo(state, move.row, move.col);
+      if (score > bestScore) {
+        bestScore = score;
+        best = move;
+      }
+    }
+    return [best.row, best.col];
+  }
+
+  const pool = moves.slice(0, settings.pickFrom);
+  const pick = pool[Math.floor(Math.random() * pool.length)];
+  return [pick.row, pick.col];
+}
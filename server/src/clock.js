@@ -0,0 +1,127 @@
+// Server-side game clock helpers.
+//
+// A time control has three parts (all in milliseconds):
+// - baseMs:      the total time bank each player starts the round with
+// - incrementMs: Fischer increment added to the mover's bank after every move
+// - delayMs:     fixed per-move delay; the bank only starts draining once the
+//                delay for the current turn has been used up
+//
+// The default (no bank, no increment, 45s delay) reproduces the original
+// "45 seconds per turn" rule: every turn gets a fresh 45s and the player flags
+// when it runs out.
+
+const readMs = (name, fallback) => {
+  const v = Number.parseInt(process.env[name] || "", 10);
+  return Number.isFinite(v) && v >= 0 ? v : fallback;
+};
+
+export const DEFAULT_TIME_CONTROL = {
+  baseMs: readMs("CLOCK_BASE_MS", 0),
+  incrementMs: readMs("CLOCK_INCREMENT_MS", 0),
+  delayMs: readMs("CLOCK_DELAY_MS", 45 * 1000),
+};
+
+// Upper bound for any single component (2 hours) so a client-supplied time
+// control cannot keep a room alive forever.
+const MAX_COMPONENT_MS = 2 * 60 * 60 * 1000;
+
+export function normalizeTimeControl(tc) {
+  const pick = (v, fallback) => {
+    const n = Number(v);
+    if (!Number.isFinite(n) || n < 0) return fallback;
+    return Math.min(Math.floor(n), MAX_COMPONENT_MS);
+  };
+  const out = {
+    baseMs: pick(tc?.baseMs, DEFAULT_TIME_CONTROL.baseMs),
+    incrementMs: pick(tc?.incrementMs, DEFAULT_TIME_CONTROL.incrementMs),
+    delayMs: pick(tc?.delayMs, DEFAULT_TIME_CONTROL.delayMs),
+  };
+  // A clock with neither a bank nor a delay would flag immediately
+  if (out.baseMs === 0 && out.delayMs === 0) {
+    return { ...DEFAULT_TIME_CONTROL };
+  }
+  return out;
+}
+
+export function createClock(timeControl) {
+  const tc = normalizeTimeControl(timeControl);
+  return {
+    timeControl: tc,
+    remainingMs: { X: tc.baseMs, O: tc.baseMs },
+    active: null, // symbol whose clock is running, null when stopped
+    turnStartedAt: null,
+  };
+}
+
+export function startTurn(clock, symbol, now = Date.now()) {
+  clock.active = symbol;
+  clock.turnStartedAt = now;
+  return clock;
+}
+
+export function stopClock(clock, now = Date.now()) {
+  if (clock.active) {
+    const { bankLeft } = measure(clock, now);
+    clock.remainingMs[clock.active] = Math.max(0, bankLeft);
+  }
+  clock.active = null;
+  clock.turnStartedAt = null;
+  return clock;
+}
+
+// How much delay and bank the active player has left at `now`
+function measure(clock, now) {
+  const { delayMs } = clock.timeControl;
+  const elapsed = Math.max(0, now - (clock.turnStartedAt ?? now));
+  const delayLeft = Math.max(0, delayMs - elapsed);
+  const bankUsed = Math.max(0, elapsed - delayMs);
+  const bankLeft = (clock.remainingMs[clock.active] ?? 0) - bankUsed;
+  return { delayLeft, bankLeft };
+}
+
+// Charge the active player for the move they just made. Returns
+// { flagged: true } when they ran out before moving.
+export function chargeMove(clock, now = Date.now()) {
+  if (!clock.active) return { flagged: false };
+  const { delayLeft, bankLeft } = measure(clock, now);
+  if (delayLeft + bankLeft <= 0) {
+    // keep the bank at zero so the snapshot shows the flag
+    clock.remainingMs[clock.active] = 0;
+    return { flagged: true };
+  }
+  clock.remainingMs[clock.active] =
+    Math.max(0, bankLeft) + clock.timeControl.incrementMs;
+  return { flagged: false };
+}
+
+// Milliseconds until the active player flags (Infinity when stopped)
+export function msUntilFlag(clock, now = Date.now()) {
+  if (!clock.active) return Infinity;
+  const { delayLeft, bankLeft } = measure(clock, now);
+  return Math.max(0, delayLeft + bankLeft);
+}
+
+export function hasFlagged(clock, now = Date.now()) {
+  return clock.active !== null && msUntilFlag(clock, now) <= 0;
+}
+
+// Serializable view of the clock sent to clients. Remaining time for the
+// active side is computed as of `serverTime` so clients only need to count
+// down from the moment they receive it.
+export function getClockSnapshot(clock, now = Date.now()) {
+  if (!clock) return null;
+  const remainingMs = { ...clock.remainingMs };
+  let delayLeftMs = 0;
+  if (clock.active) {
+    const { delayLeft, bankLeft } = measure(clock, now);
+    remainingMs[clock.active] = Math.max(0, bankLeft);
+    delayLeftMs = delayLeft;
+  }
+  return {
+    timeControl: { ...clock.timeControl },
+    remainingMs,
+    active: clock.active,
+    delayLeftMs,
+    serverTime: now,
+  };
+}
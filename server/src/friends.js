@@ -0,0 +1,95 @@
+import * as storage from "./storage/index.js";
+import { ratingFields } from "./ratings/index.js";
+
+// Friendships between signed-in users. A user sends a request, the other
+// accepts it or declines it (which deletes it); either friend can remove the
+// friendship later. When two users ask each other, the second request
+// accepts the first.
+//
+// Every function resolves to { friendship } or { error } where error is a
+// code the socket handlers in index.js pass on in "request-error". Presence
+// (online, in a game) depends on live sockets and is added by index.js.
+
+const otherOf = (f, userId) =>
+  String(f.requester) === String(userId)
+    ? String(f.recipient)
+    : String(f.requester);
+
+/** Ask `toId` to be friends with `fromId`. */
+export async function requestFriend(fromId, toId) {
+  if (String(fromId) === String(toId)) return { error: "self" };
+  if (!(await storage.users.findById(toId))) return { error: "not-found" };
+  const existing = await storage.friendships.between(fromId, toId);
+  if (!existing) {
+    const friendship = await storage.friendships.create({
+      requester: fromId,
+      recipient: toId,
+    });
+    return { friendship };
+  }
+  if (existing.status === "accepted") return { error: "already-friends" };
+  if (String(existing.requester) === String(fromId)) {
+    return { error: "already-requested" };
+  }
+  return { friendship: await storage.friendships.accept(existing._id) };
+}
+
+/** Accept the pending request `requesterId` sent to `userId`. */
+export async function acceptFriend(userId, requesterId) {
+  const f = await storage.friendships.between(userId, requesterId);
+  if (!f || f.status !== "pending" || String(f.recipient) !== String(userId)) {
+    return { error: "no-request" };
+  }
+  return { friendship: await storage.friendships.accept(f._id) };
+}
+
+/**
+ * Remove whatever links the two users: a friendship, a request received
+ * (declining it) or a request sent (withdrawing it).
+ */
+export async function removeFriend(userId, otherId) {
+  const f = await storage.friendships.between(userId, otherId);
+  if (!f) return { error: "not-found" };
+  await storage.friendships.remove(f._id);
+  return { friendship: f };
+}
+
+export async function areFriends(a, b) {
+  const f = await storage.friendships.between(a, b);
+  return f?.status === "accepted";
+}
+
+/**
+ * The friends and pending requests of a user:
+ * { friends, incoming, outgoing }, each a list of
+ * { userId, name, avatar, elo, rd, provisional, since }. `since` is when the
+ * friendship was accepted, or when the request was sent.
+ */
+export async function listFriends(userId) {
+  const rows = await storage.friendships.findByUser(userId);
+  const users = await storage.users.findByIds(
+    rows.map((f) => otherOf(f, userId))
+  );
+  const byId = new Map(users.map((u) => [String(u._id), u]));
+  const result = { friends: [], incoming: [], outgoing: [] };
+  for (const f of rows) {
+    const u = byId.get(otherOf(f, userId));
+    // the other account was deleted
+    if (!u) continue;
+    const entry = {
+      userId: String(u._id),
+      name: u.name || `Player ${String(u._id).slice(0, 6)}`,
+      avatar: u.avatar || null,
+      ...ratingFields(u),
+      since: f.acceptedAt || f.createdAt,
+    };
+    const list =
+      f.status === "accepted"
+        ? "friends"
+        : String(f.recipient) === String(userId)
+        ? "incoming"
+        : "outgoing";
+    result[list].push(entry);
+  }
+  return result;
+}
@@ -1,25 +1,42 @@
 // Game logic for Caro/Tic-tac-toe
-export const BOARD_SIZE = 17; // Use a 17x17 board (match client GameBoard)
+import { DEFAULT_RULES } from "./rules.js";
 
-export function createEmptyBoard() {
-  return Array(BOARD_SIZE)
+export const BOARD_SIZE = 17; // default board size for new rooms
+
+// Sizes a room creator can pick. The largest one is meant to feel unbounded
+// and relies on the client's pan/zoom.
+export const BOARD_SIZES = [15, 17, 19, 31];
+
+// Board size requested by a client; anything not in BOARD_SIZES falls back to
+// the default.
+export function normalizeBoardSize(size) {
+  const n = Number(size);
+  return BOARD_SIZES.includes(n) ? n : BOARD_SIZE;
+}
+
+export function createEmptyBoard(size = BOARD_SIZE) {
+  return Array(size)
     .fill(null)
-    .map(() => Array(BOARD_SIZE).fill(null));
+    .map(() => Array(size).fill(null));
 }
 
-// Generate 3 locked cells forming a triangle in the center of the board
-export function generateLockedCells() {
-  // Randomize three locked cells each call but bias toward the center.
+// Generate `count` locked cells (3 by default, forming a triangle) in the
+// center of a `size` x `size` board
+export function generateLockedCells(count = 3, size = BOARD_SIZE) {
+  if (count <= 0) return [];
+  // Randomize the locked cells each call but bias toward the center.
   // Rules:
   // - Choose from a central box around the board center (keeps locked cells "ở giữa").
   // - Ensure the three cells are distinct and spaced apart (manhattan distance >= minDistance).
   // - Retry a number of times before falling back.
-  const center = Math.floor(BOARD_SIZE / 2);
-  const centerRadius = 5; // widen central box so spacing=5 is more achievable
+  const center = Math.floor(size / 2);
+  // widen central box so spacing=5 is more achievable; the box keeps the same
+  // share of the board as the original radius 5 on 17x17 (never below 4)
+  const centerRadius = Math.max(4, Math.round((size * 5) / 17));
   const minRow = Math.max(0, center - centerRadius);
-  const maxRow = Math.min(BOARD_SIZE - 1, center + centerRadius);
+  const maxRow = Math.min(size - 1, center + centerRadius);
   const minCol = Math.max(0, center - centerRadius);
-  const maxCol = Math.min(BOARD_SIZE - 1, center + centerRadius);
+  const maxCol = Math.min(size - 1, center + centerRadius);
 
   const manhattan = (a, b) => Math.abs(a[0] - b[0]) + Math.abs(a[1] - b[1]);
   const minDistance = 5; // require the locked cells to be at least 5 cells apart (Manhattan)
@@ -44,7 +61,7 @@ export function generateLockedCells() {
   const maxAttempts = 5000;
   let attempts = 0;
 
-  // Try to pick 3 cells such that each pair has Manhattan distance >= minDistance.
+  // Try to pick `count` cells such that each pair has Manhattan distance >= minDistance.
   while (attempts < maxAttempts) {
     attempts++;
     shuffle(candidatesArr);
@@ -56,8 +73,9 @@ export function generateLockedCells() {
       }
       const tooClose = chosen.some((c) => manhattan(c, pos) < minDistance);
       if (!tooClose) chosen.push(pos);
-      if (chosen.length === 3) break;
+      if (chosen.length === count) break;
     }
+    if (chosen.length === count && count !== 3) return chosen;
     if (chosen.length === 3) {
       // verify the chosen triple forms a reasonably balanced triangle: all
       // pairwise Manhattan distances should be between minDistance and maxGap
@@ -85,16 +103,19 @@ export function generateLockedCells() {
     [0, -5], // left of center
     [5, 0], // below center
     [0, 5], // right of center
+    [-5, 0], // above center
+    [0, 0], // center
   ];
   return offsets
+    .slice(0, count)
     .map(([dr, dc]) => [center + dr, center + dc])
     .filter(
-      ([rr, cc]) => rr >= 0 && rr < BOARD_SIZE && cc >= 0 && cc < BOARD_SIZE
+      ([rr, cc]) => rr >= 0 && rr < size && cc >= 0 && cc < size
     );
 }
 
 // Get cells around locked cells (valid first move positions)
-export function getValidFirstMoveCells(lockedCells) {
+export function getValidFirstMoveCells(lockedCells, size = BOARD_SIZE) {
   const validCells = new Set();
   const directions = [
     [-1, -1],
@@ -113,9 +134,9 @@ export function getValidFirstMoveCells(lockedCells) {
       const newCol = col + dc;
       if (
         newRow >= 0 &&
-        newRow < BOARD_SIZE &&
+        newRow < size &&
         newCol >= 0 &&
-        newCol < BOARD_SIZE
+        newCol < size
       ) {
         // Check if this cell is not a locked cell
         const isLocked = lockedCells.some(
@@ -139,56 +160,129 @@ export function isLockedCell(lockedCells, row, col) {
   return lockedCells.some(([lr, lc]) => lr === row && lc === col);
 }
 
-export function checkWinner(board, row, col, player) {
-  // Returns an array of winning cell coordinates if a win is found, otherwise null
+// Check a move against the placement rules of the current round. Returns an
+// error message (shown to the player) or null when the move is legal.
+// `gameState` needs board, lockedCells, validFirstMoveCells, moveCount,
+// firstStarterSymbol, firstStarterPos and rules (see rules.js).
+export function getMoveError(gameState, symbol, row, col) {
+  // Check the cell is on this room's board
+  const size = gameState.board.length;
+  if (
+    !Number.isInteger(row) ||
+    !Number.isInteger(col) ||
+    row < 0 ||
+    row >= size ||
+    col < 0 ||
+    col >= size
+  ) {
+    return "Invalid cell";
+  }
+
+  // Check if cell is locked
+  if (isLockedCell(gameState.lockedCells, row, col)) {
+    return "Không thể đi vào ô cấm!";
+  }
+
+  // Check if cell is empty
+  if (gameState.board[row][col] !== null) {
+    return "Cell already occupied";
+  }
+
+  const rules = gameState.rules || DEFAULT_RULES;
+
+  // Check first move restriction (must be around locked cells). Rooms without
+  // locked cells have no ring, so the first move is free.
+  if (
+    gameState.moveCount === 0 &&
+    symbol === "X" &&
+    gameState.validFirstMoveCells?.length > 0
+  ) {
+    const isValidFirstMove = gameState.validFirstMoveCells.some(
+      ([vr, vc]) => vr === row && vc === col
+    );
+    if (!isValidFirstMove) {
+      return "Lượt đầu tiên phải đi vào các ô xung quanh ô cấm!";
+    }
+  }
+
+  // Open-4 rule: the second move by the player who started the round must be
+  // at least rules.openDistance cells away (Manhattan, 4 by default) from
+  // their first move. We detect the
+  // "second move" by counting how many pieces of the player's symbol are
+  // currently on the board prior to this move; if exactly one exists, the
+  // current move would be their second.
+  // Note: we support the rule for whichever symbol started the round (X or O).
+  if (
+    rules.openRule &&
+    gameState.firstStarterSymbol === symbol &&
+    gameState.firstStarterPos
+  ) {
+    // count existing pieces of this player's symbol on the board
+    let symbolCount = 0;
+    for (let r = 0; r < gameState.board.length; r++) {
+      for (let c = 0; c < gameState.board[r].length; c++) {
+        if (gameState.board[r][c] === symbol) symbolCount++;
+      }
+    }
+
+    if (symbolCount === 1) {
+      const firstPos = gameState.firstStarterPos;
+      const manhattan =
+        Math.abs(firstPos[0] - row) + Math.abs(firstPos[1] - col);
+      if (manhattan < rules.openDistance) {
+        return `Open-${rules.openDistance}: Nước đi thứ 2 cần cách nước đi đầu tiên ít nhất ${rules.openDistance} ô cờ.`;
+      }
+    }
+  }
+
+  return null;
+}
+
+// Returns an array of winning cell coordinates if placing `player` at
+// (row, col) wins under `rules` (see rules.js), otherwise null:
+// - the run must be at least five long, and exactly five when overlines
+//   are not allowed
+// - with blockedEnds, a run whose both ends are opponent stones does not win
+export function checkWinner(board, row, col, player, rules = DEFAULT_RULES) {
   const directions = [
     [0, 1], // horizontal
     [1, 0], // vertical
     [1, 1], // diagonal \
     [1, -1], // diagonal /
   ];
+  const size = board.length;
+  const inside = (r, c) => r >= 0 && r < size && c >= 0 && c < size;
 
   for (const [dx, dy] of directions) {
     const cells = [[row, col]]; // include current cell
 
     // Check in positive direction
-    for (let i = 1; i < 5; i++) {
-      const newRow = row + dx * i;
-      const newCol = col + dy * i;
-      if (
-        newRow >= 0 &&
-        newRow < BOARD_SIZE &&
-        newCol >= 0 &&
-        newCol < BOARD_SIZE &&
-        board[newRow][newCol] === player
-      ) {
-        cells.push([newRow, newCol]);
-      } else {
-        break;
-      }
+    let i = 1;
+    while (inside(row + dx * i, col + dy * i)) {
+      if (board[row + dx * i][col + dy * i] !== player) break;
+      cells.push([row + dx * i, col + dy * i]);
+      i++;
     }
+    const after = [row + dx * i, col + dy * i];
 
     // Check in negative direction
-    for (let i = 1; i < 5; i++) {
-      const newRow = row - dx * i;
-      const newCol = col - dy * i;
-      if (
-        newRow >= 0 &&
-        newRow < BOARD_SIZE &&
-        newCol >= 0 &&
-        newCol < BOARD_SIZE &&
-        board[newRow][newCol] === player
-      ) {
-        // unshift to keep order from negative -> positive
-        cells.unshift([newRow, newCol]);
-      } else {
-        break;
-      }
+    let j = 1;
+    while (inside(row - dx * j, col - dy * j)) {
+      if (board[row - dx * j][col - dy * j] !== player) break;
+      // unshift to keep order from negative -> positive
+      cells.unshift([row - dx * j, col - dy * j]);
+      j++;
     }
+    const before = [row - dx * j, col - dy * j];
 
-    if (cells.length >= 5) {
-      return cells;
+    if (cells.length < 5) continue;
+    if (!rules.overline && cells.length > 5) continue;
+    if (rules.blockedEnds) {
+      const isOpponent = ([r, c]) =>
+        inside(r, c) && board[r][c] !== null && board[r][c] !== player;
+      if (isOpponent(before) && isOpponent(after)) continue;
     }
+    return cells;
   }
 
   return null;
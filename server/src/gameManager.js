@@ -1,29 +1,100 @@
+import crypto from "crypto";
 import {
   createEmptyBoard,
   checkWinner,
   isBoardFull,
-  BOARD_SIZE,
+  normalizeBoardSize,
   generateLockedCells,
   getValidFirstMoveCells,
-  isLockedCell,
+  getMoveError,
 } from "./gameLogic.js";
+import {
+  normalizeTimeControl,
+  createClock,
+  startTurn,
+  stopClock as haltClock,
+  chargeMove,
+  hasFlagged,
+  msUntilFlag,
+  getClockSnapshot,
+} from "./clock.js";
+import { normalizeRules } from "./rules.js";
+import { normalizeSpectatorDelay } from "./spectators.js";
+import { normalizeTakebacks, noTakebacksUsed } from "./takebacks.js";
+import {
+  normalizeBestOf,
+  newMatchScore,
+  otherSeat,
+  seatKeyOf,
+  tallyRound,
+} from "./matches.js";
+import * as shared from "./shared/index.js";
+import { SharedMap } from "./shared/sharedMap.js";
+
+// The seat of a room held by this socket, or null
+const seatOf = (gameState, socketId) =>
+  [gameState.players.player1, gameState.players.player2].find(
+    (p) => p && p.socketId === socketId
+  ) || null;
+
+// The symbol player2 takes: the one player1 does not hold
+const freeSymbol = (gameState) =>
+  gameState.players.player1?.symbol === "O" ? "X" : "O";
 
 class GameManager {
   constructor() {
-    this.rooms = new Map(); // roomId -> game state
-    // waitingPlayers: socketId -> { id, socketId, name, avatar?, elo?, enqueuedAt }
-    this.waitingPlayers = new Map();
+    // Both maps are shared by every server node (see src/shared). Code that
+    // changes a room in place calls shareRoom afterwards.
+    this.rooms = new SharedMap(shared, "rooms"); // roomId -> game state
+    // waitingPlayers: socketId -> { id, socketId, userId, name, avatar?, elo?, enqueuedAt }
+    this.waitingPlayers = new SharedMap(shared, "waiting-players");
+    // arenaPlayers: the same entries plus arenaId, for the players of running
+    // arena tournaments waiting for their next game (see src/tournaments)
+    this.arenaPlayers = new SharedMap(shared, "arena-players");
+    // flagTimers: roomId -> Timeout that fires when the side to move runs out of time
+    this.flagTimers = new Map();
+    // Called as (roomId, gameState) when a player flags. Set by the socket layer.
+    this.flagListener = null;
+  }
+
+  // Load the rooms and queue of the other nodes and follow their changes.
+  // Flag timers run on the node that last changed a room, so a change from
+  // another node stops ours.
+  async attach() {
+    await Promise.all([
+      this.rooms.attach({
+        onRemoteChange: (roomId) => this.clearFlagTimer(roomId),
+      }),
+      this.waitingPlayers.attach({ dropStale: true }),
+      this.arenaPlayers.attach({ dropStale: true }),
+    ]);
+  }
+
+  // Share a room changed in place with the other nodes; this node takes over
+  // its flag timer
+  shareRoom(roomId) {
+    if (!this.rooms.has(roomId)) return;
+    this.rooms.publish(roomId);
+    this.scheduleFlag(roomId);
   }
 
   createRoom(roomId, player1) {
-    const lockedCells = generateLockedCells();
+    const rules = normalizeRules(player1?.rules);
+    const boardSize = normalizeBoardSize(player1?.boardSize);
+    const lockedCells = generateLockedCells(rules.lockedCells, boardSize);
+    const timeControl = normalizeTimeControl(player1?.timeControl);
     const gameState = {
       roomId,
-      board: createEmptyBoard(),
+      board: createEmptyBoard(boardSize),
+      // board is boardSize x boardSize (see BOARD_SIZES in src/gameLogic.js)
+      boardSize,
       players: {
+        // Seats belong to a user (userId, null for guests). socketId is only
+        // the current connection used for routing and changes on reconnect.
         player1: {
           id: player1.id,
           socketId: player1.socketId,
+          userId: player1.userId || null,
           symbol: "X",
           name: player1.name,
           avatar: player1.avatar,
@@ -36,14 +107,19 @@ class GameManager {
       status: "waiting", // waiting, playing, finished
       winner: null,
       lockedCells,
-      validFirstMoveCells: getValidFirstMoveCells(lockedCells),
+      validFirstMoveCells: getValidFirstMoveCells(lockedCells, boardSize),
       moveCount: 0,
+      // ordered list of { row, col, symbol, at } for the current round
+      moves: [],
       // track first starter position to enforce Open-5 rule reliably
       // track first starter symbol & position for the current round so Open-5
       // can be enforced for whichever player starts (X or O)
       firstStarterSymbol: null,
       firstStarterPos: null,
       createdAt: Date.now(),
+      // Stays the same for every round of the room, unlike createdAt, so
+      // invite links outlive a reset (see src/invites.js)
+      instanceId: crypto.randomUUID(),
       winningCells: [],
       // Whether this room is rated (affects whether Elo/rating changes are applied)
       // Default: false for user-created rooms. Auto-match rooms should explicitly
@@ -53,6 +129,38 @@ class GameManager {
       // Whether this room is private (created by a user for friends with a code)
       // Default: false. Set true when caller passes player1.private === true
       private: player1?.private === true ? true : false,
+      // Whether anyone may watch. Without it, watching a private room needs
+      // an invite like taking its seat (see src/invites.js).
+      allowSpectators: player1?.allowSpectators !== false,
+      // { moves } or { seconds } spectators see the game behind, or null
+      spectatorDelay: normalizeSpectatorDelay(player1?.spectatorDelay),
+      // Time control for this room and the per-player clocks. The clock only
+      // runs while status === 'playing'; see src/clock.js for the semantics.
+      timeControl,
+      clock: createClock(timeControl),
+      // Rule set chosen by the room creator (see src/rules.js)
+      rules,
+      // Takebacks each player may use per game, how many they used and the
+      // pending request { symbol } of one of them (see src/takebacks.js)
+      takebacks: normalizeTakebacks(
+        player1?.takebacks,
+        player1?.rated === true
+      ),
+      takebacksUsed: noTakebacksUsed(),
+      takebackRequest: null,
+      // pending draw offer { symbol } of one of the players
+      drawOffer: null,
+      // Rounds won by each seat against the current opponent, and the
+      // pending rematch request { seat } of one of them. A best-of-N room
+      // (bestOf 3, 5 or 7) also sets matchWinner once the match is decided
+      // (see src/matches.js).
+      score: newMatchScore(),
+      rematchRequest: null,
+      bestOf: normalizeBestOf(player1?.bestOf),
+      matchWinner: null,
+      // { id, round, board } when the room plays a game of a tournament
+      // (see src/tournaments); its result goes to the tournament
+      tournament: player1?.tournament || null,
     };
 
     this.rooms.set(roomId, gameState);
@@ -67,15 +175,38 @@ class GameManager {
     gameState.players.player2 = {
       id: player2.id,
       socketId: player2.socketId,
-      symbol: "O",
+      userId: player2.userId || null,
+      symbol: freeSymbol(gameState),
       name: player2.name,
       avatar: player2.avatar,
     };
+    // A new opponent starts a new match
+    this.startMatch(gameState);
     // Keep game in 'waiting' state until the room owner explicitly starts it
 
     return gameState;
   }
 
+  // Seat the built-in bot as player2 (see src/bot.js). Bot rooms are never rated.
+  addBot(roomId, level) {
+    const gameState = this.rooms.get(roomId);
+    if (!gameState || gameState.players.player2) return null;
+    const botId = `bot:${roomId}`;
+    gameState.players.player2 = {
+      id: botId,
+      socketId: botId,
+      userId: null,
+      symbol: freeSymbol(gameState),
+      name: `🤖 Bot (${level})`,
+      avatar: null,
+      isBot: true,
+      botLevel: level,
+    };
+    gameState.rated = false;
+    this.startMatch(gameState);
+    return gameState;
+  }
+
   // Add a spectator to an existing room (does not affect player slots)
   addSpectator(roomId, spectator) {
     const gameState = this.rooms.get(roomId);
@@ -89,20 +220,50 @@ class GameManager {
       gameState.spectators.push({
         id: spectator.id,
         socketId: spectator.socketId,
+        userId: spectator.userId || null,
         name: spectator.name,
         avatar: spectator.avatar,
       });
+      this.shareRoom(roomId);
     }
     return gameState;
   }
 
+  // Seat held by a user in the room (player1/player2), or null
+  getSeatByUser(roomId, userId) {
+    const gameState = this.rooms.get(roomId);
+    if (!gameState || !userId) return null;
+    const { player1, player2 } = gameState.players;
+    if (player1?.userId === userId) return player1;
+    if (player2?.userId === userId) return player2;
+    return null;
+  }
+
+  // Move a user's seat to a new socket (page refresh, reconnect, new tab).
+  // Returns the seat or null when the user has no seat in the room.
+  reclaimSeat(roomId, userId, socketId) {
+    const seat = this.getSeatByUser(roomId, userId);
+    if (!seat) return null;
+    if (seat.socketId && seat.socketId !== socketId) {
+      seat.prevSocketId = seat.socketId;
+    }
+    seat.id = socketId;
+    seat.socketId = socketId;
+    delete seat.disconnectedAt;
+    // the user is back in their seat, so they are no longer a spectator
+    this.removeSpectator(roomId, socketId);
+    return seat;
+  }
+
   // Remove a spectator (e.g., on disconnect)
   removeSpectator(roomId, socketId) {
     const gameState = this.rooms.get(roomId);
     if (!gameState || !gameState.spectators) return;
+    const before = gameState.spectators.length;
     gameState.spectators = gameState.spectators.filter(
       (s) => s.socketId !== socketId
     );
+    if (gameState.spectators.length !== before) this.shareRoom(roomId);
   }
 
   makeMove(roomId, socketId, row, col) {
@@ -129,76 +290,39 @@ class GameManager {
       return { error: "Not your turn" };
     }
 
-    // Check if cell is locked
-    if (isLockedCell(gameState.lockedCells, row, col)) {
-      return { error: "Không thể đi vào ô cấm!" };
-    }
-
-    // Check if cell is empty
-    if (gameState.board[row][col] !== null) {
-      return { error: "Cell already occupied" };
+    // The mover may already have run out of time (e.g. the flag timer has not
+    // fired yet). In that case the move is rejected and the game ends.
+    if (gameState.clock && hasFlagged(gameState.clock)) {
+      this.flag(roomId);
+      return { flagged: true, gameState };
     }
 
-    // Check first move restriction (must be around locked cells)
-    if (gameState.moveCount === 0 && player.symbol === "X") {
-      const isValidFirstMove = gameState.validFirstMoveCells.some(
-        ([vr, vc]) => vr === row && vc === col
-      );
-      if (!isValidFirstMove) {
-        return { error: "Lượt đầu tiên phải đi vào các ô xung quanh ô cấm!" };
-      }
-    }
-
-    // Open-5 rule: the second move by the player who started the round must be
-    // at least 5 cells away (Manhattan) from their first move. We detect the
-    // "second move" by counting how many pieces of the player's symbol are
-    // currently on the board prior to this move; if exactly one exists, the
-    // current move would be their second.
-    // Note: we support the rule for whichever symbol started the round (X or O).
-    {
-      // count existing pieces of this player's symbol on the board
-      let symbolCount = 0;
-      for (let r = 0; r < gameState.board.length; r++) {
-        for (let c = 0; c < gameState.board[r].length; c++) {
-          if (gameState.board[r][c] === player.symbol) symbolCount++;
+    // Locked cells, occupied cells, first-move ring and Open-4 distance
+    const moveError = getMoveError(gameState, player.symbol, row, col);
+    if (moveError) {
+      if (moveError.startsWith("Open-")) {
+        // log details to help debugging why a violation may have been bypassed
+        try {
+          console.warn(
+            `[Open] Rejecting move in room=${roomId} by socket=${socketId} symbol=${player.symbol} at (${row},${col}) — first=${gameState.firstStarterPos}`
+          );
+        } catch (e) {
+          /* ignore logging errors */
         }
       }
+      return { error: moveError };
+    }
 
-      // Only enforce the restriction for the player who started the round.
-      if (symbolCount === 1 && gameState.firstStarterSymbol === player.symbol) {
-        // This would be the second move for the starter symbol. Determine the first
-        // position: prefer stored firstStarterPos (should match the symbol).
-        let firstPos = null;
-        if (
-          gameState.firstStarterPos &&
-          gameState.firstStarterSymbol === player.symbol
-        ) {
-          firstPos = gameState.firstStarterPos;
-        }
-
-        if (firstPos) {
-          const manhattan =
-            Math.abs(firstPos[0] - row) + Math.abs(firstPos[1] - col);
-          if (manhattan < 4) {
-            // log details to help debugging why a violation may have been bypassed
-            try {
-              console.warn(
-                `[Open-4] Rejecting move in room=${roomId} by socket=${socketId} symbol=${player.symbol} at (${row},${col}) — first=${firstPos} manhattan=${manhattan}`
-              );
-            } catch (e) {
-              /* ignore logging errors */
-            }
-            return {
-              error:
-                "Open-4: Nước đi thứ 2 cần cách nước đi đầu tiên ít nhất 4 ô cờ.",
-            };
-          }
-        }
-      }
+    // Charge the mover's clock before placing the piece
+    if (gameState.clock && chargeMove(gameState.clock).flagged) {
+      this.flag(roomId);
+      return { flagged: true, gameState };
     }
 
     // Make the move
     gameState.board[row][col] = player.symbol;
+    if (!Array.isArray(gameState.moves)) gameState.moves = [];
+    gameState.moves.push({ row, col, symbol: player.symbol, at: Date.now() });
     // If this is the very first move of the round, remember the starter
     // symbol and its position so we can enforce Open-4 when they move again.
     if (gameState.moveCount === 0) {
@@ -206,26 +330,37 @@ class GameManager {
       gameState.firstStarterPos = [row, col];
     }
     gameState.moveCount++;
+    // a pending takeback or draw offer is void once anyone moves on
+    gameState.takebackRequest = null;
+    gameState.drawOffer = null;
 
     // Check for winner
-    if (checkWinner(gameState.board, row, col, player.symbol)) {
-      const winning = checkWinner(gameState.board, row, col, player.symbol);
-      gameState.status = "finished";
-      gameState.winner = player.symbol;
-      gameState.winningCells = winning || [];
+    const winning = checkWinner(
+      gameState.board,
+      row,
+      col,
+      player.symbol,
+      gameState.rules
+    );
+    if (winning) {
+      this.endRound(gameState, player.symbol, winning);
+      this.stopClock(roomId);
       return { success: true, gameState, isWinner: true };
     }
 
     // Check for draw
     if (isBoardFull(gameState.board)) {
-      gameState.status = "finished";
-      gameState.winner = "draw";
-      gameState.winningCells = [];
+      this.endRound(gameState, "draw");
+      this.stopClock(roomId);
       return { success: true, gameState, isDraw: true };
     }
 
     // Switch turn
     gameState.currentTurn = gameState.currentTurn === "X" ? "O" : "X";
+    if (gameState.clock) {
+      startTurn(gameState.clock, gameState.currentTurn);
+      this.scheduleFlag(roomId);
+    }
 
     return { success: true, gameState };
   }
@@ -234,51 +369,238 @@ class GameManager {
     return this.rooms.get(roomId);
   }
 
+  // A player asks to take back their last move. Returns { gameState } or
+  // { error } with one of: not-playing, not-player, disabled, limit-reached,
+  // no-move, already-requested.
+  requestTakeback(roomId, socketId) {
+    const gameState = this.rooms.get(roomId);
+    if (!gameState || gameState.status !== "playing") {
+      return { error: "not-playing" };
+    }
+    const seat = seatOf(gameState, socketId);
+    if (!seat) return { error: "not-player" };
+    const limit = gameState.takebacks || 0;
+    if (limit === 0) return { error: "disabled" };
+    if ((gameState.takebacksUsed?.[seat.symbol] || 0) >= limit) {
+      return { error: "limit-reached" };
+    }
+    if (!gameState.moves?.some((m) => m.symbol === seat.symbol)) {
+      return { error: "no-move" };
+    }
+    if (gameState.takebackRequest) return { error: "already-requested" };
+    gameState.takebackRequest = { symbol: seat.symbol };
+    return { gameState };
+  }
+
+  // The opponent answers the pending takeback; accepting undoes the moves
+  // (see takeBack). Returns { gameState, requester, undone } with the seat
+  // that asked and the number of moves undone (0 when declined), or
+  // { error: "no-request" }.
+  answerTakeback(roomId, socketId, accept) {
+    const gameState = this.rooms.get(roomId);
+    const request = gameState?.takebackRequest;
+    const seat = gameState ? seatOf(gameState, socketId) : null;
+    if (
+      !request ||
+      !seat ||
+      seat.symbol === request.symbol ||
+      gameState.status !== "playing"
+    ) {
+      return { error: "no-request" };
+    }
+    gameState.takebackRequest = null;
+    const { player1, player2 } = gameState.players;
+    const requester = player1.symbol === request.symbol ? player1 : player2;
+    if (!accept) return { gameState, requester, undone: 0 };
+
+    gameState.takebacksUsed = gameState.takebacksUsed || noTakebacksUsed();
+    gameState.takebacksUsed[request.symbol] += 1;
+    const undone = this.takeBack(roomId, request.symbol);
+    return { gameState, requester, undone };
+  }
+
+  // Undo the last move of `symbol` in the current round, and the opponent's
+  // reply to it if there is one, so that `symbol` is to move again. Returns
+  // the number of moves undone.
+  takeBack(roomId, symbol) {
+    const gameState = this.rooms.get(roomId);
+    const moves = gameState?.moves || [];
+    const last = moves.findLastIndex((m) => m.symbol === symbol);
+    if (last < 0) return 0;
+
+    const undone = moves.splice(last);
+    for (const { row, col } of undone) gameState.board[row][col] = null;
+    gameState.moveCount = moves.length;
+    gameState.currentTurn = symbol;
+    // Open-4 is measured from the round's first stone
+    if (moves.length === 0) {
+      gameState.firstStarterSymbol = null;
+      gameState.firstStarterPos = null;
+    }
+    // time already used stays used, but the increment earned by the undone
+    // moves is taken back; the mover gets a fresh turn
+    if (gameState.clock) {
+      haltClock(gameState.clock);
+      const { remainingMs, timeControl } = gameState.clock;
+      for (const move of undone) {
+        remainingMs[move.symbol] = Math.max(
+          0,
+          remainingMs[move.symbol] - timeControl.incrementMs
+        );
+      }
+      startTurn(gameState.clock, symbol);
+      this.scheduleFlag(roomId);
+    }
+    return undone.length;
+  }
+
   // Forfeit: mark the game finished with the opponent as winner when a player times out
   forfeit(roomId, loserSocketId) {
     const gameState = this.rooms.get(roomId);
-    if (!gameState) return null;
+    if (!gameState || gameState.status !== "playing") return null;
 
     const p1 = gameState.players.player1;
     const p2 = gameState.players.player2;
 
+    this.stopClock(roomId);
+
     if (!p1 || !p2) {
       // If opponent isn't present, just end the game as finished with no winner
-      gameState.status = "finished";
-      gameState.winner = null;
-      gameState.winningCells = [];
+      this.endRound(gameState, null);
       return gameState;
     }
 
     const loserIsP1 = p1.socketId === loserSocketId;
     const winnerSymbol = loserIsP1 ? p2.symbol : p1.symbol;
 
+    this.endRound(gameState, winnerSymbol);
+    // Leaving a best-of-N match loses all of it
+    if (gameState.bestOf && !gameState.matchWinner) {
+      gameState.matchWinner = loserIsP1 ? "player2" : "player1";
+    }
+
+    return gameState;
+  }
+
+  // Finish a game whose players did not all come back after disconnecting:
+  // an absent player loses, and the game is drawn when both are gone.
+  // Returns the room, or null when no game is being played.
+  abandon(roomId) {
+    const gameState = this.rooms.get(roomId);
+    if (!gameState || gameState.status !== "playing") return null;
+    const { player1, player2 } = gameState.players;
+    const gone1 = !player1?.socketId;
+    const gone2 = !player2?.socketId;
+    if (!gone1 && !gone2) return null;
+
+    this.stopClock(roomId);
+    this.endRound(
+      gameState,
+      gone1 && gone2 ? "draw" : (gone1 ? player2 : player1).symbol
+    );
+    return gameState;
+  }
+
+  // Clear the score for a new match (or a new series of single games)
+  startMatch(gameState) {
+    gameState.score = newMatchScore();
+    gameState.matchWinner = null;
+    gameState.rematchRequest = null;
+  }
+
+  // Finish the current round with `winner` (a symbol, "draw" or null) and
+  // count it in the match score. A round that is not being played is left
+  // as it is.
+  endRound(gameState, winner, winningCells = []) {
+    if (gameState.status !== "playing") return;
     gameState.status = "finished";
-    gameState.winner = winnerSymbol;
-    gameState.winningCells = [];
+    gameState.winner = winner;
+    gameState.winningCells = winningCells;
+    tallyRound(gameState);
+  }
 
+  // A player asks for a rematch after a finished round. The next round
+  // starts, with colours swapped, once the opponent asks too (or accepts);
+  // the bot always agrees. Returns { gameState, seat, started } or { error }.
+  offerRematch(roomId, socketId) {
+    const gameState = this.rooms.get(roomId);
+    if (!gameState || gameState.status !== "finished") {
+      return { error: "not-finished" };
+    }
+    if (gameState.tournament) return { error: "tournament" };
+    const seat = seatKeyOf(gameState, socketId);
+    if (!seat) return { error: "not-player" };
+    const opponent = gameState.players[otherSeat(seat)];
+    if (!opponent) return { error: "no-opponent" };
+    const request = gameState.rematchRequest;
+    if (request?.seat === seat) return { error: "already-requested" };
+    if (!request && !opponent.isBot) {
+      gameState.rematchRequest = { seat };
+      return { gameState, seat, started: false };
+    }
+    this.resetRoom(roomId, { swapColors: true });
+    return { gameState, seat, started: true };
+  }
+
+  // The opponent turns a rematch request down. Returns { gameState,
+  // requester } or { error }.
+  declineRematch(roomId, socketId) {
+    const gameState = this.rooms.get(roomId);
+    const request = gameState?.rematchRequest;
+    const seat = gameState && seatKeyOf(gameState, socketId);
+    if (!request || !seat || seat === request.seat) {
+      return { error: "no-request" };
+    }
+    gameState.rematchRequest = null;
+    return { gameState, requester: gameState.players[request.seat] };
+  }
+
+  // A player walks out between the rounds of an undecided best-of-N match,
+  // which the opponent wins. Returns the room, or null if no match is open.
+  concedeMatch(roomId, loserSocketId) {
+    const gameState = this.rooms.get(roomId);
+    if (!gameState?.bestOf || gameState.matchWinner) return null;
+    const seat = seatKeyOf(gameState, loserSocketId);
+    if (gameState.status !== "finished" || !seat) return null;
+    if (!gameState.players[otherSeat(seat)]) return null;
+    gameState.matchWinner = otherSeat(seat);
     return gameState;
   }
 
-  // Reset the board and game metadata to start a fresh round while keeping players
-  resetRoom(roomId) {
+  // Reset the board and game metadata to start a fresh round while keeping
+  // players. With `swapColors` the players trade symbols and X starts, so
+  // whoever played O last round opens this one.
+  resetRoom(roomId, { swapColors = false } = {}) {
     const gameState = this.rooms.get(roomId);
     if (!gameState) return null;
 
-    const lockedCells = generateLockedCells();
-    gameState.board = createEmptyBoard();
+    const size = gameState.boardSize;
+    const lockedCells = generateLockedCells(gameState.rules?.lockedCells, size);
+    gameState.board = createEmptyBoard(size);
     gameState.lockedCells = lockedCells;
-    gameState.validFirstMoveCells = getValidFirstMoveCells(lockedCells);
+    gameState.validFirstMoveCells = getValidFirstMoveCells(lockedCells, size);
     gameState.moveCount = 0;
+    gameState.moves = [];
+    gameState.takebacksUsed = noTakebacksUsed();
+    gameState.takebackRequest = null;
+    gameState.drawOffer = null;
+    gameState.recorded = false;
     gameState.firstStarterSymbol = null;
     gameState.firstStarterPos = null;
+    gameState.rematchRequest = null;
+    if (gameState.matchWinner) this.startMatch(gameState);
+    const { player1, player2 } = gameState.players;
+    if (swapColors && player1 && player2) {
+      [player1.symbol, player2.symbol] = [player2.symbol, player1.symbol];
+    }
     // Alternate who starts each new round. If lastStarter is not set (first
     // round), default to 'X'. Otherwise pick the opposite of lastStarter.
-    const nextStarter = gameState.lastStarter
+    let nextStarter = gameState.lastStarter
       ? gameState.lastStarter === "X"
         ? "O"
         : "X"
       : "X";
+    if (swapColors) nextStarter = "X";
     gameState.currentTurn = nextStarter;
     // remember who started this round so the next reset can alternate
     gameState.lastStarter = nextStarter;
@@ -286,17 +608,142 @@ class GameManager {
     gameState.winner = null;
     gameState.winningCells = [];
     gameState.createdAt = Date.now();
+    // Fresh clocks for the new round; the starter's clock runs immediately
+    this.clearFlagTimer(roomId);
+    gameState.clock = createClock(gameState.timeControl);
+    startTurn(gameState.clock, nextStarter);
+    this.scheduleFlag(roomId);
 
     return gameState;
   }
 
   removeRoom(roomId) {
+    this.clearFlagTimer(roomId);
     this.rooms.delete(roomId);
   }
 
-  addWaitingPlayer(socketId, playerInfo) {
+  // Plain copy of a room for durable storage (see src/roomSnapshots.js).
+  // Spectators are tied to their connection and are not kept.
+  snapshotRoom(roomId) {
+    const gameState = this.rooms.get(roomId);
+    if (!gameState) return null;
+    return structuredClone({
+      ...gameState,
+      spectators: [],
+      savedAt: Date.now(),
+    });
+  }
+
+  // Load a room from a snapshot taken by snapshotRoom (after a restart).
+  // Every human seat starts disconnected until its user reclaims it, and the
+  // clock is shifted so the time the server was down is not charged to the
+  // side to move. Returns the restored game state.
+  restoreRoom(snapshot, now = Date.now()) {
+    const { savedAt, ...gameState } = structuredClone(snapshot);
+    for (const seat of [gameState.players.player1, gameState.players.player2]) {
+      if (!seat || seat.isBot) continue;
+      if (seat.socketId) seat.prevSocketId = seat.socketId;
+      seat.socketId = null;
+      seat.disconnectedAt = now;
+    }
+    gameState.spectators = [];
+    // snapshots taken before rooms had one
+    gameState.instanceId ??= crypto.randomUUID();
+    const clock = gameState.clock;
+    if (clock?.active && clock.turnStartedAt && savedAt) {
+      clock.turnStartedAt += Math.max(0, now - savedAt);
+    }
+    this.rooms.set(gameState.roomId, gameState);
+    this.scheduleFlag(gameState.roomId);
+    return gameState;
+  }
+
+  // Register the callback invoked when a player runs out of time
+  setFlagListener(fn) {
+    this.flagListener = typeof fn === "function" ? fn : null;
+  }
+
+  clearFlagTimer(roomId) {
+    const t = this.flagTimers.get(roomId);
+    if (t) {
+      clearTimeout(t);
+      this.flagTimers.delete(roomId);
+    }
+  }
+
+  // (Re)arm the flag timer for the side to move
+  scheduleFlag(roomId) {
+    this.clearFlagTimer(roomId);
+    const gameState = this.rooms.get(roomId);
+    if (!gameState || gameState.status !== "playing" || !gameState.clock) {
+      return;
+    }
+    const wait = msUntilFlag(gameState.clock);
+    if (!Number.isFinite(wait)) return;
+    const t = setTimeout(() => {
+      this.flagTimers.delete(roomId);
+      this.checkFlag(roomId);
+    }, wait + 5);
+    // don't keep the process alive just for a clock
+    t.unref?.();
+    this.flagTimers.set(roomId, t);
+  }
+
+  // If the side to move has run out of time, end the game and notify the
+  // flag listener. Returns the finished game state or null.
+  checkFlag(roomId) {
+    const gameState = this.rooms.get(roomId);
+    if (!gameState || gameState.status !== "playing" || !gameState.clock) {
+      return null;
+    }
+    if (!hasFlagged(gameState.clock)) {
+      // timer fired early (clock was adjusted) - re-arm it
+      this.scheduleFlag(roomId);
+      return null;
+    }
+    return this.flag(roomId);
+  }
+
+  // Finish the game in favour of the player who is NOT on move
+  flag(roomId) {
+    const gameState = this.rooms.get(roomId);
+    if (!gameState || gameState.status !== "playing") return null;
+    const loserSymbol = gameState.currentTurn;
+    if (gameState.clock) gameState.clock.remainingMs[loserSymbol] = 0;
+    this.stopClock(roomId);
+    this.endRound(gameState, loserSymbol === "X" ? "O" : "X");
+    try {
+      if (this.flagListener) this.flagListener(roomId, gameState);
+    } catch (e) {
+      console.error("Flag listener failed", e);
+    }
+    return gameState;
+  }
+
+  stopClock(roomId) {
+    this.clearFlagTimer(roomId);
+    const gameState = this.rooms.get(roomId);
+    if (gameState?.clock) haltClock(gameState.clock);
+  }
+
+  getClockSnapshot(roomId) {
+    const gameState = this.rooms.get(roomId);
+    return gameState?.clock ? getClockSnapshot(gameState.clock) : null;
+  }
+
+  // The queue methods default to the matchmaking queue; arena tournaments pass
+  // this.arenaPlayers
+  addWaitingPlayer(socketId, playerInfo, queue = this.waitingPlayers) {
     const now = Date.now();
-    this.waitingPlayers.set(socketId, {
+    // one queue entry per user: a second tab replaces the first
+    if (playerInfo.userId) {
+      for (const [otherId, other] of queue.entries()) {
+        if (otherId !== socketId && other.userId === playerInfo.userId) {
+          queue.delete(otherId);
+        }
+      }
+    }
+    queue.set(socketId, {
       ...playerInfo,
       enqueuedAt: now,
     });
@@ -308,22 +755,22 @@ class GameManager {
       );
       console.log(
         `[${new Date().toISOString()}] QUEUE SIZE AFTER ADD: ${
-          this.waitingPlayers.size
-        } -> [${Array.from(this.waitingPlayers.keys()).join(",")}]`
+          queue.size
+        } -> [${Array.from(queue.keys()).join(",")}]`
       );
     } catch (e) {
       // ignore logging failures
     }
   }
 
-  removeWaitingPlayer(socketId) {
-    const had = this.waitingPlayers.has(socketId);
-    this.waitingPlayers.delete(socketId);
+  removeWaitingPlayer(socketId, queue = this.waitingPlayers) {
+    const had = queue.has(socketId);
+    queue.delete(socketId);
     try {
       if (had) {
         console.log(
           `[${new Date().toISOString()}] QUEUE REMOVE: ${socketId} -> newSize=${
-            this.waitingPlayers.size
+            queue.size
           }`
         );
       }
@@ -332,7 +779,7 @@ class GameManager {
     }
   }
 
-  findMatch(socketId) {
+  findMatch(socketId, queue = this.waitingPlayers) {
     const getDeltaForWait = (waitSeconds) => {
       if (waitSeconds <= 10) return 50;
       if (waitSeconds <= 20) return 100;
@@ -342,7 +789,7 @@ class GameManager {
       return 600; // >60s: ghép đại
     };
 
-    const requester = this.waitingPlayers.get(socketId);
+    const requester = queue.get(socketId);
     if (!requester) return null;
 
     const now = Date.now();
@@ -363,8 +810,12 @@ class GameManager {
     let best = null;
     let bestDiff = Infinity;
 
-    for (const [otherId, other] of this.waitingPlayers.entries()) {
+    for (const [otherId, other] of queue.entries()) {
       if (otherId === socketId) continue;
+      // never pair a user with themselves
+      if (requester.userId && other.userId === requester.userId) continue;
+      // arena players only meet players of the same arena
+      if (other.arenaId !== requester.arenaId) continue;
 
       const otherWaitSec = Math.floor((now - (other.enqueuedAt || now)) / 1000);
       const otherElo = typeof other.elo === "number" ? other.elo : 1200;
@@ -395,8 +846,8 @@ class GameManager {
       const roomId = `room-${Date.now()}-${Math.random()
         .toString(36)
         .substr(2, 9)}`;
-      this.removeWaitingPlayer(best.id);
-      this.removeWaitingPlayer(socketId);
+      this.removeWaitingPlayer(best.id, queue);
+      this.removeWaitingPlayer(socketId, queue);
 
       console.log(
         `\n🎯 [MATCH FOUND] ${
@@ -407,7 +858,7 @@ class GameManager {
       );
       console.log(`   🏠 Room: ${roomId}\n`);
 
-      return { roomId, opponent: best.info };
+      return { roomId, opponent: best.info, requester };
     }
 
     console.log(
@@ -419,4 +870,7 @@ class GameManager {
   }
 }
 
-export default new GameManager();
+const gameManager = new GameManager();
+await gameManager.attach();
+
+export default gameManager;
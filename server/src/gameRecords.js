@@ -0,0 +1,103 @@
+import * as storage from "./storage/index.js";
+import { BOARD_SIZE } from "./gameLogic.js";
+
+// Resolve the persisted user owning a room seat (null for guest seats)
+async function findSeatUser(seat) {
+  if (!seat?.userId) return null;
+  try {
+    return await storage.users.findById(seat.userId);
+  } catch (e) {
+    console.error("Failed to resolve user for game record", e);
+    return null;
+  }
+}
+
+// Players' and spectators' messages written during a game, in order
+async function gameChat(roomId, from, to) {
+  try {
+    const messages = await storage.chatMessages.between(roomId, from, to);
+    return messages.map((m) => ({
+      sender: m.sender,
+      message: m.message,
+      channel: m.channel,
+      at: new Date(m.timestamp),
+    }));
+  } catch (e) {
+    console.error("Failed to load chat for game record", e);
+    return [];
+  }
+}
+
+/**
+ * Persist a finished round as a game record (see src/storage).
+ * Each round is written at most once (guarded by gameState.recorded, which
+ * resetRoom clears).
+ * Emits 'game-recorded' to the room with the new game id (used for replay links).
+ */
+export async function recordFinishedGame(io, gameState, reason) {
+  if (!gameState || gameState.status !== "finished" || gameState.recorded) {
+    return null;
+  }
+  const p1 = gameState.players?.player1;
+  const p2 = gameState.players?.player2;
+  if (!p1 || !p2) return null;
+  gameState.recorded = true;
+
+  try {
+    const [u1, u2] = await Promise.all([findSeatUser(p1), findSeatUser(p2)]);
+    const players = [
+      { seat: p1, user: u1 },
+      { seat: p2, user: u2 },
+    ].map(({ seat, user }) => ({
+      userId: user?._id,
+      name: user?.name || seat.name,
+      avatar: user?.avatar || seat.avatar || undefined,
+      symbol: seat.symbol,
+    }));
+
+    const winner = players.find((p) => p.symbol === gameState.winner);
+    const moves = Array.isArray(gameState.moves) ? gameState.moves : [];
+    const endedAt = new Date();
+    const startedAt = gameState.createdAt
+      ? new Date(gameState.createdAt)
+      : undefined;
+    const chat = startedAt
+      ? await gameChat(gameState.roomId, startedAt, endedAt)
+      : [];
+
+    const doc = await storage.games.create({
+      roomId: gameState.roomId,
+      players,
+      playerIds: players.map((p) => p.userId).filter(Boolean),
+      moves: moves.map((m) => ({ ...m, at: new Date(m.at) })),
+      lockedCells: gameState.lockedCells || [],
+      winningCells: gameState.winningCells || [],
+      boardSize: gameState.boardSize || gameState.board?.length || BOARD_SIZE,
+      timeControl: gameState.timeControl,
+      rules: gameState.rules,
+      rated: gameState.rated === true,
+      private: gameState.private === true,
+      result: gameState.winner ?? null,
+      winnerId: winner?.userId,
+      reason,
+      chat,
+      startedAt,
+      endedAt,
+    });
+    console.log(
+      `[GAME] recorded game ${doc._id} room=${gameState.roomId} result=${gameState.winner} reason=${reason}`
+    );
+    try {
+      io?.to(gameState.roomId).emit("game-recorded", {
+        roomId: gameState.roomId,
+        gameId: String(doc._id),
+      });
+    } catch (e) {
+      console.error("Failed to emit game-recorded", e);
+    }
+    return doc;
+  } catch (e) {
+    console.error("Failed to record finished game", e);
+    return null;
+  }
+}
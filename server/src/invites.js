@@ -0,0 +1,78 @@
+import crypto from "crypto";
+import * as storage from "./storage/index.js";
+
+// Invite links of private rooms. The room id is listed in the lobby, so a
+// private room is only joinable with a separate random token that its owner
+// shares as a link. Tokens expire after ROOM_INVITE_TTL_MINUTES (default 60)
+// and the owner can revoke them or replace them with a new one. Rooms whose
+// owner turned spectators off also need a token to be watched.
+
+const readMinutes = () => {
+  const v = Number.parseInt(process.env.ROOM_INVITE_TTL_MINUTES || "", 10);
+  return Number.isFinite(v) && v > 0 ? v : 60;
+};
+
+export const INVITE_TTL_MS = readMinutes() * 60 * 1000;
+
+const publicInvite = (invite) => ({
+  roomId: invite.roomId,
+  token: invite._id,
+  expiresAt: new Date(invite.expiresAt).getTime(),
+});
+
+/**
+ * The open invite of a room: { roomId, token, expiresAt }. With `renew`, or
+ * when there is none, earlier tokens are revoked and a new one is issued.
+ */
+export async function roomInvite(gameState, userId, { renew = false } = {}) {
+  const now = Date.now();
+  if (!renew) {
+    const active = await storage.roomInvites.findActive(
+      gameState.roomId,
+      new Date(now)
+    );
+    if (active && active.roomInstance === gameState.instanceId) {
+      return publicInvite(active);
+    }
+  }
+  await storage.roomInvites.revokeRoom(gameState.roomId, new Date(now));
+  const invite = await storage.roomInvites.create({
+    token: crypto.randomBytes(18).toString("base64url"),
+    roomId: gameState.roomId,
+    roomInstance: gameState.instanceId,
+    createdBy: userId,
+    expiresAt: new Date(now + INVITE_TTL_MS),
+  });
+  return publicInvite(invite);
+}
+
+export async function revokeInvites(roomId) {
+  await storage.roomInvites.revokeRoom(roomId);
+}
+
+/**
+ * Check a token against a room. Returns null when it grants access, else an
+ * error code: "invite-required" (no token), "invite-invalid" (unknown,
+ * revoked or for another room) or "invite-expired".
+ */
+export async function checkInvite(gameState, token, now = Date.now()) {
+  if (!token) return "invite-required";
+  const invite = await storage.roomInvites.findByToken(token);
+  if (
+    !invite ||
+    invite.revokedAt ||
+    invite.roomId !== gameState.roomId ||
+    invite.roomInstance !== gameState.instanceId
+  ) {
+    return "invite-invalid";
+  }
+  if (new Date(invite.expiresAt).getTime() <= now) return "invite-expired";
+  return null;
+}
+
+// Whether taking the free seat of a room needs an invite
+export const seatNeedsInvite = (gameState) => gameState.private === true;
+
+// Whether watching a room needs an invite
+export const watchNeedsInvite = (gameState) =>
+  gameState.private === true && gameState.allowSpectators === false;
@@ -0,0 +1,57 @@
+// Matches: the rounds two players play in a row in one room. The score is
+// kept per seat (player1/player2) because the players swap colours on every
+// rematch, and it starts over when a new opponent takes the second seat.
+//
+// A room may also be created as a best-of-N match (`bestOf`): the first
+// seat to win more than half of the N rounds wins it, and after N rounds
+// the seat with more wins does (a draw when level). A finished match is
+// recorded in `matchWinner`; the next rematch starts a new one.
+
+export const BEST_OF = [3, 5, 7];
+
+// One of BEST_OF, or null for a room of single games
+export function normalizeBestOf(value) {
+  const n = Number(value);
+  return BEST_OF.includes(n) ? n : null;
+}
+
+export const newMatchScore = () => ({ player1: 0, player2: 0, draws: 0 });
+
+// "player1", "player2" or "draw" once a best-of-N match is decided, else null
+export function matchResult(score, bestOf) {
+  if (!bestOf) return null;
+  const needed = Math.floor(bestOf / 2) + 1;
+  if (score.player1 >= needed) return "player1";
+  if (score.player2 >= needed) return "player2";
+  if (score.player1 + score.player2 + score.draws < bestOf) return null;
+  if (score.player1 === score.player2) return "draw";
+  return score.player1 > score.player2 ? "player1" : "player2";
+}
+
+export const otherSeat = (seat) =>
+  seat === "player1" ? "player2" : "player1";
+
+// "player1" or "player2" for the seat held by this socket, or null
+export function seatKeyOf(gameState, socketId) {
+  const { player1, player2 } = gameState.players;
+  if (player1 && player1.socketId === socketId) return "player1";
+  if (player2 && player2.socketId === socketId) return "player2";
+  return null;
+}
+
+// Add the result of a finished round (winner symbol, "draw" or null for a
+// game without a result) to the match score, and settle the match if this
+// round decided it
+export function tallyRound(gameState) {
+  const score = gameState.score || (gameState.score = newMatchScore());
+  if (gameState.winner === "draw") {
+    score.draws += 1;
+  }
+  for (const seat of ["player1", "player2"]) {
+    const p = gameState.players[seat];
+    if (p && gameState.winner && p.symbol === gameState.winner) {
+      score[seat] += 1;
+    }
+  }
+  gameState.matchWinner = matchResult(score, gameState.bestOf);
+}
@@ -5,6 +5,9 @@ const ChatMessageSchema = new mongoose.Schema({
   sender: { type: String },
   message: { type: String },
   socketId: { type: String },
+  userId: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+  // "spectators" for messages of the spectator chat (see src/spectators.js)
+  channel: { type: String },
   timestamp: { type: Date, default: Date.now, index: true },
 });
 
@@ -7,12 +7,25 @@ const EloHistorySchema = new mongoose.Schema({
     ref: "User",
     required: true,
   },
+  // rating engine that produced the row ("elo" or "glicko2", see src/ratings)
+  engine: { type: String, default: "elo", index: true },
   before: { type: Number, required: true },
   after: { type: Number, required: true },
   change: { type: Number, required: true },
+  // Glicko-2 rating deviation before/after the game
+  rdBefore: { type: Number },
+  rdAfter: { type: Number },
   result: { type: String, enum: ["win", "loss", "draw"], required: true },
+  // ranked season the game was played in (null outside seasons, see
+  // src/ratings/seasons.js)
+  season: { type: String, default: null, index: true },
   timestamp: { type: Date, default: Date.now },
 });
 
+// a user's timeline, newest first (see storage eloHistory.findByUser)
+EloHistorySchema.index({ userId: 1, timestamp: -1 });
+// totals per period for the leaderboard (see storage eloHistory.totals)
+EloHistorySchema.index({ timestamp: 1 });
+
 export default mongoose.models.EloHistory ||
   mongoose.model("EloHistory", EloHistorySchema);
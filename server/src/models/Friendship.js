@@ -0,0 +1,26 @@
+import mongoose from "mongoose";
+
+// A friend request between two users (see src/friends.js). It stays
+// "pending" until the recipient accepts it; removing a friend or declining a
+// request deletes the document.
+const FriendshipSchema = new mongoose.Schema({
+  requester: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  recipient: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  status: { type: String, enum: ["pending", "accepted"], default: "pending" },
+  createdAt: { type: Date, default: Date.now },
+  acceptedAt: { type: Date, default: null },
+});
+
+FriendshipSchema.index({ requester: 1, recipient: 1 }, { unique: true });
+FriendshipSchema.index({ recipient: 1 });
+
+export default mongoose.models.Friendship ||
+  mongoose.model("Friendship", FriendshipSchema);
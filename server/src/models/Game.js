@@ -0,0 +1,74 @@
+import mongoose from "mongoose";
+
+const GamePlayerSchema = new mongoose.Schema(
+  {
+    userId: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+    name: { type: String },
+    avatar: { type: String },
+    symbol: { type: String, enum: ["X", "O"], required: true },
+  },
+  { _id: false }
+);
+
+const GameMoveSchema = new mongoose.Schema(
+  {
+    row: { type: Number, required: true },
+    col: { type: Number, required: true },
+    symbol: { type: String, enum: ["X", "O"], required: true },
+    at: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+// Chat of the room during the game, both channels in one transcript
+const GameChatSchema = new mongoose.Schema(
+  {
+    sender: { type: String },
+    message: { type: String },
+    channel: { type: String },
+    at: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const GameSchema = new mongoose.Schema({
+  roomId: { type: String, index: true },
+  players: { type: [GamePlayerSchema], default: [] },
+  // user ids of both players, denormalized for the "games of a user" query
+  playerIds: [
+    { type: mongoose.Schema.Types.ObjectId, ref: "User", index: true },
+  ],
+  moves: { type: [GameMoveSchema], default: [] },
+  lockedCells: { type: [[Number]], default: [] },
+  winningCells: { type: [[Number]], default: [] },
+  boardSize: { type: Number },
+  timeControl: {
+    baseMs: { type: Number },
+    incrementMs: { type: Number },
+    delayMs: { type: Number },
+  },
+  // rule set the game was played under (see src/rules.js)
+  rules: {
+    preset: { type: String },
+    overline: { type: Boolean },
+    blockedEnds: { type: Boolean },
+    openRule: { type: Boolean },
+    openDistance: { type: Number },
+    lockedCells: { type: Number },
+  },
+  rated: { type: Boolean, default: false },
+  private: { type: Boolean, default: false },
+  // winning symbol, "draw", or null when the game ended without a winner
+  result: { type: String, enum: ["X", "O", "draw", null], default: null },
+  winnerId: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+  reason: {
+    type: String,
+    enum: ["finished", "timeout", "forfeit", "draw-offer-accepted"],
+    required: true,
+  },
+  chat: { type: [GameChatSchema], default: [] },
+  startedAt: { type: Date },
+  endedAt: { type: Date, default: Date.now, index: true },
+});
+
+export default mongoose.models.Game || mongoose.model("Game", GameSchema);
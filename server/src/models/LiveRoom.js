@@ -0,0 +1,16 @@
+import mongoose from "mongoose";
+
+// Snapshot of a room that is still open (waiting, playing or between
+// rounds), written after every change so a restarted server can resume it.
+// See src/roomSnapshots.js.
+const LiveRoomSchema = new mongoose.Schema(
+  {
+    _id: { type: String }, // room id
+    state: { type: mongoose.Schema.Types.Mixed, required: true },
+    updatedAt: { type: Date, default: Date.now },
+  },
+  { minimize: false }
+);
+
+export default mongoose.models.LiveRoom ||
+  mongoose.model("LiveRoom", LiveRoomSchema);
@@ -0,0 +1,20 @@
+import mongoose from "mongoose";
+
+// Join token of a private room (see src/invites.js)
+const RoomInviteSchema = new mongoose.Schema({
+  _id: { type: String }, // the token
+  roomId: { type: String, required: true },
+  // instanceId of the room, so a later room reusing the id is not joinable
+  roomInstance: { type: String, required: true },
+  createdBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+  createdAt: { type: Date, default: Date.now },
+  expiresAt: { type: Date, required: true },
+  revokedAt: { type: Date, default: null },
+});
+
+RoomInviteSchema.index({ roomId: 1 });
+// expired tokens are deleted by MongoDB a day later
+RoomInviteSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+export default mongoose.models.RoomInvite ||
+  mongoose.model("RoomInvite", RoomInviteSchema);
@@ -0,0 +1,13 @@
+import mongoose from "mongoose";
+
+// A ranked season the server has run (see src/ratings/rollover.js). It is
+// archived once its final standings are stored and the ratings are reset.
+const SeasonSchema = new mongoose.Schema({
+  _id: { type: String }, // season id, e.g. "2026-s1"
+  name: { type: String, required: true },
+  startsAt: { type: Date, required: true },
+  endsAt: { type: Date, required: true },
+  archivedAt: { type: Date, default: null },
+});
+
+export default mongoose.models.Season || mongoose.model("Season", SeasonSchema);
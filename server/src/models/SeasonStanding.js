@@ -0,0 +1,24 @@
+import mongoose from "mongoose";
+
+// Final rank of a player in an archived season
+const SeasonStandingSchema = new mongoose.Schema({
+  season: { type: String, required: true },
+  userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+  rank: { type: Number, required: true },
+  // "champion", "podium", "top10" or "ranked" (see src/ratings/seasons.js)
+  badge: { type: String, required: true },
+  name: { type: String },
+  avatar: { type: String },
+  // rating at the end of the season, before the reset
+  rating: { type: Number, required: true },
+  games: { type: Number, default: 0 },
+  wins: { type: Number, default: 0 },
+  losses: { type: Number, default: 0 },
+  draws: { type: Number, default: 0 },
+});
+
+SeasonStandingSchema.index({ season: 1, rank: 1 }, { unique: true });
+SeasonStandingSchema.index({ userId: 1 });
+
+export default mongoose.models.SeasonStanding ||
+  mongoose.model("SeasonStanding", SeasonStandingSchema);
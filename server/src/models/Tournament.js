@@ -0,0 +1,85 @@
+import mongoose from "mongoose";
+
+// One game of a tournament round. O is null for a bye. result is "X", "O",
+// "draw" or "bye", null while the game is being played (see src/tournaments).
+const PairingSchema = new mongoose.Schema(
+  {
+    board: { type: Number, required: true },
+    X: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+    O: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+    roomId: { type: String, default: null },
+    result: { type: String, default: null },
+    // won because the opponent did not show up
+    forfeit: { type: Boolean, default: false },
+  },
+  { _id: false }
+);
+
+const RoundSchema = new mongoose.Schema(
+  {
+    number: { type: Number, required: true },
+    startedAt: { type: Date, default: Date.now },
+    pairings: [PairingSchema],
+  },
+  { _id: false }
+);
+
+// A game of an arena, added when its players are paired. result is "X", "O"
+// or "draw", null while it is played.
+const ArenaGameSchema = new mongoose.Schema(
+  {
+    X: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+    O: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+    roomId: { type: String, required: true },
+    result: { type: String, default: null },
+    startedAt: { type: Date, default: Date.now },
+    endedAt: { type: Date, default: null },
+  },
+  { _id: false }
+);
+
+const EntrySchema = new mongoose.Schema(
+  {
+    userId: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+    name: String,
+    avatar: String,
+    // rating when registering, used for seeding
+    rating: Number,
+  },
+  { _id: false }
+);
+
+// A Swiss, knockout or arena tournament (see src/tournaments)
+const TournamentSchema = new mongoose.Schema({
+  name: { type: String, required: true },
+  format: {
+    type: String,
+    enum: ["swiss", "knockout", "arena"],
+    required: true,
+  },
+  // rounds to play: chosen for Swiss, set from the field for knockout
+  roundCount: { type: Number, default: null },
+  // arena only: minutes it lasts, and when it ends once started
+  duration: { type: Number, default: null },
+  endsAt: { type: Date, default: null },
+  timeControl: { type: mongoose.Schema.Types.Mixed, default: null },
+  rules: { type: mongoose.Schema.Types.Mixed, default: null },
+  boardSize: Number,
+  rated: { type: Boolean, default: false },
+  createdBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+  createdAt: { type: Date, default: Date.now },
+  // registering, running or finished
+  status: { type: String, default: "registering" },
+  startedAt: { type: Date, default: null },
+  endedAt: { type: Date, default: null },
+  players: [EntrySchema],
+  rounds: [RoundSchema],
+  games: [ArenaGameSchema],
+});
+
+TournamentSchema.index({ status: 1 });
+
+TournamentSchema.index({ createdAt: -1 });
+
+export default mongoose.models.Tournament ||
+  mongoose.model("Tournament", TournamentSchema);
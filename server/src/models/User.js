@@ -6,8 +6,17 @@ const UserSchema = new mongoose.Schema({
   googleId: { type: String, index: true, sparse: true },
   email: { type: String, sparse: true },
   avatar: { type: String },
+  // Elo rating (RATING_ENGINE=elo, see src/ratings)
   elo: { type: Number, default: 1200 },
+  // Glicko-2 rating, deviation and volatility (RATING_ENGINE=glicko2)
+  rating: { type: Number, default: 1500 },
+  rd: { type: Number, default: 350 },
+  volatility: { type: Number, default: 0.06 },
+  // last rating change (game or season reset), for the Glicko-2 RD decay
+  ratedAt: { type: Date },
   gamesPlayed: { type: Number, default: 0 },
+  // last season whose end reset this user's rating (see src/ratings/rollover.js)
+  lastSeasonReset: { type: String, default: null },
   createdAt: { type: Date, default: Date.now },
 });
 
@@ -0,0 +1,61 @@
+// Elo: one number per player (the `elo` field). New players move faster:
+// K = 40 for their first 30 rated games, then 32. A player is provisional
+// during those first games.
+
+export const DEFAULT_ELO = 1200;
+const PROVISIONAL_GAMES = 30;
+
+export function expectedRating(rA, rB) {
+  return 1 / (1 + Math.pow(10, (rB - rA) / 400));
+}
+
+export function newRating(rA, rB, scoreA, k = 32) {
+  const eA = expectedRating(rA, rB);
+  return Math.round(rA + k * (scoreA - eA));
+}
+
+function getKFactor(gamesPlayed) {
+  // Higher K for provisional players
+  if (gamesPlayed < PROVISIONAL_GAMES) return 40;
+  return 32;
+}
+
+export const eloEngine = {
+  name: "elo",
+  // user field holding the rating (used to sort leaderboards)
+  field: "elo",
+
+  describe(user) {
+    return {
+      rating: user.elo || DEFAULT_ELO,
+      rd: null,
+      provisional: (user.gamesPlayed || 0) < PROVISIONAL_GAMES,
+    };
+  },
+
+  rate(userA, userB, scoreA) {
+    const beforeA = userA.elo || DEFAULT_ELO;
+    const beforeB = userB.elo || DEFAULT_ELO;
+    const afterA = newRating(
+      beforeA,
+      beforeB,
+      scoreA,
+      getKFactor(userA.gamesPlayed || 0)
+    );
+    const afterB = newRating(
+      beforeB,
+      beforeA,
+      1 - scoreA,
+      getKFactor(userB.gamesPlayed || 0)
+    );
+    return [
+      { before: beforeA, after: afterA, set: { elo: afterA } },
+      { before: beforeB, after: afterB, set: { elo: afterB } },
+    ];
+  },
+
+  seasonReset(user, factor) {
+    const elo = user.elo || DEFAULT_ELO;
+    return { elo: Math.round(DEFAULT_ELO + (elo - DEFAULT_ELO) * factor) };
+  },
+};
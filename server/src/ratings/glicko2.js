@@ -0,0 +1,107 @@
+import GlickoPkg from "glicko2";
+
+// glicko2 package may export a default or named Glicko2 class depending on bundler
+const Glicko2 = GlickoPkg?.Glicko2 || GlickoPkg?.default || GlickoPkg;
+
+// Glicko-2: a rating, a rating deviation (RD: how uncertain the rating is)
+// and a volatility per player (the `rating`, `rd` and `volatility` fields).
+// Every rated game is its own rating period.
+//
+// While a player does not play, their RD grows back towards the starting 350
+// by one rating period's worth every RATING_PERIOD_DAYS (default 7), so the
+// rating of a returning player moves faster again. A player is provisional
+// while their RD is above PROVISIONAL_RD (default 110).
+
+const SETTINGS = {
+  tau: 0.5, // system constant (0.3-1.2 recommended)
+  rating: 1500, // initial rating
+  rd: 350, // initial RD
+  vol: 0.06, // initial volatility
+};
+
+// Glicko-2 works on a scale where 1500 ± 173.7178 is 0 ± 1
+const GLICKO_SCALE = 173.7178;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const readNumber = (name, fallback) => {
+  const v = Number.parseFloat(process.env[name] || "");
+  return Number.isFinite(v) && v > 0 ? v : fallback;
+};
+
+const RATING_PERIOD_MS = readNumber("RATING_PERIOD_DAYS", 7) * DAY_MS;
+const PROVISIONAL_RD = readNumber("PROVISIONAL_RD", 110);
+
+/**
+ * RD of a player who last played a rated game at `ratedAt`, after the rating
+ * periods since then without games (Glicko-2 step 6 once per period).
+ */
+export function decayedRd(rd, volatility, ratedAt, now = Date.now()) {
+  if (!ratedAt) return rd;
+  const periods = Math.floor(
+    (now - new Date(ratedAt).getTime()) / RATING_PERIOD_MS
+  );
+  if (!(periods > 0)) return rd;
+  const phi = rd / GLICKO_SCALE;
+  const grown = Math.sqrt(phi * phi + periods * volatility * volatility);
+  return Math.min(SETTINGS.rd, grown * GLICKO_SCALE);
+}
+
+// Current values of a user, with the RD grown for inactivity
+function current(user, now) {
+  const volatility = user.volatility ?? SETTINGS.vol;
+  return {
+    rating: user.rating ?? SETTINGS.rating,
+    rd: decayedRd(user.rd ?? SETTINGS.rd, volatility, user.ratedAt, now),
+    volatility,
+  };
+}
+
+export const glicko2Engine = {
+  name: "glicko2",
+  field: "rating",
+
+  describe(user, now = Date.now()) {
+    const { rating, rd } = current(user, now);
+    return {
+      rating: Math.round(rating),
+      rd: Math.round(rd),
+      provisional: rd > PROVISIONAL_RD,
+    };
+  },
+
+  rate(userA, userB, scoreA, now = Date.now()) {
+    const a = current(userA, now);
+    const b = current(userB, now);
+    // a fresh instance per game: Glicko2 keeps every player it creates
+    const glicko = new Glicko2(SETTINGS);
+    const playerA = glicko.makePlayer(a.rating, a.rd, a.volatility);
+    const playerB = glicko.makePlayer(b.rating, b.rd, b.volatility);
+    glicko.updateRatings([[playerA, playerB, scoreA]]);
+
+    return [
+      [a, playerA],
+      [b, playerB],
+    ].map(([before, player]) => ({
+      before: Math.round(before.rating),
+      after: Math.round(player.getRating()),
+      rdBefore: Math.round(before.rd),
+      rdAfter: Math.round(player.getRd()),
+      set: {
+        rating: player.getRating(),
+        rd: player.getRd(),
+        volatility: player.getVol(),
+      },
+    }));
+  },
+
+  // The rating moves towards the start as much as the RD moves back up
+  seasonReset(user, factor, now = Date.now()) {
+    const { rating, rd } = current(user, now);
+    return {
+      rating: SETTINGS.rating + (rating - SETTINGS.rating) * factor,
+      rd: rd + (SETTINGS.rd - rd) * (1 - factor),
+      // the RD above already includes the decay up to now
+      ratedAt: new Date(now),
+    };
+  },
+};
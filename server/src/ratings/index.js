@@ -0,0 +1,141 @@
+import * as storage from "../storage/index.js";
+import { eloEngine } from "./elo.js";
+import { glicko2Engine } from "./glicko2.js";
+import { seasonAt } from "./seasons.js";
+
+// Rating engine for rated games, chosen per deployment with RATING_ENGINE:
+// - elo (default): see elo.js
+// - glicko2:       see glicko2.js
+// Both engines offer:
+// - name, and field: the user field holding the rating (for sorting)
+// - describe(user, now) -> { rating, rd, provisional } as shown to players
+//   (rd is null for Elo)
+// - rate(userA, userB, scoreA, now) -> one change per player:
+//   { before, after, rdBefore?, rdAfter?, set } where `set` holds the user
+//   fields to store
+// - seasonReset(user, factor, now) -> the user fields to store when a season
+//   ends: the rating keeps `factor` of its distance from the starting rating
+
+const ENGINES = { elo: eloEngine, glicko2: glicko2Engine };
+
+function pickEngine() {
+  const name = process.env.RATING_ENGINE || "elo";
+  if (ENGINES[name]) return ENGINES[name];
+  console.warn(`⚠️ Unknown RATING_ENGINE=${name}; using elo`);
+  return eloEngine;
+}
+
+export const ratingEngine = pickEngine();
+
+/**
+ * Rating fields of a user for client payloads:
+ * { elo, rd, provisional }, where `elo` is the rating of the active engine
+ * (the name is kept for the existing clients). Guests (no user) get nulls.
+ */
+export function ratingFields(user, now = Date.now()) {
+  if (!user) return { elo: null, rd: null, provisional: false };
+  const { rating, rd, provisional } = ratingEngine.describe(user, now);
+  return { elo: rating, rd, provisional };
+}
+
+const resultFor = (score) =>
+  score === 1 ? "win" : score === 0 ? "loss" : "draw";
+
+/**
+ * Update ratings for a finished match between two users (ids of the seat owners).
+ * - If isDraw === true, both players get score 0.5.
+ * - If winnerUserId is provided, that player gets 1, the other 0.
+ * Users are never created here: if either seat has no persisted user (guest)
+ * the match is not rated.
+ * Stores a history row per player and emits 'elo-updated' and
+ * 'rating-updated' to the room with the new ratings.
+ */
+export async function updateRatingsForMatch(
+  io,
+  roomId,
+  userIdA,
+  userIdB,
+  winnerUserId = null,
+  isDraw = false
+) {
+  try {
+    // both seats need a distinct signed-in user
+    if (!userIdA || !userIdB || String(userIdA) === String(userIdB)) {
+      return null;
+    }
+    const [userA, userB] = await Promise.all([
+      storage.users.findById(userIdA),
+      storage.users.findById(userIdB),
+    ]);
+    if (!userA || !userB) return null;
+
+    let scoreA;
+    if (isDraw) scoreA = 0.5;
+    else if (String(winnerUserId) === String(userA._id)) scoreA = 1;
+    else if (String(winnerUserId) === String(userB._id)) scoreA = 0;
+    else return null; // No winner info; do nothing
+
+    const now = Date.now();
+    const [changeA, changeB] = ratingEngine.rate(userA, userB, scoreA, now);
+    const ratedAt = new Date(now);
+
+    // Persist updates
+    const [updatedA, updatedB] = await Promise.all([
+      storage.users.update(userA._id, {
+        set: { ...changeA.set, ratedAt },
+        inc: { gamesPlayed: 1 },
+      }),
+      storage.users.update(userB._id, {
+        set: { ...changeB.set, ratedAt },
+        inc: { gamesPlayed: 1 },
+      }),
+    ]);
+
+    const sides = [
+      { user: userA, opponent: userB, change: changeA, score: scoreA },
+      { user: userB, opponent: userA, change: changeB, score: 1 - scoreA },
+    ];
+
+    // Save history
+    await storage.eloHistory.createMany(
+      sides.map(({ user, opponent, change, score }) => ({
+        userId: user._id,
+        opponentId: opponent._id,
+        engine: ratingEngine.name,
+        before: change.before,
+        after: change.after,
+        change: change.after - change.before,
+        rdBefore: change.rdBefore,
+        rdAfter: change.rdAfter,
+        result: resultFor(score),
+        season: seasonAt(now)?.id ?? null,
+        timestamp: ratedAt,
+      }))
+    );
+
+    // Emit update to the room
+    const players = sides.map(({ user, change }, i) => ({
+      userId: String(user._id),
+      before: change.before,
+      after: change.after,
+      change: change.after - change.before,
+      rdBefore: change.rdBefore ?? null,
+      rdAfter: change.rdAfter ?? null,
+      provisional: ratingFields([updatedA, updatedB][i], now).provisional,
+    }));
+    io.to(roomId).emit("elo-updated", { engine: ratingEngine.name, players });
+    // Same payload under the generic name
+    io.to(roomId).emit("rating-updated", {
+      engine: ratingEngine.name,
+      players,
+    });
+
+    return {
+      userA: { before: changeA.before, after: changeA.after },
+      userB: { before: changeB.before, after: changeB.after },
+    };
+  } catch (err) {
+    console.error("Rating update failed", err);
+    return null;
+  }
+}
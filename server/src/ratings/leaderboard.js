@@ -0,0 +1,136 @@
+import * as storage from "../storage/index.js";
+import { ratingEngine, ratingFields } from "./index.js";
+
+// Leaderboard pages for GET /api/leaderboard.
+//
+// - all:   every user by current rating
+// - month: rating points gained since the 1st of this month (UTC), from the
+//          history rows of the current engine
+// - week:  the same since Monday 00:00 UTC
+//
+// Only players with LEADERBOARD_MIN_GAMES (default 5) rated games take part:
+// in total for "all", within the period otherwise. Ranks are positions, so
+// equal ratings still get distinct ranks (ties are ordered by user id).
+
+export const PERIODS = ["all", "month", "week"];
+export const MAX_PAGE_SIZE = 100;
+
+const readCount = (name, fallback) => {
+  const v = Number.parseInt(process.env[name] || "", 10);
+  return Number.isFinite(v) && v >= 0 ? v : fallback;
+};
+
+export const MIN_GAMES = readCount("LEADERBOARD_MIN_GAMES", 5);
+
+// Start of the period containing `now`, or null for all-time
+export function periodStart(period, now = Date.now()) {
+  const d = new Date(now);
+  if (period === "month") {
+    return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1));
+  }
+  if (period === "week") {
+    const sinceMonday = (d.getUTCDay() + 6) % 7;
+    return new Date(
+      Date.UTC(
+        d.getUTCFullYear(),
+        d.getUTCMonth(),
+        d.getUTCDate() - sinceMonday
+      )
+    );
+  }
+  return null;
+}
+
+const entry = (rank, user, extra) => ({
+  rank,
+  userId: String(user._id),
+  name: user.name || `Player ${String(user._id).slice(0, 6)}`,
+  avatar: user.avatar || null,
+  ...ratingFields(user),
+  ...extra,
+});
+
+async function allTimePage({ offset, pageSize, userId }) {
+  const field = ratingEngine.field;
+  const [{ total, users }, myRank] = await Promise.all([
+    storage.users.leaderboard(field, {
+      minGames: MIN_GAMES,
+      offset,
+      limit: pageSize,
+    }),
+    userId
+      ? storage.users.rankOf(field, userId, { minGames: MIN_GAMES })
+      : null,
+  ]);
+  const players = users.map((u, i) =>
+    entry(offset + i + 1, u, { games: u.gamesPlayed || 0 })
+  );
+  let me = null;
+  if (myRank) {
+    const u = await storage.users.findById(userId);
+    me = entry(myRank, u, { games: u.gamesPlayed || 0 });
+  }
+  return { total, players, me };
+}
+
+async function periodPage({ since, offset, pageSize, userId }) {
+  const totals = (
+    await storage.eloHistory.totals({ since, engine: ratingEngine.name })
+  )
+    .filter((t) => t.games >= MIN_GAMES)
+    .sort(
+      (a, b) =>
+        b.gain - a.gain ||
+        b.rating - a.rating ||
+        (a.userId < b.userId ? -1 : 1)
+    );
+  const myIndex = userId
+    ? totals.findIndex((t) => t.userId === String(userId))
+    : -1;
+  const mine = myIndex === -1 ? null : totals[myIndex];
+  const shown = totals.slice(offset, offset + pageSize);
+  const users = await storage.users.findByIds(
+    (mine ? [...shown, mine] : shown).map((t) => t.userId)
+  );
+  const byId = new Map(users.map((u) => [String(u._id), u]));
+  const toEntry = (t, rank) => {
+    const u = byId.get(t.userId);
+    return u ? entry(rank, u, { games: t.games, gain: t.gain }) : null;
+  };
+  return {
+    total: totals.length,
+    players: shown.map((t, i) => toEntry(t, offset + i + 1)).filter(Boolean),
+    me: mine && toEntry(mine, myIndex + 1),
+  };
+}
+
+/**
+ * One leaderboard page: { period, since, minGames, page, pageSize, pages,
+ * total, players, me }. Each player is { rank, userId, name, avatar, elo, rd,
+ * provisional, games } plus `gain` for month/week. `me` is the entry of
+ * `userId` (wherever it ranks) or null when that user is not ranked.
+ */
+export async function leaderboardPage({
+  period = "all",
+  page = 1,
+  pageSize = 50,
+  userId = null,
+  now = Date.now(),
+}) {
+  const offset = (page - 1) * pageSize;
+  const since = periodStart(period, now);
+  const result = since
+    ? await periodPage({ since, offset, pageSize, userId })
+    : await allTimePage({ offset, pageSize, userId });
+  // the page to open to see `me` in the list
+  if (result.me) result.me.page = Math.ceil(result.me.rank / pageSize);
+  return {
+    period,
+    since,
+    minGames: MIN_GAMES,
+    page,
+    pageSize,
+    pages: Math.max(1, Math.ceil(result.total / pageSize)),
+    ...result,
+  };
+}
@@ -0,0 +1,93 @@
+import * as storage from "../storage/index.js";
+import { ratingEngine } from "./index.js";
+import { MIN_GAMES } from "./leaderboard.js";
+import { seasonAt, badgeFor } from "./seasons.js";
+
+// Season rollover, run by the scheduler in index.js. When a stored season has
+// ended:
+// 1. its final standings are archived: every player with MIN_GAMES rated
+//    games in the season (LEADERBOARD_MIN_GAMES), ranked by their last rating
+//    of the season, with a badge for their rank
+// 2. every rated player gets a soft reset: the rating keeps
+//    SEASON_RESET_FACTOR (default 0.5) of its distance from the starting
+//    rating, so the new season starts closer together without wiping it out
+// 3. the season is marked archived
+// Then the season running now (if any) is recorded as started.
+//
+// Each step can run again after a crash: standings are replaced, and a user
+// already reset for a season (lastSeasonReset) is skipped.
+
+const readFactor = () => {
+  const v = Number.parseFloat(process.env.SEASON_RESET_FACTOR || "");
+  return Number.isFinite(v) && v >= 0 && v <= 1 ? v : 0.5;
+};
+
+export const SEASON_RESET_FACTOR = readFactor();
+
+async function archiveStandings(season) {
+  const totals = (
+    await storage.eloHistory.totals({
+      season: season._id,
+      engine: ratingEngine.name,
+    })
+  )
+    .filter((t) => t.games >= MIN_GAMES)
+    .sort(
+      (a, b) =>
+        b.rating - a.rating ||
+        b.games - a.games ||
+        (a.userId < b.userId ? -1 : 1)
+    );
+  const users = await storage.users.findByIds(totals.map((t) => t.userId));
+  const byId = new Map(users.map((u) => [String(u._id), u]));
+  const standings = totals.map((t, i) => ({
+    userId: t.userId,
+    rank: i + 1,
+    badge: badgeFor(i + 1),
+    name: byId.get(t.userId)?.name || null,
+    avatar: byId.get(t.userId)?.avatar || null,
+    rating: Math.round(t.rating),
+    games: t.games,
+    wins: t.wins,
+    losses: t.losses,
+    draws: t.draws,
+  }));
+  await storage.seasonStandings.replace(season._id, standings);
+  return standings.length;
+}
+
+async function resetRatings(season, now) {
+  let reset = 0;
+  for (const user of await storage.users.findRated()) {
+    if (user.lastSeasonReset === season._id) continue;
+    await storage.users.update(user._id, {
+      set: {
+        ...ratingEngine.seasonReset(user, SEASON_RESET_FACTOR, now),
+        lastSeasonReset: season._id,
+      },
+    });
+    reset += 1;
+  }
+  return reset;
+}
+
+/**
+ * Archive every stored season that is over and record the current one.
+ * Returns the ids of the seasons archived.
+ */
+export async function rollOverSeasons(now = Date.now()) {
+  const current = seasonAt(now);
+  const archived = [];
+  for (const season of await storage.seasons.findOpen()) {
+    if (season._id === current?.id) continue;
+    const ranked = await archiveStandings(season);
+    const reset = await resetRatings(season, now);
+    await storage.seasons.archive(season._id, new Date(now));
+    console.log(
+      `🏁 Season ${season._id} archived: ${ranked} ranked, ${reset} ratings reset`
+    );
+    archived.push(season._id);
+  }
+  if (current) await storage.seasons.start(current);
+  return archived;
+}
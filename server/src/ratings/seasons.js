@@ -0,0 +1,72 @@
+// Ranked seasons: the calendar and the badges earned by final standings.
+// The rollover at the end of a season (final standings, soft reset) is in
+// rollover.js.
+//
+// Seasons come from one of:
+// - SEASONS: a JSON list such as
+//   [{"id": "s1", "name": "Season 1", "start": "2026-01-01", "end": "2026-04-01"}]
+//   Between the listed seasons there is no season: games are still rated but
+//   belong to none.
+// - SEASON_MONTHS (default 3): back to back calendar seasons of that many
+//   months (a divisor of 12), starting on January 1st UTC. With 3 the seasons
+//   of 2026 are "2026-s1" (January-March) to "2026-s4". 0 turns seasons off.
+
+const parseList = (json) => {
+  try {
+    const list = JSON.parse(json);
+    if (!Array.isArray(list)) throw new Error("SEASONS must be a list");
+    return list.map((s) => {
+      const startsAt = new Date(s.start);
+      const endsAt = new Date(s.end);
+      if (!s.id || !(startsAt < endsAt)) {
+        throw new Error(`Invalid season ${JSON.stringify(s)}`);
+      }
+      const id = String(s.id);
+      return { id, name: s.name || id, startsAt, endsAt };
+    });
+  } catch (e) {
+    console.error("⚠️ Ignoring SEASONS", e);
+    return null;
+  }
+};
+
+const readMonths = () => {
+  const v = Number.parseInt(process.env.SEASON_MONTHS || "", 10);
+  if (v === 0 || (v > 0 && 12 % v === 0)) return v;
+  if (process.env.SEASON_MONTHS) {
+    console.warn("⚠️ SEASON_MONTHS must divide 12; using 3");
+  }
+  return 3;
+};
+
+const LISTED = process.env.SEASONS ? parseList(process.env.SEASONS) : null;
+const SEASON_MONTHS = readMonths();
+
+function calendarSeason(now) {
+  if (!SEASON_MONTHS) return null;
+  const d = new Date(now);
+  const year = d.getUTCFullYear();
+  const index = Math.floor(d.getUTCMonth() / SEASON_MONTHS);
+  return {
+    id: `${year}-s${index + 1}`,
+    name: `${year} S${index + 1}`,
+    startsAt: new Date(Date.UTC(year, index * SEASON_MONTHS, 1)),
+    endsAt: new Date(Date.UTC(year, (index + 1) * SEASON_MONTHS, 1)),
+  };
+}
+
+/** The season running at `now`: { id, name, startsAt, endsAt } or null. */
+export function seasonAt(now = Date.now()) {
+  if (!LISTED) return calendarSeason(now);
+  const t = new Date(now);
+  return LISTED.find((s) => s.startsAt <= t && t < s.endsAt) || null;
+}
+
+// Badge for a final rank: champion (1st), podium (2nd-3rd), top10, or ranked
+// for every other player in the final standings
+export function badgeFor(rank) {
+  if (rank === 1) return "champion";
+  if (rank <= 3) return "podium";
+  if (rank <= 10) return "top10";
+  return "ranked";
+}
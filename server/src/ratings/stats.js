@@ -0,0 +1,63 @@
+// Aggregates over a user's rating history rows (storage eloHistory.findByUser,
+// oldest first) for the profile: results, streaks, best rating and the
+// opponents played most. A draw ends any streak.
+
+const TOP_OPPONENTS = 5;
+
+const RESULT_KEYS = { win: "wins", loss: "losses", draw: "draws" };
+
+export function ratingStats(rows) {
+  const stats = {
+    games: rows.length,
+    wins: 0,
+    losses: 0,
+    draws: 0,
+    // the run the user is on now, e.g. { result: "win", length: 3 }
+    currentStreak: null,
+    longestWinStreak: 0,
+    longestLossStreak: 0,
+    bestRating: null, // { rating, at }
+    opponents: [],
+  };
+  const opponents = new Map();
+  let streak = null;
+
+  for (const row of rows) {
+    const key = RESULT_KEYS[row.result];
+    if (!key) continue;
+    stats[key] += 1;
+
+    if (streak && streak.result === row.result) streak.length += 1;
+    else streak = { result: row.result, length: 1 };
+    if (streak.result === "win") {
+      stats.longestWinStreak = Math.max(stats.longestWinStreak, streak.length);
+    } else if (streak.result === "loss") {
+      stats.longestLossStreak = Math.max(
+        stats.longestLossStreak,
+        streak.length
+      );
+    }
+
+    if (!stats.bestRating || row.after > stats.bestRating.rating) {
+      stats.bestRating = { rating: row.after, at: row.timestamp };
+    }
+
+    const opponentId = String(row.opponentId);
+    const record = opponents.get(opponentId) || {
+      userId: opponentId,
+      games: 0,
+      wins: 0,
+      losses: 0,
+      draws: 0,
+    };
+    record.games += 1;
+    record[key] += 1;
+    opponents.set(opponentId, record);
+  }
+
+  stats.currentStreak = streak && streak.result !== "draw" ? streak : null;
+  stats.opponents = Array.from(opponents.values())
+    .sort((a, b) => b.games - a.games)
+    .slice(0, TOP_OPPONENTS);
+  return stats;
+}
@@ -0,0 +1,80 @@
+import gameManager from "./gameManager.js";
+import * as storage from "./storage/index.js";
+
+// Durable snapshots of open rooms, so a deploy or crash does not drop the
+// games in progress.
+//
+// The socket layer calls saveRoom after every change to a room (create, join,
+// start, each move, game end) and forgetRoom when the room is removed. On boot
+// restoreRooms loads every snapshot back into the game manager; players get
+// their seats back through request-room-state / join-room (see reclaimSeat in
+// index.js). Writes for one room run one after another so an older snapshot
+// never overwrites a newer one.
+
+// roomId -> promise of the last queued write for that room
+const writes = new Map();
+// set by flushRooms: no snapshot is written once the server is shutting down
+let stopped = false;
+
+function queue(roomId, task) {
+  const previous = writes.get(roomId) || Promise.resolve();
+  const next = previous
+    .then(task)
+    .catch((e) => console.error(`Failed to write snapshot of ${roomId}`, e))
+    .finally(() => {
+      if (writes.get(roomId) === next) writes.delete(roomId);
+    });
+  writes.set(roomId, next);
+  return next;
+}
+
+// Share the room as it is now with the other nodes and write a snapshot of it
+// in the background
+export function saveRoom(roomId) {
+  gameManager.shareRoom(roomId);
+  if (stopped) return;
+  const snapshot = gameManager.snapshotRoom(roomId);
+  if (!snapshot) return;
+  return queue(roomId, () => storage.liveRooms.save(roomId, snapshot));
+}
+
+export function forgetRoom(roomId) {
+  if (stopped) return;
+  return queue(roomId, () => storage.liveRooms.remove(roomId));
+}
+
+/**
+ * Load every stored snapshot into the game manager.
+ * Returns the restored game states.
+ */
+export async function restoreRooms() {
+  let snapshots = [];
+  try {
+    snapshots = await storage.liveRooms.all();
+  } catch (e) {
+    console.error("Failed to load room snapshots", e);
+    return [];
+  }
+  const restored = [];
+  for (const snapshot of snapshots) {
+    try {
+      if (!snapshot?.roomId || gameManager.getRoom(snapshot.roomId)) continue;
+      restored.push(gameManager.restoreRoom(snapshot));
+    } catch (e) {
+      console.error("Failed to restore room", snapshot?.roomId, e);
+    }
+  }
+  return restored;
+}
+
+/**
+ * Write a final snapshot of every open room and wait until all writes are
+ * done. Later saveRoom/forgetRoom calls are ignored, so the disconnects that
+ * follow a shutdown do not overwrite the saved seats.
+ */
+export async function flushRooms() {
+  for (const roomId of gameManager.rooms.keys()) saveRoom(roomId);
+  stopped = true;
+  await Promise.all(writes.values());
+  await storage.flush();
+}
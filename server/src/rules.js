@@ -0,0 +1,98 @@
+// Per-room rule sets.
+//
+// A rule set is a plain object stored on the game state (gameState.rules):
+// - overline:       a run of six or more counts as a win
+// - blockedEnds:    "chặn hai đầu" - a five whose both ends are blocked by
+//                   opponent stones does not win
+// - openRule:       the round starter's second move must keep a distance
+//                   (Manhattan) of at least openDistance from their first
+// - openDistance:   see openRule
+// - lockedCells:    how many locked cells are placed each round (0 disables
+//                   the first-move ring as well)
+//
+// Presets give the common variants a name; clients may pick a preset and
+// override individual fields.
+
+export const DEFAULT_RULES = {
+  preset: "standard",
+  overline: true,
+  blockedEnds: false,
+  openRule: true,
+  openDistance: 4,
+  lockedCells: 3,
+};
+
+export const RULE_PRESETS = {
+  // the original ZCaro rules
+  standard: { ...DEFAULT_RULES },
+  "free-style": {
+    preset: "free-style",
+    overline: true,
+    blockedEnds: false,
+    openRule: false,
+    openDistance: 4,
+    lockedCells: 3,
+  },
+  "exact-five": {
+    preset: "exact-five",
+    overline: false,
+    blockedEnds: false,
+    openRule: true,
+    openDistance: 4,
+    lockedCells: 3,
+  },
+  "blocked-ends": {
+    preset: "blocked-ends",
+    overline: true,
+    blockedEnds: true,
+    openRule: true,
+    openDistance: 4,
+    lockedCells: 3,
+  },
+  "renju-like": {
+    preset: "renju-like",
+    overline: false,
+    blockedEnds: true,
+    openRule: true,
+    openDistance: 5,
+    lockedCells: 3,
+  },
+};
+
+const MIN_OPEN_DISTANCE = 2;
+const MAX_OPEN_DISTANCE = 8;
+const MAX_LOCKED_CELLS = 5;
+
+const clampInt = (v, min, max, fallback) => {
+  const n = Number(v);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, Math.floor(n)));
+};
+
+// Build a complete rule set from a client request ({ preset?, ...overrides }).
+// Unknown presets fall back to the default rules; invalid fields are ignored.
+export function normalizeRules(input) {
+  // own keys only: "toString" or "__proto__" are no presets
+  const base = Object.hasOwn(RULE_PRESETS, input?.preset)
+    ? RULE_PRESETS[input.preset]
+    : DEFAULT_RULES;
+  const pickBool = (v, fallback) => (typeof v === "boolean" ? v : fallback);
+  return {
+    preset: base.preset,
+    overline: pickBool(input?.overline, base.overline),
+    blockedEnds: pickBool(input?.blockedEnds, base.blockedEnds),
+    openRule: pickBool(input?.openRule, base.openRule),
+    openDistance: clampInt(
+      input?.openDistance,
+      MIN_OPEN_DISTANCE,
+      MAX_OPEN_DISTANCE,
+      base.openDistance
+    ),
+    lockedCells: clampInt(
+      input?.lockedCells,
+      0,
+      MAX_LOCKED_CELLS,
+      base.lockedCells
+    ),
+  };
+}
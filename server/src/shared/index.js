@@ -0,0 +1,44 @@
+import os from "os";
+import { createMemoryShared } from "./memory.js";
+
+// State shared between server nodes: the rooms, the matchmaking queue and the
+// online users (each a SharedMap, see sharedMap.js), locks, and the socket.io
+// adapter that routes broadcasts between nodes. SHARED_STORE picks the
+// backend:
+// - redis:  a Redis-compatible server at REDIS_URL (the default when
+//           REDIS_URL is set); any number of nodes can run side by side
+// - memory: in-process, for a single node and tests (the default otherwise)
+// NODE_ID names this node (default: host name and port). Keep it stable across
+// restarts so entries left behind by a crashed run are cleaned up on boot.
+
+async function createShared() {
+  const nodeId =
+    process.env.NODE_ID || `${os.hostname()}:${process.env.PORT || 4000}`;
+  const kind =
+    process.env.SHARED_STORE || (process.env.REDIS_URL ? "redis" : "memory");
+  if (kind === "redis") {
+    if (process.env.REDIS_URL) {
+      const { createRedisShared } = await import("./redis.js");
+      return createRedisShared({ nodeId, url: process.env.REDIS_URL });
+    }
+    console.warn("⚠️ SHARED_STORE=redis needs REDIS_URL; using memory");
+  } else if (kind !== "memory") {
+    console.warn(`⚠️ Unknown SHARED_STORE=${kind}; using memory`);
+  }
+  return createMemoryShared({ nodeId });
+}
+
+const shared = await createShared();
+
+export const {
+  kind,
+  nodeId,
+  adapter,
+  hset,
+  hdel,
+  hgetall,
+  publish,
+  subscribe,
+  acquireLock,
+  close,
+} = shared;
@@ -0,0 +1,61 @@
+import { EventEmitter } from "events";
+
+// In-process shared store with the same interface as redis.js. Used for a
+// single server and in tests. Every store created in the process shares the
+// data below, so tests can run several "nodes" side by side.
+
+const hashes = new Map(); // hash -> Map(key -> string)
+const locks = new Map(); // name -> { owner, expiresAt }
+const bus = new EventEmitter();
+bus.setMaxListeners(0);
+
+export function createMemoryShared({ nodeId }) {
+  const listeners = [];
+
+  return {
+    kind: "memory",
+    nodeId,
+    // the default in-memory socket.io adapter is enough for one process
+    adapter: null,
+
+    async hset(hash, key, value) {
+      if (!hashes.has(hash)) hashes.set(hash, new Map());
+      hashes.get(hash).set(key, value);
+    },
+
+    async hdel(hash, key) {
+      hashes.get(hash)?.delete(key);
+    },
+
+    async hgetall(hash) {
+      return Object.fromEntries(hashes.get(hash) || []);
+    },
+
+    // Messages arrive asynchronously, as they would from Redis
+    async publish(channel, message) {
+      setImmediate(() => bus.emit(channel, message));
+    },
+
+    async subscribe(channel, handler) {
+      bus.on(channel, handler);
+      listeners.push([channel, handler]);
+    },
+
+    // Take or extend a named lock for `ttlMs`; false when another node holds it
+    async acquireLock(name, ttlMs) {
+      const now = Date.now();
+      const held = locks.get(name);
+      if (held && held.owner !== nodeId && held.expiresAt > now) return false;
+      locks.set(name, { owner: nodeId, expiresAt: now + ttlMs });
+      return true;
+    },
+
+    async close() {
+      for (const [channel, handler] of listeners) bus.off(channel, handler);
+      listeners.length = 0;
+      for (const [name, held] of locks) {
+        if (held.owner === nodeId) locks.delete(name);
+      }
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import { createClient } from "redis";
+import { createAdapter } from "@socket.io/redis-adapter";
+
+// Shared store on Redis (or any server speaking the Redis protocol, such as
+// Valkey or KeyDB). Hashes hold the current entries, pub/sub carries the
+// changes, and the socket.io Redis adapter routes room broadcasts between
+// nodes. Every key is prefixed with REDIS_PREFIX (default "zcaro:").
+
+// Take the lock when it is free or already ours, and (re)set its expiry
+const LOCK_SCRIPT = `
+local owner = redis.call("GET", KEYS[1])
+if not owner or owner == ARGV[1] then
+  redis.call("SET", KEYS[1], ARGV[1], "PX", ARGV[2])
+  return 1
+end
+return 0
+`;
+
+export async function createRedisShared({ nodeId, url }) {
+  const prefix = process.env.REDIS_PREFIX || "zcaro:";
+  const client = createClient({ url });
+  client.on("error", (e) => console.error("Redis error", e));
+  // subscribed connections cannot send other commands
+  const subscriber = client.duplicate();
+  const adapterSubscriber = client.duplicate();
+  await Promise.all([
+    client.connect(),
+    subscriber.connect(),
+    adapterSubscriber.connect(),
+  ]);
+  console.log("✅ Redis connected");
+
+  return {
+    kind: "redis",
+    nodeId,
+    adapter: createAdapter(client, adapterSubscriber, {
+      key: `${prefix}socket.io`,
+    }),
+
+    async hset(hash, key, value) {
+      await client.hSet(prefix + hash, key, value);
+    },
+
+    async hdel(hash, key) {
+      await client.hDel(prefix + hash, key);
+    },
+
+    async hgetall(hash) {
+      return client.hGetAll(prefix + hash);
+    },
+
+    async publish(channel, message) {
+      await client.publish(prefix + channel, message);
+    },
+
+    async subscribe(channel, handler) {
+      await subscriber.subscribe(prefix + channel, handler);
+    },
+
+    async acquireLock(name, ttlMs) {
+      const taken = await client.eval(LOCK_SCRIPT, {
+        keys: [`${prefix}lock:${name}`],
+        arguments: [nodeId, String(ttlMs)],
+      });
+      return taken === 1;
+    },
+
+    async close() {
+      await Promise.allSettled([
+        subscriber.close(),
+        adapterSubscriber.close(),
+        client.close(),
+      ]);
+    },
+  };
+}
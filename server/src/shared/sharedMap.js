@@ -0,0 +1,131 @@
+// A Map whose entries are shared by every server node.
+//
+// Reads are local and synchronous, so code written against a plain Map keeps
+// working. Writes update the local copy at once, then are stored in the shared
+// store's hash `name` and published on channel `name`. The other nodes apply
+// the change to their own copy. Entries remember the node that last wrote
+// them (see ownKeys).
+//
+// Values are sent as JSON, so they must be plain data. Code that changes a
+// value in place calls publish(key) to share the new contents.
+
+export class SharedMap extends Map {
+  constructor(shared, name) {
+    super();
+    this.shared = shared;
+    this.name = name;
+    this.owners = new Map(); // key -> node id of the last writer
+    this.onRemoteChange = null;
+  }
+
+  /**
+   * Load the entries the other nodes already wrote and follow their changes.
+   * - onRemoteChange(key): called after another node changed or deleted a key
+   * - dropStale: delete entries written by an earlier run of this node (for
+   *   entries tied to connections, which did not survive the restart)
+   */
+  async attach({ onRemoteChange = null, dropStale = false } = {}) {
+    this.onRemoteChange = onRemoteChange;
+    await this.shared.subscribe(this.name, (message) => this.apply(message));
+    const stored = await this.shared.hgetall(this.name);
+    for (const [key, json] of Object.entries(stored)) {
+      if (super.has(key)) continue;
+      try {
+        const { node, value } = JSON.parse(json);
+        if (dropStale && node === this.shared.nodeId) {
+          await this.shared.hdel(this.name, key);
+          continue;
+        }
+        super.set(key, value);
+        this.owners.set(key, node);
+      } catch (e) {
+        console.error(`Ignoring unreadable ${this.name} entry ${key}`, e);
+      }
+    }
+    return this;
+  }
+
+  set(key, value) {
+    super.set(key, value);
+    this.publish(key);
+    return this;
+  }
+
+  delete(key) {
+    const had = super.delete(key);
+    if (had) {
+      this.owners.delete(key);
+      this.send({ op: "delete", key });
+    }
+    return had;
+  }
+
+  clear() {
+    for (const key of Array.from(this.keys())) this.delete(key);
+  }
+
+  // Share the current value of an entry (after changing it in place)
+  publish(key) {
+    if (!super.has(key)) return;
+    this.owners.set(key, this.shared.nodeId);
+    this.send({ op: "set", key, value: super.get(key) });
+  }
+
+  // Keys last written by this node
+  ownKeys() {
+    return Array.from(this.keys()).filter(
+      (key) => this.owners.get(key) === this.shared.nodeId
+    );
+  }
+
+  send(change) {
+    const node = this.shared.nodeId;
+    // serialize now: the value may change again before the writes run
+    const message = JSON.stringify({ ...change, node });
+    const write =
+      change.op === "set"
+        ? this.shared.hset(
+            this.name,
+            change.key,
+            JSON.stringify({ node, value: change.value })
+          )
+        : this.shared.hdel(this.name, change.key);
+    Promise.all([write, this.shared.publish(this.name, message)]).catch((e) =>
+      console.error(`Failed to share ${this.name} change`, e)
+    );
+  }
+
+  // Apply a change published by another node
+  apply(message) {
+    let change;
+    try {
+      change = JSON.parse(message);
+    } catch (e) {
+      console.error(`Ignoring unreadable ${this.name} message`, e);
+      return;
+    }
+    if (change.node === this.shared.nodeId) return;
+    const { key } = change;
+    if (change.op === "delete") {
+      super.delete(key);
+      this.owners.delete(key);
+    } else {
+      const current = super.get(key);
+      if (isObject(current) && isObject(change.value)) {
+        // update in place so code holding the object sees the new contents
+        for (const field of Object.keys(current)) delete current[field];
+        Object.assign(current, change.value);
+      } else {
+        super.set(key, change.value);
+      }
+      this.owners.set(key, change.node);
+    }
+    try {
+      this.onRemoteChange?.(key);
+    } catch (e) {
+      console.error(`${this.name} change listener failed`, e);
+    }
+  }
+}
+
+const isObject = (v) => v !== null && typeof v === "object";
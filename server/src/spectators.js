@@ -0,0 +1,91 @@
+// Spectator delay and spectator chat.
+//
+// A room may show its game to spectators late, either by a number of moves
+// ({ moves: N }) or by a number of seconds ({ seconds: N }), so watchers
+// cannot coach the players live. Spectators also join their own socket.io
+// room (spectatorRoom) and chat there: while a game is being played the
+// players do not see those messages. Both channels are stored with the room's
+// chat and merged once the game is over.
+
+export const MAX_DELAY_MOVES = 20;
+export const MAX_DELAY_SECONDS = 300;
+
+// Chat channel of messages written by spectators (players' messages have none)
+export const SPECTATOR_CHANNEL = "spectators";
+
+// socket.io room holding the spectators of a game room
+export const spectatorRoom = (roomId) => `spectators:${roomId}`;
+
+// { moves } or { seconds } within bounds, or null for no delay
+export function normalizeSpectatorDelay(delay) {
+  const pick = (v, max) => {
+    const n = Number(v);
+    if (!Number.isFinite(n) || n < 1) return null;
+    return Math.min(Math.floor(n), max);
+  };
+  const moves = pick(delay?.moves, MAX_DELAY_MOVES);
+  if (moves) return { moves };
+  const seconds = pick(delay?.seconds, MAX_DELAY_SECONDS);
+  if (seconds) return { seconds };
+  return null;
+}
+
+// How long after a move spectators get to see it
+export const revealDelayMs = (gameState) =>
+  (gameState.spectatorDelay?.seconds || 0) * 1000;
+
+// Number of moves of the current round spectators may see at `now`. A
+// finished game is shown in full, except for the last seconds of a game
+// delayed by time.
+export function visibleMoveCount(gameState, now = Date.now()) {
+  const moves = Array.isArray(gameState.moves) ? gameState.moves : [];
+  const delay = gameState.spectatorDelay;
+  if (!delay || gameState.status === "waiting") return moves.length;
+  if (delay.moves) {
+    if (gameState.status === "finished") return moves.length;
+    return Math.max(0, moves.length - delay.moves);
+  }
+  const cutoff = now - delay.seconds * 1000;
+  let count = 0;
+  while (count < moves.length && moves[count].at <= cutoff) count++;
+  return count;
+}
+
+/**
+ * The game state as spectators see it at `now`: moves they may not see yet
+ * are taken off the board and the game still looks in progress. Returns the
+ * state itself when nothing is hidden.
+ */
+export function spectatorView(gameState, now = Date.now()) {
+  const moves = Array.isArray(gameState.moves) ? gameState.moves : [];
+  const visible = visibleMoveCount(gameState, now);
+  if (visible >= moves.length) return gameState;
+
+  const hidden = moves.slice(visible);
+  const board = gameState.board.map((row) => [...row]);
+  for (const { row, col } of hidden) board[row][col] = null;
+  return {
+    ...gameState,
+    board,
+    moves: moves.slice(0, visible),
+    moveCount: visible,
+    currentTurn: hidden[0].symbol,
+    status: "playing",
+    winner: null,
+    winningCells: [],
+  };
+}
+
+// Whether this socket is seated in the room (players see the game live)
+export const isSeated = (gameState, socketId) =>
+  [gameState?.players?.player1, gameState?.players?.player2].some(
+    (p) => p && p.socketId === socketId
+  );
+
+// The game state one socket may see: players see it live
+export const viewFor = (gameState, socketId, now = Date.now()) =>
+  isSeated(gameState, socketId) ? gameState : spectatorView(gameState, now);
+
+// Spectator messages are kept from the players while they play
+export const hidesSpectatorChat = (gameState, socketId) =>
+  gameState?.status === "playing" && isSeated(gameState, socketId);
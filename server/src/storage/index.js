@@ -0,0 +1,47 @@
+import { createMongoStorage } from "./mongo.js";
+import { createMemoryStorage } from "./memory.js";
+
+// Storage used by the socket handlers, REST routes, src/ratings and
+// gameRecords.js.
+// STORAGE picks the backend:
+// - mongo:  MongoDB at MONGO_URI (the default when MONGO_URI is set)
+// - memory: in-process, lost on restart (the default otherwise)
+// - file:   in-process, saved as JSON to STORAGE_FILE
+//           (default ./data/zcaro.json)
+// Every backend offers the same repositories: users, games, chatMessages,
+// eloHistory, liveRooms, seasons, seasonStandings, friendships, roomInvites
+// and tournaments (see mongo.js for the methods), plus flush() which resolves
+// once every change is written.
+
+function createStorage() {
+  const kind =
+    process.env.STORAGE || (process.env.MONGO_URI ? "mongo" : "memory");
+  if (kind === "mongo") {
+    if (process.env.MONGO_URI) return createMongoStorage();
+    console.warn("⚠️ STORAGE=mongo needs MONGO_URI; using memory storage");
+  } else if (kind === "file") {
+    return createMemoryStorage({
+      file: process.env.STORAGE_FILE || "data/zcaro.json",
+    });
+  } else if (kind !== "memory") {
+    console.warn(`⚠️ Unknown STORAGE=${kind}; using in-memory storage`);
+  }
+  return createMemoryStorage();
+}
+
+const storage = createStorage();
+
+export const {
+  kind,
+  users,
+  games,
+  chatMessages,
+  eloHistory,
+  liveRooms,
+  seasons,
+  seasonStandings,
+  friendships,
+  roomInvites,
+  tournaments,
+  flush,
+} = storage;
@@ -0,0 +1,629 @@
+import fs from "fs";
+import path from "path";
+import mongoose from "mongoose";
+import { SPECTATOR_CHANNEL } from "../spectators.js";
+
+// In-process storage with the same interface as mongo.js, used when MongoDB
+// is not configured (local development and tests). Without `file` the data is
+// lost on restart; with `file` every change is written to that JSON file
+// (shortly after the change) and loaded again on startup.
+//
+// Ids have the ObjectId format so they are interchangeable with Mongo ids in
+// the REST API.
+
+// Fields stored as Date objects (JSON keeps them as ISO strings)
+const DATE_FIELDS = new Set([
+  "createdAt",
+  "startedAt",
+  "endedAt",
+  "timestamp",
+  "at",
+  "ratedAt",
+  "startsAt",
+  "endsAt",
+  "archivedAt",
+  "acceptedAt",
+  "expiresAt",
+  "revokedAt",
+]);
+
+const SAVE_DELAY_MS = 200;
+
+const newId = () => new mongoose.Types.ObjectId().toString();
+
+// structuredClone keeps Date objects, so callers never share our records
+const copy = (v) => (v == null ? null : structuredClone(v));
+
+function loadFile(file) {
+  try {
+    const text = fs.readFileSync(file, "utf8");
+    return JSON.parse(text, (key, value) =>
+      DATE_FIELDS.has(key) && typeof value === "string"
+        ? new Date(value)
+        : value
+    );
+  } catch (e) {
+    if (e.code !== "ENOENT") {
+      console.error(`Failed to load storage file ${file}`, e);
+    }
+    return null;
+  }
+}
+
+export function createMemoryStorage({ file = null } = {}) {
+  const data = {
+    users: [],
+    games: [],
+    chatMessages: [],
+    eloHistory: [],
+    liveRooms: {},
+    seasons: [],
+    seasonStandings: [],
+    friendships: [],
+    roomInvites: [],
+    tournaments: [],
+    ...(file ? loadFile(file) : null),
+  };
+
+  const save = async () => {
+    try {
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      // write then rename so a crash never leaves a half-written file
+      await fs.promises.writeFile(`${file}.tmp`, JSON.stringify(data));
+      await fs.promises.rename(`${file}.tmp`, file);
+    } catch (e) {
+      console.error(`Failed to save storage file ${file}`, e);
+    }
+  };
+
+  let saveTimer = null;
+  const changed = () => {
+    if (!file || saveTimer) return;
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      save();
+    }, SAVE_DELAY_MS);
+  };
+
+  const userById = (id) => data.users.find((u) => u._id === String(id));
+
+  // Users with at least `minGames` rated games, highest `field` first
+  const rankUsers = (field, minGames) =>
+    data.users
+      .filter((u) => (u.gamesPlayed || 0) >= minGames)
+      .sort(
+        (a, b) =>
+          (b[field] ?? 0) - (a[field] ?? 0) || (a._id < b._id ? -1 : 1)
+      );
+
+  const users = {
+    async findById(id) {
+      return copy(userById(id));
+    },
+
+    async findByIds(ids) {
+      const wanted = new Set(ids.map(String));
+      return data.users.filter((u) => wanted.has(u._id)).map(copy);
+    },
+
+    async findBySocketIds(socketIds) {
+      const wanted = new Set(socketIds);
+      return data.users.filter((u) => wanted.has(u.socketId)).map(copy);
+    },
+
+    async setSocketId(id, socketId) {
+      const u = userById(id);
+      if (!u) return null;
+      u.socketId = socketId;
+      changed();
+      return copy(u);
+    },
+
+    async upsertGoogleUser({ googleId, name, email, avatar }) {
+      const existing = data.users.find((u) => u.googleId === googleId);
+      if (existing) {
+        Object.assign(existing, { name, email, avatar });
+        changed();
+        return copy(existing);
+      }
+      return users.create({ googleId, name, email, avatar });
+    },
+
+    async leaderboard(field, { minGames = 0, offset = 0, limit }) {
+      const ranked = rankUsers(field, minGames);
+      return {
+        total: ranked.length,
+        users: ranked.slice(offset, offset + limit).map(copy),
+      };
+    },
+
+    async rankOf(field, id, { minGames = 0 } = {}) {
+      const index = rankUsers(field, minGames).findIndex(
+        (u) => u._id === String(id)
+      );
+      return index === -1 ? null : index + 1;
+    },
+
+    async findRated() {
+      return data.users.filter((u) => (u.gamesPlayed || 0) > 0).map(copy);
+    },
+
+    async update(id, { set = {}, inc } = {}) {
+      const u = userById(id);
+      if (!u) return null;
+      Object.assign(u, set);
+      for (const [field, by] of Object.entries(inc || {})) {
+        u[field] = (u[field] || 0) + by;
+      }
+      changed();
+      return copy(u);
+    },
+
+    // Add a user with the schema defaults (see models/User.js)
+    async create(fields) {
+      const u = {
+        elo: 1200,
+        rating: 1500,
+        rd: 350,
+        volatility: 0.06,
+        gamesPlayed: 0,
+        createdAt: new Date(),
+        ...copy(fields),
+        _id: newId(),
+      };
+      data.users.push(u);
+      changed();
+      return copy(u);
+    },
+  };
+
+  const games = {
+    async create(fields) {
+      const g = {
+        ...copy(fields),
+        _id: newId(),
+        playerIds: (fields.playerIds || []).map(String),
+      };
+      if (g.winnerId) g.winnerId = String(g.winnerId);
+      data.games.push(g);
+      changed();
+      return copy(g);
+    },
+
+    async findById(id) {
+      return copy(data.games.find((g) => g._id === String(id)));
+    },
+
+    async findByPlayer(userId, { limit, before } = {}) {
+      return data.games
+        .filter((g) => g.playerIds.includes(String(userId)))
+        .filter((g) => !before || g.endedAt < before)
+        .sort((a, b) => b.endedAt - a.endedAt)
+        .slice(0, limit)
+        .map(({ moves, ...rest }) => copy(rest));
+    },
+  };
+
+  const chatMessages = {
+    async create(fields) {
+      const m = {
+        timestamp: new Date(),
+        ...copy(fields),
+        _id: newId(),
+      };
+      if (m.userId) m.userId = String(m.userId);
+      data.chatMessages.push(m);
+      changed();
+      return copy(m);
+    },
+
+    async recent(roomId, limit, { spectators = true } = {}) {
+      return data.chatMessages
+        .filter((m) => m.roomId === roomId)
+        .filter((m) => spectators || m.channel !== SPECTATOR_CHANNEL)
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .slice(-limit)
+        .map(copy);
+    },
+
+    async between(roomId, from, to) {
+      return data.chatMessages
+        .filter(
+          (m) => m.roomId === roomId && m.timestamp >= from && m.timestamp <= to
+        )
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .map(copy);
+    },
+
+    async deleteByRoom(roomId) {
+      data.chatMessages = data.chatMessages.filter((m) => m.roomId !== roomId);
+      changed();
+    },
+  };
+
+  const eloHistory = {
+    async createMany(entries) {
+      for (const entry of entries) {
+        data.eloHistory.push({
+          timestamp: new Date(),
+          ...copy(entry),
+          _id: newId(),
+          userId: String(entry.userId),
+          opponentId: String(entry.opponentId),
+        });
+      }
+      changed();
+    },
+
+    async findByUser(userId, { engine, limit } = {}) {
+      const rows = data.eloHistory
+        .filter((r) => r.userId === String(userId))
+        .filter((r) => !engine || (r.engine || "elo") === engine)
+        .sort((a, b) => a.timestamp - b.timestamp);
+      return (limit ? rows.slice(-limit) : rows).map(copy);
+    },
+
+    async totals({ since, season, engine } = {}) {
+      const totals = new Map();
+      const countKeys = { win: "wins", loss: "losses", draw: "draws" };
+      data.eloHistory
+        .filter((r) => !since || r.timestamp >= since)
+        .filter((r) => !season || r.season === season)
+        .filter((r) => !engine || (r.engine || "elo") === engine)
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .forEach((r) => {
+          const t = totals.get(r.userId) || {
+            userId: r.userId,
+            games: 0,
+            wins: 0,
+            losses: 0,
+            draws: 0,
+            gain: 0,
+            rating: null,
+          };
+          t.games += 1;
+          if (countKeys[r.result]) t[countKeys[r.result]] += 1;
+          t.gain += r.change;
+          t.rating = r.after;
+          totals.set(r.userId, t);
+        });
+      return Array.from(totals.values());
+    },
+  };
+
+  const liveRooms = {
+    async save(roomId, state) {
+      data.liveRooms[roomId] = copy(state);
+      changed();
+    },
+
+    async remove(roomId) {
+      delete data.liveRooms[roomId];
+      changed();
+    },
+
+    async all() {
+      return Object.values(data.liveRooms).map(copy);
+    },
+  };
+
+  const seasons = {
+    async findById(id) {
+      return copy(data.seasons.find((s) => s._id === id));
+    },
+
+    async findOpen() {
+      return data.seasons
+        .filter((s) => !s.archivedAt)
+        .sort((a, b) => a.startsAt - b.startsAt)
+        .map(copy);
+    },
+
+    async archived() {
+      return data.seasons
+        .filter((s) => s.archivedAt)
+        .sort((a, b) => b.startsAt - a.startsAt)
+        .map(copy);
+    },
+
+    async start({ id, name, startsAt, endsAt }) {
+      if (data.seasons.some((s) => s._id === id)) return;
+      data.seasons.push({
+        _id: id,
+        name,
+        startsAt: new Date(startsAt),
+        endsAt: new Date(endsAt),
+        archivedAt: null,
+      });
+      changed();
+    },
+
+    async archive(id, archivedAt = new Date()) {
+      const s = data.seasons.find((x) => x._id === id);
+      if (!s) return;
+      s.archivedAt = archivedAt;
+      changed();
+    },
+  };
+
+  const seasonStandings = {
+    async replace(season, rows) {
+      data.seasonStandings = data.seasonStandings
+        .filter((r) => r.season !== season)
+        .concat(
+          rows.map((r) => ({
+            ...copy(r),
+            _id: newId(),
+            season,
+            userId: String(r.userId),
+          }))
+        );
+      changed();
+    },
+
+    async page(season, { offset = 0, limit }) {
+      const ranked = data.seasonStandings
+        .filter((r) => r.season === season)
+        .sort((a, b) => a.rank - b.rank);
+      return {
+        total: ranked.length,
+        standings: ranked.slice(offset, offset + limit).map(copy),
+      };
+    },
+
+    async find(season, userId) {
+      return copy(
+        data.seasonStandings.find(
+          (r) => r.season === season && r.userId === String(userId)
+        )
+      );
+    },
+
+    async findByUser(userId) {
+      return data.seasonStandings
+        .filter((r) => r.userId === String(userId))
+        .reverse()
+        .map(copy);
+    },
+  };
+
+  const friendships = {
+    async between(a, b) {
+      const pair = [String(a), String(b)];
+      return copy(
+        data.friendships.find(
+          (f) =>
+            (f.requester === pair[0] && f.recipient === pair[1]) ||
+            (f.requester === pair[1] && f.recipient === pair[0])
+        )
+      );
+    },
+
+    async findByUser(userId) {
+      const id = String(userId);
+      return data.friendships
+        .filter((f) => f.requester === id || f.recipient === id)
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .map(copy);
+    },
+
+    async create({ requester, recipient }) {
+      const f = {
+        _id: newId(),
+        requester: String(requester),
+        recipient: String(recipient),
+        status: "pending",
+        createdAt: new Date(),
+        acceptedAt: null,
+      };
+      data.friendships.push(f);
+      changed();
+      return copy(f);
+    },
+
+    async accept(id, acceptedAt = new Date()) {
+      const f = data.friendships.find((x) => x._id === String(id));
+      if (!f) return null;
+      Object.assign(f, { status: "accepted", acceptedAt });
+      changed();
+      return copy(f);
+    },
+
+    async remove(id) {
+      data.friendships = data.friendships.filter((f) => f._id !== String(id));
+      changed();
+    },
+  };
+
+  const roomInvites = {
+    async create({ token, ...fields }) {
+      const invite = {
+        createdAt: new Date(),
+        revokedAt: null,
+        ...copy(fields),
+        _id: token,
+      };
+      if (invite.createdBy) invite.createdBy = String(invite.createdBy);
+      data.roomInvites.push(invite);
+      changed();
+      return copy(invite);
+    },
+
+    async findByToken(token) {
+      return copy(data.roomInvites.find((i) => i._id === token));
+    },
+
+    async findActive(roomId, now = new Date()) {
+      const active = data.roomInvites.filter(
+        (i) => i.roomId === roomId && !i.revokedAt && i.expiresAt > now
+      );
+      return copy(active[active.length - 1]);
+    },
+
+    async revokeRoom(roomId, revokedAt = new Date()) {
+      for (const i of data.roomInvites) {
+        if (i.roomId === roomId && !i.revokedAt) i.revokedAt = revokedAt;
+      }
+      changed();
+    },
+  };
+
+  const tournamentById = (id) =>
+    data.tournaments.find((t) => t._id === String(id));
+
+  const tournaments = {
+    async create(fields) {
+      const t = {
+        roundCount: null,
+        rated: false,
+        createdAt: new Date(),
+        status: "registering",
+        startedAt: null,
+        endedAt: null,
+        players: [],
+        rounds: [],
+        games: [],
+        ...copy(fields),
+        _id: newId(),
+      };
+      if (t.createdBy) t.createdBy = String(t.createdBy);
+      data.tournaments.push(t);
+      changed();
+      return copy(t);
+    },
+
+    async findById(id) {
+      return copy(tournamentById(id));
+    },
+
+    async recent(limit) {
+      return [...data.tournaments]
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .slice(0, limit)
+        .map(copy);
+    },
+
+    async addPlayer(id, player, maxPlayers, statuses = ["registering"]) {
+      const t = tournamentById(id);
+      const userId = String(player.userId);
+      if (
+        !t ||
+        !statuses.includes(t.status) ||
+        t.players.length >= maxPlayers ||
+        t.players.some((p) => p.userId === userId)
+      ) {
+        return null;
+      }
+      t.players.push({ ...copy(player), userId });
+      changed();
+      return copy(t);
+    },
+
+    async removePlayer(id, userId) {
+      const t = tournamentById(id);
+      const i = t?.players.findIndex((p) => p.userId === String(userId));
+      if (!t || t.status !== "registering" || i === -1) return null;
+      t.players.splice(i, 1);
+      changed();
+      return copy(t);
+    },
+
+    async addRound(id, round, set = {}) {
+      const t = tournamentById(id);
+      if (!t || t.rounds.length !== round.number - 1) return null;
+      const pairings = round.pairings.map((p) => ({
+        roomId: null,
+        result: null,
+        forfeit: false,
+        ...copy(p),
+        X: String(p.X),
+        O: p.O ? String(p.O) : null,
+      }));
+      t.rounds.push({ startedAt: new Date(), ...copy(round), pairings });
+      Object.assign(t, copy(set));
+      changed();
+      return copy(t);
+    },
+
+    async start(id, set) {
+      const t = tournamentById(id);
+      if (!t || t.status !== "registering") return null;
+      Object.assign(t, copy(set), { status: "running" });
+      changed();
+      return copy(t);
+    },
+
+    async running() {
+      return data.tournaments.filter((t) => t.status === "running").map(copy);
+    },
+
+    async setRoom(id, number, board, roomId) {
+      const pairing = tournamentById(id)?.rounds[number - 1]?.pairings[board];
+      if (!pairing) return;
+      pairing.roomId = roomId;
+      changed();
+    },
+
+    async setResult(id, number, board, result, { forfeit = false } = {}) {
+      const t = tournamentById(id);
+      const pairing = t?.rounds[number - 1]?.pairings[board];
+      if (!pairing || pairing.result) return null;
+      Object.assign(pairing, { result, forfeit });
+      changed();
+      return copy(t);
+    },
+
+    async addGame(id, game) {
+      const t = tournamentById(id);
+      if (!t || t.status !== "running") return null;
+      t.games = t.games || [];
+      t.games.push({
+        result: null,
+        endedAt: null,
+        ...copy(game),
+        X: String(game.X),
+        O: String(game.O),
+      });
+      changed();
+      return copy(t);
+    },
+
+    async setGameResult(id, roomId, result, endedAt = new Date()) {
+      const t = tournamentById(id);
+      const game = t?.games?.find((g) => g.roomId === roomId);
+      if (!game || game.result || t.status !== "running") return null;
+      Object.assign(game, { result, endedAt });
+      changed();
+      return copy(t);
+    },
+
+    async finish(id, endedAt = new Date()) {
+      const t = tournamentById(id);
+      if (!t || t.status === "finished") return null;
+      Object.assign(t, { status: "finished", endedAt });
+      changed();
+      return copy(t);
+    },
+  };
+
+  return {
+    kind: file ? "file" : "memory",
+    users,
+    games,
+    chatMessages,
+    eloHistory,
+    liveRooms,
+    seasons,
+    seasonStandings,
+    friendships,
+    roomInvites,
+    tournaments,
+    // Write pending changes now instead of waiting for the batched save
+    async flush() {
+      if (!saveTimer) return;
+      clearTimeout(saveTimer);
+      saveTimer = null;
+      await save();
+    },
+  };
+}
@@ -0,0 +1,483 @@
+import User from "../models/User.js";
+import Game from "../models/Game.js";
+import ChatMessage from "../models/ChatMessage.js";
+import EloHistory from "../models/EloHistory.js";
+import LiveRoom from "../models/LiveRoom.js";
+import Season from "../models/Season.js";
+import SeasonStanding from "../models/SeasonStanding.js";
+import Friendship from "../models/Friendship.js";
+import RoomInvite from "../models/RoomInvite.js";
+import Tournament from "../models/Tournament.js";
+import { SPECTATOR_CHANNEL } from "../spectators.js";
+
+// Storage backed by the Mongo collections in src/models. Every method
+// resolves to plain objects (lean documents) or null.
+
+// Rating history rows of one engine. Rows written before there was a choice
+// of engine have none and are Elo.
+const engineFilter = (engine) =>
+  engine === "elo" ? { $in: ["elo", null] } : engine;
+
+// Users on the leaderboard: at least `minGames` rated games
+const eligible = (minGames) =>
+  minGames > 0 ? { gamesPlayed: { $gte: minGames } } : {};
+
+const users = {
+  async findById(id) {
+    return User.findById(id).lean();
+  },
+
+  async findByIds(ids) {
+    if (!ids.length) return [];
+    return User.find({ _id: { $in: ids } }).lean();
+  },
+
+  async findBySocketIds(socketIds) {
+    if (!socketIds.length) return [];
+    return User.find({ socketId: { $in: socketIds } }).lean();
+  },
+
+  // Remember the user's current socket; null when the user does not exist
+  async setSocketId(id, socketId) {
+    return User.findByIdAndUpdate(id, { socketId }, { new: true }).lean();
+  },
+
+  // Create or refresh the account for a Google identity
+  async upsertGoogleUser({ googleId, name, email, avatar }) {
+    return User.findOneAndUpdate(
+      { googleId },
+      {
+        $set: { name, email, avatar },
+        $setOnInsert: { elo: 1200, rating: 1500, rd: 350, volatility: 0.06 },
+      },
+      { upsert: true, new: true }
+    ).lean();
+  },
+
+  // One page of the users ranked by `field` (elo or rating, see src/ratings),
+  // highest first; equal ratings are ordered by id. Also returns how many
+  // users are ranked.
+  async leaderboard(field, { minGames = 0, offset = 0, limit }) {
+    const filter = eligible(minGames);
+    const [total, page] = await Promise.all([
+      User.countDocuments(filter),
+      User.find(filter)
+        .sort({ [field]: -1, _id: 1 })
+        .skip(offset)
+        .limit(limit)
+        .lean(),
+    ]);
+    return { total, users: page };
+  },
+
+  // 1-based position of a user in leaderboard(), or null when not ranked
+  async rankOf(field, id, { minGames = 0 } = {}) {
+    const u = await User.findById(id).lean();
+    if (!u || (u.gamesPlayed || 0) < minGames) return null;
+    const ahead = await User.countDocuments({
+      ...eligible(minGames),
+      $or: [
+        { [field]: { $gt: u[field] } },
+        { [field]: u[field], _id: { $lt: u._id } },
+      ],
+    });
+    return ahead + 1;
+  },
+
+  // Users with at least one rated game
+  async findRated() {
+    return User.find({ gamesPlayed: { $gt: 0 } }).lean();
+  },
+
+  // Apply `set` fields and `inc` counters to a user
+  async update(id, { set = {}, inc } = {}) {
+    const change = { $set: set };
+    if (inc) change.$inc = inc;
+    return User.findByIdAndUpdate(id, change, { new: true }).lean();
+  },
+
+  async create(fields) {
+    const doc = await User.create(fields);
+    return doc.toObject();
+  },
+};
+
+const games = {
+  async create(fields) {
+    const doc = await Game.create(fields);
+    return doc.toObject();
+  },
+
+  async findById(id) {
+    return Game.findById(id).lean();
+  },
+
+  // Finished games of a user, newest first, without move lists
+  async findByPlayer(userId, { limit, before } = {}) {
+    const filter = { playerIds: userId };
+    if (before) filter.endedAt = { $lt: before };
+    return Game.find(filter)
+      .sort({ endedAt: -1 })
+      .limit(limit)
+      .select("-moves")
+      .lean();
+  },
+};
+
+const chatMessages = {
+  async create(fields) {
+    const doc = await ChatMessage.create(fields);
+    return doc.toObject();
+  },
+
+  // The last `limit` messages of a room, oldest first. Without `spectators`,
+  // messages of the spectator channel are left out.
+  async recent(roomId, limit, { spectators = true } = {}) {
+    const filter = spectators
+      ? { roomId }
+      : { roomId, channel: { $ne: SPECTATOR_CHANNEL } };
+    const latest = await ChatMessage.find(filter)
+      .sort({ timestamp: -1 })
+      .limit(limit)
+      .lean();
+    return latest.reverse();
+  },
+
+  // Every message of a room written from `from` to `to`, oldest first
+  async between(roomId, from, to) {
+    return ChatMessage.find({ roomId, timestamp: { $gte: from, $lte: to } })
+      .sort({ timestamp: 1 })
+      .lean();
+  },
+
+  async deleteByRoom(roomId) {
+    await ChatMessage.deleteMany({ roomId });
+  },
+};
+
+const eloHistory = {
+  async createMany(entries) {
+    await EloHistory.create(entries);
+  },
+
+  // Rows of a user for one rating engine, oldest first (the last `limit` if
+  // given)
+  async findByUser(userId, { engine, limit } = {}) {
+    const filter = { userId };
+    if (engine) filter.engine = engineFilter(engine);
+    let query = EloHistory.find(filter).sort({ timestamp: -1 });
+    if (limit) query = query.limit(limit);
+    const latest = await query.lean();
+    return latest.reverse();
+  },
+
+  // Per user totals of the rows since `since` and/or of one `season`:
+  // { userId, games, wins, losses, draws, gain, rating } where gain is the
+  // sum of the changes and rating the latest one
+  async totals({ since, season, engine } = {}) {
+    const match = {};
+    if (since) match.timestamp = { $gte: since };
+    if (season) match.season = season;
+    if (engine) match.engine = engineFilter(engine);
+    const count = (result) => ({
+      $sum: { $cond: [{ $eq: ["$result", result] }, 1, 0] },
+    });
+    const totals = await EloHistory.aggregate([
+      { $match: match },
+      { $sort: { timestamp: 1 } },
+      {
+        $group: {
+          _id: "$userId",
+          games: { $sum: 1 },
+          wins: count("win"),
+          losses: count("loss"),
+          draws: count("draw"),
+          gain: { $sum: "$change" },
+          rating: { $last: "$after" },
+        },
+      },
+    ]);
+    return totals.map(({ _id, ...t }) => ({ userId: String(_id), ...t }));
+  },
+};
+
+// Snapshots of open rooms, keyed by room id (see src/roomSnapshots.js)
+const liveRooms = {
+  async save(roomId, state) {
+    await LiveRoom.replaceOne(
+      { _id: roomId },
+      { _id: roomId, state, updatedAt: new Date() },
+      { upsert: true }
+    );
+  },
+
+  async remove(roomId) {
+    await LiveRoom.deleteOne({ _id: roomId });
+  },
+
+  async all() {
+    const docs = await LiveRoom.find({}).lean();
+    return docs.map((d) => d.state);
+  },
+};
+
+// Ranked seasons the server has run (see src/ratings/rollover.js)
+const seasons = {
+  async findById(id) {
+    return Season.findById(id).lean();
+  },
+
+  // Seasons started but not archived yet
+  async findOpen() {
+    return Season.find({ archivedAt: null }).sort({ startsAt: 1 }).lean();
+  },
+
+  // Archived seasons, newest first
+  async archived() {
+    return Season.find({ archivedAt: { $ne: null } })
+      .sort({ startsAt: -1 })
+      .lean();
+  },
+
+  async start({ id, name, startsAt, endsAt }) {
+    await Season.updateOne(
+      { _id: id },
+      { $setOnInsert: { name, startsAt, endsAt, archivedAt: null } },
+      { upsert: true }
+    );
+  },
+
+  async archive(id, archivedAt = new Date()) {
+    await Season.updateOne({ _id: id }, { $set: { archivedAt } });
+  },
+};
+
+// Final standings of archived seasons
+const seasonStandings = {
+  // Replace the standings of a season (so an interrupted archive can rerun)
+  async replace(season, rows) {
+    await SeasonStanding.deleteMany({ season });
+    if (rows.length) {
+      await SeasonStanding.insertMany(rows.map((r) => ({ ...r, season })));
+    }
+  },
+
+  // One page by rank, and how many players the season ranked
+  async page(season, { offset = 0, limit }) {
+    const [total, standings] = await Promise.all([
+      SeasonStanding.countDocuments({ season }),
+      SeasonStanding.find({ season })
+        .sort({ rank: 1 })
+        .skip(offset)
+        .limit(limit)
+        .lean(),
+    ]);
+    return { total, standings };
+  },
+
+  async find(season, userId) {
+    return SeasonStanding.findOne({ season, userId }).lean();
+  },
+
+  // Every final standing of a user, newest season first
+  async findByUser(userId) {
+    return SeasonStanding.find({ userId }).sort({ _id: -1 }).lean();
+  },
+};
+
+// Friend requests and friendships (see src/friends.js)
+const friendships = {
+  // The request or friendship between two users, whoever asked
+  async between(a, b) {
+    return Friendship.findOne({
+      $or: [
+        { requester: a, recipient: b },
+        { requester: b, recipient: a },
+      ],
+    }).lean();
+  },
+
+  // Every request or friendship a user is part of, oldest first
+  async findByUser(userId) {
+    return Friendship.find({
+      $or: [{ requester: userId }, { recipient: userId }],
+    })
+      .sort({ createdAt: 1 })
+      .lean();
+  },
+
+  async create({ requester, recipient }) {
+    const doc = await Friendship.create({ requester, recipient });
+    return doc.toObject();
+  },
+
+  async accept(id, acceptedAt = new Date()) {
+    return Friendship.findByIdAndUpdate(
+      id,
+      { $set: { status: "accepted", acceptedAt } },
+      { new: true }
+    ).lean();
+  },
+
+  async remove(id) {
+    await Friendship.deleteOne({ _id: id });
+  },
+};
+
+// Join tokens of private rooms (see src/invites.js), keyed by token
+const roomInvites = {
+  async create({ token, ...fields }) {
+    const doc = await RoomInvite.create({ _id: token, ...fields });
+    return doc.toObject();
+  },
+
+  async findByToken(token) {
+    return RoomInvite.findById(token).lean();
+  },
+
+  // The newest token of a room that is neither revoked nor expired
+  async findActive(roomId, now = new Date()) {
+    return RoomInvite.findOne({
+      roomId,
+      revokedAt: null,
+      expiresAt: { $gt: now },
+    })
+      .sort({ createdAt: -1 })
+      .lean();
+  },
+
+  // Revoke every token of a room
+  async revokeRoom(roomId, revokedAt = new Date()) {
+    await RoomInvite.updateMany(
+      { roomId, revokedAt: null },
+      { $set: { revokedAt } }
+    );
+  },
+};
+
+// Tournaments (see src/tournaments). The updates are conditional so that two
+// servers finishing games of the same round at once cannot both advance it.
+const tournaments = {
+  async create(fields) {
+    const doc = await Tournament.create(fields);
+    return doc.toObject();
+  },
+
+  async findById(id) {
+    return Tournament.findById(id).lean();
+  },
+
+  async recent(limit) {
+    return Tournament.find().sort({ createdAt: -1 }).limit(limit).lean();
+  },
+
+  // Register a player while the tournament is in one of `statuses`; null
+  // when it is not, is full or the player is already in
+  async addPlayer(id, player, maxPlayers, statuses = ["registering"]) {
+    return Tournament.findOneAndUpdate(
+      {
+        _id: id,
+        status: { $in: statuses },
+        "players.userId": { $ne: player.userId },
+        [`players.${maxPlayers - 1}`]: { $exists: false },
+      },
+      { $push: { players: player } },
+      { new: true }
+    ).lean();
+  },
+
+  async removePlayer(id, userId) {
+    return Tournament.findOneAndUpdate(
+      { _id: id, status: "registering", "players.userId": userId },
+      { $pull: { players: { userId } } },
+      { new: true }
+    ).lean();
+  },
+
+  // Add round `round.number` (with the fields of `set`) unless it exists
+  async addRound(id, round, set = {}) {
+    return Tournament.findOneAndUpdate(
+      { _id: id, rounds: { $size: round.number - 1 } },
+      { $push: { rounds: round }, $set: set },
+      { new: true }
+    ).lean();
+  },
+
+  // Start a tournament that has no rounds (an arena) with the fields of `set`
+  async start(id, set) {
+    return Tournament.findOneAndUpdate(
+      { _id: id, status: "registering" },
+      { $set: { ...set, status: "running" } },
+      { new: true }
+    ).lean();
+  },
+
+  async running() {
+    return Tournament.find({ status: "running" }).lean();
+  },
+
+  async setRoom(id, number, board, roomId) {
+    await Tournament.updateOne(
+      { _id: id },
+      { $set: { [`rounds.${number - 1}.pairings.${board}.roomId`]: roomId } }
+    );
+  },
+
+  // Store the result of a game once; null when it was already stored
+  async setResult(id, number, board, result, { forfeit = false } = {}) {
+    const path = `rounds.${number - 1}.pairings.${board}`;
+    return Tournament.findOneAndUpdate(
+      { _id: id, [`${path}.result`]: null },
+      { $set: { [`${path}.result`]: result, [`${path}.forfeit`]: forfeit } },
+      { new: true }
+    ).lean();
+  },
+
+  // Arena games: added when paired, their result stored once while the
+  // arena runs
+  async addGame(id, game) {
+    return Tournament.findOneAndUpdate(
+      { _id: id, status: "running" },
+      { $push: { games: game } },
+      { new: true }
+    ).lean();
+  },
+
+  async setGameResult(id, roomId, result, endedAt = new Date()) {
+    return Tournament.findOneAndUpdate(
+      {
+        _id: id,
+        status: "running",
+        games: { $elemMatch: { roomId, result: null } },
+      },
+      { $set: { "games.$.result": result, "games.$.endedAt": endedAt } },
+      { new: true }
+    ).lean();
+  },
+
+  async finish(id, endedAt = new Date()) {
+    return Tournament.findOneAndUpdate(
+      { _id: id, status: { $ne: "finished" } },
+      { $set: { status: "finished", endedAt } },
+      { new: true }
+    ).lean();
+  },
+};
+
+export function createMongoStorage() {
+  return {
+    kind: "mongo",
+    users,
+    games,
+    chatMessages,
+    eloHistory,
+    liveRooms,
+    seasons,
+    seasonStandings,
+    friendships,
+    roomInvites,
+    tournaments,
+    // every write above is already durable
+    async flush() {},
+  };
+}
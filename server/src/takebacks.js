@@ -0,0 +1,24 @@
+// Takebacks: a player may ask to undo their last move and the opponent
+// accepts or declines. Each player has a number of takebacks per game set by
+// the room (`takebacks`); rated rooms have none unless they ask for some.
+
+const readCount = () => {
+  const v = Number.parseInt(process.env.TAKEBACKS_PER_GAME || "", 10);
+  return Number.isFinite(v) && v >= 0 ? v : 1;
+};
+
+export const MAX_TAKEBACKS = 5;
+
+// Takebacks per player and game of unrated rooms that do not choose
+export const DEFAULT_TAKEBACKS = Math.min(readCount(), MAX_TAKEBACKS);
+
+export function normalizeTakebacks(value, rated) {
+  const n = Number(value);
+  if (value === undefined || value === null || !Number.isFinite(n)) {
+    return rated ? 0 : DEFAULT_TAKEBACKS;
+  }
+  return Math.min(Math.max(0, Math.floor(n)), MAX_TAKEBACKS);
+}
+
+// Takebacks each player has used in the current game
+export const noTakebacksUsed = () => ({ X: 0, O: 0 });
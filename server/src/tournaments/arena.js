@@ -0,0 +1,98 @@
+// Arena tournaments run for a fixed time instead of a number of rounds.
+// Whoever finishes a game is queued again at once and paired with another
+// free player of the arena (see GameManager.findMatch). Only games finished
+// before the end count.
+//
+// A win is worth 2 points, a draw 1. After two wins in a row a player is on
+// a streak: every game scores double until they fail to win one.
+
+const WIN_POINTS = 2;
+const DRAW_POINTS = 1;
+// wins in a row that start a streak
+const STREAK_WINS = 2;
+
+const emptyRecord = () => ({
+  points: 0,
+  wins: 0,
+  draws: 0,
+  losses: 0,
+  // wins in a row up to now
+  streak: 0,
+  // points of every game, in the order they finished
+  scores: [],
+});
+
+function scoreGame(record, outcome) {
+  const factor = record.streak >= STREAK_WINS ? 2 : 1;
+  const points =
+    outcome === "win" ? WIN_POINTS : outcome === "draw" ? DRAW_POINTS : 0;
+  record.points += points * factor;
+  record.scores.push(points * factor);
+  if (outcome === "win") {
+    record.wins += 1;
+    record.streak += 1;
+  } else {
+    record[outcome === "draw" ? "draws" : "losses"] += 1;
+    record.streak = 0;
+  }
+}
+
+/**
+ * What each player has scored in the finished games of an arena: a Map of
+ * userId -> { points, wins, draws, losses, streak, scores }.
+ */
+export function arenaRecords(games) {
+  const records = new Map();
+  const get = (id) => {
+    if (!records.has(id)) records.set(id, emptyRecord());
+    return records.get(id);
+  };
+  const finished = (games || [])
+    .filter((g) => g.result)
+    .sort((a, b) => new Date(a.endedAt) - new Date(b.endedAt));
+  for (const game of finished) {
+    const x = get(String(game.X));
+    const o = get(String(game.O));
+    if (game.result === "draw") {
+      scoreGame(x, "draw");
+      scoreGame(o, "draw");
+    } else {
+      scoreGame(x, game.result === "X" ? "win" : "loss");
+      scoreGame(o, game.result === "O" ? "win" : "loss");
+    }
+  }
+  return records;
+}
+
+/**
+ * The live leaderboard of an arena: [{ rank, userId, name, avatar, rating,
+ * points, games, wins, draws, losses, streak, onStreak, scores }], ranked by
+ * points, then wins, then the rating players joined with.
+ */
+export function arenaStandings(tournament) {
+  const records = arenaRecords(tournament.games);
+  const rows = tournament.players.map((p) => {
+    const r = records.get(String(p.userId)) || emptyRecord();
+    return {
+      userId: String(p.userId),
+      name: p.name || null,
+      avatar: p.avatar || null,
+      rating: p.rating ?? null,
+      points: r.points,
+      games: r.scores.length,
+      wins: r.wins,
+      draws: r.draws,
+      losses: r.losses,
+      streak: r.streak,
+      onStreak: r.streak >= STREAK_WINS,
+      scores: r.scores,
+    };
+  });
+  rows.sort(
+    (a, b) =>
+      b.points - a.points ||
+      b.wins - a.wins ||
+      (b.rating ?? 0) - (a.rating ?? 0)
+  );
+  return rows.map((row, i) => ({ rank: i + 1, ...row }));
+}
@@ -0,0 +1,9 @@
+// Tournament settings shared by the socket schemas in validation.js, which
+// must not load the storage this folder's index.js depends on.
+
+export const TOURNAMENT_FORMATS = ["swiss", "knockout", "arena"];
+export const MAX_SWISS_ROUNDS = 11;
+export const DEFAULT_SWISS_ROUNDS = 5;
+// minutes an arena lasts
+export const ARENA_DURATIONS = [15, 30, 45, 60];
+export const DEFAULT_ARENA_DURATION = 30;
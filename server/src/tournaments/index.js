@@ -0,0 +1,308 @@
+import * as storage from "../storage/index.js";
+import { normalizeTimeControl } from "../clock.js";
+import { normalizeRules } from "../rules.js";
+import { normalizeBoardSize } from "../gameLogic.js";
+import {
+  swissPairings,
+  knockoutRounds,
+  knockoutFirstRound,
+  knockoutNextRound,
+} from "./pairing.js";
+import { computeStandings } from "./standings.js";
+import { arenaStandings } from "./arena.js";
+import {
+  TOURNAMENT_FORMATS,
+  MAX_SWISS_ROUNDS,
+  DEFAULT_SWISS_ROUNDS,
+  ARENA_DURATIONS,
+  DEFAULT_ARENA_DURATION,
+} from "./formats.js";
+
+// Tournaments: a signed-in user creates one (format, rounds, time control,
+// rule set, board size), players register until the creator starts it, and
+// each round is paired when the previous one is over:
+// - swiss: a fixed number of rounds, paired by score (see pairing.js)
+// - knockout: a single-elimination bracket seeded by rating
+// - arena: no rounds; for a fixed time players are paired again as soon as
+//   they are free (see arena.js), and may join while it runs
+// The games are played in ordinary rooms that index.js opens; it reports
+// every result here with recordResult (recordArenaResult for arenas).
+//
+// Every function resolves to { tournament, ... } or { error } where error is
+// a code the socket handlers in index.js pass on in "request-error".
+
+export {
+  TOURNAMENT_FORMATS,
+  MAX_SWISS_ROUNDS,
+  DEFAULT_SWISS_ROUNDS,
+  ARENA_DURATIONS,
+};
+export const MAX_PLAYERS = 64;
+export const MIN_PLAYERS = 2;
+
+// Tournaments listed in the lobby
+const LIST_LIMIT = 30;
+
+const isOwner = (tournament, userId) =>
+  String(tournament.createdBy) === String(userId);
+
+const isRegistered = (tournament, userId) =>
+  tournament.players.some((p) => String(p.userId) === String(userId));
+
+// Statuses in which players may register: arenas also take them while
+// they run
+const openStatuses = (tournament) =>
+  tournament.format === "arena" ? ["registering", "running"] : ["registering"];
+
+/** Whether an arena is running and its time is not up at `now`. */
+export const arenaOpen = (tournament, now = Date.now()) =>
+  tournament.format === "arena" &&
+  tournament.status === "running" &&
+  new Date(tournament.endsAt).getTime() > now;
+
+/** Create a tournament owned by `user` ({ id }). */
+export async function createTournament(user, settings = {}) {
+  const name = String(settings.name || "").trim();
+  if (!name) return { error: "invalid-name" };
+  if (!TOURNAMENT_FORMATS.includes(settings.format)) {
+    return { error: "invalid-format" };
+  }
+  const rounds = Number(settings.rounds);
+  const duration = Number(settings.duration);
+  const tournament = await storage.tournaments.create({
+    name,
+    format: settings.format,
+    // knockout brackets get theirs when the field is known
+    roundCount:
+      settings.format === "swiss"
+        ? Number.isInteger(rounds) && rounds > 0
+          ? Math.min(rounds, MAX_SWISS_ROUNDS)
+          : DEFAULT_SWISS_ROUNDS
+        : null,
+    duration:
+      settings.format === "arena"
+        ? ARENA_DURATIONS.includes(duration)
+          ? duration
+          : DEFAULT_ARENA_DURATION
+        : null,
+    timeControl: normalizeTimeControl(settings.timeControl),
+    rules: normalizeRules(settings.rules),
+    boardSize: normalizeBoardSize(settings.boardSize),
+    rated: settings.rated === true,
+    createdBy: user.id,
+  });
+  return { tournament };
+}
+
+/** Register `player` ({ userId, name, avatar, rating }) while it is open. */
+export async function joinTournament(id, player) {
+  const current = await storage.tournaments.findById(id);
+  if (!current) return { error: "not-found" };
+  const statuses = openStatuses(current);
+  if (!statuses.includes(current.status)) return { error: "closed" };
+  if (isRegistered(current, player.userId)) {
+    return { error: "already-joined" };
+  }
+  const tournament = await storage.tournaments.addPlayer(
+    id,
+    player,
+    MAX_PLAYERS,
+    statuses
+  );
+  return tournament ? { tournament } : { error: "full" };
+}
+
+/** Withdraw before the tournament starts. */
+export async function leaveTournament(id, userId) {
+  const current = await storage.tournaments.findById(id);
+  if (!current) return { error: "not-found" };
+  if (current.status !== "registering") return { error: "closed" };
+  const tournament = await storage.tournaments.removePlayer(id, userId);
+  return tournament ? { tournament } : { error: "not-joined" };
+}
+
+// Pairings of the round after the finished ones, or null when the
+// tournament is over
+function nextPairings(tournament) {
+  const { rounds, players } = tournament;
+  if (tournament.format === "knockout") {
+    if (!rounds.length) return knockoutFirstRound(players);
+    const last = rounds[rounds.length - 1];
+    return last.pairings.length > 1 ? knockoutNextRound(last) : null;
+  }
+  if (rounds.length >= tournament.roundCount) return null;
+  return swissPairings(players, rounds);
+}
+
+// Store the next round. Byes are settled at once; the other games wait for
+// recordResult. Resolves to the round added, or null when another server
+// added it first.
+async function addNextRound(tournament, pairings, set = {}) {
+  const round = {
+    number: tournament.rounds.length + 1,
+    pairings: pairings.map((p, board) => ({
+      board,
+      X: p.X,
+      O: p.O,
+      result: p.O ? null : "bye",
+    })),
+  };
+  const updated = await storage.tournaments.addRound(
+    tournament._id,
+    round,
+    set
+  );
+  if (!updated) return null;
+  return { tournament: updated, round: updated.rounds[round.number - 1] };
+}
+
+/**
+ * Close registration and pair the first round. Only the creator may start,
+ * with at least MIN_PLAYERS players. Resolves to { tournament, round }: the
+ * caller opens the rooms of the round. An arena has no rounds: it resolves
+ * to { tournament } with its end time set, and the caller queues the players.
+ */
+export async function startTournament(id, userId) {
+  const current = await storage.tournaments.findById(id);
+  if (!current) return { error: "not-found" };
+  if (!isOwner(current, userId)) return { error: "not-owner" };
+  if (current.status !== "registering") return { error: "closed" };
+  if (current.players.length < MIN_PLAYERS) {
+    return { error: "too-few-players" };
+  }
+  const set = { status: "running", startedAt: new Date() };
+  if (current.format === "arena") {
+    set.endsAt = new Date(set.startedAt.getTime() + current.duration * 60000);
+    const tournament = await storage.tournaments.start(id, set);
+    return tournament ? { tournament } : { error: "closed" };
+  }
+  if (current.format === "knockout") {
+    set.roundCount = knockoutRounds(current.players.length);
+  }
+  const started = await addNextRound(current, nextPairings(current), set);
+  return started || { error: "closed" };
+}
+
+/**
+ * Store the result ("X", "O" or "draw") of game `board` of round `number`.
+ * When it was the last game of the round the next one is paired and
+ * returned as `round`, or the tournament ends (`finished: true`). A result
+ * stored before (by another server) resolves to { error: "recorded" }.
+ */
+export async function recordResult(id, number, board, result, options) {
+  const tournament = await storage.tournaments.setResult(
+    id,
+    number,
+    board,
+    result,
+    options
+  );
+  if (!tournament) return { error: "recorded" };
+  const round = tournament.rounds[number - 1];
+  if (
+    number !== tournament.rounds.length ||
+    round.pairings.some((p) => !p.result)
+  ) {
+    return { tournament };
+  }
+  const pairings = nextPairings(tournament);
+  if (pairings) {
+    return (await addNextRound(tournament, pairings)) || { tournament };
+  }
+  const finished = await storage.tournaments.finish(id);
+  return finished ? { tournament: finished, finished: true } : { tournament };
+}
+
+/** Store an arena game between `X` and `O` played in room `roomId`. */
+export async function addArenaGame(id, { X, O, roomId }) {
+  const tournament = await storage.tournaments.addGame(id, { X, O, roomId });
+  return tournament ? { tournament } : { error: "closed" };
+}
+
+/**
+ * Store the result ("X", "O" or "draw") of the arena game in `roomId`. Games
+ * ending after the arena are not counted, and a result is stored once:
+ * both resolve to { error: "recorded" }.
+ */
+export async function recordArenaResult(id, roomId, result) {
+  const current = await storage.tournaments.findById(id);
+  if (!current || !arenaOpen(current)) return { error: "recorded" };
+  const tournament = await storage.tournaments.setGameResult(
+    id,
+    roomId,
+    result
+  );
+  return tournament ? { tournament } : { error: "recorded" };
+}
+
+/** End an arena whose time is up; { error: "closed" } when it had ended. */
+export async function finishArena(id) {
+  const tournament = await storage.tournaments.finish(id);
+  return tournament ? { tournament } : { error: "closed" };
+}
+
+// Arenas started and not finished, to resume their timers after a restart
+export async function runningArenas() {
+  const running = await storage.tournaments.running();
+  return running.filter((t) => t.format === "arena");
+}
+
+// A tournament as sent to clients: the stored fields with ids as strings
+// and, with `details`, its rounds and standings
+export function publicTournament(tournament, { details = false } = {}) {
+  const summary = {
+    id: String(tournament._id),
+    name: tournament.name,
+    format: tournament.format,
+    roundCount: tournament.roundCount,
+    currentRound: tournament.rounds.length,
+    duration: tournament.duration ?? null,
+    endsAt: tournament.endsAt ?? null,
+    timeControl: tournament.timeControl,
+    rules: tournament.rules,
+    boardSize: tournament.boardSize,
+    rated: tournament.rated === true,
+    createdBy: String(tournament.createdBy),
+    status: tournament.status,
+    createdAt: tournament.createdAt,
+    startedAt: tournament.startedAt,
+    endedAt: tournament.endedAt,
+    playerCount: tournament.players.length,
+    playerIds: tournament.players.map((p) => String(p.userId)),
+  };
+  if (!details) return summary;
+  if (tournament.format === "arena") {
+    return {
+      ...summary,
+      standings: arenaStandings(tournament),
+      rounds: [],
+      gamesPlayed: (tournament.games || []).filter((g) => g.result).length,
+    };
+  }
+  return {
+    ...summary,
+    standings: computeStandings(tournament),
+    rounds: tournament.rounds.map((r) => ({
+      number: r.number,
+      startedAt: r.startedAt,
+      pairings: r.pairings.map((p) => ({
+        board: p.board,
+        X: String(p.X),
+        O: p.O ? String(p.O) : null,
+        roomId: p.roomId || null,
+        result: p.result || null,
+        forfeit: p.forfeit === true,
+      })),
+    })),
+  };
+}
+
+export async function listTournaments() {
+  const list = await storage.tournaments.recent(LIST_LIMIT);
+  return list.map((t) => publicTournament(t));
+}
+
+export async function getTournament(id) {
+  const tournament = await storage.tournaments.findById(id);
+  return tournament ? { tournament } : { error: "not-found" };
+}
@@ -0,0 +1,134 @@
+import { playerRecords, recordOf } from "./standings.js";
+
+// Pairings of tournament rounds. A pairing is { X, O } (user ids) with O
+// null for a bye; X moves first.
+
+// Tries of the Swiss search before it gives up avoiding rematches
+const MAX_PAIRING_STEPS = 20000;
+
+const byRating = (a, b) => (b.rating ?? 0) - (a.rating ?? 0);
+
+/**
+ * Swiss pairings for the next round of `players` ({ userId, rating }) after
+ * the finished `rounds`:
+ * - players are ranked by points, then rating, and paired within their score
+ *   group (top half against bottom half), dropping to the next group when
+ *   needed
+ * - two players never meet twice, unless nothing else is possible
+ * - with an odd number of players the lowest ranked one without a bye so far
+ *   gets it
+ * - X goes to whoever has played it less often; on a tie they alternate from
+ *   their last game, and the higher ranked player gets X otherwise
+ */
+export function swissPairings(players, rounds) {
+  const records = playerRecords(rounds);
+  const rec = (id) => recordOf(records, id);
+  const ranked = [...players]
+    .sort(
+      (a, b) => rec(b.userId).points - rec(a.userId).points || byRating(a, b)
+    )
+    .map((p) => String(p.userId));
+
+  let bye = null;
+  if (ranked.length % 2) {
+    const i = ranked.findLastIndex((id) => rec(id).byes === 0);
+    bye = ranked.splice(i === -1 ? ranked.length - 1 : i, 1)[0];
+  }
+
+  const met = (a, b) => rec(a).games.some((g) => g.opponent === b);
+  const pairs =
+    pairUp(ranked, rec, (a, b) => !met(a, b)) ||
+    pairUp(ranked, rec, () => true);
+  const pairings = pairs.map(([a, b]) => assignColors(a, b, rec));
+  if (bye) pairings.push({ X: bye, O: null });
+  return pairings;
+}
+
+// Pair the ranked ids: the first one with a player of its score group from
+// the bottom half first, then the rest of the group, then the groups below.
+// Backtracks when the others cannot be paired; null if no pairing is allowed.
+function pairUp(ids, rec, allowed) {
+  let steps = 0;
+  const search = (rest) => {
+    if (!rest.length) return [];
+    if (++steps > MAX_PAIRING_STEPS) return null;
+    const [first, ...others] = rest;
+    const points = rec(first).points;
+    const group = others.filter((id) => rec(id).points === points);
+    const half = Math.floor((group.length + 1) / 2);
+    const candidates = [
+      ...group.slice(half - 1),
+      ...group.slice(0, half - 1),
+      ...others.filter((id) => rec(id).points !== points),
+    ];
+    for (const other of candidates) {
+      if (!allowed(first, other)) continue;
+      const tail = search(others.filter((id) => id !== other));
+      if (tail) return [[first, other], ...tail];
+    }
+    return null;
+  };
+  return search(ids);
+}
+
+// `a` is ranked above `b`
+function assignColors(a, b, rec) {
+  const balance = (id) => rec(id).x - rec(id).o;
+  if (balance(a) !== balance(b)) {
+    return balance(a) < balance(b) ? { X: a, O: b } : { X: b, O: a };
+  }
+  const last = rec(a).lastColor;
+  if (last === "X") return { X: b, O: a };
+  return { X: a, O: b };
+}
+
+// Number of rounds of a knockout bracket for `count` players
+export const knockoutRounds = (count) =>
+  Math.max(1, Math.ceil(Math.log2(Math.max(count, 2))));
+
+// Seeds in bracket order for a bracket of `size` (a power of two), so that
+// seed 1 meets the last seed and the top seeds meet as late as possible:
+// 4 -> [1, 4, 2, 3]
+function bracketOrder(size) {
+  let order = [1];
+  while (order.length < size) {
+    const sum = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, sum - seed]);
+  }
+  return order;
+}
+
+/**
+ * The first round of a knockout bracket. Players are seeded by rating and
+ * the bracket is filled up to a power of two with byes, which go to the top
+ * seeds.
+ */
+export function knockoutFirstRound(players) {
+  const seeded = [...players].sort(byRating).map((p) => String(p.userId));
+  const size = 2 ** knockoutRounds(seeded.length);
+  const order = bracketOrder(size);
+  const pairings = [];
+  for (let i = 0; i < size; i += 2) {
+    const a = seeded[order[i] - 1];
+    const b = seeded[order[i + 1] - 1];
+    pairings.push({ X: a, O: b || null });
+  }
+  return pairings;
+}
+
+// Who goes through from a finished knockout pairing. A drawn game is won by
+// O, who had the second move.
+export const knockoutWinner = (pairing) =>
+  String(
+    pairing.result === "O" || pairing.result === "draw" ? pairing.O : pairing.X
+  );
+
+// The next knockout round: the winners of neighbouring games meet
+export function knockoutNextRound(round) {
+  const winners = round.pairings.map(knockoutWinner);
+  const pairings = [];
+  for (let i = 0; i < winners.length; i += 2) {
+    pairings.push({ X: winners[i], O: winners[i + 1] });
+  }
+  return pairings;
+}
@@ -0,0 +1,109 @@
+// Results and standings of a tournament.
+//
+// A win is worth 1 point, a draw 1/2 and a bye 1. Players on equal points are
+// separated by, in order:
+// - Buchholz: the sum of the points of every opponent met
+// - Sonneborn-Berger: the points of the opponents beaten plus half the
+//   points of those drawn
+// - the rating they registered with
+
+// Points the X and O players of a finished pairing score
+export function pairingScores(pairing) {
+  switch (pairing.result) {
+    case "X":
+    case "bye":
+      return { X: 1, O: 0 };
+    case "O":
+      return { X: 0, O: 1 };
+    case "draw":
+      return { X: 0.5, O: 0.5 };
+    default:
+      return null;
+  }
+}
+
+const emptyRecord = () => ({
+  points: 0,
+  // { opponent, score } per game played (byes are not games)
+  games: [],
+  byes: 0,
+  // games played as X and as O, and the colour of the last one
+  x: 0,
+  o: 0,
+  lastColor: null,
+});
+
+/**
+ * What each player has done in the finished games of `rounds`: a Map of
+ * userId -> { points, games, byes, x, o, lastColor }. Players with no game
+ * yet are missing; use recordOf to read it.
+ */
+export function playerRecords(rounds) {
+  const records = new Map();
+  const get = (id) => {
+    if (!records.has(id)) records.set(id, emptyRecord());
+    return records.get(id);
+  };
+  for (const round of rounds || []) {
+    for (const pairing of round.pairings) {
+      const scores = pairingScores(pairing);
+      if (!scores) continue;
+      const x = get(String(pairing.X));
+      x.points += scores.X;
+      if (!pairing.O) {
+        x.byes += 1;
+        continue;
+      }
+      const o = get(String(pairing.O));
+      o.points += scores.O;
+      x.games.push({ opponent: String(pairing.O), score: scores.X });
+      o.games.push({ opponent: String(pairing.X), score: scores.O });
+      x.x += 1;
+      o.o += 1;
+      x.lastColor = "X";
+      o.lastColor = "O";
+    }
+  }
+  return records;
+}
+
+export const recordOf = (records, userId) =>
+  records.get(String(userId)) || emptyRecord();
+
+/**
+ * The players of a tournament ranked by points and tiebreaks:
+ * [{ rank, userId, name, avatar, rating, points, wins, draws, losses, byes,
+ * buchholz, sonnebornBerger }].
+ */
+export function computeStandings(tournament) {
+  const records = playerRecords(tournament.rounds);
+  const pointsOf = (id) => recordOf(records, id).points;
+  const rows = tournament.players.map((p) => {
+    const r = recordOf(records, p.userId);
+    const count = (score) => r.games.filter((g) => g.score === score).length;
+    return {
+      userId: String(p.userId),
+      name: p.name || null,
+      avatar: p.avatar || null,
+      rating: p.rating ?? null,
+      points: r.points,
+      wins: count(1),
+      draws: count(0.5),
+      losses: count(0),
+      byes: r.byes,
+      buchholz: r.games.reduce((sum, g) => sum + pointsOf(g.opponent), 0),
+      sonnebornBerger: r.games.reduce(
+        (sum, g) => sum + g.score * pointsOf(g.opponent),
+        0
+      ),
+    };
+  });
+  rows.sort(
+    (a, b) =>
+      b.points - a.points ||
+      b.buchholz - a.buchholz ||
+      b.sonnebornBerger - a.sonnebornBerger ||
+      (b.rating ?? 0) - (a.rating ?? 0)
+  );
+  return rows.map((row, i) => ({ rank: i + 1, ...row }));
+}
@@ -0,0 +1,349 @@
+// Validation and rate limiting for incoming socket events.
+//
+// Every client event has an entry in EVENT_SCHEMAS describing its payload
+// (one rule per field) and, optionally, its own rate limit. The guard
+// installed by guardSocket runs before any socket.on handler:
+// - a payload that does not match the schema is dropped and the client gets a
+//   "request-error" event { event, code: "invalid-payload", field, message }
+// - unknown fields are stripped, so handlers only see what the schema allows
+// - each socket has one token bucket per event; when it is empty the event is
+//   dropped with { event, code: "rate-limited", retryAfterMs }
+// - events without a schema are rejected with code "unknown-event"
+//
+// Rate limits can be overridden per event with SOCKET_RATE_LIMITS, a JSON
+// object such as {"chat-message": {"capacity": 10, "perSecond": 2}}.
+
+import { BOARD_SIZES } from "./gameLogic.js";
+import { BOT_LEVELS } from "./bot.js";
+import { MAX_TAKEBACKS } from "./takebacks.js";
+import { BEST_OF } from "./matches.js";
+import {
+  TOURNAMENT_FORMATS,
+  MAX_SWISS_ROUNDS,
+  ARENA_DURATIONS,
+} from "./tournaments/formats.js";
+
+const MAX_BOARD_INDEX = Math.max(...BOARD_SIZES) - 1;
+
+// Field rules
+const roomId = { type: "string", required: true, minLength: 1, maxLength: 64 };
+const playerName = { type: "string", maxLength: 64 };
+// invite token of a private room (see src/invites.js)
+const invite = { type: "string", maxLength: 64 };
+const challengeId = { type: "string", required: true, maxLength: 64 };
+const userId = { type: "string", required: true, minLength: 1, maxLength: 64 };
+const tournamentId = { type: "string", required: true, maxLength: 64 };
+
+export const EVENT_SCHEMAS = {
+  "request-rooms": { fields: {} },
+  "request-top-players": {
+    fields: {},
+    rate: { capacity: 5, perSecond: 1 },
+  },
+  identify: {
+    fields: { token: { type: "string", required: true, maxLength: 2048 } },
+    rate: { capacity: 5, perSecond: 1 },
+  },
+  "create-room": {
+    fields: {
+      playerName,
+      roomId: { type: "string", maxLength: 64 },
+      rated: { type: "boolean" },
+      // contents are normalized by src/clock.js and src/rules.js
+      timeControl: { type: "object" },
+      rules: { type: "object" },
+      boardSize: { type: "integer", min: 1, max: MAX_BOARD_INDEX + 1 },
+      allowSpectators: { type: "boolean" },
+      // normalized by src/spectators.js
+      spectatorDelay: { type: "object" },
+      takebacks: { type: "integer", min: 0, max: MAX_TAKEBACKS },
+      bestOf: { type: "integer", oneOf: BEST_OF },
+    },
+    rate: { capacity: 3, perSecond: 0.5 },
+  },
+  "play-bot": {
+    fields: {
+      playerName,
+      level: { type: "string", oneOf: BOT_LEVELS },
+      timeControl: { type: "object" },
+    },
+    rate: { capacity: 3, perSecond: 0.5 },
+  },
+  "join-room": { fields: { roomId, playerName, invite } },
+  "spectate-room": { fields: { roomId, playerName, invite } },
+  "request-invite": {
+    fields: { roomId, renew: { type: "boolean" } },
+    rate: { capacity: 5, perSecond: 0.5 },
+  },
+  "revoke-invite": { fields: { roomId } },
+  "find-match": {
+    fields: { playerName },
+    rate: { capacity: 3, perSecond: 0.5 },
+  },
+  "cancel-matchmaking": { fields: {} },
+  "request-room-state": { fields: { roomId } },
+  "make-move": {
+    fields: {
+      roomId,
+      // the room's own board size is checked by getMoveError
+      row: { type: "integer", required: true, min: 0, max: MAX_BOARD_INDEX },
+      col: { type: "integer", required: true, min: 0, max: MAX_BOARD_INDEX },
+    },
+    rate: { capacity: 5, perSecond: 2 },
+  },
+  "offer-draw": { fields: { roomId }, rate: { capacity: 2, perSecond: 0.2 } },
+  "respond-draw": {
+    fields: {
+      roomId,
+      accept: { type: "boolean", required: true },
+      fromSocket: { type: "string", maxLength: 64 },
+    },
+  },
+  "request-takeback": {
+    fields: { roomId },
+    rate: { capacity: 2, perSecond: 0.2 },
+  },
+  "respond-takeback": {
+    fields: { roomId, accept: { type: "boolean", required: true } },
+  },
+  "time-expired": { fields: { roomId } },
+  "start-game": { fields: { roomId } },
+  "offer-rematch": {
+    fields: { roomId },
+    rate: { capacity: 2, perSecond: 0.2 },
+  },
+  "respond-rematch": {
+    fields: { roomId, accept: { type: "boolean", required: true } },
+  },
+  "chat-message": {
+    fields: {
+      roomId,
+      message: {
+        type: "string",
+        required: true,
+        minLength: 1,
+        maxLength: 500,
+      },
+      // ignored by the server, which uses the sender's seat or account name
+      sender: playerName,
+    },
+    rate: { capacity: 5, perSecond: 1 },
+  },
+  "clear-chat": { fields: { roomId } },
+  "request-chat-history": { fields: { roomId } },
+  "join-chat-room": { fields: { roomId } },
+  "leave-chat-room": { fields: { roomId } },
+  "leave-room": { fields: { roomId } },
+  "rating-updated": { fields: {} },
+  "request-friends": {
+    fields: {},
+    rate: { capacity: 5, perSecond: 1 },
+  },
+  "friend-request": {
+    fields: { userId },
+    rate: { capacity: 5, perSecond: 0.5 },
+  },
+  "friend-accept": { fields: { userId } },
+  "friend-remove": { fields: { userId } },
+  "challenge-friend": {
+    fields: {
+      userId,
+      rated: { type: "boolean" },
+      // same room settings as create-room
+      timeControl: { type: "object" },
+      rules: { type: "object" },
+      boardSize: { type: "integer", min: 1, max: MAX_BOARD_INDEX + 1 },
+    },
+    rate: { capacity: 3, perSecond: 0.2 },
+  },
+  "challenge-respond": {
+    fields: {
+      challengeId,
+      accept: { type: "boolean", required: true },
+    },
+  },
+  "challenge-cancel": { fields: { challengeId } },
+  "request-tournaments": {
+    fields: {},
+    rate: { capacity: 5, perSecond: 1 },
+  },
+  "request-tournament": { fields: { tournamentId } },
+  "tournament-create": {
+    fields: {
+      name: { type: "string", required: true, minLength: 1, maxLength: 60 },
+      format: { type: "string", required: true, oneOf: TOURNAMENT_FORMATS },
+      rounds: { type: "integer", min: 1, max: MAX_SWISS_ROUNDS },
+      // arena minutes
+      duration: { type: "integer", oneOf: ARENA_DURATIONS },
+      rated: { type: "boolean" },
+      timeControl: { type: "object" },
+      rules: { type: "object" },
+      boardSize: { type: "integer", min: 1, max: MAX_BOARD_INDEX + 1 },
+    },
+    rate: { capacity: 3, perSecond: 0.05 },
+  },
+  "tournament-join": { fields: { tournamentId } },
+  "tournament-leave": { fields: { tournamentId } },
+  "tournament-start": { fields: { tournamentId } },
+  "arena-watch": { fields: { tournamentId } },
+  "arena-unwatch": { fields: { tournamentId } },
+  "arena-pause": { fields: { tournamentId } },
+  "arena-resume": { fields: { tournamentId } },
+};
+
+const DEFAULT_RATE = { capacity: 20, perSecond: 10 };
+
+// Read lazily: this module is imported before dotenv has loaded .env
+let rateOverrides = null;
+const readRateOverrides = () => {
+  if (rateOverrides) return rateOverrides;
+  try {
+    const parsed = JSON.parse(process.env.SOCKET_RATE_LIMITS || "{}");
+    rateOverrides = parsed && typeof parsed === "object" ? parsed : {};
+  } catch (e) {
+    console.error("Ignoring invalid SOCKET_RATE_LIMITS", e);
+    rateOverrides = {};
+  }
+  return rateOverrides;
+};
+
+export function getRateLimit(event) {
+  const base = EVENT_SCHEMAS[event]?.rate || DEFAULT_RATE;
+  const override = readRateOverrides()[event] || {};
+  const pick = (v, fallback) =>
+    typeof v === "number" && Number.isFinite(v) && v > 0 ? v : fallback;
+  return {
+    capacity: pick(override.capacity, base.capacity),
+    perSecond: pick(override.perSecond, base.perSecond),
+  };
+}
+
+// Check one value against a field rule. Returns an error message or null.
+function checkField(rule, value) {
+  switch (rule.type) {
+    case "string":
+      if (typeof value !== "string") return "must be a string";
+      if (rule.minLength && value.trim().length < rule.minLength)
+        return "must not be empty";
+      if (rule.maxLength && value.length > rule.maxLength)
+        return `must be at most ${rule.maxLength} characters`;
+      if (rule.oneOf && !rule.oneOf.includes(value))
+        return `must be one of ${rule.oneOf.join(", ")}`;
+      return null;
+    case "integer":
+      if (!Number.isInteger(value)) return "must be an integer";
+      if (rule.min !== undefined && value < rule.min)
+        return `must be at least ${rule.min}`;
+      if (rule.max !== undefined && value > rule.max)
+        return `must be at most ${rule.max}`;
+      if (rule.oneOf && !rule.oneOf.includes(value))
+        return `must be one of ${rule.oneOf.join(", ")}`;
+      return null;
+    case "boolean":
+      return typeof value === "boolean" ? null : "must be a boolean";
+    case "object":
+      return value && typeof value === "object" && !Array.isArray(value)
+        ? null
+        : "must be an object";
+    default:
+      return "has an unknown type";
+  }
+}
+
+/**
+ * Validate a payload against an event schema.
+ * Returns { value } with unknown fields removed, or
+ * { error: { field, message } }. A missing payload is treated as an empty
+ * object.
+ */
+export function validatePayload(schema, payload) {
+  if (payload === undefined || payload === null) payload = {};
+  if (typeof payload !== "object" || Array.isArray(payload)) {
+    return { error: { field: null, message: "payload must be an object" } };
+  }
+  const value = {};
+  for (const [field, rule] of Object.entries(schema.fields)) {
+    const v = payload[field];
+    if (v === undefined || v === null) {
+      if (rule.required) return { error: { field, message: "is required" } };
+      continue;
+    }
+    const message = checkField(rule, v);
+    if (message) return { error: { field, message } };
+    value[field] = v;
+  }
+  return { value };
+}
+
+// Token bucket: holds up to `capacity` tokens and refills `perSecond` tokens
+// per second. Each event takes one token.
+export function createTokenBucket({ capacity, perSecond }, now = Date.now()) {
+  let tokens = capacity;
+  let updatedAt = now;
+  return {
+    // Returns 0 when a token was taken, otherwise ms until one is available
+    take(at = Date.now()) {
+      const refill = ((at - updatedAt) / 1000) * perSecond;
+      tokens = Math.min(capacity, tokens + refill);
+      updatedAt = at;
+      if (tokens >= 1) {
+        tokens -= 1;
+        return 0;
+      }
+      return Math.ceil(((1 - tokens) / perSecond) * 1000);
+    },
+  };
+}
+
+// Install the validation and rate-limit guard on a connected socket. Must be
+// called before the socket's handlers can receive events.
+export function guardSocket(socket) {
+  const buckets = new Map(); // event -> token bucket
+
+  socket.use((packet, next) => {
+    const [event, payload] = packet;
+    const reject = (error) => {
+      console.warn(
+        `[GUARD] ${error.code} event=${event} socket=${socket.id}`,
+        error.field ? `field=${error.field}` : ""
+      );
+      socket.emit("request-error", { event, ...error });
+    };
+
+    const schema = EVENT_SCHEMAS[event];
+    if (!schema) {
+      reject({ code: "unknown-event", message: "Unknown event" });
+      return;
+    }
+
+    let bucket = buckets.get(event);
+    if (!bucket) {
+      bucket = createTokenBucket(getRateLimit(event));
+      buckets.set(event, bucket);
+    }
+    const retryAfterMs = bucket.take();
+    if (retryAfterMs > 0) {
+      reject({
+        code: "rate-limited",
+        message: "Too many requests",
+        retryAfterMs,
+      });
+      return;
+    }
+
+    const result = validatePayload(schema, payload);
+    if (result.error) {
+      reject({
+        code: "invalid-payload",
+        field: result.error.field,
+        message: result.error.field
+          ? `${result.error.field} ${result.error.message}`
+          : result.error.message,
+      });
+      return;
+    }
+
+    packet[1] = result.value;
+    next();
+  });
+}
@@ -0,0 +1,66 @@
+import { test, describe, before } from "node:test";
+import assert from "node:assert/strict";
+
+process.env.STORAGE = "memory";
+
+let storage;
+let friends;
+
+before(async () => {
+  storage = await import("../src/storage/index.js");
+  friends = await import("../src/friends.js");
+});
+
+const names = (list) => list.map((f) => f.name);
+
+describe("friends", () => {
+  test("a request is pending until the recipient accepts it", async () => {
+    const [a, b] = await Promise.all(
+      ["Ann", "Ben"].map((name) => storage.users.create({ name }))
+    );
+    const sent = await friends.requestFriend(a._id, b._id);
+    assert.equal(sent.friendship.status, "pending");
+    assert.deepEqual(await friends.requestFriend(a._id, b._id), {
+      error: "already-requested",
+    });
+    assert.equal(await friends.areFriends(a._id, b._id), false);
+
+    const ofA = await friends.listFriends(a._id);
+    const ofB = await friends.listFriends(b._id);
+    assert.deepEqual(names(ofA.outgoing), ["Ben"]);
+    assert.deepEqual(names(ofB.incoming), ["Ann"]);
+
+    // only the recipient can accept
+    assert.deepEqual(await friends.acceptFriend(a._id, b._id), {
+      error: "no-request",
+    });
+    const accepted = await friends.acceptFriend(b._id, a._id);
+    assert.equal(accepted.friendship.status, "accepted");
+    assert.equal(await friends.areFriends(b._id, a._id), true);
+    const after = await friends.listFriends(a._id);
+    assert.deepEqual(names(after.friends), ["Ben"]);
+    assert.equal(after.friends[0].elo, 1200);
+    assert.deepEqual(after.outgoing, []);
+    assert.deepEqual(await friends.requestFriend(b._id, a._id), {
+      error: "already-friends",
+    });
+  });
+
+  test("asking back accepts, and either friend can remove", async () => {
+    const [a, b] = await Promise.all(
+      ["Cai", "Dan"].map((name) => storage.users.create({ name }))
+    );
+    await friends.requestFriend(a._id, b._id);
+    const back = await friends.requestFriend(b._id, a._id);
+    assert.equal(back.friendship.status, "accepted");
+
+    await friends.removeFriend(b._id, a._id);
+    assert.equal(await friends.areFriends(a._id, b._id), false);
+    assert.deepEqual(await friends.removeFriend(a._id, b._id), {
+      error: "not-found",
+    });
+    assert.deepEqual(await friends.requestFriend(a._id, a._id), {
+      error: "self",
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import {
+  BOARD_SIZE,
+  createEmptyBoard,
+  checkWinner,
+  generateLockedCells,
+  getValidFirstMoveCells,
+  getMoveError,
+} from "../src/gameLogic.js";
+import { DEFAULT_RULES, RULE_PRESETS, normalizeRules } from "../src/rules.js";
+
+const manhattan = (a, b) => Math.abs(a[0] - b[0]) + Math.abs(a[1] - b[1]);
+
+// Place `symbol` on every [row, col] of `cells`
+function place(board, symbol, cells) {
+  for (const [r, c] of cells) board[r][c] = symbol;
+  return board;
+}
+
+// Fresh round state as built by GameManager.createRoom/resetRoom
+function roundState(lockedCells = []) {
+  return {
+    board: createEmptyBoard(),
+    lockedCells,
+    validFirstMoveCells: getValidFirstMoveCells(lockedCells),
+    moveCount: 0,
+    firstStarterSymbol: null,
+    firstStarterPos: null,
+    rules: RULE_PRESETS.standard,
+  };
+}
+
+describe("checkWinner", () => {
+  test("detects five in a row in every direction", () => {
+    const lines = [
+      [0, 1],
+      [1, 0],
+      [1, 1],
+      [1, -1],
+    ];
+    for (const [dr, dc] of lines) {
+      const cells = Array.from({ length: 5 }, (_, i) => [
+        8 + dr * i,
+        8 + dc * i,
+      ]);
+      const board = place(createEmptyBoard(), "X", cells);
+      // the winning move may be any stone of the line, not just an end
+      const [row, col] = cells[2];
+      assert.deepEqual(checkWinner(board, row, col, "X"), cells);
+    }
+  });
+
+  test("four in a row is not a win", () => {
+    const board = place(createEmptyBoard(), "O", [
+      [3, 3],
+      [3, 4],
+      [3, 5],
+      [3, 6],
+    ]);
+    assert.equal(checkWinner(board, 3, 6, "O"), null);
+  });
+
+  test("a line broken by the opponent is not a win", () => {
+    const board = place(createEmptyBoard(), "X", [
+      [5, 0],
+      [5, 1],
+      [5, 3],
+      [5, 4],
+      [5, 5],
+    ]);
+    board[5][2] = "O";
+    assert.equal(checkWinner(board, 5, 5, "X"), null);
+  });
+
+  test("wins along the board edge", () => {
+    const last = BOARD_SIZE - 1;
+    const cells = Array.from({ length: 5 }, (_, i) => [last, last - i]);
+    const board = place(createEmptyBoard(), "X", cells);
+    assert.ok(checkWinner(board, last, last, "X"));
+  });
+
+  test("overlines win only when the rule set allows them", () => {
+    const cells = Array.from({ length: 6 }, (_, i) => [2, 2 + i]);
+    const board = place(createEmptyBoard(), "X", cells);
+    assert.equal(checkWinner(board, 2, 7, "X").length, 6);
+    const exactFive = RULE_PRESETS["exact-five"];
+    assert.equal(checkWinner(board, 2, 7, "X", exactFive), null);
+  });
+
+  test("blocked-ends rule ignores fives closed by the opponent", () => {
+    const cells = Array.from({ length: 5 }, (_, i) => [4, 4 + i]);
+    const board = place(createEmptyBoard(), "X", cells);
+    board[4][3] = "O";
+    const rules = RULE_PRESETS["blocked-ends"];
+    // one open end still wins
+    assert.ok(checkWinner(board, 4, 8, "X", rules));
+    board[4][9] = "O";
+    assert.equal(checkWinner(board, 4, 8, "X", rules), null);
+    // the standard rules do not care
+    assert.ok(checkWinner(board, 4, 8, "X"));
+  });
+});
+
+describe("generateLockedCells", () => {
+  test("returns three distinct cells at least 5 apart near the centre", () => {
+    const center = Math.floor(BOARD_SIZE / 2);
+    for (let i = 0; i < 200; i++) {
+      const cells = generateLockedCells();
+      assert.equal(cells.length, 3);
+      for (let a = 0; a < cells.length; a++) {
+        assert.ok(manhattan(cells[a], [center, center]) <= 10);
+        for (let b = a + 1; b < cells.length; b++) {
+          assert.ok(
+            manhattan(cells[a], cells[b]) >= 5,
+            `cells too close: ${JSON.stringify(cells)}`
+          );
+        }
+      }
+    }
+  });
+
+  test("honours the requested count and board size", () => {
+    assert.deepEqual(generateLockedCells(0), []);
+    for (const size of [15, 19, 31]) {
+      const cells = generateLockedCells(5, size);
+      assert.equal(cells.length, 5);
+      for (const [r, c] of cells) {
+        assert.ok(r >= 0 && r < size && c >= 0 && c < size);
+      }
+    }
+  });
+});
+
+describe("getValidFirstMoveCells", () => {
+  test("returns the ring of neighbours around each locked cell", () => {
+    const cells = getValidFirstMoveCells([[8, 8]]);
+    assert.equal(cells.length, 8);
+    for (const cell of cells) {
+      assert.equal(
+        Math.max(Math.abs(cell[0] - 8), Math.abs(cell[1] - 8)),
+        1
+      );
+    }
+  });
+
+  test("skips locked cells, duplicates and cells off the board", () => {
+    const cells = getValidFirstMoveCells([
+      [0, 0],
+      [0, 1],
+    ]);
+    const keys = cells.map(([r, c]) => `${r},${c}`).sort();
+    assert.deepEqual(keys, ["0,2", "1,0", "1,1", "1,2"]);
+  });
+});
+
+describe("getMoveError", () => {
+  test("the first move of a round must touch a locked cell", () => {
+    const gs = roundState([[8, 8]]);
+    assert.match(getMoveError(gs, "X", 0, 0), /ô cấm/);
+    assert.equal(getMoveError(gs, "X", 8, 8), "Không thể đi vào ô cấm!");
+    assert.equal(getMoveError(gs, "X", 7, 7), null);
+  });
+
+  test("Open-4: the starter's second move keeps 4 cells from the first", () => {
+    const gs = roundState([[8, 8]]);
+    gs.board[7][7] = "X";
+    gs.board[9][9] = "O";
+    gs.moveCount = 2;
+    gs.firstStarterSymbol = "X";
+    gs.firstStarterPos = [7, 7];
+
+    assert.match(getMoveError(gs, "X", 7, 10), /^Open-4/); // distance 3
+    assert.equal(getMoveError(gs, "X", 7, 11), null); // distance 4
+    // the other player is not restricted
+    assert.equal(getMoveError(gs, "O", 7, 8), null);
+
+    // the rule only applies to the starter's second stone
+    gs.board[3][3] = "X";
+    assert.equal(getMoveError(gs, "X", 7, 9), null);
+  });
+
+  test("rule sets can change or disable the Open distance", () => {
+    const gs = roundState([[8, 8]]);
+    gs.board[7][7] = "X";
+    gs.moveCount = 1;
+    gs.firstStarterSymbol = "X";
+    gs.firstStarterPos = [7, 7];
+
+    gs.rules = RULE_PRESETS["renju-like"];
+    assert.match(getMoveError(gs, "X", 7, 11), /^Open-5/);
+    gs.rules = RULE_PRESETS["free-style"];
+    assert.equal(getMoveError(gs, "X", 7, 8), null);
+  });
+
+  test("rejects cells outside the room's board", () => {
+    const gs = roundState();
+    assert.equal(getMoveError(gs, "X", BOARD_SIZE, 0), "Invalid cell");
+    assert.equal(getMoveError(gs, "X", 0, -1), "Invalid cell");
+  });
+});
+
+describe("normalizeRules", () => {
+  test("a preset is completed with its own settings", () => {
+    assert.deepEqual(normalizeRules({ preset: "free-style" }), {
+      ...RULE_PRESETS["free-style"],
+    });
+    assert.equal(
+      normalizeRules({ preset: "standard", openDistance: 99 }).openDistance,
+      8
+    );
+  });
+
+  test("unknown and inherited preset names get the default rules", () => {
+    for (const preset of ["nope", "toString", "constructor", "__proto__"]) {
+      assert.deepEqual(normalizeRules({ preset }), DEFAULT_RULES, preset);
+    }
+    assert.deepEqual(normalizeRules(undefined), DEFAULT_RULES);
+  });
+});
@@ -0,0 +1,22 @@
+import gameManager from "../src/gameManager.js";
+
+// Fixtures shared by the tests of src/gameManager.js and its neighbours
+
+// A started room: Alice (s1) plays X and starts, Bob (s2) plays O. `host`
+// and `guest` are added to the players' seats, so the room's settings
+// (rated, rules, bestOf...) go with the host.
+export function startRoom(roomId, host = {}, guest = {}) {
+  gameManager.createRoom(roomId, {
+    id: "s1",
+    socketId: "s1",
+    name: "Alice",
+    ...host,
+  });
+  gameManager.joinRoom(roomId, {
+    id: "s2",
+    socketId: "s2",
+    name: "Bob",
+    ...guest,
+  });
+  return gameManager.resetRoom(roomId);
+}
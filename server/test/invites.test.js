@@ -0,0 +1,91 @@
+import { test, describe, before } from "node:test";
+import assert from "node:assert/strict";
+
+process.env.STORAGE = "memory";
+process.env.ROOM_INVITE_TTL_MINUTES = "10";
+
+let invites;
+let gameManager;
+
+before(async () => {
+  invites = await import("../src/invites.js");
+  ({ default: gameManager } = await import("../src/gameManager.js"));
+});
+
+const room = (roomId, instanceId = "first") => ({
+  roomId,
+  instanceId,
+  private: true,
+});
+
+describe("room invites", () => {
+  test("a token opens its own room until it expires", async () => {
+    const gs = room("inv-a");
+    const invite = await invites.roomInvite(gs, null);
+    assert.equal(invite.roomId, "inv-a");
+    assert.ok(invite.token.length >= 20);
+    assert.ok(invite.expiresAt - Date.now() <= 10 * 60 * 1000);
+
+    // asking again returns the same token
+    assert.equal((await invites.roomInvite(gs, null)).token, invite.token);
+
+    assert.equal(await invites.checkInvite(gs, invite.token), null);
+    assert.equal(await invites.checkInvite(gs, undefined), "invite-required");
+    assert.equal(await invites.checkInvite(gs, "guess"), "invite-invalid");
+    assert.equal(
+      await invites.checkInvite(room("inv-b"), invite.token),
+      "invite-invalid"
+    );
+    // a new room that reuses the id
+    assert.equal(
+      await invites.checkInvite(room("inv-a", "second"), invite.token),
+      "invite-invalid"
+    );
+    assert.equal(
+      await invites.checkInvite(gs, invite.token, invite.expiresAt),
+      "invite-expired"
+    );
+  });
+
+  test("renewing or revoking invalidates the old token", async () => {
+    const gs = room("inv-c");
+    const first = await invites.roomInvite(gs, null);
+    const second = await invites.roomInvite(gs, null, { renew: true });
+    assert.notEqual(second.token, first.token);
+    assert.equal(await invites.checkInvite(gs, first.token), "invite-invalid");
+    assert.equal(await invites.checkInvite(gs, second.token), null);
+
+    await invites.revokeInvites("inv-c");
+    assert.equal(await invites.checkInvite(gs, second.token), "invite-invalid");
+  });
+
+  test("a token outlives the rounds of its room", async () => {
+    const roomId = "inv-rounds";
+    gameManager.createRoom(roomId, {
+      id: "s1",
+      socketId: "s1",
+      name: "Alice",
+      private: true,
+      allowSpectators: false,
+    });
+    const invite = await invites.roomInvite(gameManager.getRoom(roomId), null);
+    gameManager.joinRoom(roomId, { id: "s2", socketId: "s2", name: "Bob" });
+
+    // start-game, then a new round
+    for (let i = 0; i < 2; i++) {
+      const gs = gameManager.resetRoom(roomId);
+      assert.equal(await invites.checkInvite(gs, invite.token), null);
+      assert.equal((await invites.roomInvite(gs, null)).token, invite.token);
+    }
+    gameManager.removeRoom(roomId);
+  });
+
+  test("spectators need an invite only when the owner says so", () => {
+    assert.equal(invites.seatNeedsInvite({ private: false }), false);
+    assert.equal(invites.watchNeedsInvite(room("x")), false);
+    assert.equal(
+      invites.watchNeedsInvite({ ...room("x"), allowSpectators: false }),
+      true
+    );
+  });
+});
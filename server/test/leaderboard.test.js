@@ -0,0 +1,112 @@
+import { test, describe, before, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+
+// Ranks come from the in-memory store, with the default engine (Elo)
+process.env.STORAGE = "memory";
+process.env.LEADERBOARD_MIN_GAMES = "2";
+delete process.env.RATING_ENGINE;
+
+let storage;
+let leaderboardPage;
+let periodStart;
+
+before(async () => {
+  storage = await import("../src/storage/index.js");
+  ({ leaderboardPage, periodStart } = await import(
+    "../src/ratings/leaderboard.js"
+  ));
+});
+
+// Wednesday 2025-01-15 12:00 UTC
+const NOW = Date.UTC(2025, 0, 15, 12);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Five ranked players (1500 down to 1300) and one without enough games
+let ids;
+beforeEach(async () => {
+  ids = [];
+  for (let i = 0; i < 5; i++) {
+    const u = await storage.users.create({ name: `P${i}` });
+    await storage.users.update(u._id, {
+      set: { elo: 1500 - i * 50, gamesPlayed: 10 },
+    });
+    ids.push(u._id);
+  }
+  const newcomer = await storage.users.create({ name: "New" });
+  await storage.users.update(newcomer._id, { set: { elo: 2000 } });
+});
+
+describe("leaderboard", () => {
+  test("period starts", () => {
+    assert.equal(periodStart("all", NOW), null);
+    assert.equal(
+      periodStart("month", NOW).toISOString(),
+      "2025-01-01T00:00:00.000Z"
+    );
+    assert.equal(
+      periodStart("week", NOW).toISOString(),
+      "2025-01-13T00:00:00.000Z"
+    );
+  });
+
+  test("all-time pages, eligibility and my rank", async () => {
+    const first = await leaderboardPage({ pageSize: 2, now: NOW });
+    const ranked = first.total;
+    assert.ok(ranked >= 5);
+    assert.deepEqual(
+      first.players.map((p) => p.rank),
+      [1, 2]
+    );
+    assert.ok(first.players.every((p) => p.name !== "New"));
+
+    const mine = await leaderboardPage({
+      page: 1,
+      pageSize: 2,
+      userId: ids[4],
+      now: NOW,
+    });
+    assert.equal(mine.me.userId, ids[4]);
+    assert.equal(mine.me.page, Math.ceil(mine.me.rank / 2));
+    const there = await leaderboardPage({
+      page: mine.me.page,
+      pageSize: 2,
+      now: NOW,
+    });
+    assert.ok(there.players.some((p) => p.userId === ids[4]));
+  });
+
+  test("weekly board ranks the points gained this week", async () => {
+    const row = (userId, change, daysAgo) => ({
+      userId,
+      opponentId: ids[0],
+      engine: "elo",
+      before: 1400,
+      after: 1400 + change,
+      change,
+      result: change > 0 ? "win" : "loss",
+      timestamp: new Date(NOW - daysAgo * DAY_MS),
+    });
+    await storage.eloHistory.createMany([
+      row(ids[3], 10, 1),
+      row(ids[3], 12, 0),
+      row(ids[2], 30, 1),
+      row(ids[2], -5, 2),
+      row(ids[1], 50, 2),
+      // last week: does not count
+      row(ids[1], 40, 9),
+    ]);
+    const week = await leaderboardPage({
+      period: "week",
+      userId: ids[3],
+      now: NOW,
+    });
+    assert.deepEqual(
+      week.players.map((p) => [p.userId, p.gain, p.games]),
+      [
+        [ids[2], 25, 2],
+        [ids[3], 22, 2],
+      ]
+    );
+    assert.equal(week.me.rank, 2);
+  });
+});
@@ -0,0 +1,172 @@
+import { test, describe, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import gameManager from "../src/gameManager.js";
+import { matchResult, normalizeBestOf } from "../src/matches.js";
+import { startRoom } from "./helpers.js";
+
+describe("rematches", () => {
+  const roomId = "rematch-room";
+  let gs;
+
+  beforeEach(() => {
+    gameManager.removeRoom(roomId);
+    gs = startRoom(roomId);
+  });
+
+  test("both players agree before the next round starts", () => {
+    assert.deepEqual(gameManager.offerRematch(roomId, "s2"), {
+      error: "not-finished",
+    });
+    gameManager.forfeit(roomId, "s2");
+
+    assert.deepEqual(gameManager.offerRematch(roomId, "s3"), {
+      error: "not-player",
+    });
+    const offer = gameManager.offerRematch(roomId, "s2");
+    assert.equal(offer.seat, "player2");
+    assert.equal(offer.started, false);
+    assert.deepEqual(gs.rematchRequest, { seat: "player2" });
+    assert.deepEqual(gameManager.offerRematch(roomId, "s2"), {
+      error: "already-requested",
+    });
+    assert.equal(gs.status, "finished");
+
+    assert.equal(gameManager.offerRematch(roomId, "s1").started, true);
+    assert.equal(gs.status, "playing");
+    assert.equal(gs.rematchRequest, null);
+  });
+
+  test("colours swap and the score follows the seats", () => {
+    gameManager.forfeit(roomId, "s2");
+    assert.deepEqual(gs.score, { player1: 1, player2: 0, draws: 0 });
+
+    gameManager.offerRematch(roomId, "s1");
+    gameManager.offerRematch(roomId, "s2");
+    assert.equal(gs.players.player1.symbol, "O");
+    assert.equal(gs.players.player2.symbol, "X");
+    // X opens, so Bob starts this round
+    assert.equal(gs.currentTurn, "X");
+    assert.equal(gs.clock.active, "X");
+
+    // Bob runs out of time as X
+    gameManager.flag(roomId);
+    assert.equal(gs.winner, "O");
+    assert.deepEqual(gs.score, { player1: 2, player2: 0, draws: 0 });
+  });
+
+  test("a declined rematch can be asked for again", () => {
+    gameManager.forfeit(roomId, "s1");
+    gameManager.offerRematch(roomId, "s1");
+    assert.deepEqual(gameManager.declineRematch(roomId, "s1"), {
+      error: "no-request",
+    });
+    const { requester } = gameManager.declineRematch(roomId, "s2");
+    assert.equal(requester.socketId, "s1");
+    assert.equal(gs.rematchRequest, null);
+    assert.equal(gameManager.offerRematch(roomId, "s1").started, false);
+  });
+
+  test("a new opponent starts a new match on the free colour", () => {
+    gameManager.forfeit(roomId, "s2");
+    gameManager.offerRematch(roomId, "s1");
+    gameManager.offerRematch(roomId, "s2");
+    gameManager.forfeit(roomId, "s2");
+
+    gs.players.player2 = null;
+    gs.status = "waiting";
+    gameManager.joinRoom(roomId, { id: "s3", socketId: "s3", name: "Cleo" });
+    assert.equal(gs.players.player1.symbol, "O");
+    assert.equal(gs.players.player2.symbol, "X");
+    assert.deepEqual(gs.score, { player1: 0, player2: 0, draws: 0 });
+  });
+
+  test("the bot agrees to a rematch at once", () => {
+    gameManager.removeRoom(roomId);
+    gameManager.createRoom(roomId, { id: "s1", socketId: "s1", name: "Al" });
+    gs = gameManager.addBot(roomId, "easy");
+    gameManager.resetRoom(roomId);
+    gameManager.forfeit(roomId, "s1");
+
+    assert.equal(gameManager.offerRematch(roomId, "s1").started, true);
+    assert.equal(gs.players.player2.symbol, "X");
+    assert.deepEqual(gs.score, { player1: 0, player2: 1, draws: 0 });
+  });
+});
+
+describe("best-of-N matches", () => {
+  const roomId = "match-room";
+  let gs;
+
+  // Both players agree to the next round
+  const nextRound = () => {
+    gameManager.offerRematch(roomId, "s1");
+    gameManager.offerRematch(roomId, "s2");
+  };
+
+  beforeEach(() => {
+    gameManager.removeRoom(roomId);
+    gs = startRoom(roomId, { bestOf: 3 });
+  });
+
+  test("only 3, 5 and 7 rounds make a match", () => {
+    assert.equal(normalizeBestOf(5), 5);
+    assert.equal(normalizeBestOf("7"), 7);
+    assert.equal(normalizeBestOf(4), null);
+    assert.equal(normalizeBestOf(undefined), null);
+  });
+
+  test("the match ends on a majority of wins or after N rounds", () => {
+    const score = (player1, player2, draws) => ({ player1, player2, draws });
+    assert.equal(matchResult(score(1, 1, 0), 3), null);
+    assert.equal(matchResult(score(2, 0, 0), 3), "player1");
+    assert.equal(matchResult(score(1, 3, 0), 5), "player2");
+    assert.equal(matchResult(score(1, 1, 1), 3), "draw");
+    assert.equal(matchResult(score(1, 0, 2), 3), "player1");
+    assert.equal(matchResult(score(5, 0, 0), null), null);
+  });
+
+  test("the match is decided by the rounds and then starts over", () => {
+    gameManager.flag(roomId); // Alice (X) loses on time
+    assert.equal(gs.matchWinner, null);
+    nextRound();
+    gameManager.flag(roomId); // Bob (X) loses on time
+    nextRound();
+    assert.deepEqual(gs.score, { player1: 1, player2: 1, draws: 0 });
+    // Alice plays X again and starts the deciding round
+    assert.equal(gs.players.player1.symbol, "X");
+    assert.equal(gs.currentTurn, "X");
+    gameManager.forfeit(roomId, "s2");
+    assert.equal(gs.matchWinner, "player1");
+
+    nextRound();
+    assert.equal(gs.matchWinner, null);
+    assert.deepEqual(gs.score, { player1: 0, player2: 0, draws: 0 });
+  });
+
+  test("a finished round cannot be ended again", () => {
+    gameManager.flag(roomId); // Alice (X) loses on time
+    gameManager.endRound(gs, "draw");
+    assert.equal(gs.winner, "O");
+    assert.deepEqual(gs.score, { player1: 0, player2: 1, draws: 0 });
+
+    nextRound();
+    gameManager.flag(roomId); // Bob (X) loses on time
+    nextRound();
+    gameManager.forfeit(roomId, "s2");
+    assert.equal(gs.matchWinner, "player1");
+    gameManager.endRound(gs, "draw");
+    assert.equal(gameManager.forfeit(roomId, "s1"), null);
+    assert.equal(gs.winner, "X");
+    assert.deepEqual(gs.score, { player1: 2, player2: 1, draws: 0 });
+    assert.equal(gs.matchWinner, "player1");
+  });
+
+  test("leaving between rounds concedes the match", () => {
+    assert.equal(gameManager.concedeMatch(roomId, "s1"), null);
+    gameManager.flag(roomId);
+    assert.equal(gameManager.concedeMatch(roomId, "s3"), null);
+    assert.equal(gameManager.concedeMatch(roomId, "s2"), gs);
+    assert.equal(gs.matchWinner, "player1");
+    assert.equal(gameManager.concedeMatch(roomId, "s2"), null);
+  });
+});
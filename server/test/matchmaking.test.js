@@ -0,0 +1,106 @@
+import { test, describe, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import gameManager from "../src/gameManager.js";
+
+// Queue a player who has been waiting `waitSec` seconds
+function enqueue(socketId, elo, waitSec = 0, userId = socketId) {
+  gameManager.addWaitingPlayer(socketId, {
+    socketId,
+    userId,
+    name: socketId,
+    elo,
+  });
+  gameManager.waitingPlayers.get(socketId).enqueuedAt =
+    Date.now() - waitSec * 1000;
+}
+
+describe("findMatch", () => {
+  beforeEach((t) => {
+    gameManager.waitingPlayers.clear();
+    // findMatch logs every comparison
+    t.mock.method(console, "log", () => {});
+  });
+
+  test("pairs close ratings immediately", () => {
+    enqueue("a", 1200);
+    enqueue("b", 1240);
+    const match = gameManager.findMatch("a");
+    assert.ok(match);
+    assert.equal(match.opponent.socketId, "b");
+    assert.equal(match.requester.socketId, "a");
+    assert.match(match.roomId, /^room-/);
+    // both players leave the queue
+    assert.equal(gameManager.waitingPlayers.size, 0);
+  });
+
+  test("the allowed rating gap grows with waiting time", () => {
+    const cases = [
+      // [wait seconds, largest gap that matches]
+      [5, 50],
+      [15, 100],
+      [25, 200],
+      [40, 300],
+      [55, 400],
+      [90, 600],
+    ];
+    for (const [wait, gap] of cases) {
+      gameManager.waitingPlayers.clear();
+      enqueue("a", 1500, wait);
+      enqueue("b", 1500 + gap + 1);
+      assert.equal(gameManager.findMatch("a"), null, `wait ${wait}s`);
+
+      gameManager.waitingPlayers.clear();
+      enqueue("a", 1500, wait);
+      enqueue("b", 1500 + gap);
+      assert.ok(gameManager.findMatch("a"), `wait ${wait}s`);
+    }
+  });
+
+  test("the longer wait of the two players decides the window", () => {
+    enqueue("a", 1500, 0);
+    enqueue("b", 1650, 25); // b may accept ±200
+    assert.equal(gameManager.findMatch("a").opponent.socketId, "b");
+  });
+
+  test("prefers the closest rating", () => {
+    enqueue("a", 1500, 90);
+    enqueue("far", 1900);
+    enqueue("near", 1520);
+    assert.equal(gameManager.findMatch("a").opponent.socketId, "near");
+    assert.ok(gameManager.waitingPlayers.has("far"));
+  });
+
+  test("never pairs a user with themselves", () => {
+    enqueue("tab-1", 1200, 0, "user-1");
+    gameManager.waitingPlayers.set("tab-2", {
+      socketId: "tab-2",
+      userId: "user-1",
+      elo: 1200,
+      enqueuedAt: Date.now(),
+    });
+    assert.equal(gameManager.findMatch("tab-1"), null);
+  });
+
+  test("arena queues pair players of the same arena only", () => {
+    const queue = gameManager.arenaPlayers;
+    queue.clear();
+    const add = (socketId, arenaId, elo) =>
+      gameManager.addWaitingPlayer(
+        socketId,
+        { socketId, userId: socketId, elo, arenaId },
+        queue
+      );
+    add("a", "arena-1", 1500);
+    add("other-arena", "arena-2", 1500);
+    add("b", "arena-1", 1540);
+    // the matchmaking queue is not looked at
+    enqueue("queued", 1500);
+
+    const match = gameManager.findMatch("a", queue);
+    assert.equal(match.opponent.socketId, "b");
+    assert.deepEqual([...queue.keys()], ["other-arena"]);
+    assert.ok(gameManager.waitingPlayers.has("queued"));
+    assert.equal(gameManager.findMatch("other-arena", queue), null);
+    queue.clear();
+  });
+});
@@ -0,0 +1,111 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { eloEngine } from "../src/ratings/elo.js";
+import { glicko2Engine, decayedRd } from "../src/ratings/glicko2.js";
+import { ratingStats } from "../src/ratings/stats.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("elo engine", () => {
+  test("moves both ratings by the same amount for equal players", () => {
+    const a = { elo: 1500, gamesPlayed: 50 };
+    const b = { elo: 1500, gamesPlayed: 50 };
+    const [changeA, changeB] = eloEngine.rate(a, b, 1);
+    assert.deepEqual(changeA, {
+      before: 1500,
+      after: 1516,
+      set: { elo: 1516 },
+    });
+    assert.deepEqual(changeB, {
+      before: 1500,
+      after: 1484,
+      set: { elo: 1484 },
+    });
+  });
+
+  test("new players are provisional and start at the default", () => {
+    assert.deepEqual(eloEngine.describe({}), {
+      rating: 1200,
+      rd: null,
+      provisional: true,
+    });
+    assert.equal(eloEngine.describe({ gamesPlayed: 30 }).provisional, false);
+  });
+});
+
+describe("glicko2 engine", () => {
+  test("rates a game and lowers the RD of both players", () => {
+    const now = Date.now();
+    const [a, b] = glicko2Engine.rate({}, {}, 1, now);
+    assert.equal(a.before, 1500);
+    assert.ok(a.after > 1500);
+    assert.ok(b.after < 1500);
+    assert.equal(a.rdBefore, 350);
+    assert.ok(a.rdAfter < 350);
+    assert.deepEqual(Object.keys(a.set).sort(), [
+      "rating",
+      "rd",
+      "volatility",
+    ]);
+  });
+
+  test("RD grows with inactivity, up to the starting RD", () => {
+    const now = Date.now();
+    const ratedAt = new Date(now - 3 * DAY_MS);
+    assert.equal(decayedRd(60, 0.06, ratedAt, now), 60);
+    const later = decayedRd(60, 0.06, new Date(now - 70 * DAY_MS), now);
+    assert.ok(later > 60);
+    assert.equal(decayedRd(60, 0.06, new Date(0), now), 350);
+  });
+
+  test("players with a high RD are provisional", () => {
+    const now = Date.now();
+    const settled = { rating: 1800, rd: 60, volatility: 0.06, ratedAt: now };
+    assert.deepEqual(glicko2Engine.describe(settled, now), {
+      rating: 1800,
+      rd: 60,
+      provisional: false,
+    });
+    assert.equal(glicko2Engine.describe({}, now).provisional, true);
+  });
+});
+
+describe("rating stats", () => {
+  const row = (result, after, opponentId = "b") => ({
+    result,
+    after,
+    opponentId,
+    timestamp: new Date(after),
+  });
+
+  test("counts results, streaks, best rating and opponents", () => {
+    const stats = ratingStats([
+      row("win", 1210),
+      row("win", 1220, "c"),
+      row("loss", 1212),
+      row("draw", 1213, "c"),
+      row("win", 1225),
+      row("win", 1236),
+      row("win", 1240),
+    ]);
+    assert.equal(stats.games, 7);
+    assert.deepEqual([stats.wins, stats.losses, stats.draws], [5, 1, 1]);
+    assert.deepEqual(stats.currentStreak, { result: "win", length: 3 });
+    assert.equal(stats.longestWinStreak, 3);
+    assert.equal(stats.longestLossStreak, 1);
+    assert.equal(stats.bestRating.rating, 1240);
+    assert.deepEqual(
+      stats.opponents.map((o) => [o.userId, o.games, o.wins]),
+      [
+        ["b", 5, 4],
+        ["c", 2, 1],
+      ]
+    );
+  });
+
+  test("a draw ends the current streak", () => {
+    const stats = ratingStats([row("loss", 1190), row("draw", 1191)]);
+    assert.equal(stats.currentStreak, null);
+    assert.equal(ratingStats([]).bestRating, null);
+  });
+});
@@ -0,0 +1,129 @@
+import { test, describe, before, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+
+// Snapshots go to the in-memory store
+process.env.STORAGE = "memory";
+
+let gameManager;
+let storage;
+let saveRoom;
+let forgetRoom;
+let restoreRooms;
+let startRoom;
+
+before(async () => {
+  ({ default: gameManager } = await import("../src/gameManager.js"));
+  storage = await import("../src/storage/index.js");
+  ({ saveRoom, forgetRoom, restoreRooms } = await import(
+    "../src/roomSnapshots.js"
+  ));
+  ({ startRoom } = await import("./helpers.js"));
+});
+
+// A started room between two signed-in players
+const startRatedRoom = (roomId) =>
+  startRoom(
+    roomId,
+    {
+      userId: "u1",
+      rated: true,
+      rules: { preset: "free-style", lockedCells: 0 },
+    },
+    { userId: "u2" }
+  );
+
+// Stop the room as a crash would: the process forgets it, the store keeps it
+function crash(roomId) {
+  gameManager.removeRoom(roomId);
+}
+
+describe("room snapshots", () => {
+  beforeEach(async () => {
+    for (const roomId of gameManager.rooms.keys()) {
+      gameManager.removeRoom(roomId);
+    }
+    for (const snapshot of await storage.liveRooms.all()) {
+      await storage.liveRooms.remove(snapshot.roomId);
+    }
+  });
+
+  test("a game in progress survives a restart", async () => {
+    startRatedRoom("r1");
+    gameManager.makeMove("r1", "s1", 8, 8);
+    gameManager.makeMove("r1", "s2", 9, 9);
+    await saveRoom("r1");
+    crash("r1");
+
+    const [restored] = await restoreRooms();
+    assert.equal(restored.roomId, "r1");
+    assert.equal(gameManager.getRoom("r1"), restored);
+    assert.equal(restored.status, "playing");
+    assert.equal(restored.board[8][8], "X");
+    assert.equal(restored.board[9][9], "O");
+    assert.equal(restored.moves.length, 2);
+    assert.equal(restored.currentTurn, "X");
+    assert.equal(restored.rules.preset, "free-style");
+
+    // seats wait for their users to reconnect
+    const { player1, player2 } = restored.players;
+    assert.equal(player1.socketId, null);
+    assert.equal(player1.prevSocketId, "s1");
+    assert.ok(player2.disconnectedAt);
+    const seat = gameManager.reclaimSeat("r1", "u1", "s1-new");
+    assert.equal(seat.symbol, "X");
+    gameManager.reclaimSeat("r1", "u2", "s2-new");
+    assert.ok(gameManager.makeMove("r1", "s1-new", 8, 9).success);
+  });
+
+  test("downtime is not charged to the side to move", async () => {
+    const gs = startRatedRoom("r2");
+    const snapshot = gameManager.snapshotRoom("r2");
+    const startedAt = gs.clock.turnStartedAt;
+    crash("r2");
+
+    // restored one minute after the snapshot was taken
+    const restored = gameManager.restoreRoom(
+      snapshot,
+      snapshot.savedAt + 60_000
+    );
+    assert.equal(restored.clock.turnStartedAt, startedAt + 60_000);
+    assert.equal(restored.savedAt, undefined);
+  });
+
+  test("spectators and bot seats", async () => {
+    gameManager.createRoom("r3", {
+      id: "s1",
+      socketId: "s1",
+      userId: "u1",
+      name: "Alice",
+    });
+    gameManager.addBot("r3", "easy");
+    gameManager.addSpectator("r3", { id: "s9", socketId: "s9", name: "Eve" });
+    await saveRoom("r3");
+    crash("r3");
+
+    const [restored] = await restoreRooms();
+    assert.deepEqual(restored.spectators, []);
+    // the bot never disconnects
+    assert.equal(restored.players.player2.socketId, "bot:r3");
+  });
+
+  test("removed rooms are not restored", async () => {
+    startRatedRoom("r4");
+    await saveRoom("r4");
+    gameManager.removeRoom("r4");
+    await forgetRoom("r4");
+
+    assert.deepEqual(await restoreRooms(), []);
+    assert.deepEqual(await storage.liveRooms.all(), []);
+  });
+
+  test("rooms still open are not replaced", async () => {
+    startRatedRoom("r5");
+    await saveRoom("r5");
+    gameManager.makeMove("r5", "s1", 8, 8);
+
+    assert.deepEqual(await restoreRooms(), []);
+    assert.equal(gameManager.getRoom("r5").moves.length, 1);
+  });
+});
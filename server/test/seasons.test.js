@@ -0,0 +1,92 @@
+import { test, describe, before } from "node:test";
+import assert from "node:assert/strict";
+
+// Quarterly calendar seasons on the in-memory store, with the Elo engine
+process.env.STORAGE = "memory";
+process.env.LEADERBOARD_MIN_GAMES = "2";
+process.env.SEASON_RESET_FACTOR = "0.5";
+delete process.env.SEASONS;
+delete process.env.SEASON_MONTHS;
+delete process.env.RATING_ENGINE;
+
+let storage;
+let seasonAt;
+let badgeFor;
+let rollOverSeasons;
+
+before(async () => {
+  storage = await import("../src/storage/index.js");
+  ({ seasonAt, badgeFor } = await import("../src/ratings/seasons.js"));
+  ({ rollOverSeasons } = await import("../src/ratings/rollover.js"));
+});
+
+describe("seasons", () => {
+  test("calendar seasons are quarters", () => {
+    const season = seasonAt(Date.UTC(2025, 4, 20));
+    assert.equal(season.id, "2025-s2");
+    assert.equal(season.startsAt.toISOString(), "2025-04-01T00:00:00.000Z");
+    assert.equal(season.endsAt.toISOString(), "2025-07-01T00:00:00.000Z");
+    assert.deepEqual(
+      [1, 2, 3, 10, 11].map(badgeFor),
+      ["champion", "podium", "podium", "top10", "ranked"]
+    );
+  });
+
+  test("rollover archives standings and soft-resets ratings", async () => {
+    const winter = seasonAt(Date.UTC(2025, 1, 1));
+    await rollOverSeasons(Date.UTC(2025, 1, 1));
+    assert.equal((await storage.seasons.findOpen())[0]._id, winter.id);
+
+    const [a, b, c] = await Promise.all(
+      ["A", "B", "C"].map((name) => storage.users.create({ name }))
+    );
+    const at = new Date(Date.UTC(2025, 1, 2));
+    const row = (user, opponent, before, after, result) => ({
+      userId: user._id,
+      opponentId: opponent._id,
+      engine: "elo",
+      before,
+      after,
+      change: after - before,
+      result,
+      season: winter.id,
+      timestamp: at,
+    });
+    await storage.eloHistory.createMany([
+      row(a, b, 1200, 1220, "win"),
+      row(a, b, 1220, 1240, "win"),
+      row(b, a, 1200, 1180, "loss"),
+      row(b, a, 1180, 1160, "loss"),
+      // one game only: not ranked
+      row(c, a, 1200, 1300, "win"),
+    ]);
+    await storage.users.update(a._id, { set: { elo: 1240, gamesPlayed: 2 } });
+    await storage.users.update(b._id, { set: { elo: 1160, gamesPlayed: 2 } });
+
+    const spring = Date.UTC(2025, 3, 2);
+    assert.deepEqual(await rollOverSeasons(spring), [winter.id]);
+
+    const { total, standings } = await storage.seasonStandings.page(
+      winter.id,
+      { limit: 10 }
+    );
+    assert.equal(total, 2);
+    assert.deepEqual(
+      standings.map((s) => [s.name, s.rank, s.badge, s.rating, s.wins]),
+      [
+        ["A", 1, "champion", 1240, 2],
+        ["B", 2, "podium", 1160, 0],
+      ]
+    );
+    assert.equal((await storage.users.findById(a._id)).elo, 1220);
+    assert.equal((await storage.users.findById(b._id)).elo, 1180);
+
+    const [archived] = await storage.seasons.archived();
+    assert.equal(archived._id, winter.id);
+    assert.equal((await storage.seasons.findOpen())[0]._id, "2025-s2");
+
+    // running again changes nothing
+    assert.deepEqual(await rollOverSeasons(spring), []);
+    assert.equal((await storage.users.findById(a._id)).elo, 1220);
+  });
+});
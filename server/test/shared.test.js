@@ -0,0 +1,90 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { createMemoryShared } from "../src/shared/memory.js";
+import { SharedMap } from "../src/shared/sharedMap.js";
+
+// Two server nodes in one process share the in-memory store
+let nodes = 0;
+async function twoNodes(name, options) {
+  const a = createMemoryShared({ nodeId: `a${++nodes}` });
+  const b = createMemoryShared({ nodeId: `b${nodes}` });
+  const mapA = await new SharedMap(a, name).attach(options);
+  const mapB = await new SharedMap(b, name).attach(options);
+  return { a, b, mapA, mapB };
+}
+
+// Changes reach the other nodes asynchronously
+const delivered = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("SharedMap", () => {
+  test("changes on one node reach the other", async () => {
+    const { mapA, mapB } = await twoNodes("t-sync");
+    mapA.set("r1", { status: "waiting" });
+    await delivered();
+    assert.deepEqual(mapB.get("r1"), { status: "waiting" });
+
+    // in-place changes are shared with publish, keeping object identity
+    const held = mapB.get("r1");
+    mapA.get("r1").status = "playing";
+    mapA.publish("r1");
+    await delivered();
+    assert.equal(held.status, "playing");
+    assert.equal(mapB.get("r1"), held);
+
+    mapB.delete("r1");
+    await delivered();
+    assert.equal(mapA.has("r1"), false);
+  });
+
+  test("a node joining later loads the current entries", async () => {
+    const { a, mapA } = await twoNodes("t-late");
+    mapA.set("q1", { elo: 1200 });
+    const late = await new SharedMap(
+      createMemoryShared({ nodeId: "late" }),
+      "t-late"
+    ).attach();
+    assert.deepEqual(late.get("q1"), { elo: 1200 });
+    assert.deepEqual(late.ownKeys(), []);
+    assert.deepEqual(mapA.ownKeys(), ["q1"]);
+    await a.close();
+  });
+
+  test("remote changes call onRemoteChange, local ones do not", async () => {
+    const changed = [];
+    const { mapA, mapB } = await twoNodes("t-listen", {
+      onRemoteChange: (key) => changed.push(key),
+    });
+    mapA.set("x", 1);
+    mapB.set("y", 2);
+    await delivered();
+    assert.deepEqual(changed.sort(), ["x", "y"]);
+    assert.deepEqual(Array.from(mapA.keys()).sort(), ["x", "y"]);
+  });
+
+  test("dropStale removes what an earlier run of the node left", async () => {
+    const first = createMemoryShared({ nodeId: "restarting" });
+    const before = await new SharedMap(first, "t-stale").attach();
+    before.set("old-socket", { name: "gone" });
+    await first.close();
+
+    const again = createMemoryShared({ nodeId: "restarting" });
+    const after = await new SharedMap(again, "t-stale").attach({
+      dropStale: true,
+    });
+    assert.equal(after.size, 0);
+  });
+});
+
+describe("memory locks", () => {
+  test("one node holds a lock until it expires", async () => {
+    const { a, b } = await twoNodes("t-lock");
+    assert.equal(await a.acquireLock("matcher", 50), true);
+    assert.equal(await b.acquireLock("matcher", 50), false);
+    // renewing our own lock works
+    assert.equal(await a.acquireLock("matcher", 50), true);
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    assert.equal(await b.acquireLock("matcher", 50), true);
+    await b.close();
+    assert.equal(await a.acquireLock("matcher", 50), true);
+  });
+});
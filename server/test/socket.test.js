@@ -0,0 +1,386 @@
+import { test, before, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import { io as connect } from "socket.io-client";
+
+// End-to-end game over the real Express/Socket.io server. Without MONGO_URI
+// the server uses the in-memory store, so the test seeds its own users.
+process.env.PORT = "0";
+process.env.MONGO_URI = "";
+process.env.SESSION_SECRET = "test-secret";
+// rated rooms wait this long for a disconnected player
+process.env.RANKED_PENDING_REMOVE_MS = "300";
+
+let server;
+let io;
+let url;
+let storage;
+let issueSessionToken;
+let gameManager;
+const clients = [];
+
+before(async () => {
+  // quiet the server's request logging while these tests run
+  mock.method(console, "log", () => {});
+  mock.method(console, "debug", () => {});
+  ({ server, io } = await import("../index.js"));
+  storage = await import("../src/storage/index.js");
+  ({ issueSessionToken } = await import("../src/auth.js"));
+  ({ default: gameManager } = await import("../src/gameManager.js"));
+  if (!server.listening) {
+    await new Promise((resolve) => server.once("listening", resolve));
+  }
+  url = `http://localhost:${server.address().port}`;
+});
+
+after(async () => {
+  for (const c of clients) c.close();
+  io.close();
+  await new Promise((resolve) => server.close(resolve));
+  mock.restoreAll();
+});
+
+// Connect a signed-in client for a new user
+async function signIn(name) {
+  const user = await storage.users.create({ name });
+  const { token } = issueSessionToken(user._id);
+  const socket = connect(url, { auth: { token }, transports: ["websocket"] });
+  clients.push(socket);
+  await once(socket, "connect");
+  return { socket, user };
+}
+
+// Resolve with the next payload of `event` (fails after 2 seconds)
+function once(socket, event) {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`timed out waiting for ${event}`)),
+      2000
+    );
+    socket.once(event, (payload) => {
+      clearTimeout(timer);
+      resolve(payload);
+    });
+  });
+}
+
+test("two players play a full game", async () => {
+  const alice = await signIn("Alice");
+  const bob = await signIn("Bob");
+  const roomId = `it-${Date.now()}`;
+
+  alice.socket.emit("create-room", { playerName: "Alice", roomId });
+  const created = await once(alice.socket, "room-created");
+  assert.equal(created.roomId, roomId);
+  assert.equal(created.gameState.status, "waiting");
+  const host = created.gameState.players.player1;
+  assert.equal(host.userId, String(alice.user._id));
+
+  // the room is private: Bob needs the invite token
+  bob.socket.emit("join-room", { roomId, playerName: "Bob" });
+  const refused = await once(bob.socket, "request-error");
+  assert.equal(refused.code, "invite-required");
+  alice.socket.emit("request-invite", { roomId });
+  const { token } = await once(alice.socket, "room-invite");
+
+  const joined = once(alice.socket, "room-joined");
+  bob.socket.emit("join-room", { roomId, playerName: "Bob", invite: token });
+  const { gameState: afterJoin } = await joined;
+  assert.equal(afterJoin.players.player2.name, "Bob");
+
+  const started = once(bob.socket, "game-started");
+  alice.socket.emit("start-game", { roomId });
+  const { gameState } = await started;
+  assert.equal(gameState.status, "playing");
+
+  // Opening next to a locked cell; later stones keep the Open-4 distance
+  const players = {
+    [gameState.players.player1.symbol]: alice.socket,
+    [gameState.players.player2.symbol]: bob.socket,
+  };
+  const locked = new Set(gameState.lockedCells.map(([r, c]) => `${r},${c}`));
+  const [openRow, openCol] = gameState.validFirstMoveCells[0];
+  const free = (r, c) =>
+    !locked.has(`${r},${c}`) && gameState.board[r]?.[c] === null;
+
+  // Five free cells in a row that avoid the opening cell's row and column
+  const lineFor = (skipRows) => {
+    for (let r = 0; r < gameState.board.length; r++) {
+      if (skipRows.includes(r)) continue;
+      for (let c = 0; c + 4 < gameState.board.length; c++) {
+        const cells = [0, 1, 2, 3, 4].map((i) => [r, c + i]);
+        const farFromOpening = cells.every(
+          ([rr, cc]) => Math.abs(rr - openRow) + Math.abs(cc - openCol) >= 4
+        );
+        if (farFromOpening && cells.every(([rr, cc]) => free(rr, cc))) {
+          return cells;
+        }
+      }
+    }
+    throw new Error("no free line");
+  };
+  // The starter opens; the other player then completes a five on its own row
+  // while the starter builds four on another one
+  const starter = gameState.currentTurn;
+  const other = starter === "X" ? "O" : "X";
+  const starterLine = lineFor([openRow]);
+  const otherLine = lineFor([openRow, starterLine[0][0]]);
+  const moves = [[starter, [openRow, openCol]]];
+  for (let i = 0; i < 5; i++) {
+    moves.push([other, otherLine[i]]);
+    if (i < 4) moves.push([starter, starterLine[i]]);
+  }
+
+  const ended = once(alice.socket, "game-ended");
+  const recorded = once(alice.socket, "game-recorded");
+  for (const [symbol, [row, col]] of moves) {
+    const made = once(alice.socket, "move-made");
+    players[symbol].emit("make-move", { roomId, row, col });
+    const move = await made;
+    assert.equal(move.gameState.board[row][col], symbol);
+  }
+
+  const { gameState: final, reason } = await ended;
+  assert.equal(reason, "finished");
+  assert.equal(final.status, "finished");
+  assert.equal(final.winner, other);
+  assert.deepEqual(final.winningCells, otherLine);
+
+  // The finished game is stored and served for replays
+  const { gameId } = await recorded;
+  const res = await fetch(`${url}/api/game/${gameId}`);
+  assert.equal(res.status, 200);
+  const { game } = await res.json();
+  assert.equal(game.moves.length, moves.length);
+  assert.equal(game.result, other);
+  assert.equal(game.reason, "finished");
+});
+
+test("malformed moves are rejected with request-error", async () => {
+  const carol = await signIn("Carol");
+  carol.socket.emit("make-move", { roomId: "nope", row: "1", col: 2 });
+  const error = await once(carol.socket, "request-error");
+  assert.equal(error.event, "make-move");
+  assert.equal(error.code, "invalid-payload");
+  assert.equal(error.field, "row");
+});
+
+test("an accepted challenge opens a room with its settings", async () => {
+  const dora = await signIn("Dora");
+  const evan = await signIn("Evan");
+  const evanId = String(evan.user._id);
+
+  const received = once(evan.socket, "friend-request-received");
+  dora.socket.emit("friend-request", { userId: evanId });
+  assert.equal((await received).from.name, "Dora");
+  const updated = once(dora.socket, "friends-updated");
+  evan.socket.emit("friend-accept", { userId: String(dora.user._id) });
+  await updated;
+
+  dora.socket.emit("request-friends");
+  const { friends } = await once(dora.socket, "friends");
+  assert.deepEqual(
+    friends.map((f) => [f.name, f.status]),
+    [["Evan", "online"]]
+  );
+
+  const challenged = once(evan.socket, "challenge-received");
+  dora.socket.emit("challenge-friend", {
+    userId: evanId,
+    rated: true,
+    boardSize: 15,
+    timeControl: { baseMs: 60000, incrementMs: 2000, delayMs: 0 },
+  });
+  const { challenge } = await challenged;
+  assert.equal(challenge.from.name, "Dora");
+
+  const joined = once(dora.socket, "room-joined");
+  evan.socket.emit("challenge-respond", {
+    challengeId: challenge.id,
+    accept: true,
+  });
+  const { gameState } = await joined;
+  assert.equal(gameState.rated, true);
+  assert.equal(gameState.board.length, 15);
+  assert.equal(gameState.players.player1.name, "Dora");
+  assert.equal(gameState.players.player2.name, "Evan");
+});
+
+test("only friends can be challenged", async () => {
+  const finn = await signIn("Finn");
+  const gail = await signIn("Gail");
+  finn.socket.emit("challenge-friend", { userId: String(gail.user._id) });
+  const error = await once(finn.socket, "request-error");
+  assert.equal(error.event, "challenge-friend");
+  assert.equal(error.code, "not-friends");
+});
+
+test("spectators of a delayed room see moves late and chat apart", async () => {
+  const hana = await signIn("Hana");
+  const ivan = await signIn("Ivan");
+  const jade = await signIn("Jade");
+  const roomId = `delay-${Date.now()}`;
+
+  hana.socket.emit("create-room", { roomId, spectatorDelay: { moves: 1 } });
+  const created = await once(hana.socket, "room-created");
+  assert.deepEqual(created.gameState.spectatorDelay, { moves: 1 });
+  hana.socket.emit("request-invite", { roomId });
+  const { token } = await once(hana.socket, "room-invite");
+  const joined = once(hana.socket, "room-joined");
+  ivan.socket.emit("join-room", { roomId, invite: token });
+  await joined;
+  jade.socket.emit("spectate-room", { roomId });
+  await once(jade.socket, "room-joined");
+
+  const started = once(jade.socket, "game-started");
+  hana.socket.emit("start-game", { roomId });
+  const { gameState } = await started;
+  const players = {
+    [gameState.players.player1.symbol]: hana.socket,
+    [gameState.players.player2.symbol]: ivan.socket,
+  };
+  const locked = new Set(gameState.lockedCells.map(([r, c]) => `${r},${c}`));
+  const [openRow, openCol] = gameState.validFirstMoveCells[0];
+  const replyCol = openCol < 5 ? openCol + 5 : openCol - 5;
+  const replyRow = locked.has(`${openRow},${replyCol}`) ? openRow + 1 : openRow;
+
+  // The opening is held back from the spectator for one move
+  let seen = once(jade.socket, "room-state");
+  players[gameState.currentTurn].emit("make-move", {
+    roomId,
+    row: openRow,
+    col: openCol,
+  });
+  let view = (await seen).gameState;
+  assert.equal(view.moves.length, 0);
+  assert.equal(view.board[openRow][openCol], null);
+
+  seen = once(jade.socket, "room-state");
+  const other = gameState.currentTurn === "X" ? "O" : "X";
+  players[other].emit("make-move", { roomId, row: replyRow, col: replyCol });
+  view = (await seen).gameState;
+  assert.equal(view.moves.length, 1);
+  assert.equal(view.board[openRow][openCol], gameState.currentTurn);
+  assert.equal(view.board[replyRow][replyCol], null);
+
+  // A takeback reaches the spectator only as the board it may see
+  let spectatorTold = false;
+  jade.socket.on("takeback-accepted", () => (spectatorTold = true));
+  players[other].emit("request-takeback", { roomId });
+  await once(players[gameState.currentTurn], "takeback-requested");
+  seen = once(jade.socket, "room-state");
+  const accepted = once(players[other], "takeback-accepted");
+  players[gameState.currentTurn].emit("respond-takeback", {
+    roomId,
+    accept: true,
+  });
+  assert.equal((await accepted).undone, 1);
+  view = (await seen).gameState;
+  assert.equal(view.moves.length, 0);
+  jade.socket.emit("request-chat-history", { roomId });
+  await once(jade.socket, "chat-history");
+  assert.equal(spectatorTold, false);
+
+  // The spectator's message stays among spectators during the game
+  const hanaNext = once(hana.socket, "chat-message");
+  const echoed = once(jade.socket, "chat-message");
+  jade.socket.emit("chat-message", { roomId, message: "play the corner" });
+  assert.equal((await echoed).channel, "spectators");
+  hana.socket.emit("chat-message", { roomId, message: "gl" });
+  assert.equal((await hanaNext).message, "gl");
+
+  hana.socket.emit("request-chat-history", { roomId });
+  const { messages } = await once(hana.socket, "chat-history");
+  assert.deepEqual(messages.map((m) => m.message), ["gl"]);
+  jade.socket.emit("request-chat-history", { roomId });
+  const spectatorHistory = await once(jade.socket, "chat-history");
+  assert.deepEqual(
+    spectatorHistory.messages.map((m) => m.message),
+    ["play the corner", "gl"]
+  );
+});
+
+test("a tournament round ends when a player does not come back", async () => {
+  const kim = await signIn("Kim");
+  const lee = await signIn("Lee");
+
+  const created = once(kim.socket, "tournament-created");
+  const announced = once(kim.socket, "tournament-updated");
+  kim.socket.emit("tournament-create", {
+    name: "Night cup",
+    format: "swiss",
+    rounds: 2,
+    rated: true,
+  });
+  const tournamentId = (await created).tournament.id;
+  await announced;
+  for (const { socket } of [kim, lee]) {
+    const joined = once(kim.socket, "tournament-updated");
+    socket.emit("tournament-join", { tournamentId });
+    await joined;
+  }
+
+  const started = once(kim.socket, "game-started");
+  kim.socket.emit("tournament-start", { tournamentId });
+  const { gameState } = await started;
+  const { player1, player2 } = gameState.players;
+  const kimSymbol =
+    player1.userId === String(kim.user._id) ? player1.symbol : player2.symbol;
+
+  // Lee closes the tab mid-game and does not return within the grace time
+  const ended = once(kim.socket, "game-ended");
+  lee.socket.disconnect();
+  const { gameState: final, reason } = await ended;
+  assert.equal(reason, "forfeit");
+  assert.equal(final.winner, kimSymbol);
+
+  // Round 2 is paired, and Lee, who has no tab open, loses it too
+  let details;
+  for (let i = 0; i < 20 && details?.status !== "finished"; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    kim.socket.emit("request-tournament", { tournamentId });
+    ({ tournament: details } = await once(kim.socket, "tournament"));
+  }
+  assert.equal(details.status, "finished");
+  const [first, second] = details.rounds.map((r) => r.pairings[0]);
+  assert.deepEqual([first.result, first.forfeit], [kimSymbol, false]);
+  assert.equal(second.forfeit, true);
+  assert.equal(details.standings[0].userId, String(kim.user._id));
+  // the room of round 1 was closed when round 2 was paired
+  assert.equal(gameManager.getRoom(gameState.roomId), undefined);
+});
+
+test("a draw needs an offer from the other player", async () => {
+  const mia = await signIn("Mia");
+  const noah = await signIn("Noah");
+  const roomId = `draw-${Date.now()}`;
+
+  mia.socket.emit("create-room", { roomId });
+  await once(mia.socket, "room-created");
+  mia.socket.emit("request-invite", { roomId });
+  const { token } = await once(mia.socket, "room-invite");
+  const joined = once(mia.socket, "room-joined");
+  noah.socket.emit("join-room", { roomId, invite: token });
+  await joined;
+  const started = once(noah.socket, "game-started");
+  mia.socket.emit("start-game", { roomId });
+  await started;
+
+  // Accepting a draw nobody offered, or one's own offer, changes nothing
+  noah.socket.emit("respond-draw", { roomId, accept: true, fromSocket: "x" });
+  mia.socket.emit("offer-draw", { roomId });
+  await once(noah.socket, "draw-offered");
+  mia.socket.emit("respond-draw", { roomId, accept: true, fromSocket: "x" });
+  noah.socket.emit("request-room-state", { roomId });
+  const { gameState } = await once(noah.socket, "room-state");
+  assert.equal(gameState.status, "playing");
+
+  const ended = once(mia.socket, "game-ended");
+  noah.socket.emit("respond-draw", {
+    roomId,
+    accept: true,
+    fromSocket: mia.socket.id,
+  });
+  const { gameState: final, reason } = await ended;
+  assert.equal(reason, "draw-offer-accepted");
+  assert.equal(final.winner, "draw");
+});
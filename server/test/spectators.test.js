@@ -0,0 +1,82 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import {
+  normalizeSpectatorDelay,
+  visibleMoveCount,
+  spectatorView,
+  viewFor,
+  hidesSpectatorChat,
+} from "../src/spectators.js";
+
+// A 5x5 game with three moves played at t=1000, 2000 and 3000
+function game(spectatorDelay, status = "playing") {
+  const moves = [
+    { row: 0, col: 0, symbol: "X", at: 1000 },
+    { row: 1, col: 1, symbol: "O", at: 2000 },
+    { row: 2, col: 2, symbol: "X", at: 3000 },
+  ];
+  const board = Array.from({ length: 5 }, () => Array(5).fill(null));
+  for (const m of moves) board[m.row][m.col] = m.symbol;
+  return {
+    board,
+    moves,
+    moveCount: 3,
+    currentTurn: "O",
+    status,
+    winner: status === "finished" ? "X" : null,
+    winningCells: [],
+    spectatorDelay,
+    players: {
+      player1: { socketId: "p1", symbol: "X" },
+      player2: { socketId: "p2", symbol: "O" },
+    },
+  };
+}
+
+describe("spectator delay", () => {
+  test("settings are bounded and one kind at a time", () => {
+    assert.equal(normalizeSpectatorDelay(undefined), null);
+    assert.equal(normalizeSpectatorDelay({ moves: 0 }), null);
+    assert.deepEqual(normalizeSpectatorDelay({ moves: 2.7 }), { moves: 2 });
+    assert.deepEqual(normalizeSpectatorDelay({ seconds: 9999 }), {
+      seconds: 300,
+    });
+    assert.deepEqual(normalizeSpectatorDelay({ moves: 1, seconds: 30 }), {
+      moves: 1,
+    });
+  });
+
+  test("a delay in moves hides the latest moves until the game ends", () => {
+    const gs = game({ moves: 2 });
+    assert.equal(visibleMoveCount(gs), 1);
+    const view = spectatorView(gs);
+    assert.equal(view.board[0][0], "X");
+    assert.equal(view.board[1][1], null);
+    assert.equal(view.currentTurn, "O");
+    assert.equal(view.moveCount, 1);
+    // the game itself is untouched
+    assert.equal(gs.board[1][1], "O");
+
+    const finished = game({ moves: 2 }, "finished");
+    assert.equal(spectatorView(finished), finished);
+  });
+
+  test("a delay in seconds shows moves once they are old enough", () => {
+    const gs = game({ seconds: 2 }, "finished");
+    assert.equal(visibleMoveCount(gs, 3500), 1);
+    const view = spectatorView(gs, 3500);
+    assert.equal(view.status, "playing");
+    assert.equal(view.winner, null);
+    assert.equal(view.currentTurn, "O");
+    assert.equal(spectatorView(gs, 5000), gs);
+  });
+
+  test("players see the game and their chat live", () => {
+    const gs = game({ moves: 1 });
+    assert.equal(viewFor(gs, "p1"), gs);
+    assert.equal(viewFor(gs, "watcher").moves.length, 2);
+    assert.equal(hidesSpectatorChat(gs, "p2"), true);
+    assert.equal(hidesSpectatorChat(gs, "watcher"), false);
+    assert.equal(hidesSpectatorChat(game(null, "finished"), "p2"), false);
+  });
+});
@@ -0,0 +1,139 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createMemoryStorage } from "../src/storage/memory.js";
+
+describe("memory storage", () => {
+  test("users: create, lookups and updates", async () => {
+    const { users } = createMemoryStorage();
+    const a = await users.create({ name: "A" });
+    const b = await users.create({ name: "B", elo: 1500 });
+    assert.equal(a.elo, 1200);
+    assert.match(a._id, /^[0-9a-f]{24}$/);
+
+    await users.setSocketId(a._id, "sock-a");
+    assert.deepEqual(
+      (await users.findBySocketIds(["sock-a"])).map((u) => u.name),
+      ["A"]
+    );
+
+    await users.update(a._id, { set: { elo: 1600 }, inc: { gamesPlayed: 1 } });
+    const updated = await users.findById(a._id);
+    assert.equal(updated.elo, 1600);
+    assert.equal(updated.gamesPlayed, 1);
+    const board = await users.leaderboard("elo", { limit: 2 });
+    assert.equal(board.total, 2);
+    assert.deepEqual(
+      board.users.map((u) => u._id),
+      [a._id, b._id]
+    );
+    assert.equal((await users.leaderboard("elo", { minGames: 1 })).total, 1);
+    assert.equal(await users.rankOf("elo", b._id), 2);
+    assert.equal(await users.rankOf("elo", b._id, { minGames: 1 }), null);
+
+    // callers get copies, not the stored records
+    updated.elo = 0;
+    assert.equal((await users.findById(a._id)).elo, 1600);
+  });
+
+  test("users: Google sign-in creates the account once", async () => {
+    const { users } = createMemoryStorage();
+    const first = await users.upsertGoogleUser({ googleId: "g1", name: "A" });
+    const again = await users.upsertGoogleUser({ googleId: "g1", name: "A2" });
+    assert.equal(first._id, again._id);
+    assert.equal(again.name, "A2");
+    assert.equal(first.rating, 1500);
+  });
+
+  test("games: newest first per player, without moves", async () => {
+    const { games } = createMemoryStorage();
+    const at = (m) => new Date(Date.UTC(2025, 0, 1, 0, m));
+    for (let m = 0; m < 3; m++) {
+      await games.create({
+        playerIds: ["p1", m === 1 ? "p3" : "p2"],
+        moves: [{ row: 0, col: m, symbol: "X", at: at(m) }],
+        endedAt: at(m),
+      });
+    }
+    const list = await games.findByPlayer("p2", { limit: 10 });
+    assert.deepEqual(
+      list.map((g) => g.endedAt.getUTCMinutes()),
+      [2, 0]
+    );
+    assert.equal(list[0].moves, undefined);
+    const older = await games.findByPlayer("p1", { limit: 10, before: at(2) });
+    assert.equal(older.length, 2);
+    const full = await games.findById(list[0]._id);
+    assert.equal(full.moves.length, 1);
+  });
+
+  test("rating history: per user and engine, oldest first", async () => {
+    const { eloHistory } = createMemoryStorage();
+    const at = (m) => new Date(Date.UTC(2025, 0, 1, 0, m));
+    const row = (m, engine) => ({
+      userId: "u1",
+      opponentId: "u2",
+      before: 1200 + m,
+      after: 1201 + m,
+      change: 1,
+      result: "win",
+      timestamp: at(m),
+      ...(engine ? { engine } : null),
+    });
+    await eloHistory.createMany([row(2, "elo"), row(0), row(1, "glicko2")]);
+    await eloHistory.createMany([{ ...row(3, "elo"), userId: "u2" }]);
+
+    const elo = await eloHistory.findByUser("u1", { engine: "elo" });
+    assert.deepEqual(
+      elo.map((r) => r.before),
+      [1200, 1202]
+    );
+    assert.equal((await eloHistory.findByUser("u1")).length, 3);
+    assert.deepEqual(
+      (await eloHistory.findByUser("u1", { limit: 1 })).map((r) => r.before),
+      [1202]
+    );
+  });
+
+  test("chat: keeps the most recent messages per room", async () => {
+    const { chatMessages } = createMemoryStorage();
+    for (let i = 0; i < 5; i++) {
+      await chatMessages.create({
+        roomId: "r",
+        message: `m${i}`,
+        timestamp: new Date(1000 + i),
+      });
+    }
+    await chatMessages.create({ roomId: "other", message: "x" });
+    const recent = await chatMessages.recent("r", 3);
+    assert.deepEqual(
+      recent.map((m) => m.message),
+      ["m2", "m3", "m4"]
+    );
+    await chatMessages.deleteByRoom("r");
+    assert.equal((await chatMessages.recent("r", 3)).length, 0);
+    assert.equal((await chatMessages.recent("other", 3)).length, 1);
+  });
+
+  test("file backend reloads what it saved", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zcaro-"));
+    const file = path.join(dir, "store.json");
+    try {
+      const first = createMemoryStorage({ file });
+      assert.equal(first.kind, "file");
+      const u = await first.users.create({ name: "Saved" });
+      await first.games.create({ playerIds: [u._id], endedAt: new Date() });
+      // saves are batched shortly after a change
+      await new Promise((resolve) => setTimeout(resolve, 400));
+
+      const second = createMemoryStorage({ file });
+      assert.equal((await second.users.findById(u._id)).name, "Saved");
+      const [game] = await second.games.findByPlayer(u._id, { limit: 1 });
+      assert.ok(game.endedAt instanceof Date);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
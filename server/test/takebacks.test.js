@@ -0,0 +1,130 @@
+import { test, describe, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import gameManager from "../src/gameManager.js";
+import { startRoom } from "./helpers.js";
+
+// A free cell away from the opening, where O may reply
+function replyCell(gs) {
+  const locked = new Set(gs.lockedCells.map(([r, c]) => `${r},${c}`));
+  const size = gs.board.length;
+  for (let r = size - 1; r >= 0; r--) {
+    for (let c = size - 1; c >= 0; c--) {
+      if (!locked.has(`${r},${c}`) && gs.board[r][c] === null) return [r, c];
+    }
+  }
+  throw new Error("no free cell");
+}
+
+describe("takebacks", () => {
+  const roomId = "takeback-room";
+  let gs;
+  let opening;
+
+  beforeEach(() => {
+    gameManager.removeRoom(roomId);
+    gs = startRoom(roomId);
+    opening = gs.validFirstMoveCells[0];
+    assert.ok(gameManager.makeMove(roomId, "s1", ...opening).success);
+  });
+
+  test("a takeback also undoes the reply to the asker's move", () => {
+    const reply = replyCell(gs);
+    assert.ok(gameManager.makeMove(roomId, "s2", ...reply).success);
+
+    assert.deepEqual(gameManager.requestTakeback(roomId, "s1"), {
+      gameState: gs,
+    });
+    assert.deepEqual(gameManager.requestTakeback(roomId, "s1"), {
+      error: "already-requested",
+    });
+    // only the opponent answers
+    assert.deepEqual(gameManager.answerTakeback(roomId, "s1", true), {
+      error: "no-request",
+    });
+    const { undone, requester } = gameManager.answerTakeback(
+      roomId,
+      "s2",
+      true
+    );
+    assert.equal(undone, 2);
+    assert.equal(requester.socketId, "s1");
+    assert.equal(gs.board[opening[0]][opening[1]], null);
+    assert.equal(gs.board[reply[0]][reply[1]], null);
+    assert.equal(gs.moveCount, 0);
+    assert.deepEqual(gs.moves, []);
+    assert.equal(gs.currentTurn, "X");
+    assert.equal(gs.clock.active, "X");
+    // the opening may be played elsewhere now
+    assert.equal(gs.firstStarterPos, null);
+    assert.equal(gs.firstStarterSymbol, null);
+    const otherOpening = gs.validFirstMoveCells[1];
+    assert.ok(gameManager.makeMove(roomId, "s1", ...otherOpening).success);
+    assert.deepEqual(gs.firstStarterPos, otherOpening);
+
+    // one takeback per player and game by default
+    assert.deepEqual(gameManager.requestTakeback(roomId, "s1"), {
+      error: "limit-reached",
+    });
+    gameManager.resetRoom(roomId);
+    assert.deepEqual(gs.takebacksUsed, { X: 0, O: 0 });
+  });
+
+  test("the last mover takes back only their own move", () => {
+    assert.deepEqual(gameManager.requestTakeback(roomId, "s2"), {
+      error: "no-move",
+    });
+    const reply = replyCell(gs);
+    gameManager.makeMove(roomId, "s2", ...reply);
+    gameManager.requestTakeback(roomId, "s2");
+    assert.equal(gameManager.answerTakeback(roomId, "s1", true).undone, 1);
+    assert.equal(gs.board[reply[0]][reply[1]], null);
+    assert.equal(gs.board[opening[0]][opening[1]], "X");
+    assert.equal(gs.moveCount, 1);
+    assert.equal(gs.currentTurn, "O");
+    assert.deepEqual(gs.firstStarterPos, opening);
+  });
+
+  test("a declined or outdated request changes nothing", () => {
+    gameManager.requestTakeback(roomId, "s1");
+    assert.equal(gameManager.answerTakeback(roomId, "s2", false).undone, 0);
+    assert.equal(gs.moveCount, 1);
+    assert.deepEqual(gs.takebacksUsed, { X: 0, O: 0 });
+
+    gameManager.requestTakeback(roomId, "s1");
+    gameManager.makeMove(roomId, "s2", ...replyCell(gs));
+    assert.deepEqual(gameManager.answerTakeback(roomId, "s2", true), {
+      error: "no-request",
+    });
+    assert.equal(gs.moveCount, 2);
+  });
+
+  test("the increment of an undone move is taken back", () => {
+    gameManager.removeRoom(roomId);
+    const timeControl = { baseMs: 60000, incrementMs: 5000, delayMs: 0 };
+    gs = startRoom(roomId, { timeControl });
+    gameManager.makeMove(roomId, "s1", ...gs.validFirstMoveCells[0]);
+    gameManager.makeMove(roomId, "s2", ...replyCell(gs));
+    const before = { ...gs.clock.remainingMs };
+    assert.ok(before.X > 60000 && before.O > 60000);
+
+    gameManager.requestTakeback(roomId, "s1");
+    assert.equal(gameManager.answerTakeback(roomId, "s2", true).undone, 2);
+    const after = gs.clock.remainingMs;
+    assert.equal(after.O, before.O - 5000);
+    // X's clock also ran until the takeback
+    assert.ok(after.X <= before.X - 5000 && after.X > before.X - 5100);
+    assert.equal(gs.clock.active, "X");
+  });
+
+  test("rated rooms have none unless they ask for some", () => {
+    gameManager.removeRoom(roomId);
+    const rated = startRoom(roomId, { rated: true });
+    gameManager.makeMove(roomId, "s1", ...rated.validFirstMoveCells[0]);
+    assert.deepEqual(gameManager.requestTakeback(roomId, "s1"), {
+      error: "disabled",
+    });
+    gameManager.removeRoom(roomId);
+    const chosen = startRoom(roomId, { rated: true, takebacks: 2 });
+    assert.equal(chosen.takebacks, 2);
+  });
+});
@@ -0,0 +1,355 @@
+import { test, describe, before } from "node:test";
+import assert from "node:assert/strict";
+
+process.env.STORAGE = "memory";
+
+let storage;
+let tournaments;
+let pairing;
+let standings;
+let arena;
+
+before(async () => {
+  storage = await import("../src/storage/index.js");
+  tournaments = await import("../src/tournaments/index.js");
+  pairing = await import("../src/tournaments/pairing.js");
+  standings = await import("../src/tournaments/standings.js");
+  arena = await import("../src/tournaments/arena.js");
+});
+
+const player = (userId, rating) => ({ userId, name: userId, rating });
+
+// a, b, c and d, rated in that order
+const FOUR = [
+  player("a", 1500),
+  player("b", 1400),
+  player("c", 1300),
+  player("d", 1200),
+];
+
+const round = (number, ...pairings) => ({ number, pairings });
+
+// Round 1: a beats c, d beats b. Round 2: d and a draw, c beats b.
+const ROUNDS = [
+  round(1, { X: "a", O: "c", result: "X" }, { X: "b", O: "d", result: "O" }),
+  round(
+    2,
+    { X: "d", O: "a", result: "draw" },
+    { X: "c", O: "b", result: "X" }
+  ),
+];
+
+describe("swiss pairing", () => {
+  test("the top half of a score group meets the bottom half", () => {
+    assert.deepEqual(pairing.swissPairings(FOUR, []), [
+      { X: "a", O: "c" },
+      { X: "b", O: "d" },
+    ]);
+  });
+
+  test("pairs by score and balances colours", () => {
+    // a and d lead on 1 point; whoever had X gets O
+    assert.deepEqual(pairing.swissPairings(FOUR, ROUNDS.slice(0, 1)), [
+      { X: "d", O: "a" },
+      { X: "c", O: "b" },
+    ]);
+  });
+
+  test("players never meet twice when another pairing exists", () => {
+    // a and d share the lead but have met, so a drops to b
+    const pairs = pairing
+      .swissPairings(FOUR, ROUNDS)
+      .map((p) => [p.X, p.O].sort().join("-"))
+      .sort();
+    assert.deepEqual(pairs, ["a-b", "c-d"]);
+  });
+
+  test("the bye goes to the lowest ranked player without one", () => {
+    const three = FOUR.slice(0, 3);
+    const first = pairing.swissPairings(three, []);
+    assert.deepEqual(first.at(-1), { X: "c", O: null });
+
+    const played = [
+      round(
+        1,
+        { X: "a", O: "b", result: "X" },
+        { X: "c", O: null, result: "bye" }
+      ),
+    ];
+    // b is last on 0 points and has had no bye
+    assert.deepEqual(pairing.swissPairings(three, played).at(-1), {
+      X: "b",
+      O: null,
+    });
+  });
+});
+
+describe("knockout bracket", () => {
+  test("seeds by rating and gives byes to the top seeds", () => {
+    const five = [...FOUR, player("e", 1100)];
+    assert.equal(pairing.knockoutRounds(five.length), 3);
+    assert.deepEqual(pairing.knockoutFirstRound(five), [
+      { X: "a", O: null },
+      { X: "d", O: "e" },
+      { X: "b", O: null },
+      { X: "c", O: null },
+    ]);
+  });
+
+  test("winners of neighbouring games meet, and a draw sends O through", () => {
+    const first = round(
+      1,
+      { X: "a", O: null, result: "bye" },
+      { X: "d", O: "e", result: "draw" },
+      { X: "b", O: null, result: "bye" },
+      { X: "c", O: null, result: "bye" }
+    );
+    assert.deepEqual(pairing.knockoutNextRound(first), [
+      { X: "a", O: "e" },
+      { X: "b", O: "c" },
+    ]);
+  });
+});
+
+describe("standings", () => {
+  test("ranks by points, then Buchholz and Sonneborn-Berger", () => {
+    const rows = standings.computeStandings({
+      players: FOUR,
+      rounds: ROUNDS,
+    });
+    assert.deepEqual(
+      rows.map((r) => [r.rank, r.userId, r.points]),
+      [
+        [1, "a", 1.5],
+        [2, "d", 1.5],
+        [3, "c", 1],
+        [4, "b", 0],
+      ]
+    );
+    const [a, d] = rows;
+    // a met c (1) and d (1.5); d met b (0) and a (1.5)
+    assert.equal(a.buchholz, 2.5);
+    assert.equal(d.buchholz, 1.5);
+    // a beat c and drew with d
+    assert.equal(a.sonnebornBerger, 1 + 0.5 * 1.5);
+    assert.deepEqual([a.wins, a.draws, a.losses], [1, 1, 0]);
+  });
+
+  test("a bye scores a point but is no game", () => {
+    const rows = standings.computeStandings({
+      players: FOUR.slice(0, 3),
+      rounds: [
+        round(
+          1,
+          { X: "a", O: "b", result: "O" },
+          { X: "c", O: null, result: "bye" }
+        ),
+      ],
+    });
+    const c = rows.find((r) => r.userId === "c");
+    assert.deepEqual([c.points, c.byes, c.wins, c.buchholz], [1, 1, 0, 0]);
+  });
+});
+
+describe("arena scoring", () => {
+  // games in the order they finished
+  const played = (...games) =>
+    games.map(([X, O, result], i) => ({
+      X,
+      O,
+      result,
+      endedAt: new Date(Date.UTC(2026, 0, 1, 0, i)),
+    }));
+
+  test("wins score double after two in a row, until a game is not won", () => {
+    const rows = arena.arenaStandings({
+      players: FOUR.slice(0, 3),
+      games: played(
+        ["a", "b", "X"],
+        ["c", "a", "O"],
+        ["a", "b", "X"],
+        ["c", "a", "draw"],
+        ["a", "c", "X"],
+        // still being played
+        ["b", "c", null]
+      ),
+    });
+    const [a, c, b] = rows;
+    assert.deepEqual(a.scores, [2, 2, 4, 2, 2]);
+    assert.equal(a.points, 12);
+    assert.equal(a.onStreak, false);
+    assert.deepEqual([a.wins, a.draws, a.losses, a.games], [4, 1, 0, 5]);
+    // c drew once, b lost both games
+    assert.deepEqual(
+      [c.userId, c.points, b.userId, b.points],
+      ["c", 1, "b", 0]
+    );
+  });
+
+  test("a player on a streak is flagged", () => {
+    const [top] = arena.arenaStandings({
+      players: FOUR.slice(0, 2),
+      games: played(["a", "b", "X"], ["b", "a", "O"]),
+    });
+    assert.deepEqual([top.userId, top.streak, top.onStreak], ["a", 2, true]);
+  });
+});
+
+describe("tournament lifecycle", () => {
+  const signUp = (names) =>
+    Promise.all(names.map((name) => storage.users.create({ name })));
+
+  const entry = (user, rating) => ({
+    userId: String(user._id),
+    name: user.name,
+    avatar: null,
+    rating,
+  });
+
+  test("registration is open until the creator starts it", async () => {
+    const [owner, other] = await signUp(["Owner", "Other"]);
+    assert.deepEqual(
+      await tournaments.createTournament({ id: owner._id }, { name: " " }),
+      { error: "invalid-name" }
+    );
+    const { tournament } = await tournaments.createTournament(
+      { id: String(owner._id) },
+      { name: "Cup", format: "swiss", rounds: 99 }
+    );
+    assert.equal(tournament.roundCount, tournaments.MAX_SWISS_ROUNDS);
+    const id = tournament._id;
+
+    await tournaments.joinTournament(id, entry(owner, 1300));
+    assert.deepEqual(await tournaments.joinTournament(id, entry(owner, 1300)), {
+      error: "already-joined",
+    });
+    assert.deepEqual(await tournaments.startTournament(id, owner._id), {
+      error: "too-few-players",
+    });
+    await tournaments.joinTournament(id, entry(other, 1200));
+    assert.deepEqual(await tournaments.startTournament(id, other._id), {
+      error: "not-owner",
+    });
+
+    const started = await tournaments.startTournament(id, owner._id);
+    assert.equal(started.tournament.status, "running");
+    assert.equal(started.round.number, 1);
+    assert.deepEqual(await tournaments.leaveTournament(id, other._id), {
+      error: "closed",
+    });
+    assert.deepEqual(await tournaments.startTournament(id, owner._id), {
+      error: "closed",
+    });
+  });
+
+  test("swiss rounds are paired once the last result is in", async () => {
+    const [owner, b, c] = await signUp(["Top", "Mid", "Low"]);
+    const { tournament } = await tournaments.createTournament(
+      { id: String(owner._id) },
+      { name: "Swiss", format: "swiss", rounds: 2 }
+    );
+    const id = tournament._id;
+    await tournaments.joinTournament(id, entry(owner, 1500));
+    await tournaments.joinTournament(id, entry(b, 1400));
+    await tournaments.joinTournament(id, entry(c, 1300));
+
+    const { round: first } = await tournaments.startTournament(id, owner._id);
+    // the bye is settled at once; the game waits for its result
+    assert.deepEqual(first.pairings.map((p) => p.result), [null, "bye"]);
+    const second = await tournaments.recordResult(id, 1, 0, "X");
+    assert.equal(second.round.number, 2);
+    assert.deepEqual(await tournaments.recordResult(id, 1, 0, "O"), {
+      error: "recorded",
+    });
+
+    const game = second.round.pairings.findIndex((p) => p.O);
+    const done = await tournaments.recordResult(id, 2, game, "draw");
+    assert.equal(done.finished, true);
+    assert.equal(done.tournament.status, "finished");
+
+    const { tournament: final } = await tournaments.getTournament(id);
+    const view = tournaments.publicTournament(final, { details: true });
+    assert.equal(view.rounds.length, 2);
+    assert.equal(view.standings[0].userId, String(owner._id));
+  });
+
+  test("a knockout tournament ends with its final", async () => {
+    const players = await signUp(["K1", "K2", "K3", "K4"]);
+    const { tournament } = await tournaments.createTournament(
+      { id: String(players[0]._id) },
+      { name: "Knockout", format: "knockout" }
+    );
+    const id = tournament._id;
+    for (const [i, user] of players.entries()) {
+      await tournaments.joinTournament(id, entry(user, 1500 - i * 100));
+    }
+    const started = await tournaments.startTournament(id, players[0]._id);
+    assert.equal(started.tournament.roundCount, 2);
+
+    await tournaments.recordResult(id, 1, 0, "X");
+    const final = await tournaments.recordResult(id, 1, 1, "O");
+    // seed 1 beat seed 4; seed 3 beat seed 2
+    assert.deepEqual(
+      [final.round.pairings[0].X, final.round.pairings[0].O],
+      [String(players[0]._id), String(players[2]._id)]
+    );
+    const done = await tournaments.recordResult(id, 2, 0, "draw");
+    assert.equal(done.finished, true);
+  });
+
+  test("an arena runs for its duration and takes latecomers", async () => {
+    const [owner, b, late] = await signUp(["A1", "A2", "A3"]);
+    const { tournament } = await tournaments.createTournament(
+      { id: String(owner._id) },
+      { name: "Arena", format: "arena", duration: 15 }
+    );
+    const id = tournament._id;
+    assert.equal(tournament.duration, 15);
+    await tournaments.joinTournament(id, entry(owner, 1500));
+    await tournaments.joinTournament(id, entry(b, 1400));
+
+    const { tournament: started, round } = await tournaments.startTournament(
+      id,
+      owner._id
+    );
+    assert.equal(round, undefined);
+    assert.equal(started.endsAt - started.startedAt, 15 * 60 * 1000);
+    assert.equal(tournaments.arenaOpen(started), true);
+    const joined = await tournaments.joinTournament(id, entry(late, 1300));
+    assert.equal(joined.tournament.players.length, 3);
+
+    const [X, O] = [String(owner._id), String(b._id)];
+    await tournaments.addArenaGame(id, { X, O, roomId: "arena-room-1" });
+    const settled = await tournaments.recordArenaResult(
+      id,
+      "arena-room-1",
+      "X"
+    );
+    const view = tournaments.publicTournament(settled.tournament, {
+      details: true,
+    });
+    assert.equal(view.gamesPlayed, 1);
+    assert.deepEqual(
+      view.standings.map((r) => [r.userId, r.points]),
+      [
+        [X, 2],
+        [O, 0],
+        [String(late._id), 0],
+      ]
+    );
+    assert.deepEqual(
+      await tournaments.recordArenaResult(id, "arena-room-1", "O"),
+      { error: "recorded" }
+    );
+
+    // a game still being played when the arena ends does not count
+    await tournaments.addArenaGame(id, { X: O, O: X, roomId: "arena-room-2" });
+    const { tournament: ended } = await tournaments.finishArena(id);
+    assert.equal(tournaments.arenaOpen(ended), false);
+    assert.deepEqual(
+      await tournaments.recordArenaResult(id, "arena-room-2", "X"),
+      { error: "recorded" }
+    );
+    assert.deepEqual(await tournaments.finishArena(id), { error: "closed" });
+  });
+});
@@ -0,0 +1,90 @@
+import { test, describe, before } from "node:test";
+import assert from "node:assert/strict";
+
+// read once, on the first getRateLimit call
+process.env.SOCKET_RATE_LIMITS = JSON.stringify({
+  "make-move": { capacity: 9, perSecond: "fast" },
+  "chat-message": { capacity: 10, perSecond: 2 },
+});
+
+let validation;
+
+before(async () => {
+  validation = await import("../src/validation.js");
+});
+
+describe("validatePayload", () => {
+  const move = (payload) =>
+    validation.validatePayload(validation.EVENT_SCHEMAS["make-move"], payload);
+
+  test("keeps the fields of the schema and strips the others", () => {
+    assert.deepEqual(move({ roomId: "r1", row: 3, col: 4, admin: true }), {
+      value: { roomId: "r1", row: 3, col: 4 },
+    });
+  });
+
+  test("rejects rows and columns off every board", () => {
+    assert.deepEqual(move({ roomId: "r1", row: -1, col: 0 }).error, {
+      field: "row",
+      message: "must be at least 0",
+    });
+    assert.equal(move({ roomId: "r1", row: 0, col: 99 }).error.field, "col");
+    assert.equal(
+      move({ roomId: "r1", row: 1.5, col: 0 }).error.message,
+      "must be an integer"
+    );
+  });
+
+  test("requires the required fields", () => {
+    assert.deepEqual(move({ row: 0, col: 0 }).error, {
+      field: "roomId",
+      message: "is required",
+    });
+    assert.equal(move({ roomId: "  ", row: 0, col: 0 }).error.field, "roomId");
+    assert.equal(move(null).error.field, "roomId");
+    assert.deepEqual(move([]).error, {
+      field: null,
+      message: "payload must be an object",
+    });
+  });
+});
+
+describe("rate limits", () => {
+  test("a bucket refills over time and says when to retry", () => {
+    const bucket = validation.createTokenBucket(
+      { capacity: 2, perSecond: 4 },
+      0
+    );
+    assert.equal(bucket.take(0), 0);
+    assert.equal(bucket.take(0), 0);
+    // one token comes back every 250 ms
+    assert.equal(bucket.take(0), 250);
+    assert.equal(bucket.take(100), 150);
+    assert.equal(bucket.take(250), 0);
+    // never more than the capacity
+    assert.equal(bucket.take(10000), 0);
+    assert.equal(bucket.take(10000), 0);
+    assert.equal(bucket.take(10000), 250);
+  });
+
+  test("SOCKET_RATE_LIMITS overrides the valid parts of a limit", () => {
+    assert.deepEqual(validation.getRateLimit("chat-message"), {
+      capacity: 10,
+      perSecond: 2,
+    });
+    // perSecond is not a number, so the schema's own value stays
+    assert.deepEqual(validation.getRateLimit("make-move"), {
+      capacity: 9,
+      perSecond: 2,
+    });
+    assert.deepEqual(validation.getRateLimit("offer-draw"), {
+      capacity: 2,
+      perSecond: 0.2,
+    });
+    // events without a limit of their own
+    assert.deepEqual(validation.getRateLimit("request-rooms"), {
+      capacity: 20,
+      perSecond: 10,
+    });
+  });
+});